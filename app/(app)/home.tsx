@@ -1,26 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { ScrollView, TextInput, TouchableOpacity, StyleSheet, Platform, View, Animated, Switch, Text, SafeAreaView } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { auth } from '@/config/firebase';
-import { generateRecipeSuggestions } from '@/services/recipeService';
+import { streamRecipeSuggestions, GenerateRecipesOptions } from '@/services/recipeService';
+import { clearRecipeCache } from '@/services/recipeCacheService';
 import { Recipe } from '@/types/recipe';
 import { DietaryPreferences } from '@/types/dietary';
 import DietaryPreferencesComponent from '@/components/DietaryPreferences';
+import GenerationOptionsComponent from '@/components/GenerationOptions';
 import RecipeFiltersComponent, { RecipeFilters } from '@/components/RecipeFilters';
-import { filterRecipes, countActiveFilters } from '@/utils/recipeFilters';
-import { router } from 'expo-router';
+import { filterRecipes, countActiveFilters, getDefaultFilters, sortRecipes, RecipeSort, RECIPE_SORT_OPTIONS } from '@/utils/recipeFilters';
+import { getDietaryBadges } from '@/utils/dietaryCompliance';
+import { router, useFocusEffect } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { logEvent, RecipeEvents } from '@/config/firebase';
 import { usePremiumFeature } from '@/context/PremiumFeatureContext';
-import { trackIngredientSearch } from '@/services/analyticsService';
+import { trackIngredientSearch, trackUpgradePromptClick } from '@/services/analyticsService';
+import { QuotaStatus, getQuotaStatus, describeQuotaRemaining } from '@/services/quotaService';
+import { GENERATION_QUOTAS } from '@/constants/GenerationQuotas';
+import { PantryItem, getPantryItemsWithModes } from '@/services/pantryservice';
 
 
 const HomeScreen: React.FC = () => {
   const [ingredients, setIngredients] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryHint, setRetryHint] = useState<string | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
   const [recipes, setRecipes] = useState<Recipe[] | null>(null);
   const [filteredRecipes, setFilteredRecipes] = useState<Recipe[] | null>(null);
   const [username, setUsername] = useState<string>('');
@@ -31,19 +39,19 @@ const HomeScreen: React.FC = () => {
     preferences: [],
   });
   
+  // Recipe count, creative/basic mix, meal type and cuisine
+  const [generationOptions, setGenerationOptions] = useState<GenerateRecipesOptions>({});
+  
   // Recipe filters state
-  const [recipeFilters, setRecipeFilters] = useState<RecipeFilters>({
-    timeRange: { min: null, max: null },
-    difficulty: [],
-    nutrition: {
-      calories: { min: null, max: null },
-      protein: { min: null, max: null },
-    },
-  });
+  const [recipeFilters, setRecipeFilters] = useState<RecipeFilters>(getDefaultFilters());
+  const [recipeSort, setRecipeSort] = useState<RecipeSort>('suggested');
+  const [pantryItems, setPantryItems] = useState<PantryItem[]>([]);
 
   const [bounceAnim] = useState(new Animated.Value(1));
 
   const { premiumEnabled, setPremiumEnabled } = usePremiumFeature();
+  // Set once the user has asked for premium from the quota prompt
+  const [premiumRequested, setPremiumRequested] = useState(false);
 
   useEffect(() => {
     const user = auth.currentUser;
@@ -66,6 +74,21 @@ const HomeScreen: React.FC = () => {
     };
   }, [screenStartTime, recipes]);
   
+  // Reload on focus so changes made on the pantry screen show up
+  useFocusEffect(
+    useCallback(() => {
+      if (!auth.currentUser) return;
+      getPantryItemsWithModes()
+        .then(setPantryItems)
+        .catch(err => console.error('Failed to load pantry:', err));
+    }, [])
+  );
+
+  // The proxy counts generations, so its status is the one to show
+  useEffect(() => {
+    getQuotaStatus().then(setQuota);
+  }, []);
+
   // Effect to apply filters when recipes or filters change
   useEffect(() => {
     if (recipes) {
@@ -91,6 +114,9 @@ const HomeScreen: React.FC = () => {
 
     setIsLoading(true);
     setError(null);
+    setRetryHint(null);
+    setRecipes(null);
+    setFilteredRecipes(null);
 
     const ingredientsList = ingredients.split(',').map(ingredient => ingredient.trim()).filter(Boolean);
     
@@ -100,13 +126,25 @@ const HomeScreen: React.FC = () => {
     }
 
     try {
-      const result = await generateRecipeSuggestions(ingredients, dietaryPreferences);
-      if (result.error) {
-        setError(result.error);
-      } else {
+      // Show each recipe as soon as it has streamed in
+      const result = await streamRecipeSuggestions(ingredients, dietaryPreferences, recipe => {
+        setRecipes(prev => [...(prev || []), recipe]);
+      }, generationOptions);
+      // Cached results don't count against the quota and carry no status
+      if (result.quota !== undefined) {
+        setQuota(result.quota);
+      }
+      if (result.recipes) {
         setRecipes(result.recipes);
         // Apply initial filtering
-        setFilteredRecipes(filterRecipes(result.recipes || [], recipeFilters));
+        setFilteredRecipes(filterRecipes(result.recipes, recipeFilters));
+      }
+      if (result.error) {
+        // Partial results stay on screen, with the error explaining why some are missing
+        setError(result.partial
+          ? `${result.error} Showing the ${result.recipes?.length === 1 ? 'recipe' : 'recipes'} that arrived.`
+          : result.error);
+        setRetryHint(result.retryHint || null);
       }
     } catch (err) {
       setError('Failed to generate recipes. Please try again.');
@@ -115,6 +153,26 @@ const HomeScreen: React.FC = () => {
     }
   };
 
+  // Optional pantry items picked to feature in the next generation
+  const toggleFeaturedItem = (item: string) => {
+    const featured = generationOptions.featuredPantryItems || [];
+    setGenerationOptions({
+      ...generationOptions,
+      featuredPantryItems: featured.includes(item)
+        ? featured.filter(i => i !== item)
+        : [...featured, item],
+    });
+  };
+
+  // Premium is granted server-side through the premium claim, so this only
+  // records the request for the team to follow up
+  const handleRequestPremium = () => {
+    if (quota) {
+      trackUpgradePromptClick(quota);
+    }
+    setPremiumRequested(true);
+  };
+
   const handleApplyFilters = () => {
     if (recipes) {
       setFilteredRecipes(filterRecipes(recipes, recipeFilters));
@@ -130,6 +188,8 @@ const HomeScreen: React.FC = () => {
 
   const handleSignOut = async () => {
     try {
+      // Cached suggestions belong to this user; clear them while the uid is known
+      await clearRecipeCache();
       await auth.signOut();
       router.replace('/(auth)/login');
     } catch (error) {
@@ -170,7 +230,10 @@ const HomeScreen: React.FC = () => {
             </View>
 
             <View style={styles.toggleContainer}>
-              <Text style={styles.toggleLabel}>Enable Premium Features</Text>
+              <View style={styles.toggleTextContainer}>
+                <Text style={styles.toggleLabel}>Preview Premium Screens</Text>
+                <Text style={styles.toggleHint}>On this device only; your generation limits don't change</Text>
+              </View>
               <Switch
                 value={premiumEnabled}
                 onValueChange={(value) => {
@@ -199,6 +262,47 @@ const HomeScreen: React.FC = () => {
                   placeholderTextColor="#C0C0C0"
                 />
               </View>
+
+              <View style={styles.toggleContainer}>
+                <View style={styles.toggleTextContainer}>
+                  <Text style={styles.toggleLabel}>Only use what I have</Text>
+                  <Text style={styles.toggleHint}>These ingredients, your pantry and basic staples</Text>
+                </View>
+                <Switch
+                  value={!!generationOptions.pantryOnly}
+                  onValueChange={(value) => setGenerationOptions({ ...generationOptions, pantryOnly: value })}
+                  trackColor={{ false: '#767577', true: '#FF8B8B' }}
+                  thumbColor={generationOptions.pantryOnly ? '#FF6B6B' : '#f4f3f4'}
+                  ios_backgroundColor="#3e3e3e"
+                />
+              </View>
+
+              {pantryItems.some(item => item.mode !== 'exclude') && (
+                <View style={styles.featuredSection}>
+                  <Text style={styles.toggleLabel}>Feature from your pantry</Text>
+                  <Text style={styles.toggleHint}>Other pantry items are only used where they fit</Text>
+                  <View style={styles.featuredChips}>
+                    {pantryItems.filter(item => item.mode !== 'exclude').map(item => {
+                      const always = item.mode === 'always';
+                      const selected = always || !!generationOptions.featuredPantryItems?.includes(item.name);
+                      return (
+                        <TouchableOpacity
+                          key={item.name}
+                          style={[styles.featuredChip, selected && styles.featuredChipSelected]}
+                          onPress={() => toggleFeaturedItem(item.name)}
+                          // 'always' items are featured every time; change that on the pantry screen
+                          disabled={always}
+                        >
+                          <Text style={[styles.featuredChipText, selected && styles.featuredChipTextSelected]}>
+                            {item.name}
+                          </Text>
+                          {always && <MaterialIcons name="push-pin" size={14} color="#FF6B6B" style={styles.featuredChipIcon} />}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
             </View>
 
             <View style={styles.preferencesSection}>
@@ -211,6 +315,17 @@ const HomeScreen: React.FC = () => {
                 onUpdate={setDietaryPreferences}
               />
             </View>
+
+            <View style={styles.preferencesSection}>
+              <ThemedText style={styles.sectionTitle}>
+                <MaterialIcons name="tune" size={24} color="#FFB6B6" />
+                {" "}Recipe Options
+              </ThemedText>
+              <GenerationOptionsComponent
+                options={generationOptions}
+                onUpdate={setGenerationOptions}
+              />
+            </View>
             
             <Animated.View style={{ transform: [{ scale: bounceAnim }] }}>
               <TouchableOpacity 
@@ -235,10 +350,38 @@ const HomeScreen: React.FC = () => {
               </TouchableOpacity>
             </Animated.View>
 
+            {quota && !quota.exhaustedPeriod && (
+              <ThemedText style={styles.quotaText}>{describeQuotaRemaining(quota)}</ThemedText>
+            )}
+
+            {quota?.exhaustedPeriod && quota.tier === 'free' && (
+              <View style={styles.upgradeContainer}>
+                <MaterialIcons name="star" size={24} color="#FFD166" />
+                <View style={styles.upgradeTextContainer}>
+                  <ThemedText style={styles.upgradeTitle}>Out of free generations</ThemedText>
+                  <ThemedText style={styles.upgradeText}>
+                    {premiumRequested
+                      ? "You're on the list. We'll let you know when Premium opens."
+                      : `Premium, with ${GENERATION_QUOTAS.premium.daily} recipe generations a day, is coming soon.`}
+                  </ThemedText>
+                </View>
+                {!premiumRequested && (
+                  <TouchableOpacity style={styles.upgradeButton} onPress={handleRequestPremium}>
+                    <ThemedText style={styles.upgradeButtonText}>JOIN WAITLIST</ThemedText>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
             {error && (
               <View style={styles.errorContainer}>
                 <MaterialIcons name="error" size={20} color="#FF3B30" />
-                <ThemedText style={styles.errorText}>{error}</ThemedText>
+                <View style={styles.errorTextContainer}>
+                  <ThemedText style={styles.errorText}>{error}</ThemedText>
+                  {retryHint && (
+                    <ThemedText style={styles.retryHintText}>{retryHint}</ThemedText>
+                  )}
+                </View>
               </View>
             )}
 
@@ -246,7 +389,9 @@ const HomeScreen: React.FC = () => {
               <View style={styles.loadingContainer}>
                 <MaterialIcons name="restaurant" size={24} color="#FFF" />
                 <ThemedText style={styles.loadingText}>
-                  🧑‍🍳 Creating delicious suggestions for you...
+                  {recipes?.length
+                    ? '🧑‍🍳 More recipes on the way...'
+                    : '🧑‍🍳 Creating delicious suggestions for you...'}
                 </ThemedText>
               </View>
             )}
@@ -265,6 +410,25 @@ const HomeScreen: React.FC = () => {
               </View>
             )}
 
+            {filteredRecipes && filteredRecipes.length > 1 && (
+              <View style={styles.sortContainer}>
+                <ThemedText style={styles.sortLabel}>Sort by</ThemedText>
+                {RECIPE_SORT_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.sortChip, recipeSort === option.value && styles.sortChipSelected]}
+                    onPress={() => setRecipeSort(option.value)}
+                  >
+                    <ThemedText
+                      style={[styles.sortChipText, recipeSort === option.value && styles.sortChipTextSelected]}
+                    >
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
             {filteredRecipes && filteredRecipes.length === 0 && recipes && recipes.length > 0 && (
               <View style={styles.noMatchesContainer}>
                 <MaterialIcons name="filter-alt-off" size={48} color="#666" />
@@ -274,14 +438,7 @@ const HomeScreen: React.FC = () => {
                 <TouchableOpacity 
                   style={styles.resetFiltersButton} 
                   onPress={() => {
-                    setRecipeFilters({
-                      timeRange: { min: null, max: null },
-                      difficulty: [],
-                      nutrition: {
-                        calories: { min: null, max: null },
-                        protein: { min: null, max: null },
-                      },
-                    });
+                    setRecipeFilters(getDefaultFilters());
                   }}
                 >
                   <ThemedText style={styles.resetFiltersText}>Reset Filters</ThemedText>
@@ -289,7 +446,7 @@ const HomeScreen: React.FC = () => {
               </View>
             )}
 
-            {filteredRecipes && filteredRecipes.map((recipe, index) => (
+            {filteredRecipes && sortRecipes(filteredRecipes, recipeSort).map((recipe, index) => (
               <TouchableOpacity
                 key={index}
                 style={styles.recipeCard}
@@ -304,6 +461,12 @@ const HomeScreen: React.FC = () => {
                     <MaterialIcons name="arrow-forward" size={24} color="#FF6B6B" />
                   </View>
 
+                  {(recipe.mealType || recipe.cuisine) && (
+                    <ThemedText style={styles.recipeLabels}>
+                      {[recipe.cuisine, recipe.mealType].filter(Boolean).join(' · ')}
+                    </ThemedText>
+                  )}
+
                   <View style={styles.recipeDetails}>
                     <View style={styles.detailItem}>
                       <MaterialIcons name="timer" size={20} color="#666" />
@@ -334,9 +497,27 @@ const HomeScreen: React.FC = () => {
                     </ThemedText>
                   </View>
 
-                  {recipe.dietaryInfo.restrictions.length > 0 && (
+                  {recipe.nutritionFit !== undefined && (
+                    <View style={styles.coverageContainer}>
+                      <MaterialIcons name="track-changes" size={18} color="#4CAF50" />
+                      <ThemedText style={styles.coverageText}>
+                        {recipe.nutritionFit}% fit to your nutrition targets
+                      </ThemedText>
+                    </View>
+                  )}
+
+                  {recipe.pantryCoverage !== undefined && (
+                    <View style={styles.coverageContainer}>
+                      <MaterialIcons name="kitchen" size={18} color="#4CAF50" />
+                      <ThemedText style={styles.coverageText}>
+                        {recipe.pantryCoverage}% of ingredients on hand
+                      </ThemedText>
+                    </View>
+                  )}
+
+                  {getDietaryBadges(recipe).length > 0 && (
                     <View style={styles.dietaryContainer}>
-                      {recipe.dietaryInfo.restrictions.map((restriction, idx) => (
+                      {getDietaryBadges(recipe).map((restriction, idx) => (
                         <View key={idx} style={styles.dietaryBadge}>
                           <MaterialIcons name="check-circle" size={16} color="#4CAF50" />
                           <ThemedText style={styles.dietaryText}>{restriction}</ThemedText>
@@ -499,12 +680,63 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 59, 48, 0.2)',
   },
+  errorTextContainer: {
+    flex: 1,
+    marginLeft: 8,
+  },
   errorText: {
     color: '#FF3B30',
     fontSize: 16,
-    marginLeft: 8,
     fontWeight: '500',
   },
+  retryHintText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  quotaText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    textAlign: 'center',
+    opacity: 0.8,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  upgradeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 209, 102, 0.15)',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 209, 102, 0.4)',
+  },
+  upgradeTextContainer: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  upgradeTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  upgradeText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  upgradeButton: {
+    backgroundColor: '#FF6B6B',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+  },
+  upgradeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   loadingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -552,6 +784,13 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 16,
   },
+  recipeLabels: {
+    fontSize: 14,
+    color: '#888',
+    marginTop: -8,
+    marginBottom: 12,
+    textTransform: 'capitalize',
+  },
   recipeDetails: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -693,6 +932,92 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  toggleTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleHint: {
+    fontSize: 13,
+    color: '#fff',
+    opacity: 0.8,
+    marginTop: 2,
+  },
+  featuredSection: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 12,
+  },
+  featuredChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  featuredChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  featuredChipSelected: {
+    backgroundColor: '#FFFFFF',
+  },
+  featuredChipText: {
+    fontSize: 14,
+    color: '#FFF',
+  },
+  featuredChipTextSelected: {
+    color: '#FF6B6B',
+    fontWeight: '600',
+  },
+  featuredChipIcon: {
+    marginLeft: 4,
+  },
+  sortContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sortLabel: {
+    fontSize: 14,
+    color: '#FFF',
+    marginRight: 8,
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: 8,
+  },
+  sortChipSelected: {
+    backgroundColor: '#FFFFFF',
+  },
+  sortChipText: {
+    fontSize: 14,
+    color: '#FFF',
+  },
+  sortChipTextSelected: {
+    color: '#FF6B6B',
+    fontWeight: '600',
+  },
+  coverageContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  coverageText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    marginLeft: 6,
+    fontWeight: '600',
+  },
 });
 
 export default HomeScreen; 
\ No newline at end of file
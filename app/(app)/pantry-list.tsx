@@ -9,10 +9,14 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import {
-  getPantryItems,
+  getPantryItemsWithModes,
   addPantryItem,
   removePantryItem,
+  setPantryItemMode,
+  PantryItemMode,
+  DEFAULT_PANTRY_ITEM_MODE,
 } from '@/services/pantryservice';
+import { isSameIngredient } from '@/utils/canonicalIngredients';
 import { ThemedView } from '@/components/ThemedView';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import PremiumGuard from '@/components/premiumGuard';
@@ -23,15 +27,23 @@ const defaultPantryItems = [
   'pasta', 'soy sauce', 'vinegar', 'honey', 'garlic'
 ];
 
+const modeOptions: { mode: PantryItemMode; label: string }[] = [
+  { mode: 'always', label: 'Always' },
+  { mode: 'optional', label: 'Optional' },
+  { mode: 'exclude', label: 'Exclude' },
+];
+
 export default function PantryListScreen() {
   const [items, setItems] = useState<string[]>([]);
+  const [modes, setModes] = useState<Record<string, PantryItemMode>>({});
   const [newItem, setNewItem] = useState('');
 
   useEffect(() => {
     (async () => {
       try {
-        const pantry = await getPantryItems();
-        setItems(pantry);
+        const pantry = await getPantryItemsWithModes();
+        setItems(pantry.map(item => item.name));
+        setModes(Object.fromEntries(pantry.map(item => [item.name, item.mode])));
       } catch (err) {
         console.error('Failed to load pantry:', err);
       }
@@ -40,6 +52,13 @@ export default function PantryListScreen() {
 
   const capitalize = (str: string) => str.charAt(0).toUpperCase() + str.slice(1);
 
+  // The pantry already had the item under another name, e.g. "scallions" for "green onions"
+  const keepStoredName = (item: string, stored: string) => {
+    if (stored !== item) {
+      setItems(current => current.filter(i => i !== item));
+    }
+  };
+
   const toggleItem = async (item: string) => {
     const isAdding = !items.includes(item);
     const updatedItems = isAdding
@@ -49,7 +68,7 @@ export default function PantryListScreen() {
 
     try {
       if (isAdding) {
-        await addPantryItem(item);
+        keepStoredName(item, await addPantryItem(item));
       } else {
         await removePantryItem(item);
       }
@@ -58,14 +77,23 @@ export default function PantryListScreen() {
     }
   };
 
+  const changeMode = async (item: string, mode: PantryItemMode) => {
+    setModes({ ...modes, [item]: mode });
+    try {
+      await setPantryItemMode(item, mode);
+    } catch (err) {
+      console.error('Failed to update pantry item mode:', err);
+    }
+  };
+
   const addCustomItem = async () => {
     const item = newItem.trim().toLowerCase();
-    if (item && !items.includes(item)) {
+    if (item && !items.some(existing => isSameIngredient(existing, item))) {
       const updated = [...items, item];
       setItems(updated);
       setNewItem('');
       try {
-        await addPantryItem(item);
+        keepStoredName(item, await addPantryItem(item));
       } catch (err) {
         console.error('Failed to add custom item:', err);
       }
@@ -141,6 +169,37 @@ export default function PantryListScreen() {
               </TouchableOpacity>
             </View>
           </View>
+
+          {/* How each item is used when generating recipes */}
+          {items.length > 0 && (
+            <View style={styles.whiteBoxContainer}>
+              <Text style={styles.sectionTitle}>Use in Recipes</Text>
+              <Text style={styles.sectionHint}>
+                Always: featured in every recipe search. Optional: used where it fits, or when you pick it on the home screen. Exclude: never used.
+              </Text>
+              {items.map((item) => {
+                const itemMode = modes[item] || DEFAULT_PANTRY_ITEM_MODE;
+                return (
+                  <View key={item} style={styles.modeRow}>
+                    <Text style={styles.modeItemText}>{capitalize(item)}</Text>
+                    <View style={styles.modeOptions}>
+                      {modeOptions.map(({ mode, label }) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[styles.modeOption, itemMode === mode && styles.selectedChip]}
+                          onPress={() => changeMode(item, mode)}
+                        >
+                          <Text style={[styles.modeOptionText, itemMode === mode && styles.modeOptionTextSelected]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
         </ScrollView>
       </ThemedView>
     </SafeAreaView>
@@ -174,6 +233,39 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     color: '#333',
   },
+  sectionHint: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  modeItemText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  modeOptions: {
+    flexDirection: 'row',
+  },
+  modeOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+    marginLeft: 6,
+  },
+  modeOptionText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  modeOptionTextSelected: {
+    color: '#fff',
+  },
   itemsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1,22 +1,62 @@
 import React, { useState, useEffect } from 'react';
-import { View, ScrollView, TouchableOpacity, StyleSheet, SafeAreaView, Platform, Alert } from 'react-native';
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Platform,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { Recipe } from '@/types/recipe';
+import { Recipe, IngredientSubstitution } from '@/types/recipe';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import NutritionInfo from '@/components/NutritionInfo';
-import { saveRecipe, isRecipeSaved, deleteRecipe } from '@/services/savedRecipesService';
-import { trackRecipeView, trackRecipeSave, trackScreenView } from '@/services/analyticsService';
+import ComplianceSummary from '@/components/ComplianceSummary';
+import { saveRecipe, isRecipeSaved, deleteRecipe, saveRecipeVersion } from '@/services/savedRecipesService';
+import { refineRecipe } from '@/services/recipeService';
+import { describeRecipeDiff } from '@/utils/recipeDiff';
+import { trackRecipeView, trackRecipeSave, trackScreenView, trackIngredientSubstitutions } from '@/services/analyticsService';
+import SubstitutionOptions from '@/components/SubstitutionOptions';
+import { IngredientRef, swapIngredient } from '@/utils/ingredientSubstitutions';
+import StepDetails from '@/components/StepDetails';
+import ServingsStepper from '@/components/ServingsStepper';
+import { getRecipeServings, scaleRecipe } from '@/utils/recipeScaling';
+import { getDietaryBadges } from '@/utils/dietaryCompliance';
+import UnitSystemToggle from '@/components/UnitSystemToggle';
+import CostEstimate from '@/components/CostEstimate';
+import { convertRecipeUnits } from '@/utils/units';
+import { useUnitPreference } from '@/context/UnitPreferenceContext';
+import { buildInstructionSteps, checkStepDurations, formatTimeSplit } from '@/utils/instructionSteps';
+
+// Earlier versions kept for undo, oldest dropped first
+const MAX_UNDO_STEPS = 10;
+
+const REFINE_SUGGESTIONS = ['Make it spicier', 'Make it vegetarian', 'Cut to 20 minutes'];
 
 export default function RecipePage() {
-  const params = useLocalSearchParams<{ recipe: string }>();
-  const recipe: Recipe = params.recipe ? JSON.parse(params.recipe) : null;
+  // servings is set when opening a saved recipe the user had scaled
+  const params = useLocalSearchParams<{ recipe: string; servings?: string }>();
+  // Kept in state so ingredient swaps update cost and dietary badges
+  const [recipe, setRecipe] = useState<Recipe>(() => (params.recipe ? JSON.parse(params.recipe) : null));
   const [isSaved, setIsSaved] = useState(false);
   const [savedRecipeId, setSavedRecipeId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [screenStartTime] = useState(Date.now());
+  // Versions before each swap or refinement, most recent last
+  const [history, setHistory] = useState<Recipe[]>([]);
+  const [refineText, setRefineText] = useState('');
+  const [refining, setRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [lastChanges, setLastChanges] = useState<string[]>([]);
+  // Servings to show; recipe itself stays as generated, and scaling and units are display-only
+  const [servings, setServings] = useState(() => Number(params.servings) || (recipe ? getRecipeServings(recipe) : 1));
+  const { unitSystem } = useUnitPreference();
 
   useEffect(() => {
     checkIfRecipeIsSaved();
@@ -30,7 +70,8 @@ export default function RecipePage() {
       const timeSpent = Math.round((Date.now() - screenStartTime) / 1000); // Convert to seconds
       trackScreenView('recipe', timeSpent);
     };
-  }, [recipe, screenStartTime]);
+  // Keyed on the route param: swaps and refinements change recipe but aren't new views
+  }, [params.recipe, screenStartTime]);
 
   const checkIfRecipeIsSaved = async () => {
     if (!recipe) return;
@@ -58,7 +99,7 @@ export default function RecipePage() {
         // Track recipe unsave
         trackRecipeSave(recipe, false);
       } else {
-        const recipeId = await saveRecipe(recipe);
+        const recipeId = await saveRecipe(recipe, servings !== getRecipeServings(recipe) ? servings : undefined);
         setIsSaved(true);
         setSavedRecipeId(recipeId);
         Alert.alert('Success', 'Recipe saved to your collection!');
@@ -91,12 +132,74 @@ export default function RecipePage() {
     );
   }
 
+  const steps = recipe.steps || buildInstructionSteps(recipe);
+  const stepTime = checkStepDurations(steps, recipe.timeEstimate);
+  // Scaled to the chosen servings and shown in the user's units
+  const scaledRecipe = convertRecipeUnits(scaleRecipe(recipe, servings), unitSystem);
+
+  const handleSwap = (ref: IngredientRef, substitution: IngredientSubstitution) => {
+    const original = ref.list === 'current'
+      ? recipe.currentIngredients[ref.index]
+      : recipe.extraIngredients[ref.index].item;
+    pushHistory(recipe);
+    setRecipe(swapIngredient(recipe, ref, substitution));
+    setLastChanges([]);
+    trackIngredientSubstitutions(recipe, original, substitution);
+  };
+
+  const pushHistory = (previous: Recipe) => {
+    setHistory(prev => [...prev, previous].slice(-MAX_UNDO_STEPS));
+  };
+
+  // Saved recipes keep every refinement as a new version
+  const storeVersion = async (next: Recipe, instruction: string) => {
+    if (!savedRecipeId) return;
+    try {
+      await saveRecipeVersion(savedRecipeId, next, instruction);
+    } catch (error) {
+      console.error('Error saving recipe version:', error);
+    }
+  };
+
+  const handleRefine = async (instruction: string = refineText) => {
+    if (!instruction.trim() || refining) return;
+
+    setRefining(true);
+    setRefineError(null);
+    try {
+      const result = await refineRecipe(recipe, instruction);
+      if (!result.recipe) {
+        setRefineError([result.error, result.retryHint].filter(Boolean).join(' '));
+        return;
+      }
+
+      pushHistory(recipe);
+      setRecipe(result.recipe);
+      setLastChanges(result.diff ? describeRecipeDiff(result.diff) : []);
+      setRefineText('');
+      await storeVersion(result.recipe, instruction.trim());
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+
+    setHistory(prev => prev.slice(0, -1));
+    setRecipe(previous);
+    setLastChanges([]);
+    setRefineError(null);
+    await storeVersion(previous, 'Undo');
+  };
+
   const handleBackPress = () => {
     router.back();
   };
 
   const renderDietaryBadges = () => {
-    if (!recipe.dietaryInfo.restrictions.length && !recipe.dietaryInfo.allergens.length) {
+    if (!getDietaryBadges(recipe).length && !recipe.dietaryInfo.allergens.length && !recipe.compliance) {
       return null;
     }
 
@@ -107,7 +210,7 @@ export default function RecipePage() {
           {" "}Dietary Information
         </ThemedText>
         <View style={styles.badgesContainer}>
-          {recipe.dietaryInfo.restrictions.map((restriction, index) => (
+          {getDietaryBadges(recipe).map((restriction, index) => (
             <LinearGradient
               key={`restriction-${index}`}
               colors={['#F0F9F0', '#E8F5E8']}
@@ -134,6 +237,7 @@ export default function RecipePage() {
             </LinearGradient>
           ))}
         </View>
+        <ComplianceSummary compliance={recipe.compliance} />
       </View>
     );
   };
@@ -188,22 +292,93 @@ export default function RecipePage() {
                 <MaterialIcons name="timer" size={20} color="#666" />
                 <ThemedText style={styles.infoText}>
                   Time: {recipe.timeEstimate} Minutes
+                  {formatTimeSplit(recipe) ? ` (${formatTimeSplit(recipe)})` : ''}
+                  {stepTime.status === 'over' && (
+                    <ThemedText style={styles.timeWarning}>
+                      {" "}(steps add up to {stepTime.stepMinutes})
+                    </ThemedText>
+                  )}
                 </ThemedText>
               </View>
               <View style={styles.infoRow}>
                 <MaterialIcons name="shopping-cart" size={20} color="#666" />
                 <ThemedText style={styles.infoText}>
-                  Extra Cost: ${recipe.extraIngredientsCost.toFixed(2)}
+                  Extra Cost: ${scaledRecipe.extraIngredientsCost.toFixed(2)}
                 </ThemedText>
               </View>
+              <ServingsStepper
+                servings={servings}
+                baseServings={getRecipeServings(recipe)}
+                onChange={setServings}
+              />
+              <UnitSystemToggle />
+              <CostEstimate recipe={scaledRecipe} />
+            </View>
+
+            {/* Refine */}
+            <View style={styles.refineSection}>
+              <View style={styles.refineHeader}>
+                <ThemedText style={styles.refineTitle}>Refine this recipe</ThemedText>
+                {history.length > 0 && (
+                  <TouchableOpacity style={styles.undoButton} onPress={handleUndo} disabled={refining}>
+                    <MaterialIcons name="undo" size={18} color="#007AFF" />
+                    <ThemedText style={styles.undoText}>Undo</ThemedText>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <View style={styles.suggestionRow}>
+                {REFINE_SUGGESTIONS.map(suggestion => (
+                  <TouchableOpacity
+                    key={suggestion}
+                    style={styles.suggestionChip}
+                    onPress={() => handleRefine(suggestion)}
+                    disabled={refining}
+                  >
+                    <ThemedText style={styles.suggestionText}>{suggestion}</ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.refineInputRow}>
+                <TextInput
+                  style={styles.refineInput}
+                  value={refineText}
+                  onChangeText={setRefineText}
+                  placeholder='e.g. "swap the chicken for tofu"'
+                  onSubmitEditing={() => handleRefine()}
+                  editable={!refining}
+                />
+                <TouchableOpacity
+                  style={[styles.refineButton, (!refineText.trim() || refining) && styles.refineButtonDisabled]}
+                  onPress={() => handleRefine()}
+                  disabled={!refineText.trim() || refining}
+                >
+                  {refining ? (
+                    <ActivityIndicator size="small" color="#FFF" />
+                  ) : (
+                    <MaterialIcons name="auto-fix-high" size={20} color="#FFF" />
+                  )}
+                </TouchableOpacity>
+              </View>
+              {refineError && <ThemedText style={styles.refineError}>{refineError}</ThemedText>}
+              {lastChanges.length > 0 && (
+                <View style={styles.changesList}>
+                  {lastChanges.map((change, index) => (
+                    <ThemedText key={index} style={styles.changeText}>• {change}</ThemedText>
+                  ))}
+                </View>
+              )}
             </View>
 
             {/* Dietary Information */}
             {renderDietaryBadges()}
 
             {/* Nutrition Information */}
-            {recipe.nutritionInfo && (
-              <NutritionInfo nutritionInfo={recipe.nutritionInfo} />
+            {scaledRecipe.nutritionInfo && (
+              <NutritionInfo
+                nutritionInfo={scaledRecipe.nutritionInfo}
+                unitSystem={unitSystem}
+                estimate={scaledRecipe.nutritionEstimate}
+              />
             )}
 
             {/* Current Ingredients */}
@@ -212,11 +387,17 @@ export default function RecipePage() {
                 <MaterialIcons name="kitchen" size={24} color="#FF6B6B" />
                 {" "}Available Ingredients
               </ThemedText>
-              {recipe.currentIngredients && recipe.currentIngredients.length > 0 ? (
-                recipe.currentIngredients.map((ingredient, index) => (
-                  <View key={index} style={styles.ingredientItem}>
-                    <MaterialIcons name="check" size={20} color="#4CAF50" />
-                    <ThemedText style={styles.listItem}>{ingredient}</ThemedText>
+              {scaledRecipe.currentIngredients && scaledRecipe.currentIngredients.length > 0 ? (
+                scaledRecipe.currentIngredients.map((ingredient, index) => (
+                  <View key={index}>
+                    <View style={styles.ingredientItem}>
+                      <MaterialIcons name="check" size={20} color="#4CAF50" />
+                      <ThemedText style={styles.listItem}>{ingredient}</ThemedText>
+                    </View>
+                    <SubstitutionOptions
+                      substitutions={scaledRecipe.currentSubstitutions?.[index]}
+                      onSwap={(substitution) => handleSwap({ list: 'current', index }, substitution)}
+                    />
                   </View>
                 ))
               ) : (
@@ -230,16 +411,22 @@ export default function RecipePage() {
                 <MaterialIcons name="add-shopping-cart" size={24} color="#FF6B6B" />
                 {" "}Shopping List
               </ThemedText>
-              {recipe.extraIngredients && recipe.extraIngredients.length > 0 ? (
-                recipe.extraIngredients.map((ingredient, index) => (
-                  <View key={index} style={styles.ingredientItem}>
-                    <MaterialIcons name="add" size={20} color="#FF6B6B" />
-                    <ThemedText style={styles.listItem}>
-                      {ingredient.item}
-                      <ThemedText style={styles.ingredientDetail}>
-                        {" "}(${ingredient.cost.toFixed(2)} for {ingredient.amount})
+              {scaledRecipe.extraIngredients && scaledRecipe.extraIngredients.length > 0 ? (
+                scaledRecipe.extraIngredients.map((ingredient, index) => (
+                  <View key={index}>
+                    <View style={styles.ingredientItem}>
+                      <MaterialIcons name="add" size={20} color="#FF6B6B" />
+                      <ThemedText style={styles.listItem}>
+                        {ingredient.item}
+                        <ThemedText style={styles.ingredientDetail}>
+                          {" "}(${ingredient.cost.toFixed(2)} for {ingredient.amount})
+                        </ThemedText>
                       </ThemedText>
-                    </ThemedText>
+                    </View>
+                    <SubstitutionOptions
+                      substitutions={ingredient.substitutions}
+                      onSwap={(substitution) => handleSwap({ list: 'extra', index }, substitution)}
+                    />
                   </View>
                 ))
               ) : (
@@ -253,8 +440,8 @@ export default function RecipePage() {
                 <MaterialIcons name="format-list-numbered" size={24} color="#FF6B6B" />
                 {" "}Cooking Steps
               </ThemedText>
-              {recipe.instructions && recipe.instructions.length > 0 ? (
-                recipe.instructions.map((instruction, index) => (
+              {steps.length > 0 ? (
+                steps.map((step, index) => (
                   <View key={index} style={styles.instructionItem}>
                     <LinearGradient
                       colors={['#FF6B6B', '#FF8B8B']}
@@ -262,7 +449,10 @@ export default function RecipePage() {
                     >
                       <ThemedText style={styles.stepNumberText}>{index + 1}</ThemedText>
                     </LinearGradient>
-                    <ThemedText style={styles.instructionText}>{instruction}</ThemedText>
+                    <View style={styles.instructionContent}>
+                      <ThemedText style={styles.instructionText}>{step.text}</ThemedText>
+                      <StepDetails step={step} />
+                    </View>
                   </View>
                 ))
               ) : (
@@ -373,6 +563,84 @@ const styles = StyleSheet.create({
   dietarySection: {
     marginBottom: 24,
   },
+  refineSection: {
+    backgroundColor: '#FFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+  },
+  refineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  refineTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 4,
+  },
+  undoText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginLeft: 4,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  suggestionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F0F0F0',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: '#4A4A4A',
+  },
+  refineInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  refineInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  refineButton: {
+    backgroundColor: '#FF6B6B',
+    borderRadius: 8,
+    padding: 10,
+  },
+  refineButtonDisabled: {
+    opacity: 0.5,
+  },
+  refineError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  changesList: {
+    marginTop: 8,
+  },
+  changeText: {
+    fontSize: 14,
+    color: '#4A4A4A',
+  },
   badgesContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -458,12 +726,18 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  instructionContent: {
+    flex: 1,
+  },
   instructionText: {
     fontSize: 16,
     color: '#4A4A4A',
-    flex: 1,
     lineHeight: 24,
   },
+  timeWarning: {
+    fontSize: 14,
+    color: '#E65100',
+  },
   emptyText: {
     fontSize: 16,
     color: '#666',
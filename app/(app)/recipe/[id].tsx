@@ -6,12 +6,18 @@ import { Recipe } from '@/types/recipe';
 import { isRecipeSaved, saveRecipe, deleteRecipe } from '@/services/savedRecipesService';
 import { trackRecipeView, trackRecipeSave } from '@/services/analyticsService';
 import { isFeatureEnabled, getABTestVariant } from '@/services/featureFlagService';
+import ServingsStepper from '@/components/ServingsStepper';
+import { getRecipeServings, scaleRecipe } from '@/utils/recipeScaling';
+import { getDietaryBadges } from '@/utils/dietaryCompliance';
 
 interface LayoutProps {
   recipe: Recipe;
   isSaved: boolean;
   onSaveToggle: () => Promise<void>;
   variant?: string;
+  servings: number;
+  baseServings: number;
+  onServingsChange: (servings: number) => void;
 }
 
 export default function RecipeScreen() {
@@ -21,6 +27,7 @@ export default function RecipeScreen() {
   const [loading, setLoading] = useState(true);
   const [useNewLayout, setUseNewLayout] = useState(false);
   const [layoutVariant, setLayoutVariant] = useState<string>('control');
+  const [servings, setServings] = useState(1);
 
   useEffect(() => {
     const loadRecipe = async () => {
@@ -68,6 +75,7 @@ export default function RecipeScreen() {
         };
         
         setRecipe(recipeData);
+        setServings(getRecipeServings(recipeData));
         
         // Check if this recipe is saved
         const savedId = await isRecipeSaved(recipeData.name);
@@ -109,11 +117,12 @@ export default function RecipeScreen() {
           Alert.alert('Recipe removed from saved recipes');
         }
       } else {
-        await saveRecipe(recipe);
+        // Saved as generated; the chosen servings are only a display preference
+        await saveRecipe(recipe, servings !== getRecipeServings(recipe) ? servings : undefined);
         setIsSaved(true);
         
         // Track recipe save for analytics
-        trackRecipeSave(recipe);
+        trackRecipeSave(recipe, true);
         
         Alert.alert('Recipe saved successfully');
       }
@@ -139,24 +148,32 @@ export default function RecipeScreen() {
     );
   }
 
+  const servingsProps = {
+    servings,
+    baseServings: getRecipeServings(recipe),
+    onServingsChange: setServings,
+  };
+
   // Choose layout based on feature flag and A/B test
   return useNewLayout ? (
     <NewRecipeLayout 
-      recipe={recipe} 
+      recipe={scaleRecipe(recipe, servings)} 
       isSaved={isSaved} 
       onSaveToggle={handleSaveToggle}
       variant={layoutVariant}
+      {...servingsProps}
     />
   ) : (
     <DefaultRecipeLayout 
-      recipe={recipe} 
+      recipe={scaleRecipe(recipe, servings)} 
       isSaved={isSaved} 
       onSaveToggle={handleSaveToggle} 
+      {...servingsProps}
     />
   );
 }
 
-function DefaultRecipeLayout({ recipe, isSaved, onSaveToggle }: LayoutProps) {
+function DefaultRecipeLayout({ recipe, isSaved, onSaveToggle, servings, baseServings, onServingsChange }: LayoutProps) {
   return (
     <ScrollView style={styles.container}>
       <Stack.Screen
@@ -194,12 +211,13 @@ function DefaultRecipeLayout({ recipe, isSaved, onSaveToggle }: LayoutProps) {
             <Text style={styles.infoText}>${recipe.extraIngredientsCost}</Text>
           </View>
         </View>
+        <ServingsStepper servings={servings} baseServings={baseServings} onChange={onServingsChange} />
       </View>
 
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Dietary Information</Text>
         <View style={styles.tagsContainer}>
-          {recipe.dietaryInfo.restrictions.map((info, index) => (
+          {getDietaryBadges(recipe).map((info, index) => (
             <View key={index} style={styles.tag}>
               <Text style={styles.tagText}>{info}</Text>
             </View>
@@ -265,7 +283,7 @@ function DefaultRecipeLayout({ recipe, isSaved, onSaveToggle }: LayoutProps) {
 }
 
 // This would be a new layout enabled by feature flag
-function NewRecipeLayout({ recipe, isSaved, onSaveToggle, variant }: LayoutProps) {
+function NewRecipeLayout({ recipe, isSaved, onSaveToggle, variant, servings, baseServings, onServingsChange }: LayoutProps) {
   // In real implementation, you would have different layouts based on variant
   const isVariantA = variant === 'variant';
   
@@ -309,6 +327,7 @@ function NewRecipeLayout({ recipe, isSaved, onSaveToggle, variant }: LayoutProps
               <Text style={styles.infoText}>${recipe.extraIngredientsCost}</Text>
             </View>
           </View>
+          <ServingsStepper servings={servings} baseServings={baseServings} onChange={onServingsChange} />
         </View>
         
         {/* Rest of the layout would be similar but with styling differences */}
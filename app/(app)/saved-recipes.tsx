@@ -7,7 +7,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { getSavedRecipes, deleteRecipe, SavedRecipe } from '@/services/savedRecipesService';
 import RecipeFiltersComponent, { RecipeFilters } from '@/components/RecipeFilters';
-import { filterSavedRecipes, countActiveFilters } from '@/utils/recipeFilters';
+import { filterSavedRecipes, countActiveFilters, getDefaultFilters } from '@/utils/recipeFilters';
 import { trackScreenView, trackRecipeDelete, logAnalyticsEvent } from '@/services/analyticsService';
 import PremiumGuard from '@/components/premiumGuard';
 
@@ -19,14 +19,7 @@ export default function SavedRecipesScreen() {
   const [screenStartTime] = useState(Date.now());
   
   // Recipe filters state
-  const [recipeFilters, setRecipeFilters] = useState<RecipeFilters>({
-    timeRange: { min: null, max: null },
-    difficulty: [],
-    nutrition: {
-      calories: { min: null, max: null },
-      protein: { min: null, max: null },
-    },
-  });
+  const [recipeFilters, setRecipeFilters] = useState<RecipeFilters>(getDefaultFilters());
 
   useEffect(() => {
     loadSavedRecipes();
@@ -78,7 +71,10 @@ export default function SavedRecipesScreen() {
   const handleViewRecipe = (recipe: SavedRecipe) => {
     router.push({
       pathname: '/(app)/recipe',
-      params: { recipe: JSON.stringify(recipe.recipe) }
+      params: {
+        recipe: JSON.stringify(recipe.recipe),
+        ...(recipe.servings ? { servings: String(recipe.servings) } : {}),
+      }
     });
   };
 
@@ -206,14 +202,7 @@ export default function SavedRecipesScreen() {
                     <TouchableOpacity 
                       style={styles.resetFiltersButton} 
                       onPress={() => {
-                        setRecipeFilters({
-                          timeRange: { min: null, max: null },
-                          difficulty: [],
-                          nutrition: {
-                            calories: { min: null, max: null },
-                            protein: { min: null, max: null },
-                          },
-                        });
+                        setRecipeFilters(getDefaultFilters());
                       }}
                     >
                       <ThemedText style={styles.resetFiltersText}>Reset Filters</ThemedText>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ComplianceReport } from '@/types/recipe';
+import { describeViolation } from '@/utils/dietaryCompliance';
+
+interface ComplianceSummaryProps {
+  compliance?: ComplianceReport;
+}
+
+/**
+ * Shows the result of checking a recipe's ingredients against the
+ * user's allergies and dietary restrictions
+ */
+export default function ComplianceSummary({ compliance }: ComplianceSummaryProps) {
+  if (!compliance) return null;
+
+  const checked = [...compliance.checkedAllergies.map(allergy => `${allergy} allergy`), ...compliance.checkedRestrictions];
+
+  return (
+    <View style={styles.container}>
+      {checked.length > 0 && (
+        <View style={styles.row}>
+          <MaterialIcons
+            name={compliance.compliant ? 'verified' : 'error-outline'}
+            size={18}
+            color={compliance.compliant ? '#4CAF50' : '#FF9500'}
+          />
+          <Text style={styles.status}>
+            {compliance.compliant
+              ? `Checked against: ${checked.join(', ')}`
+              : `Doesn't fully meet: ${checked.join(', ')}`}
+          </Text>
+        </View>
+      )}
+
+      {compliance.violations.map((violation, index) => (
+        <Text key={`violation-${index}`} style={styles.violation}>
+          • {describeViolation(violation)}
+          {violation.hasSubstitute ? ' (substitute listed)' : ''}
+        </Text>
+      ))}
+
+      {compliance.unverified.length > 0 && (
+        <Text style={styles.note}>
+          Couldn't verify: {compliance.unverified.join(', ')}
+        </Text>
+      )}
+
+      {compliance.detectedAllergens.length > 0 && (
+        <Text style={styles.note}>
+          Contains: {compliance.detectedAllergens.join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  status: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  violation: {
+    fontSize: 14,
+    color: '#C62828',
+    marginBottom: 4,
+  },
+  note: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Recipe } from '@/types/recipe';
+import { PriceCatalog, PriceSettings, PRICE_REGIONS, CURRENCY_SYMBOLS, CurrencyCode } from '@/constants/PriceCatalog';
+import { getPriceCatalog, getPriceSettings, setPriceSettings } from '@/services/priceCatalogService';
+import { trackPriceEstimate } from '@/services/analyticsService';
+import { estimateRecipeCost, formatPrice } from '@/utils/priceEstimator';
+
+interface CostEstimateProps {
+  // As shown, i.e. already scaled to the chosen servings
+  recipe: Recipe;
+}
+
+const CURRENCIES = Object.keys(CURRENCY_SYMBOLS) as CurrencyCode[];
+
+/**
+ * Re-estimates the extra ingredients' cost from the price catalog for the
+ * user's region and currency, with a picker to change them
+ */
+export default function CostEstimate({ recipe }: CostEstimateProps) {
+  const [catalog, setCatalog] = useState<PriceCatalog | null>(null);
+  const [settings, setSettings] = useState<PriceSettings | null>(null);
+  const [showPicker, setShowPicker] = useState(false);
+
+  useEffect(() => {
+    const loadPricing = async () => {
+      const [loadedCatalog, loadedSettings] = await Promise.all([getPriceCatalog(), getPriceSettings()]);
+      setCatalog(loadedCatalog);
+      setSettings(loadedSettings);
+    };
+
+    loadPricing();
+  }, []);
+
+  const estimate = catalog && settings ? estimateRecipeCost(recipe, catalog, settings) : null;
+
+  // Once per recipe and region, not on every servings change
+  useEffect(() => {
+    if (estimate) {
+      trackPriceEstimate(recipe, estimate);
+    }
+  }, [recipe.name, catalog, settings]);
+
+  if (!estimate || !settings) return null;
+
+  const updateSettings = (next: PriceSettings) => {
+    setSettings(next);
+    setPriceSettings(next);
+  };
+
+  const pricedCount = estimate.items.filter(item => item.source === 'catalog').length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <MaterialIcons name="receipt" size={18} color="#666" />
+        <Text style={styles.total}>
+          Estimated {formatPrice(estimate.extraIngredientsCost, estimate.currency)}
+          {' · '}
+          {formatPrice(estimate.costPerServing, estimate.currency)} per serving
+        </Text>
+        <TouchableOpacity onPress={() => setShowPicker(!showPicker)}>
+          <Text style={styles.link}>{PRICE_REGIONS.find(region => region.value === settings.region)?.label}</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>
+        {pricedCount} of {estimate.items.length} extra ingredients priced from our catalog; the rest use the recipe's estimate
+      </Text>
+
+      {showPicker && (
+        <View>
+          <View style={styles.chips}>
+            {PRICE_REGIONS.map(region => (
+              <TouchableOpacity
+                key={region.value}
+                style={[styles.chip, settings.region === region.value && styles.chipSelected]}
+                // A new region switches to its currency; it can be changed below
+                onPress={() => updateSettings({ region: region.value, currency: region.currency })}
+              >
+                <Text style={[styles.chipText, settings.region === region.value && styles.chipTextSelected]}>
+                  {region.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chips}>
+            {CURRENCIES.map(currency => (
+              <TouchableOpacity
+                key={currency}
+                style={[styles.chip, settings.currency === currency && styles.chipSelected]}
+                onPress={() => updateSettings({ ...settings, currency })}
+              >
+                <Text style={[styles.chipText, settings.currency === currency && styles.chipTextSelected]}>
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  total: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 6,
+  },
+  link: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,483 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { GenerateRecipesOptions } from '@/services/recipeService';
+import { MealType, NutritionField, NutritionTargets } from '@/types/recipe';
+import { DietaryPlan } from '@/types/dietary';
+import {
+  MEAL_TYPES,
+  COMMON_CUISINES,
+  MIN_RECIPE_COUNT,
+  MAX_RECIPE_COUNT,
+  DEFAULT_RECIPE_COUNT,
+  DEFAULT_BASIC_COUNT,
+  DEFAULT_PANTRY_STAPLES,
+  DEFAULT_MAX_PANTRY_EXTRAS,
+  MAX_PANTRY_EXTRAS,
+} from '@/constants/RecipeOptions';
+import { NUTRITION_TARGET_FIELDS, NUTRITION_TARGET_PRESETS } from '@/constants/NutritionTargets';
+
+interface GenerationOptionsProps {
+  options: GenerateRecipesOptions;
+  onUpdate: (options: GenerateRecipesOptions) => void;
+}
+
+export default function GenerationOptionsComponent({
+  options,
+  onUpdate,
+}: GenerationOptionsProps) {
+  const [customCuisine, setCustomCuisine] = useState('');
+  // Kept as typed so partial amounts like "7." survive re-renders
+  const [budgetText, setBudgetText] = useState(options.maxExtraCost?.toString() || '');
+  // Kept as typed, like the budget, by field and bound
+  const [targetText, setTargetText] = useState<Record<string, string>>({});
+  const [staplesText, setStaplesText] = useState((options.staples ?? DEFAULT_PANTRY_STAPLES).join(', '));
+
+  const maxExtraIngredients = options.maxExtraIngredients ?? DEFAULT_MAX_PANTRY_EXTRAS;
+
+  const recipeCount = options.recipeCount ?? DEFAULT_RECIPE_COUNT;
+  const basicCount = Math.min(options.basicCount ?? DEFAULT_BASIC_COUNT, recipeCount);
+  const creativeCount = recipeCount - basicCount;
+
+  const capitalize = (str: string) => str.charAt(0).toUpperCase() + str.slice(1);
+
+  const changeRecipeCount = (delta: number) => {
+    const count = Math.min(Math.max(recipeCount + delta, MIN_RECIPE_COUNT), MAX_RECIPE_COUNT);
+    // Keep the basic share within the new total
+    onUpdate({ ...options, recipeCount: count, basicCount: Math.min(basicCount, count) });
+  };
+
+  const changeBasicCount = (delta: number) => {
+    const count = Math.min(Math.max(basicCount + delta, 0), recipeCount);
+    onUpdate({ ...options, recipeCount, basicCount: count });
+  };
+
+  // Tapping the selected meal type again clears it
+  const toggleMealType = (mealType: MealType) => {
+    onUpdate({ ...options, mealType: options.mealType === mealType ? undefined : mealType });
+  };
+
+  const toggleCuisine = (cuisine: string) => {
+    onUpdate({ ...options, cuisine: options.cuisine === cuisine ? undefined : cuisine });
+  };
+
+  const setCustomCuisineOption = () => {
+    const cuisine = customCuisine.trim();
+    if (cuisine) {
+      onUpdate({ ...options, cuisine });
+      setCustomCuisine('');
+    }
+  };
+
+  // An empty or zero budget means no budget
+  const changeBudget = (value: string) => {
+    setBudgetText(value);
+    const amount = parseFloat(value.replace(/[^\d.]/g, ''));
+    onUpdate({ ...options, maxExtraCost: amount > 0 ? amount : undefined });
+  };
+
+  const changeMaxExtraIngredients = (delta: number) => {
+    const count = Math.min(Math.max(maxExtraIngredients + delta, 0), MAX_PANTRY_EXTRAS);
+    onUpdate({ ...options, maxExtraIngredients: count });
+  };
+
+  const changeStaples = (value: string) => {
+    setStaplesText(value);
+    onUpdate({ ...options, staples: value.split(',').map(staple => staple.trim()).filter(Boolean) });
+  };
+
+  const nutritionTargets = options.nutritionTargets || {};
+
+  const readTargetText = (field: NutritionField, bound: 'min' | 'max') =>
+    targetText[`${field}.${bound}`] ?? nutritionTargets[field]?.[bound]?.toString() ?? '';
+
+  const changeTarget = (field: NutritionField, bound: 'min' | 'max', value: string) => {
+    setTargetText({ ...targetText, [`${field}.${bound}`]: value });
+    const amount = parseFloat(value);
+    const range = { ...nutritionTargets[field] };
+    if (Number.isFinite(amount) && amount >= 0) {
+      range[bound] = amount;
+    } else {
+      delete range[bound];
+    }
+    onUpdate({ ...options, nutritionTargets: { ...nutritionTargets, [field]: range } });
+  };
+
+  const applyTargetPreset = (plan: DietaryPlan) => {
+    setTargetText({});
+    onUpdate({ ...options, nutritionTargets: { ...NUTRITION_TARGET_PRESETS[plan] } });
+  };
+
+  const clearTargets = () => {
+    setTargetText({});
+    onUpdate({ ...options, nutritionTargets: undefined });
+  };
+
+  const renderStepper = (value: number, onChange: (delta: number) => void, canDecrease: boolean, canIncrease: boolean) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={[styles.stepperButton, !canDecrease && styles.stepperButtonDisabled]}
+        onPress={() => onChange(-1)}
+        disabled={!canDecrease}
+      >
+        <MaterialIcons name="remove" size={20} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, !canIncrease && styles.stepperButtonDisabled]}
+        onPress={() => onChange(1)}
+        disabled={!canIncrease}
+      >
+        <MaterialIcons name="add" size={20} color="#007AFF" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const isCustomCuisine = !!options.cuisine && !COMMON_CUISINES.includes(options.cuisine);
+
+  return (
+    <View style={styles.container}>
+      {/* Recipe count and mix */}
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Number of recipes</Text>
+        {renderStepper(
+          recipeCount,
+          changeRecipeCount,
+          recipeCount > MIN_RECIPE_COUNT,
+          recipeCount < MAX_RECIPE_COUNT
+        )}
+      </View>
+      <View style={styles.row}>
+        <View>
+          <Text style={styles.rowLabel}>Basic recipes</Text>
+          <Text style={styles.rowHint}>
+            {creativeCount} creative, {basicCount} basic
+          </Text>
+        </View>
+        {renderStepper(basicCount, changeBasicCount, basicCount > 0, basicCount < recipeCount)}
+      </View>
+
+      {/* Meal Type */}
+      <Text style={styles.sectionTitle}>Meal Type</Text>
+      <View style={styles.chipContainer}>
+        {MEAL_TYPES.map((mealType) => (
+          <TouchableOpacity
+            key={mealType}
+            style={[styles.chip, options.mealType === mealType && styles.selectedChip]}
+            onPress={() => toggleMealType(mealType)}
+          >
+            <Text style={[styles.chipText, options.mealType === mealType && styles.selectedText]}>
+              {capitalize(mealType)}
+            </Text>
+            {options.mealType === mealType && (
+              <MaterialIcons name="check" size={16} color="#fff" style={styles.checkIcon} />
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Cuisine */}
+      <Text style={styles.sectionTitle}>Cuisine</Text>
+      <View style={styles.chipContainer}>
+        {COMMON_CUISINES.map((cuisine) => (
+          <TouchableOpacity
+            key={cuisine}
+            style={[styles.chip, options.cuisine === cuisine && styles.selectedChip]}
+            onPress={() => toggleCuisine(cuisine)}
+          >
+            <Text style={[styles.chipText, options.cuisine === cuisine && styles.selectedText]}>
+              {cuisine}
+            </Text>
+            {options.cuisine === cuisine && (
+              <MaterialIcons name="check" size={16} color="#fff" style={styles.checkIcon} />
+            )}
+          </TouchableOpacity>
+        ))}
+
+        {/* Custom cuisine */}
+        {isCustomCuisine && (
+          <TouchableOpacity
+            style={[styles.chip, styles.selectedChip]}
+            onPress={() => toggleCuisine(options.cuisine as string)}
+          >
+            <Text style={[styles.chipText, styles.selectedText]}>{options.cuisine}</Text>
+            <MaterialIcons name="close" size={16} color="#fff" style={styles.checkIcon} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.addCuisineContainer}>
+        <TextInput
+          style={styles.input}
+          value={customCuisine}
+          onChangeText={setCustomCuisine}
+          placeholder="Other cuisine, e.g. Ethiopian"
+          onSubmitEditing={setCustomCuisineOption}
+        />
+        <TouchableOpacity onPress={setCustomCuisineOption} style={styles.addButton}>
+          <MaterialIcons name="add" size={24} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Budget for extra ingredients */}
+      <View style={[styles.row, styles.budgetRow]}>
+        <View style={styles.budgetLabel}>
+          <Text style={styles.rowLabel}>Budget</Text>
+          <Text style={styles.rowHint}>Most to spend on extra ingredients per recipe</Text>
+        </View>
+        <View style={styles.budgetInputContainer}>
+          <Text style={styles.budgetCurrency}>$</Text>
+          <TextInput
+            style={styles.budgetInput}
+            value={budgetText}
+            onChangeText={changeBudget}
+            keyboardType="decimal-pad"
+            placeholder="Any"
+          />
+        </View>
+      </View>
+
+      {/* Per-serving nutrition targets */}
+      <Text style={styles.sectionTitle}>Nutrition Targets</Text>
+      <Text style={styles.rowHint}>Per serving; leave blank for no limit</Text>
+      <View style={[styles.chipContainer, styles.presetContainer]}>
+        {(Object.keys(NUTRITION_TARGET_PRESETS) as DietaryPlan[]).map((plan) => (
+          <TouchableOpacity key={plan} style={styles.chip} onPress={() => applyTargetPreset(plan)}>
+            <Text style={styles.chipText}>{capitalize(plan)}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.chip} onPress={clearTargets}>
+          <Text style={styles.chipText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      {NUTRITION_TARGET_FIELDS.map(({ field, label, unit }) => (
+        <View key={field} style={styles.targetRow}>
+          <Text style={styles.targetLabel}>{label}{unit ? ` (${unit})` : ''}</Text>
+          <TextInput
+            style={styles.targetInput}
+            value={readTargetText(field, 'min')}
+            onChangeText={(value) => changeTarget(field, 'min', value)}
+            keyboardType="numeric"
+            placeholder="Min"
+          />
+          <Text style={styles.targetSeparator}>to</Text>
+          <TextInput
+            style={styles.targetInput}
+            value={readTargetText(field, 'max')}
+            onChangeText={(value) => changeTarget(field, 'max', value)}
+            keyboardType="numeric"
+            placeholder="Max"
+          />
+        </View>
+      ))}
+
+      {/* Limits for cooking only with what the user has */}
+      {options.pantryOnly && (
+        <>
+          <Text style={styles.sectionTitle}>Only Use What I Have</Text>
+          <View style={styles.row}>
+            <View>
+              <Text style={styles.rowLabel}>Extra ingredients allowed</Text>
+              <Text style={styles.rowHint}>Per recipe, beyond your own and the staples</Text>
+            </View>
+            {renderStepper(
+              maxExtraIngredients,
+              changeMaxExtraIngredients,
+              maxExtraIngredients > 0,
+              maxExtraIngredients < MAX_PANTRY_EXTRAS
+            )}
+          </View>
+          <Text style={styles.rowLabel}>Staples</Text>
+          <Text style={styles.rowHint}>Basics you always have, separated by commas</Text>
+          <TextInput
+            style={[styles.input, styles.staplesInput]}
+            value={staplesText}
+            onChangeText={changeStaples}
+            placeholder="e.g. salt, pepper, olive oil"
+            multiline
+          />
+        </>
+      )}
+
+      {/* Bypass the result cache */}
+      <View style={[styles.row, styles.freshRow]}>
+        <View>
+          <Text style={styles.rowLabel}>Fresh results</Text>
+          <Text style={styles.rowHint}>Skip saved results for the same ingredients</Text>
+        </View>
+        <Switch
+          value={!!options.fresh}
+          onValueChange={(value) => onUpdate({ ...options, fresh: value })}
+          trackColor={{ false: '#767577', true: '#8BBBFF' }}
+          thumbColor={options.fresh ? '#007AFF' : '#f4f3f4'}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    backgroundColor: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  budgetRow: {
+    marginTop: 16,
+    marginBottom: 0,
+  },
+  budgetLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  budgetInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+  },
+  budgetCurrency: {
+    fontSize: 16,
+    color: '#666',
+  },
+  budgetInput: {
+    width: 64,
+    paddingVertical: 8,
+    paddingLeft: 4,
+    fontSize: 16,
+  },
+  freshRow: {
+    marginTop: 16,
+    marginBottom: 0,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowHint: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    opacity: 0.3,
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 12,
+    color: '#333',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedText: {
+    fontSize: 14,
+    color: '#fff',
+  },
+  checkIcon: {
+    marginLeft: 4,
+  },
+  addCuisineContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 8,
+    marginRight: 8,
+  },
+  presetContainer: {
+    marginTop: 8,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  targetLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  targetInput: {
+    width: 64,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    textAlign: 'center',
+  },
+  targetSeparator: {
+    fontSize: 14,
+    color: '#888',
+    marginHorizontal: 8,
+  },
+  staplesInput: {
+    marginTop: 8,
+    marginRight: 0,
+  },
+  addButton: {
+    padding: 8,
+  },
+});
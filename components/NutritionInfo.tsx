@@ -3,6 +3,10 @@ import { View, StyleSheet } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM } from '@/constants/Units';
+import { kcalToKilojoules } from '@/utils/units';
+import { NutrientField, NutritionEstimate } from '@/types/recipe';
+import { describeNutritionDiscrepancy } from '@/utils/nutritionCalculator';
 
 interface NutritionInfoProps {
   nutritionInfo: {
@@ -15,9 +19,13 @@ interface NutritionInfoProps {
     sodium: number;
     servings: number;
   };
+  // Metric shows energy in kcal and kJ, as on EU labels
+  unitSystem?: UnitSystem;
+  // Marks each value as computed from the ingredients or estimated by the model
+  estimate?: NutritionEstimate;
 }
 
-const NutritionInfo: React.FC<NutritionInfoProps> = ({ nutritionInfo }) => {
+const NutritionInfo: React.FC<NutritionInfoProps> = ({ nutritionInfo, unitSystem = DEFAULT_UNIT_SYSTEM, estimate }) => {
   const {
     calories,
     protein,
@@ -29,6 +37,12 @@ const NutritionInfo: React.FC<NutritionInfoProps> = ({ nutritionInfo }) => {
     servings
   } = nutritionInfo;
 
+  const renderSource = (field: NutrientField, onColor = false) => estimate ? (
+    <ThemedText style={[styles.sourceText, onColor && styles.sourceTextOnColor]}>
+      {estimate.sources[field] === 'computed' ? 'Computed' : 'Estimated'}
+    </ThemedText>
+  ) : null;
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -47,43 +61,75 @@ const NutritionInfo: React.FC<NutritionInfoProps> = ({ nutritionInfo }) => {
           end={{ x: 1, y: 1 }}
         >
           <ThemedText style={styles.calorieValue}>{calories}</ThemedText>
-          <ThemedText style={styles.calorieLabel}>Calories</ThemedText>
+          <ThemedText style={styles.calorieLabel}>{unitSystem === 'metric' ? 'kcal' : 'Calories'}</ThemedText>
+          {unitSystem === 'metric' && (
+            <ThemedText style={styles.kilojouleText}>{kcalToKilojoules(calories)} kJ</ThemedText>
+          )}
+          {renderSource('calories', true)}
         </LinearGradient>
         
         <View style={styles.macrosGrid}>
           <View style={styles.macroItem}>
             <ThemedText style={styles.macroValue}>{carbs}g</ThemedText>
             <ThemedText style={styles.macroLabel}>Carbs</ThemedText>
+            {renderSource('carbs')}
           </View>
           <View style={styles.macroItem}>
             <ThemedText style={styles.macroValue}>{protein}g</ThemedText>
             <ThemedText style={styles.macroLabel}>Protein</ThemedText>
+            {renderSource('protein')}
           </View>
           <View style={styles.macroItem}>
             <ThemedText style={styles.macroValue}>{fat}g</ThemedText>
             <ThemedText style={styles.macroLabel}>Fat</ThemedText>
+            {renderSource('fat')}
           </View>
         </View>
       </View>
       
       <View style={styles.detailsContainer}>
         <View style={styles.detailItem}>
-          <ThemedText style={styles.detailLabel}>Fiber</ThemedText>
+          <View>
+            <ThemedText style={styles.detailLabel}>Fiber</ThemedText>
+            {renderSource('fiber')}
+          </View>
           <ThemedText style={styles.detailValue}>{fiber}g</ThemedText>
         </View>
         <View style={styles.detailDivider} />
         
         <View style={styles.detailItem}>
-          <ThemedText style={styles.detailLabel}>Sugar</ThemedText>
+          <View>
+            <ThemedText style={styles.detailLabel}>Sugar</ThemedText>
+            {renderSource('sugar')}
+          </View>
           <ThemedText style={styles.detailValue}>{sugar}g</ThemedText>
         </View>
         <View style={styles.detailDivider} />
         
         <View style={styles.detailItem}>
-          <ThemedText style={styles.detailLabel}>Sodium</ThemedText>
+          <View>
+            <ThemedText style={styles.detailLabel}>Sodium</ThemedText>
+            {renderSource('sodium')}
+          </View>
           <ThemedText style={styles.detailValue}>{sodium}mg</ThemedText>
         </View>
       </View>
+
+      {estimate && (
+        <View style={styles.estimateContainer}>
+          <ThemedText style={styles.estimateText}>
+            {estimate.computed
+              ? `Computed from the ingredients (${estimate.coverage}% could be measured).`
+              : `Estimated by the recipe generator; only ${estimate.coverage}% of the ingredients could be measured.`}
+          </ThemedText>
+          {estimate.discrepancies.map(discrepancy => (
+            <View key={discrepancy.field} style={styles.discrepancyRow}>
+              <MaterialIcons name="warning" size={16} color="#FF9500" />
+              <ThemedText style={styles.discrepancyText}>{describeNutritionDiscrepancy(discrepancy)}</ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 };
@@ -141,6 +187,11 @@ const styles = StyleSheet.create({
     color: 'white',
     marginTop: 4,
   },
+  kilojouleText: {
+    fontSize: 12,
+    color: 'white',
+    opacity: 0.85,
+  },
   macrosGrid: {
     flex: 1,
     flexDirection: 'row',
@@ -185,6 +236,35 @@ const styles = StyleSheet.create({
     height: 1,
     backgroundColor: '#E0E0E0',
   },
+  sourceText: {
+    fontSize: 11,
+    color: '#999',
+  },
+  sourceTextOnColor: {
+    color: 'white',
+    opacity: 0.85,
+  },
+  estimateContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+  estimateText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  discrepancyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  discrepancyText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 6,
+  },
 });
 
 export default NutritionInfo; 
\ No newline at end of file
@@ -4,6 +4,9 @@ import { ThemedText } from './ThemedText';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { logAnalyticsEvent } from '@/services/analyticsService';
+import { getDefaultFilters } from '@/utils/recipeFilters';
+import { MealType } from '@/types/recipe';
+import { MEAL_TYPES, COMMON_CUISINES } from '@/constants/RecipeOptions';
 
 export interface RecipeFilters {
   timeRange: {
@@ -11,6 +14,15 @@ export interface RecipeFilters {
     max: number | null;
   };
   difficulty: string[];
+  mealTypes: MealType[];
+  cuisines: string[];
+  // Ingredients the recipe must use, under any of their names
+  ingredients: string[];
+  // Extra ingredient cost in USD
+  costRange: {
+    min: number | null;
+    max: number | null;
+  };
   nutrition: {
     calories: {
       min: number | null;
@@ -40,6 +52,7 @@ export default function RecipeFiltersComponent({
 }: RecipeFiltersProps) {
   const [modalVisible, setModalVisible] = useState(false);
   const [tempFilters, setTempFilters] = useState<RecipeFilters>({ ...filters });
+  const [ingredientText, setIngredientText] = useState('');
 
   const applyFilters = () => {
     onUpdateFilters(tempFilters);
@@ -49,14 +62,7 @@ export default function RecipeFiltersComponent({
   };
 
   const resetFilters = () => {
-    const emptyFilters: RecipeFilters = {
-      timeRange: { min: null, max: null },
-      difficulty: [],
-      nutrition: {
-        calories: { min: null, max: null },
-        protein: { min: null, max: null },
-      },
-    };
+    const emptyFilters = getDefaultFilters();
     setTempFilters(emptyFilters);
     onUpdateFilters(emptyFilters);
     onApplyFilters();
@@ -78,6 +84,38 @@ export default function RecipeFiltersComponent({
     }
   };
 
+  const toggleMealType = (mealType: MealType) => {
+    setTempFilters({
+      ...tempFilters,
+      mealTypes: tempFilters.mealTypes.includes(mealType)
+        ? tempFilters.mealTypes.filter(m => m !== mealType)
+        : [...tempFilters.mealTypes, mealType],
+    });
+  };
+
+  const toggleCuisine = (cuisine: string) => {
+    setTempFilters({
+      ...tempFilters,
+      cuisines: tempFilters.cuisines.includes(cuisine)
+        ? tempFilters.cuisines.filter(c => c !== cuisine)
+        : [...tempFilters.cuisines, cuisine],
+    });
+  };
+
+  const addIngredient = () => {
+    const ingredient = ingredientText.trim().toLowerCase();
+    setIngredientText('');
+    if (!ingredient || tempFilters.ingredients.includes(ingredient)) return;
+    setTempFilters({ ...tempFilters, ingredients: [...tempFilters.ingredients, ingredient] });
+  };
+
+  const removeIngredient = (ingredient: string) => {
+    setTempFilters({
+      ...tempFilters,
+      ingredients: tempFilters.ingredients.filter(i => i !== ingredient),
+    });
+  };
+
   const updateTimeRange = (field: 'min' | 'max', value: string) => {
     const numValue = value === '' ? null : Number(value);
     setTempFilters({
@@ -89,6 +127,17 @@ export default function RecipeFiltersComponent({
     });
   };
 
+  const updateCostRange = (field: 'min' | 'max', value: string) => {
+    const numValue = value === '' ? null : Number(value);
+    setTempFilters({
+      ...tempFilters,
+      costRange: {
+        ...tempFilters.costRange,
+        [field]: numValue,
+      },
+    });
+  };
+
   const updateNutritionValue = (
     nutrient: 'calories' | 'protein',
     field: 'min' | 'max',
@@ -222,6 +271,133 @@ export default function RecipeFiltersComponent({
                 </View>
               </View>
 
+              {/* Meal Type Filter */}
+              <View style={styles.filterSection}>
+                <ThemedText style={styles.sectionTitle}>
+                  <MaterialIcons name="restaurant" size={20} color="#FF6B6B" /> Meal Type
+                </ThemedText>
+                <View style={styles.difficultyOptions}>
+                  {MEAL_TYPES.map((mealType) => (
+                    <TouchableOpacity
+                      key={mealType}
+                      style={[
+                        styles.difficultyOption,
+                        tempFilters.mealTypes.includes(mealType) &&
+                          styles.difficultyOptionSelected,
+                      ]}
+                      onPress={() => toggleMealType(mealType)}
+                    >
+                      {tempFilters.mealTypes.includes(mealType) && (
+                        <MaterialIcons name="check" size={16} color="#fff" style={styles.checkIcon} />
+                      )}
+                      <ThemedText
+                        style={[
+                          styles.difficultyOptionText,
+                          tempFilters.mealTypes.includes(mealType) &&
+                            styles.difficultyOptionTextSelected,
+                        ]}
+                      >
+                        {mealType.charAt(0).toUpperCase() + mealType.slice(1)}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {/* Cuisine Filter */}
+              <View style={styles.filterSection}>
+                <ThemedText style={styles.sectionTitle}>
+                  <MaterialIcons name="public" size={20} color="#FF6B6B" /> Cuisine
+                </ThemedText>
+                <View style={styles.difficultyOptions}>
+                  {COMMON_CUISINES.map((cuisine) => (
+                    <TouchableOpacity
+                      key={cuisine}
+                      style={[
+                        styles.difficultyOption,
+                        tempFilters.cuisines.includes(cuisine) &&
+                          styles.difficultyOptionSelected,
+                      ]}
+                      onPress={() => toggleCuisine(cuisine)}
+                    >
+                      {tempFilters.cuisines.includes(cuisine) && (
+                        <MaterialIcons name="check" size={16} color="#fff" style={styles.checkIcon} />
+                      )}
+                      <ThemedText
+                        style={[
+                          styles.difficultyOptionText,
+                          tempFilters.cuisines.includes(cuisine) &&
+                            styles.difficultyOptionTextSelected,
+                        ]}
+                      >
+                        {cuisine}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {/* Ingredient Filter */}
+              <View style={styles.filterSection}>
+                <ThemedText style={styles.sectionTitle}>
+                  <MaterialIcons name="kitchen" size={20} color="#FF6B6B" /> Uses Ingredients
+                </ThemedText>
+                <View style={styles.rangeInput}>
+                  <TextInput
+                    style={styles.rangeTextInput}
+                    value={ingredientText}
+                    onChangeText={setIngredientText}
+                    onSubmitEditing={addIngredient}
+                    placeholder="e.g. chickpeas"
+                    returnKeyType="done"
+                  />
+                </View>
+                <View style={styles.difficultyOptions}>
+                  {tempFilters.ingredients.map((ingredient) => (
+                    <TouchableOpacity
+                      key={ingredient}
+                      style={[styles.difficultyOption, styles.difficultyOptionSelected]}
+                      onPress={() => removeIngredient(ingredient)}
+                    >
+                      <MaterialIcons name="close" size={16} color="#fff" style={styles.checkIcon} />
+                      <ThemedText style={[styles.difficultyOptionText, styles.difficultyOptionTextSelected]}>
+                        {ingredient}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {/* Extra Ingredient Cost Filter */}
+              <View style={styles.filterSection}>
+                <ThemedText style={styles.sectionTitle}>
+                  <MaterialIcons name="attach-money" size={20} color="#FF6B6B" /> Extra Ingredient Cost ($)
+                </ThemedText>
+                <View style={styles.rangeInputContainer}>
+                  <View style={styles.rangeInput}>
+                    <ThemedText style={styles.rangeLabel}>Min</ThemedText>
+                    <TextInput
+                      style={styles.rangeTextInput}
+                      value={tempFilters.costRange.min?.toString() || ''}
+                      onChangeText={(value) => updateCostRange('min', value)}
+                      keyboardType="decimal-pad"
+                      placeholder="0"
+                    />
+                  </View>
+                  <ThemedText style={styles.rangeSeparator}>to</ThemedText>
+                  <View style={styles.rangeInput}>
+                    <ThemedText style={styles.rangeLabel}>Max</ThemedText>
+                    <TextInput
+                      style={styles.rangeTextInput}
+                      value={tempFilters.costRange.max?.toString() || ''}
+                      onChangeText={(value) => updateCostRange('max', value)}
+                      keyboardType="decimal-pad"
+                      placeholder="20+"
+                    />
+                  </View>
+                </View>
+              </View>
+
               {/* Nutrition Filters */}
               <View style={styles.filterSection}>
                 <ThemedText style={styles.sectionTitle}>
@@ -1,19 +1,44 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Share, Alert } from 'react-native';
-import { Recipe } from '@/types/recipe';
+import { Recipe, IngredientSubstitution } from '@/types/recipe';
 import { saveRecipe, isRecipeSaved, deleteRecipe } from '@/services/savedRecipesService';
-import { trackRecipeView, trackRecipeShare, trackRecipeRating, trackRecipeSave } from '@/services/analyticsService';
+import {
+  trackRecipeView,
+  trackRecipeShare,
+  trackRecipeRating,
+  trackRecipeSave,
+  trackIngredientSubstitutions,
+} from '@/services/analyticsService';
+import { IngredientRef, swapIngredient } from '@/utils/ingredientSubstitutions';
+import { getRecipeServings, scaleRecipe } from '@/utils/recipeScaling';
+import { getDietaryBadges } from '@/utils/dietaryCompliance';
+import { convertRecipeUnits, kcalToKilojoules } from '@/utils/units';
+import { useUnitPreference } from '@/context/UnitPreferenceContext';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { AntDesign } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import NutritionInfo from './NutritionInfo';
+import ComplianceSummary from './ComplianceSummary';
+import SubstitutionOptions from './SubstitutionOptions';
+import StepDetails from './StepDetails';
+import ServingsStepper from './ServingsStepper';
+import UnitSystemToggle from './UnitSystemToggle';
+import CostEstimate from './CostEstimate';
+import { buildInstructionSteps, checkStepDurations, formatTimeSplit } from '@/utils/instructionSteps';
 
 interface RecipeViewProps {
   recipe: Recipe;
   onClose?: () => void;
 }
 
-export default function RecipeView({ recipe, onClose }: RecipeViewProps) {
+export default function RecipeView({ recipe: initialRecipe, onClose }: RecipeViewProps) {
+  // Local copy so ingredient swaps can update cost and dietary badges
+  const [baseRecipe, setBaseRecipe] = useState<Recipe>(initialRecipe);
+  const [servings, setServings] = useState(getRecipeServings(initialRecipe));
+  const { unitSystem } = useUnitPreference();
+  // What's shown and shared: the recipe scaled to the chosen servings, in the user's units.
+  // Saving keeps baseRecipe as generated.
+  const recipe = convertRecipeUnits(scaleRecipe(baseRecipe, servings), unitSystem);
   const [saved, setSaved] = useState(false);
   const [savedId, setSavedId] = useState<string | null>(null);
   const [userRating, setUserRating] = useState<number | null>(null);
@@ -24,15 +49,20 @@ export default function RecipeView({ recipe, onClose }: RecipeViewProps) {
     screenName: `recipe_${recipe.name.replace(/\s+/g, '_').toLowerCase()}`,
   });
   
+  useEffect(() => {
+    setBaseRecipe(initialRecipe);
+    setServings(getRecipeServings(initialRecipe));
+  }, [initialRecipe]);
+
   // Check if the recipe is already saved when the component mounts
   useEffect(() => {
     // Track recipe view when component mounts
-    trackRecipeView(recipe);
+    trackRecipeView(initialRecipe);
     
     // Check if recipe is already saved
     const checkSavedStatus = async () => {
       try {
-        const recipeId = await isRecipeSaved(recipe.name);
+        const recipeId = await isRecipeSaved(initialRecipe.name);
         setSaved(!!recipeId);
         setSavedId(recipeId);
       } catch (error) {
@@ -41,7 +71,7 @@ export default function RecipeView({ recipe, onClose }: RecipeViewProps) {
     };
     
     checkSavedStatus();
-  }, [recipe]);
+  }, [initialRecipe]);
   
   // Handle save/unsave recipe
   const handleSaveToggle = async () => {
@@ -56,7 +86,7 @@ export default function RecipeView({ recipe, onClose }: RecipeViewProps) {
         // Track recipe unsave
         trackRecipeSave(recipe, false);
       } else {
-        const id = await saveRecipe(recipe);
+        const id = await saveRecipe(baseRecipe, servings !== getRecipeServings(baseRecipe) ? servings : undefined);
         setSaved(true);
         setSavedId(id);
         // Track recipe save
@@ -102,6 +132,20 @@ ${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
     }
   };
   
+  const steps = recipe.steps || buildInstructionSteps(recipe);
+  const stepTime = checkStepDurations(steps, recipe.timeEstimate);
+
+  // Swap an ingredient for one of its substitutions
+  const handleSwap = (ref: IngredientRef, substitution: IngredientSubstitution) => {
+    const original = ref.list === 'current'
+      ? baseRecipe.currentIngredients[ref.index]
+      : baseRecipe.extraIngredients[ref.index].item;
+    // Swap in the unscaled recipe so the cost change scales along with everything else
+    setBaseRecipe(swapIngredient(baseRecipe, ref, substitution));
+    trackIngredientSubstitutions(recipe, original, substitution);
+    trackInteraction('swap_ingredient', { reason: substitution.reason });
+  };
+
   // Handle rating the recipe
   const handleRate = (rating: number) => {
     setUserRating(rating);
@@ -128,16 +172,30 @@ ${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
           <Text style={styles.title}>{recipe.name}</Text>
           <View style={styles.metaInfo}>
             <Text style={styles.metaItem}>Difficulty: {recipe.difficulty}</Text>
-            <Text style={styles.metaItem}>Time: {recipe.timeEstimate} minutes</Text>
+            <Text style={styles.metaItem}>
+              Time: {recipe.timeEstimate} minutes
+              {formatTimeSplit(recipe) ? ` (${formatTimeSplit(recipe)})` : ''}
+              {stepTime.status === 'over' ? ` (steps add up to ${stepTime.stepMinutes})` : ''}
+            </Text>
             <Text style={styles.metaItem}>Cost: ${recipe.extraIngredientsCost.toFixed(2)}</Text>
           </View>
+          <ServingsStepper
+            servings={servings}
+            baseServings={getRecipeServings(baseRecipe)}
+            onChange={(value) => {
+              setServings(value);
+              trackInteraction('change_servings', { servings: value });
+            }}
+          />
+          <UnitSystemToggle />
+          <CostEstimate recipe={recipe} />
         </View>
         
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Dietary Information</Text>
-          {recipe.dietaryInfo.restrictions.length > 0 ? (
+          {getDietaryBadges(recipe).length > 0 ? (
             <View style={styles.dietaryTags}>
-              {recipe.dietaryInfo.restrictions.map((restriction, index) => (
+              {getDietaryBadges(recipe).map((restriction, index) => (
                 <View key={index} style={styles.tag}>
                   <Text style={styles.tagText}>{restriction}</Text>
                 </View>
@@ -146,6 +204,7 @@ ${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
           ) : (
             <Text>No specific dietary restrictions</Text>
           )}
+          <ComplianceSummary compliance={recipe.compliance} />
         </View>
         
         <View style={styles.section}>
@@ -153,7 +212,9 @@ ${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
           <View style={styles.nutritionGrid}>
             <View style={styles.nutritionItem}>
               <Text style={styles.nutritionValue}>{recipe.nutritionInfo.calories}</Text>
-              <Text style={styles.nutritionLabel}>Calories</Text>
+              <Text style={styles.nutritionLabel}>
+                {unitSystem === 'metric' ? `kcal (${kcalToKilojoules(recipe.nutritionInfo.calories)} kJ)` : 'Calories'}
+              </Text>
             </View>
             <View style={styles.nutritionItem}>
               <Text style={styles.nutritionValue}>{recipe.nutritionInfo.protein}g</Text>
@@ -173,25 +234,40 @@ ${recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n')}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Current Ingredients</Text>
           {recipe.currentIngredients.map((ingredient, index) => (
-            <Text key={index} style={styles.ingredient}>• {ingredient}</Text>
+            <View key={index}>
+              <Text style={styles.ingredient}>• {ingredient}</Text>
+              <SubstitutionOptions
+                substitutions={recipe.currentSubstitutions?.[index]}
+                onSwap={(substitution) => handleSwap({ list: 'current', index }, substitution)}
+              />
+            </View>
           ))}
         </View>
         
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Extra Ingredients</Text>
           {recipe.extraIngredients.map((ingredient, index) => (
-            <Text key={index} style={styles.ingredient}>
-              • {ingredient.item} (${ingredient.cost.toFixed(2)} for {ingredient.amount})
-            </Text>
+            <View key={index}>
+              <Text style={styles.ingredient}>
+                • {ingredient.item} (${ingredient.cost.toFixed(2)} for {ingredient.amount})
+              </Text>
+              <SubstitutionOptions
+                substitutions={ingredient.substitutions}
+                onSwap={(substitution) => handleSwap({ list: 'extra', index }, substitution)}
+              />
+            </View>
           ))}
         </View>
         
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Instructions</Text>
-          {recipe.instructions.map((instruction, index) => (
+          {steps.map((step, index) => (
             <View key={index} style={styles.instructionStep}>
               <Text style={styles.stepNumber}>{index + 1}</Text>
-              <Text style={styles.stepText}>{instruction}</Text>
+              <View style={styles.stepContent}>
+                <Text style={styles.stepText}>{step.text}</Text>
+                <StepDetails step={step} />
+              </View>
             </View>
           ))}
         </View>
@@ -341,8 +417,10 @@ const styles = StyleSheet.create({
     marginRight: 12,
     marginTop: 2
   },
+  stepContent: {
+    flex: 1
+  },
   stepText: {
-    flex: 1,
     fontSize: 16,
     lineHeight: 24
   },
@@ -0,0 +1,92 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { MIN_SERVINGS, MAX_SERVINGS } from '@/constants/RecipeOptions';
+
+interface ServingsStepperProps {
+  servings: number;
+  // Servings the recipe was written for
+  baseServings: number;
+  onChange: (servings: number) => void;
+}
+
+/**
+ * Picks how many servings to show a recipe for; the screen scales the
+ * recipe with scaleRecipe
+ */
+export default function ServingsStepper({ servings, baseServings, onChange }: ServingsStepperProps) {
+  const canDecrease = servings > MIN_SERVINGS;
+  const canIncrease = servings < MAX_SERVINGS;
+
+  return (
+    <View style={styles.container}>
+      <View>
+        <Text style={styles.label}>Servings</Text>
+        {servings !== baseServings && (
+          <TouchableOpacity onPress={() => onChange(baseServings)}>
+            <Text style={styles.reset}>Originally {baseServings} · Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, !canDecrease && styles.stepperButtonDisabled]}
+          onPress={() => onChange(servings - 1)}
+          disabled={!canDecrease}
+        >
+          <MaterialIcons name="remove" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{servings}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, !canIncrease && styles.stepperButtonDisabled]}
+          onPress={() => onChange(servings + 1)}
+          disabled={!canIncrease}
+        >
+          <MaterialIcons name="add" size={20} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reset: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    opacity: 0.3,
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+});
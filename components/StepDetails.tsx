@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { InstructionStep } from '@/types/recipe';
+
+interface StepDetailsProps {
+  step: InstructionStep;
+}
+
+/**
+ * Duration, safety warnings and utensils for one cooking step
+ */
+export default function StepDetails({ step }: StepDetailsProps) {
+  if (step.durationMinutes === null && !step.warnings.length && !step.utensils.length) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {step.durationMinutes !== null && (
+        <View style={styles.detail}>
+          <MaterialIcons name="timer" size={14} color="#666" />
+          <Text style={styles.detailText}>{step.durationMinutes} min</Text>
+        </View>
+      )}
+      {step.warnings.map((warning, index) => (
+        <View key={`warning-${index}`} style={[styles.detail, styles.warning]}>
+          <MaterialIcons name="warning" size={14} color="#E65100" />
+          <Text style={[styles.detailText, styles.warningText]}>{warning}</Text>
+        </View>
+      ))}
+      {step.utensils.length > 0 && (
+        <View style={styles.detail}>
+          <MaterialIcons name="restaurant" size={14} color="#666" />
+          <Text style={styles.detailText}>{step.utensils.join(', ')}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  detail: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#F0F0F0',
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 4,
+  },
+  warning: {
+    backgroundColor: '#FFF3E0',
+  },
+  warningText: {
+    color: '#E65100',
+  },
+});
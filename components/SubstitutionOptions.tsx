@@ -0,0 +1,74 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { IngredientSubstitution } from '@/types/recipe';
+
+interface SubstitutionOptionsProps {
+  substitutions?: IngredientSubstitution[];
+  onSwap: (substitution: IngredientSubstitution) => void;
+}
+
+function formatCostDelta(costDelta: number): string {
+  if (!costDelta) return '';
+  return ` (${costDelta > 0 ? '+' : '-'}$${Math.abs(costDelta).toFixed(2)})`;
+}
+
+/**
+ * Tappable alternatives for one ingredient; tapping swaps it into the recipe
+ */
+export default function SubstitutionOptions({ substitutions, onSwap }: SubstitutionOptionsProps) {
+  if (!substitutions?.length) return null;
+
+  return (
+    <View style={styles.container}>
+      {substitutions.map((substitution, index) => (
+        <TouchableOpacity
+          key={`${substitution.alternative}-${index}`}
+          style={[styles.chip, substitution.reason === 'dietary' && styles.dietaryChip]}
+          onPress={() => onSwap(substitution)}
+        >
+          <MaterialIcons
+            name={substitution.note === 'original' ? 'undo' : 'swap-horiz'}
+            size={14}
+            color={substitution.reason === 'dietary' ? '#2E7D32' : '#007AFF'}
+          />
+          <Text style={[styles.chipText, substitution.reason === 'dietary' && styles.dietaryText]}>
+            {substitution.note === 'original' ? 'Back to' : 'Swap for'} {substitution.alternative}
+            {substitution.note && substitution.note !== 'original' ? `, ${substitution.note}` : ''}
+            {formatCostDelta(substitution.costDelta)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginLeft: 28,
+    marginBottom: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#EEF5FF',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  dietaryChip: {
+    backgroundColor: '#E8F5E9',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#007AFF',
+    marginLeft: 4,
+  },
+  dietaryText: {
+    color: '#2E7D32',
+  },
+});
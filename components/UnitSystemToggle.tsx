@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { UNIT_SYSTEMS } from '@/constants/Units';
+import { useUnitPreference } from '@/context/UnitPreferenceContext';
+
+/**
+ * Switches ingredient amounts between metric and imperial; the choice is
+ * stored and applies to every recipe
+ */
+export default function UnitSystemToggle() {
+  const { unitSystem, setUnitSystem } = useUnitPreference();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Units</Text>
+      <View style={styles.segments}>
+        {UNIT_SYSTEMS.map(({ value, label }) => {
+          const selected = value === unitSystem;
+          return (
+            <TouchableOpacity
+              key={value}
+              style={[styles.segment, selected && styles.segmentSelected]}
+              onPress={() => setUnitSystem(value)}
+            >
+              <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  segments: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  segment: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
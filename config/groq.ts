@@ -1,8 +1,18 @@
 import Groq from "groq-sdk";
 
-const groq = new Groq({
-  apiKey: "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",
-  dangerouslyAllowBrowser: true
-});
+let groq: Groq | null = null;
 
-export { groq }; 
\ No newline at end of file
+/**
+ * Direct Groq client for local development only. The key is read from
+ * EXPO_PUBLIC_GROQ_API_KEY, which ends up in the app bundle, so release
+ * builds go through the generation proxy instead.
+ */
+export function getGroqClient(): Groq {
+  if (!groq) {
+    groq = new Groq({
+      apiKey: process.env.EXPO_PUBLIC_GROQ_API_KEY,
+      dangerouslyAllowBrowser: true
+    });
+  }
+  return groq;
+}
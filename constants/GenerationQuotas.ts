@@ -0,0 +1,18 @@
+export type QuotaTier = 'free' | 'premium';
+
+export interface GenerationQuota {
+  daily: number;
+  monthly: number;
+}
+
+// Recipe generations per user; cache hits don't count. Only shown in the
+// app: the generation proxy enforces its own copy of these limits, with the
+// tier taken from the user's premium claim.
+export const GENERATION_QUOTAS: Record<QuotaTier, GenerationQuota> = {
+  free: { daily: 5, monthly: 60 },
+  premium: { daily: 50, monthly: 1000 },
+};
+
+// Where PremiumFeatureContext persists the premium screens preview toggle;
+// the quota tier only comes from the user's premium claim
+export const PREMIUM_STATUS_STORAGE_KEY = 'premiumFeatureEnabled';
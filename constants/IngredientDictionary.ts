@@ -0,0 +1,335 @@
+import { DietaryAllergies, DietaryRestriction } from '@/types/dietary';
+
+export const KNOWN_ALLERGENS: DietaryAllergies[] = [
+  'peanuts',
+  'tree nuts',
+  'milk',
+  'eggs',
+  'shellfish',
+  'soy',
+  'wheat',
+  'fish',
+];
+
+// Non-allergen ingredient kinds that still break some restrictions
+export type IngredientTag = 'meat' | 'pork' | 'gelatin' | 'honey' | 'alcohol' | 'gluten';
+
+export interface IngredientDictionaryEntry {
+  // Whole words or phrases looked for in a normalized ingredient name (plurals match too)
+  terms: string[];
+  // Phrases that mean the terms don't apply, e.g. "coconut milk" for milk
+  exceptions?: string[];
+  allergens?: DietaryAllergies[];
+  tags?: IngredientTag[];
+}
+
+// Wording that marks an ingredient as a free-from alternative
+const FREE_FROM_WORDS = ['vegan', 'plant-based', 'non-dairy', 'dairy-free', 'gluten-free', 'egg-free', 'meatless'];
+
+export const INGREDIENT_DICTIONARY: IngredientDictionaryEntry[] = [
+  {
+    terms: [
+      'milk', 'butter', 'buttermilk', 'cheese', 'cream', 'sour cream', 'creme fraiche', 'yogurt', 'yoghurt',
+      'ghee', 'whey', 'casein', 'parmesan', 'mozzarella', 'cheddar', 'feta', 'ricotta', 'mascarpone',
+      'paneer', 'halloumi', 'brie', 'gouda', 'custard', 'half and half',
+    ],
+    exceptions: [
+      ...FREE_FROM_WORDS, 'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk',
+      'cashew milk', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter',
+      'apple butter', 'cream of tartar',
+    ],
+    allergens: ['milk'],
+  },
+  {
+    terms: ['egg', 'egg yolk', 'egg white', 'mayonnaise', 'mayo', 'meringue', 'aioli'],
+    exceptions: [...FREE_FROM_WORDS, 'eggless'],
+    allergens: ['eggs'],
+  },
+  {
+    terms: ['peanut', 'peanut butter', 'peanut oil', 'groundnut'],
+    allergens: ['peanuts'],
+  },
+  {
+    terms: [
+      'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut',
+      'pine nut', 'praline', 'marzipan', 'pesto',
+    ],
+    exceptions: ['nut-free'],
+    allergens: ['tree nuts'],
+  },
+  {
+    terms: [
+      'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'scallop', 'clam', 'mussel', 'oyster',
+      'squid', 'calamari', 'octopus',
+    ],
+    exceptions: ['oyster mushroom'],
+    allergens: ['shellfish'],
+  },
+  {
+    terms: [
+      'fish', 'fish sauce', 'salmon', 'tuna', 'cod', 'tilapia', 'anchovy', 'anchovies', 'sardine',
+      'trout', 'halibut', 'mackerel', 'worcestershire',
+    ],
+    exceptions: ['vegan'],
+    allergens: ['fish'],
+  },
+  {
+    terms: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+    allergens: ['soy'],
+  },
+  {
+    // Regular soy sauce is brewed with wheat; tamari usually isn't
+    terms: ['soy sauce'],
+    exceptions: ['gluten-free'],
+    allergens: ['wheat'],
+  },
+  {
+    terms: [
+      'wheat', 'flour', 'bread', 'breadcrumbs', 'panko', 'pasta', 'spaghetti', 'noodle', 'couscous',
+      'bulgur', 'semolina', 'tortilla', 'pita', 'naan', 'seitan', 'cracker', 'crouton', 'orzo', 'farro',
+    ],
+    exceptions: [
+      'gluten-free', 'almond flour', 'rice flour', 'coconut flour', 'chickpea flour', 'corn tortilla',
+      'rice noodle', 'rice pasta', 'chickpea pasta',
+    ],
+    allergens: ['wheat'],
+  },
+  {
+    terms: ['barley', 'rye', 'malt', 'spelt'],
+    tags: ['gluten'],
+  },
+  {
+    terms: [
+      'meat', 'beef', 'steak', 'chicken', 'turkey', 'lamb', 'veal', 'duck', 'venison', 'sausage',
+      'meatball', 'ground beef', 'broth', 'stock',
+    ],
+    // Vegetable broth and stock are fine
+    exceptions: [...FREE_FROM_WORDS, 'vegetarian', 'vegetable broth', 'vegetable stock', 'mushroom broth'],
+    tags: ['meat'],
+  },
+  {
+    terms: ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'guanciale', 'lard', 'chorizo', 'pepperoni', 'salami'],
+    exceptions: FREE_FROM_WORDS,
+    tags: ['meat', 'pork'],
+  },
+  {
+    terms: ['gelatin', 'gelatine'],
+    tags: ['gelatin'],
+  },
+  {
+    terms: ['honey'],
+    tags: ['honey'],
+  },
+  {
+    terms: [
+      'wine', 'beer', 'rum', 'vodka', 'whiskey', 'whisky', 'bourbon', 'brandy', 'sake', 'mirin',
+      'sherry', 'liqueur', 'tequila',
+    ],
+    exceptions: ['non-alcoholic', 'vinegar'],
+    tags: ['alcohol'],
+  },
+];
+
+// What each restriction rules out; restrictions missing here can't be verified locally
+export const RESTRICTION_RULES: Partial<Record<DietaryRestriction, {
+  allergens: DietaryAllergies[];
+  tags: IngredientTag[];
+}>> = {
+  vegetarian: { allergens: ['fish', 'shellfish'], tags: ['meat', 'gelatin'] },
+  vegan: { allergens: ['milk', 'eggs', 'fish', 'shellfish'], tags: ['meat', 'gelatin', 'honey'] },
+  'gluten-free': { allergens: ['wheat'], tags: ['gluten'] },
+  'dairy-free': { allergens: ['milk'], tags: [] },
+  'nut-free': { allergens: ['peanuts', 'tree nuts'], tags: [] },
+  'soy-free': { allergens: ['soy'], tags: [] },
+  kosher: { allergens: ['shellfish'], tags: ['pork'] },
+  halal: { allergens: [], tags: ['pork', 'alcohol', 'gelatin'] },
+};
+
+// Grocery aisle an ingredient belongs to, used to group shopping lists
+export type IngredientCategory =
+  | 'produce'
+  | 'dairy'
+  | 'protein'
+  | 'grains'
+  | 'baking'
+  | 'condiments'
+  | 'spices'
+  | 'other';
+
+/**
+ * One ingredient however it's written. Names, synonyms and varieties are
+ * singular; plurals are matched when looking them up (see
+ * canonicalIngredients). Allergens and tags come from INGREDIENT_DICTIONARY.
+ */
+export interface CanonicalIngredient {
+  // Stable key, e.g. 'green-onion'
+  id: string;
+  // What it's stored and shown as, e.g. 'green onion'
+  name: string;
+  // Other names for the same thing, e.g. 'scallion'
+  synonyms?: string[];
+  // Kinds of it that share its category and allergens but aren't
+  // interchangeable, e.g. 'cherry tomato' for tomato
+  varieties?: string[];
+  category: IngredientCategory;
+}
+
+export const CANONICAL_INGREDIENTS: CanonicalIngredient[] = [
+  // Produce
+  { id: 'onion', name: 'onion', synonyms: ['yellow onion', 'white onion', 'brown onion'], category: 'produce' },
+  { id: 'red-onion', name: 'red onion', synonyms: ['purple onion'], category: 'produce' },
+  { id: 'green-onion', name: 'green onion', synonyms: ['scallion', 'spring onion'], category: 'produce' },
+  { id: 'shallot', name: 'shallot', category: 'produce' },
+  { id: 'garlic', name: 'garlic', synonyms: ['garlic clove'], category: 'produce' },
+  { id: 'ginger', name: 'ginger', synonyms: ['ginger root'], category: 'produce' },
+  { id: 'tomato', name: 'tomato', varieties: ['roma tomato', 'cherry tomato', 'plum tomato'], category: 'produce' },
+  { id: 'bell-pepper', name: 'bell pepper', synonyms: ['capsicum', 'sweet pepper'], varieties: ['red pepper', 'green pepper', 'yellow pepper'], category: 'produce' },
+  { id: 'chili-pepper', name: 'chili pepper', synonyms: ['chile', 'chili'], varieties: ['jalapeno', 'serrano', 'green chili'], category: 'produce' },
+  { id: 'carrot', name: 'carrot', category: 'produce' },
+  { id: 'celery', name: 'celery', synonyms: ['celery stalk'], category: 'produce' },
+  { id: 'potato', name: 'potato', varieties: ['russet potato', 'yukon gold potato'], category: 'produce' },
+  { id: 'sweet-potato', name: 'sweet potato', synonyms: ['yam'], category: 'produce' },
+  { id: 'spinach', name: 'spinach', synonyms: ['baby spinach'], category: 'produce' },
+  { id: 'kale', name: 'kale', category: 'produce' },
+  { id: 'lettuce', name: 'lettuce', varieties: ['romaine', 'iceberg lettuce'], category: 'produce' },
+  { id: 'arugula', name: 'arugula', synonyms: ['rocket'], category: 'produce' },
+  { id: 'cabbage', name: 'cabbage', category: 'produce' },
+  { id: 'broccoli', name: 'broccoli', synonyms: ['broccoli floret'], category: 'produce' },
+  { id: 'cauliflower', name: 'cauliflower', category: 'produce' },
+  { id: 'zucchini', name: 'zucchini', synonyms: ['courgette'], category: 'produce' },
+  { id: 'eggplant', name: 'eggplant', synonyms: ['aubergine'], category: 'produce' },
+  { id: 'cucumber', name: 'cucumber', category: 'produce' },
+  { id: 'mushroom', name: 'mushroom', varieties: ['button mushroom', 'cremini mushroom', 'baby bella'], category: 'produce' },
+  { id: 'green-bean', name: 'green bean', synonyms: ['string bean', 'french bean'], category: 'produce' },
+  { id: 'pea', name: 'pea', synonyms: ['green pea', 'garden pea'], category: 'produce' },
+  { id: 'corn', name: 'corn', synonyms: ['sweetcorn', 'sweet corn', 'maize'], category: 'produce' },
+  { id: 'avocado', name: 'avocado', category: 'produce' },
+  { id: 'lemon', name: 'lemon', category: 'produce' },
+  { id: 'lime', name: 'lime', category: 'produce' },
+  { id: 'apple', name: 'apple', category: 'produce' },
+  { id: 'banana', name: 'banana', category: 'produce' },
+  { id: 'berry', name: 'berry', varieties: ['strawberry', 'blueberry', 'raspberry', 'blackberry'], category: 'produce' },
+  { id: 'cilantro', name: 'cilantro', synonyms: ['coriander leaf', 'fresh coriander'], category: 'produce' },
+  { id: 'parsley', name: 'parsley', category: 'produce' },
+  { id: 'basil', name: 'basil', category: 'produce' },
+  { id: 'mint', name: 'mint', category: 'produce' },
+
+  // Dairy and eggs
+  { id: 'egg', name: 'egg', varieties: ['egg yolk', 'egg white'], category: 'dairy' },
+  { id: 'milk', name: 'milk', varieties: ['whole milk', 'skim milk'], category: 'dairy' },
+  { id: 'butter', name: 'butter', synonyms: ['unsalted butter', 'salted butter'], category: 'dairy' },
+  { id: 'ghee', name: 'ghee', synonyms: ['clarified butter'], category: 'dairy' },
+  { id: 'cream', name: 'cream', synonyms: ['heavy cream', 'double cream', 'whipping cream'], varieties: ['single cream'], category: 'dairy' },
+  { id: 'sour-cream', name: 'sour cream', varieties: ['creme fraiche'], category: 'dairy' },
+  { id: 'yogurt', name: 'yogurt', synonyms: ['yoghurt', 'curd'], varieties: ['greek yogurt'], category: 'dairy' },
+  { id: 'cheese', name: 'cheese', varieties: ['cheddar', 'cheddar cheese'], category: 'dairy' },
+  { id: 'parmesan', name: 'parmesan', synonyms: ['parmigiano reggiano', 'parmesan cheese'], category: 'dairy' },
+  { id: 'mozzarella', name: 'mozzarella', synonyms: ['mozzarella cheese'], category: 'dairy' },
+  { id: 'feta', name: 'feta', synonyms: ['feta cheese'], category: 'dairy' },
+  { id: 'paneer', name: 'paneer', category: 'dairy' },
+  { id: 'cream-cheese', name: 'cream cheese', category: 'dairy' },
+  { id: 'almond-milk', name: 'almond milk', category: 'dairy' },
+  { id: 'soy-milk', name: 'soy milk', synonyms: ['soya milk'], category: 'dairy' },
+  { id: 'oat-milk', name: 'oat milk', category: 'dairy' },
+
+  // Meat, fish and plant proteins
+  { id: 'chicken', name: 'chicken', varieties: ['chicken breast', 'chicken thigh', 'chicken drumstick'], category: 'protein' },
+  { id: 'ground-beef', name: 'ground beef', synonyms: ['minced beef', 'beef mince', 'hamburger meat'], category: 'protein' },
+  { id: 'beef', name: 'beef', varieties: ['sirloin', 'chuck roast', 'beef steak'], category: 'protein' },
+  { id: 'pork', name: 'pork', varieties: ['pork chop', 'pork loin', 'pork shoulder'], category: 'protein' },
+  { id: 'bacon', name: 'bacon', varieties: ['pancetta'], category: 'protein' },
+  { id: 'ham', name: 'ham', varieties: ['prosciutto'], category: 'protein' },
+  { id: 'sausage', name: 'sausage', varieties: ['chorizo'], category: 'protein' },
+  { id: 'turkey', name: 'turkey', varieties: ['ground turkey'], category: 'protein' },
+  { id: 'lamb', name: 'lamb', varieties: ['mutton'], category: 'protein' },
+  { id: 'salmon', name: 'salmon', synonyms: ['salmon fillet'], category: 'protein' },
+  { id: 'tuna', name: 'tuna', category: 'protein' },
+  { id: 'white-fish', name: 'white fish', varieties: ['cod', 'tilapia', 'haddock', 'pollock'], category: 'protein' },
+  { id: 'anchovy', name: 'anchovy', category: 'protein' },
+  { id: 'shrimp', name: 'shrimp', synonyms: ['prawn'], category: 'protein' },
+  { id: 'crab', name: 'crab', synonyms: ['crab meat'], category: 'protein' },
+  { id: 'tofu', name: 'tofu', synonyms: ['bean curd'], category: 'protein' },
+  { id: 'tempeh', name: 'tempeh', category: 'protein' },
+  { id: 'edamame', name: 'edamame', varieties: ['soybean'], category: 'protein' },
+  { id: 'chickpea', name: 'chickpea', synonyms: ['garbanzo bean', 'garbanzo', 'chana'], category: 'protein' },
+  { id: 'black-bean', name: 'black bean', synonyms: ['black turtle bean'], category: 'protein' },
+  { id: 'kidney-bean', name: 'kidney bean', synonyms: ['red kidney bean', 'rajma'], category: 'protein' },
+  { id: 'white-bean', name: 'white bean', varieties: ['cannellini bean', 'navy bean', 'great northern bean'], category: 'protein' },
+  { id: 'lentil', name: 'lentil', synonyms: ['dal', 'dhal'], varieties: ['red lentil', 'green lentil'], category: 'protein' },
+
+  // Grains and bread
+  { id: 'rice', name: 'rice', varieties: ['white rice', 'basmati rice', 'jasmine rice', 'brown rice'], category: 'grains' },
+  { id: 'pasta', name: 'pasta', varieties: ['spaghetti', 'penne', 'fusilli', 'linguine', 'macaroni'], category: 'grains' },
+  { id: 'noodle', name: 'noodle', varieties: ['egg noodle', 'ramen noodle', 'udon'], category: 'grains' },
+  { id: 'rice-noodle', name: 'rice noodle', synonyms: ['rice vermicelli', 'rice stick'], category: 'grains' },
+  { id: 'bread', name: 'bread', synonyms: ['sandwich bread'], varieties: ['baguette', 'sourdough'], category: 'grains' },
+  { id: 'tortilla', name: 'tortilla', synonyms: ['flour tortilla'], category: 'grains' },
+  { id: 'corn-tortilla', name: 'corn tortilla', category: 'grains' },
+  { id: 'breadcrumb', name: 'breadcrumb', synonyms: ['bread crumb'], varieties: ['panko'], category: 'grains' },
+  { id: 'couscous', name: 'couscous', category: 'grains' },
+  { id: 'quinoa', name: 'quinoa', category: 'grains' },
+  { id: 'oat', name: 'oat', synonyms: ['rolled oat', 'oatmeal', 'porridge oat'], category: 'grains' },
+
+  // Baking
+  { id: 'flour', name: 'flour', synonyms: ['all-purpose flour', 'plain flour', 'wheat flour', 'maida'], category: 'baking' },
+  { id: 'rice-flour', name: 'rice flour', synonyms: ['glutinous rice flour'], category: 'baking' },
+  { id: 'chickpea-flour', name: 'chickpea flour', synonyms: ['gram flour', 'besan'], category: 'baking' },
+  { id: 'coconut-flour', name: 'coconut flour', category: 'baking' },
+  { id: 'sugar', name: 'sugar', synonyms: ['granulated sugar', 'white sugar', 'caster sugar'], category: 'baking' },
+  { id: 'brown-sugar', name: 'brown sugar', synonyms: ['light brown sugar', 'dark brown sugar'], category: 'baking' },
+  { id: 'baking-powder', name: 'baking powder', category: 'baking' },
+  { id: 'baking-soda', name: 'baking soda', synonyms: ['bicarbonate of soda', 'bicarb'], category: 'baking' },
+  { id: 'cream-of-tartar', name: 'cream of tartar', category: 'baking' },
+  { id: 'cornstarch', name: 'cornstarch', synonyms: ['cornflour', 'corn starch'], category: 'baking' },
+  { id: 'cocoa-powder', name: 'cocoa powder', synonyms: ['cocoa'], category: 'baking' },
+  { id: 'chocolate', name: 'chocolate', varieties: ['chocolate chip', 'dark chocolate'], category: 'baking' },
+  { id: 'vanilla', name: 'vanilla', synonyms: ['vanilla extract', 'vanilla essence'], category: 'baking' },
+  { id: 'honey', name: 'honey', category: 'baking' },
+  { id: 'maple-syrup', name: 'maple syrup', category: 'baking' },
+
+  // Nuts and seeds
+  { id: 'almond', name: 'almond', synonyms: ['flaked almond'], varieties: ['almond flour'], category: 'other' },
+  { id: 'walnut', name: 'walnut', category: 'other' },
+  { id: 'cashew', name: 'cashew', synonyms: ['cashew nut'], category: 'other' },
+  { id: 'peanut', name: 'peanut', synonyms: ['groundnut'], category: 'other' },
+  { id: 'peanut-butter', name: 'peanut butter', category: 'condiments' },
+  { id: 'sesame-seed', name: 'sesame seed', category: 'other' },
+
+  // Oils and condiments
+  { id: 'olive-oil', name: 'olive oil', synonyms: ['extra virgin olive oil', 'evoo'], category: 'condiments' },
+  { id: 'vegetable-oil', name: 'vegetable oil', synonyms: ['oil', 'canola oil', 'sunflower oil', 'cooking oil', 'rapeseed oil'], category: 'condiments' },
+  { id: 'sesame-oil', name: 'sesame oil', synonyms: ['toasted sesame oil'], category: 'condiments' },
+  { id: 'coconut-milk', name: 'coconut milk', varieties: ['coconut cream'], category: 'condiments' },
+  { id: 'soy-sauce', name: 'soy sauce', synonyms: ['shoyu'], varieties: ['light soy sauce', 'dark soy sauce'], category: 'condiments' },
+  { id: 'tamari', name: 'tamari', category: 'condiments' },
+  { id: 'fish-sauce', name: 'fish sauce', category: 'condiments' },
+  { id: 'vinegar', name: 'vinegar', varieties: ['white vinegar', 'apple cider vinegar', 'rice vinegar', 'balsamic vinegar'], category: 'condiments' },
+  { id: 'broth', name: 'broth', synonyms: ['stock'], varieties: ['chicken broth', 'vegetable broth', 'chicken stock', 'vegetable stock', 'bouillon'], category: 'condiments' },
+  { id: 'tomato-paste', name: 'tomato paste', synonyms: ['tomato puree'], category: 'condiments' },
+  { id: 'canned-tomato', name: 'canned tomato', synonyms: ['tinned tomato'], varieties: ['diced tomato', 'crushed tomato', 'chopped tomato'], category: 'condiments' },
+  { id: 'mayonnaise', name: 'mayonnaise', synonyms: ['mayo'], category: 'condiments' },
+  { id: 'mustard', name: 'mustard', varieties: ['dijon mustard', 'dijon'], category: 'condiments' },
+  { id: 'ketchup', name: 'ketchup', synonyms: ['tomato ketchup'], category: 'condiments' },
+  { id: 'lemon-juice', name: 'lemon juice', category: 'condiments' },
+  { id: 'lime-juice', name: 'lime juice', category: 'condiments' },
+  { id: 'hot-sauce', name: 'hot sauce', varieties: ['sriracha', 'tabasco'], category: 'condiments' },
+
+  // Spices and dried herbs
+  { id: 'salt', name: 'salt', synonyms: ['sea salt', 'kosher salt', 'table salt'], category: 'spices' },
+  { id: 'black-pepper', name: 'black pepper', synonyms: ['pepper', 'ground pepper', 'peppercorn'], category: 'spices' },
+  { id: 'chili-flakes', name: 'chili flakes', synonyms: ['red pepper flakes', 'crushed red pepper', 'chilli flakes'], category: 'spices' },
+  { id: 'chili-powder', name: 'chili powder', synonyms: ['chilli powder'], varieties: ['cayenne', 'cayenne pepper'], category: 'spices' },
+  { id: 'paprika', name: 'paprika', varieties: ['smoked paprika'], category: 'spices' },
+  { id: 'cumin', name: 'cumin', synonyms: ['ground cumin', 'jeera'], varieties: ['cumin seed'], category: 'spices' },
+  { id: 'coriander', name: 'coriander', synonyms: ['ground coriander'], varieties: ['coriander seed'], category: 'spices' },
+  { id: 'turmeric', name: 'turmeric', synonyms: ['haldi'], category: 'spices' },
+  { id: 'garlic-powder', name: 'garlic powder', synonyms: ['granulated garlic'], category: 'spices' },
+  { id: 'onion-powder', name: 'onion powder', category: 'spices' },
+  { id: 'ground-ginger', name: 'ground ginger', synonyms: ['ginger powder'], category: 'spices' },
+  { id: 'garam-masala', name: 'garam masala', category: 'spices' },
+  { id: 'cinnamon', name: 'cinnamon', varieties: ['cinnamon stick'], category: 'spices' },
+  { id: 'oregano', name: 'oregano', synonyms: ['dried oregano'], category: 'spices' },
+  { id: 'thyme', name: 'thyme', synonyms: ['dried thyme'], category: 'spices' },
+  { id: 'rosemary', name: 'rosemary', category: 'spices' },
+  { id: 'bay-leaf', name: 'bay leaf', category: 'spices' },
+];
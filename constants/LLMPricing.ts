@@ -0,0 +1,22 @@
+// USD per million tokens
+export interface LLMModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices used to estimate generation cost. Models can be added or
+ * repriced without a code change through EXPO_PUBLIC_LLM_PRICES, a JSON
+ * object in the same shape, e.g. {"my-model": {"input": 0.2, "output": 0.6}}
+ */
+export const LLM_PRICE_TABLE: Record<string, LLMModelPrice> = {
+  // Groq
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'gemma2-9b-it': { input: 0.2, output: 0.2 },
+  // OpenAI
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  // Offline adapter
+  'mock-recipes-v1': { input: 0, output: 0 },
+};
@@ -0,0 +1,280 @@
+import { NutrientField } from '@/types/recipe';
+
+// Per 100 g, as eaten or as bought for recipes (raw meat, dry pasta and rice).
+// Sodium is in milligrams, everything else but calories in grams.
+//
+// Rounded USDA FoodData Central (SR Legacy) values for about 200 of the
+// ingredients recipes use most, named the way recipes write them. Anything
+// else is looked up in the full SR Legacy subset in assets/data/usdaFoods.json
+// (see utils/usdaFoods.ts).
+export interface FoodNutrition extends Record<NutrientField, number> {
+  // Weight of one, for counts like "2 eggs" or "1 medium onion"
+  gramsPerPiece?: number;
+  // For volumes; otherwise INGREDIENT_DENSITIES, then water
+  gramsPerMl?: number;
+}
+
+export const NUTRIENT_FIELDS: NutrientField[] = ['calories', 'protein', 'fat', 'carbs', 'fiber', 'sugar', 'sodium'];
+
+// Matched as whole words against ingredient names. When several match, the
+// one latest in the name wins ("chicken broth" is broth), then the longest.
+export const NUTRITION_DATABASE: Record<string, FoodNutrition> = {
+  // Grains, bread and baking
+  'flour': { calories: 364, protein: 10, fat: 1, carbs: 76, fiber: 2.7, sugar: 0.3, sodium: 2 },
+  'whole wheat flour': { calories: 340, protein: 13, fat: 2.5, carbs: 72, fiber: 10.7, sugar: 0.4, sodium: 2 },
+  'rice': { calories: 365, protein: 7.1, fat: 0.7, carbs: 80, fiber: 1.3, sugar: 0.1, sodium: 5 },
+  'brown rice': { calories: 370, protein: 7.9, fat: 2.9, carbs: 77, fiber: 3.5, sugar: 0.9, sodium: 7 },
+  'cooked rice': { calories: 130, protein: 2.7, fat: 0.3, carbs: 28, fiber: 0.4, sugar: 0.1, sodium: 1 },
+  'pasta': { calories: 371, protein: 13, fat: 1.5, carbs: 75, fiber: 3.2, sugar: 2.7, sodium: 6 },
+  'spaghetti': { calories: 371, protein: 13, fat: 1.5, carbs: 75, fiber: 3.2, sugar: 2.7, sodium: 6 },
+  'noodles': { calories: 384, protein: 14, fat: 4.4, carbs: 71, fiber: 3.3, sugar: 2, sodium: 21 },
+  'quinoa': { calories: 368, protein: 14, fat: 6.1, carbs: 64, fiber: 7, sugar: 0, sodium: 5 },
+  'oats': { calories: 389, protein: 17, fat: 6.9, carbs: 66, fiber: 10.6, sugar: 0, sodium: 2 },
+  'couscous': { calories: 376, protein: 13, fat: 0.6, carbs: 77, fiber: 5, sugar: 0, sodium: 10 },
+  'bread': { calories: 265, protein: 9, fat: 3.2, carbs: 49, fiber: 2.7, sugar: 5, sodium: 490, gramsPerPiece: 30 },
+  'tortilla': { calories: 310, protein: 8, fat: 8, carbs: 52, fiber: 3.5, sugar: 2, sodium: 600, gramsPerPiece: 45 },
+  'breadcrumbs': { calories: 395, protein: 13, fat: 5.3, carbs: 72, fiber: 4.5, sugar: 6.2, sodium: 732 },
+  'sugar': { calories: 387, protein: 0, fat: 0, carbs: 100, fiber: 0, sugar: 100, sodium: 1 },
+  'brown sugar': { calories: 380, protein: 0.1, fat: 0, carbs: 98, fiber: 0, sugar: 97, sodium: 28 },
+  'honey': { calories: 304, protein: 0.3, fat: 0, carbs: 82, fiber: 0.2, sugar: 82, sodium: 4, gramsPerMl: 1.42 },
+  'maple syrup': { calories: 260, protein: 0, fat: 0.1, carbs: 67, fiber: 0, sugar: 60, sodium: 12, gramsPerMl: 1.32 },
+  'cocoa powder': { calories: 228, protein: 20, fat: 14, carbs: 58, fiber: 37, sugar: 1.8, sodium: 21 },
+  'chocolate': { calories: 546, protein: 4.9, fat: 31, carbs: 61, fiber: 7, sugar: 48, sodium: 24 },
+  'dark chocolate': { calories: 598, protein: 7.8, fat: 43, carbs: 46, fiber: 10.9, sugar: 24, sodium: 20 },
+  'chocolate chip': { calories: 479, protein: 4.2, fat: 30, carbs: 63, fiber: 5.9, sugar: 55, sodium: 11 },
+  'powdered sugar': { calories: 389, protein: 0, fat: 0, carbs: 100, fiber: 0, sugar: 98, sodium: 2 },
+  'molasses': { calories: 290, protein: 0, fat: 0.1, carbs: 75, fiber: 0, sugar: 75, sodium: 37, gramsPerMl: 1.4 },
+  'cornmeal': { calories: 370, protein: 7.1, fat: 1.8, carbs: 79, fiber: 3.9, sugar: 0.6, sodium: 7 },
+  'cornstarch': { calories: 381, protein: 0.3, fat: 0.1, carbs: 91, fiber: 0.9, sugar: 0, sodium: 9 },
+  'baking powder': { calories: 53, protein: 0, fat: 0, carbs: 28, fiber: 0.2, sugar: 0, sodium: 10600 },
+  'baking soda': { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 27360 },
+  'barley': { calories: 352, protein: 9.9, fat: 1.2, carbs: 78, fiber: 15.6, sugar: 0.8, sodium: 9 },
+  'bulgur': { calories: 342, protein: 12, fat: 1.3, carbs: 76, fiber: 18.3, sugar: 0.4, sodium: 17 },
+  'rice noodles': { calories: 364, protein: 6, fat: 0.6, carbs: 80, fiber: 1.6, sugar: 0.1, sodium: 182 },
+  'cooked pasta': { calories: 158, protein: 5.8, fat: 0.9, carbs: 31, fiber: 1.8, sugar: 0.6, sodium: 1 },
+  'corn tortilla': { calories: 218, protein: 5.7, fat: 2.9, carbs: 45, fiber: 6.3, sugar: 0.9, sodium: 45, gramsPerPiece: 26 },
+  'pita': { calories: 275, protein: 9.1, fat: 1.2, carbs: 56, fiber: 2.2, sugar: 1.3, sodium: 536, gramsPerPiece: 60 },
+  'bagel': { calories: 257, protein: 10, fat: 1.7, carbs: 50, fiber: 2.1, sugar: 5, sodium: 450, gramsPerPiece: 105 },
+  'cracker': { calories: 421, protein: 9.5, fat: 8.6, carbs: 74, fiber: 2.8, sugar: 1.3, sodium: 943, gramsPerPiece: 3 },
+
+  // Dairy and eggs
+  'egg': { calories: 143, protein: 12.6, fat: 9.5, carbs: 0.7, fiber: 0, sugar: 0.4, sodium: 142, gramsPerPiece: 50 },
+  'butter': { calories: 717, protein: 0.9, fat: 81, carbs: 0.1, fiber: 0, sugar: 0.1, sodium: 11, gramsPerMl: 0.96 },
+  'milk': { calories: 61, protein: 3.2, fat: 3.3, carbs: 4.8, fiber: 0, sugar: 5, sodium: 43, gramsPerMl: 1.03 },
+  'cream': { calories: 340, protein: 2.8, fat: 36, carbs: 2.7, fiber: 0, sugar: 2.9, sodium: 27, gramsPerMl: 1 },
+  'sour cream': { calories: 198, protein: 2.4, fat: 19, carbs: 4.6, fiber: 0, sugar: 3.4, sodium: 31 },
+  'yogurt': { calories: 61, protein: 3.5, fat: 3.3, carbs: 4.7, fiber: 0, sugar: 4.7, sodium: 46 },
+  'greek yogurt': { calories: 97, protein: 9, fat: 5, carbs: 3.9, fiber: 0, sugar: 3.6, sodium: 35 },
+  'cheese': { calories: 403, protein: 25, fat: 33, carbs: 1.3, fiber: 0, sugar: 0.5, sodium: 621 },
+  'parmesan': { calories: 431, protein: 38, fat: 29, carbs: 4.1, fiber: 0, sugar: 0.9, sodium: 1529 },
+  'mozzarella': { calories: 280, protein: 28, fat: 17, carbs: 3.1, fiber: 0, sugar: 1, sodium: 627 },
+  'feta': { calories: 264, protein: 14, fat: 21, carbs: 4.1, fiber: 0, sugar: 4.1, sodium: 917 },
+  'cream cheese': { calories: 342, protein: 6, fat: 34, carbs: 4.1, fiber: 0, sugar: 3.2, sodium: 321 },
+  'ricotta': { calories: 174, protein: 11.3, fat: 13, carbs: 3, fiber: 0, sugar: 0.3, sodium: 84 },
+  'cottage cheese': { calories: 98, protein: 11.1, fat: 4.3, carbs: 3.4, fiber: 0, sugar: 2.7, sodium: 364 },
+  'goat cheese': { calories: 364, protein: 22, fat: 30, carbs: 0.1, fiber: 0, sugar: 0.1, sodium: 515 },
+  'buttermilk': { calories: 40, protein: 3.3, fat: 0.9, carbs: 4.8, fiber: 0, sugar: 4.8, sodium: 105, gramsPerMl: 1.03 },
+  'half and half': { calories: 131, protein: 3.1, fat: 11.5, carbs: 4.3, fiber: 0, sugar: 4.1, sodium: 61, gramsPerMl: 1.01 },
+  'evaporated milk': { calories: 134, protein: 6.8, fat: 7.6, carbs: 10, fiber: 0, sugar: 10, sodium: 106, gramsPerMl: 1.07 },
+  'condensed milk': { calories: 321, protein: 7.9, fat: 8.7, carbs: 54, fiber: 0, sugar: 54, sodium: 127, gramsPerMl: 1.3 },
+  'almond milk': { calories: 15, protein: 0.6, fat: 1.1, carbs: 0.6, fiber: 0, sugar: 0, sodium: 72, gramsPerMl: 1 },
+  'soy milk': { calories: 54, protein: 3.3, fat: 1.8, carbs: 6.3, fiber: 0.6, sugar: 3.9, sodium: 51, gramsPerMl: 1.03 },
+  'ghee': { calories: 876, protein: 0.3, fat: 99.5, carbs: 0, fiber: 0, sugar: 0, sodium: 2, gramsPerMl: 0.91 },
+  'egg white': { calories: 52, protein: 10.9, fat: 0.2, carbs: 0.7, fiber: 0, sugar: 0.7, sodium: 166, gramsPerPiece: 33 },
+  'egg yolk': { calories: 322, protein: 15.9, fat: 26.5, carbs: 3.6, fiber: 0, sugar: 0.6, sodium: 48, gramsPerPiece: 17 },
+
+  // Meat, fish and plant proteins
+  'chicken': { calories: 143, protein: 18, fat: 7.5, carbs: 0, fiber: 0, sugar: 0, sodium: 70 },
+  'chicken breast': { calories: 120, protein: 22.5, fat: 2.6, carbs: 0, fiber: 0, sugar: 0, sodium: 45, gramsPerPiece: 200 },
+  'chicken thigh': { calories: 177, protein: 18, fat: 11, carbs: 0, fiber: 0, sugar: 0, sodium: 84, gramsPerPiece: 110 },
+  'ground beef': { calories: 254, protein: 17, fat: 20, carbs: 0, fiber: 0, sugar: 0, sodium: 66 },
+  'beef': { calories: 217, protein: 26, fat: 12, carbs: 0, fiber: 0, sugar: 0, sodium: 60 },
+  'pork': { calories: 242, protein: 27, fat: 14, carbs: 0, fiber: 0, sugar: 0, sodium: 62 },
+  'bacon': { calories: 417, protein: 13, fat: 40, carbs: 1.4, fiber: 0, sugar: 0, sodium: 833, gramsPerPiece: 12 },
+  'sausage': { calories: 301, protein: 12, fat: 27, carbs: 1.5, fiber: 0, sugar: 0.9, sodium: 731, gramsPerPiece: 75 },
+  'salmon': { calories: 208, protein: 20, fat: 13, carbs: 0, fiber: 0, sugar: 0, sodium: 59, gramsPerPiece: 150 },
+  'tuna': { calories: 116, protein: 26, fat: 1, carbs: 0, fiber: 0, sugar: 0, sodium: 338 },
+  'shrimp': { calories: 85, protein: 20, fat: 0.5, carbs: 0, fiber: 0, sugar: 0, sodium: 119 },
+  'tofu': { calories: 76, protein: 8, fat: 4.8, carbs: 1.9, fiber: 0.3, sugar: 0.6, sodium: 7 },
+  'chickpeas': { calories: 164, protein: 8.9, fat: 2.6, carbs: 27.4, fiber: 7.6, sugar: 4.8, sodium: 24 },
+  'beans': { calories: 132, protein: 8.9, fat: 0.5, carbs: 23.7, fiber: 8.7, sugar: 0.3, sodium: 1 },
+  'lentils': { calories: 352, protein: 25, fat: 1.1, carbs: 63, fiber: 10.7, sugar: 2, sodium: 6 },
+  'ground turkey': { calories: 148, protein: 17.5, fat: 8.3, carbs: 0, fiber: 0, sugar: 0, sodium: 69 },
+  'ground pork': { calories: 263, protein: 16.9, fat: 21.2, carbs: 0, fiber: 0, sugar: 0, sodium: 56 },
+  'lamb': { calories: 282, protein: 16.6, fat: 23.4, carbs: 0, fiber: 0, sugar: 0, sodium: 59 },
+  'ham': { calories: 145, protein: 20.9, fat: 5.5, carbs: 1.5, fiber: 0, sugar: 0, sodium: 1203 },
+  'chorizo': { calories: 455, protein: 24, fat: 38, carbs: 1.9, fiber: 0, sugar: 0, sodium: 1235 },
+  'cod': { calories: 82, protein: 17.8, fat: 0.7, carbs: 0, fiber: 0, sugar: 0, sodium: 54, gramsPerPiece: 150 },
+  'tilapia': { calories: 96, protein: 20, fat: 1.7, carbs: 0, fiber: 0, sugar: 0, sodium: 52, gramsPerPiece: 120 },
+  'sardines': { calories: 208, protein: 24.6, fat: 11.5, carbs: 0, fiber: 0, sugar: 0, sodium: 307 },
+  'tempeh': { calories: 192, protein: 20.3, fat: 10.8, carbs: 7.6, fiber: 0, sugar: 0, sodium: 9 },
+  'edamame': { calories: 121, protein: 11.9, fat: 5.2, carbs: 8.9, fiber: 5.2, sugar: 2.2, sodium: 6 },
+  'hummus': { calories: 166, protein: 7.9, fat: 9.6, carbs: 14.3, fiber: 6, sugar: 0.3, sodium: 379 },
+
+  // Vegetables and fruit
+  'onion': { calories: 40, protein: 1.1, fat: 0.1, carbs: 9.3, fiber: 1.7, sugar: 4.2, sodium: 4, gramsPerPiece: 110 },
+  'garlic': { calories: 149, protein: 6.4, fat: 0.5, carbs: 33, fiber: 2.1, sugar: 1, sodium: 17, gramsPerPiece: 5 },
+  'tomato': { calories: 18, protein: 0.9, fat: 0.2, carbs: 3.9, fiber: 1.2, sugar: 2.6, sodium: 5, gramsPerPiece: 120 },
+  'canned tomatoes': { calories: 21, protein: 1, fat: 0.2, carbs: 4, fiber: 1, sugar: 2.5, sodium: 140 },
+  'tomato sauce': { calories: 24, protein: 1.3, fat: 0.2, carbs: 5.3, fiber: 1.5, sugar: 3.6, sodium: 474 },
+  'tomato paste': { calories: 82, protein: 4.3, fat: 0.5, carbs: 19, fiber: 4.1, sugar: 12, sodium: 59 },
+  'bell pepper': { calories: 31, protein: 1, fat: 0.3, carbs: 6, fiber: 2.1, sugar: 4.2, sodium: 4, gramsPerPiece: 120 },
+  'carrot': { calories: 41, protein: 0.9, fat: 0.2, carbs: 9.6, fiber: 2.8, sugar: 4.7, sodium: 69, gramsPerPiece: 60 },
+  'potato': { calories: 77, protein: 2, fat: 0.1, carbs: 17, fiber: 2.2, sugar: 0.8, sodium: 6, gramsPerPiece: 170 },
+  'sweet potato': { calories: 86, protein: 1.6, fat: 0.1, carbs: 20, fiber: 3, sugar: 4.2, sodium: 55, gramsPerPiece: 130 },
+  'spinach': { calories: 23, protein: 2.9, fat: 0.4, carbs: 3.6, fiber: 2.2, sugar: 0.4, sodium: 79 },
+  'kale': { calories: 49, protein: 4.3, fat: 0.9, carbs: 8.8, fiber: 3.6, sugar: 2.3, sodium: 38 },
+  'broccoli': { calories: 34, protein: 2.8, fat: 0.4, carbs: 6.6, fiber: 2.6, sugar: 1.7, sodium: 33, gramsPerPiece: 300 },
+  'cauliflower': { calories: 25, protein: 1.9, fat: 0.3, carbs: 5, fiber: 2, sugar: 1.9, sodium: 30, gramsPerPiece: 600 },
+  'zucchini': { calories: 17, protein: 1.2, fat: 0.3, carbs: 3.1, fiber: 1, sugar: 2.5, sodium: 8, gramsPerPiece: 200 },
+  'mushrooms': { calories: 22, protein: 3.1, fat: 0.3, carbs: 3.3, fiber: 1, sugar: 2, sodium: 5 },
+  'cucumber': { calories: 15, protein: 0.7, fat: 0.1, carbs: 3.6, fiber: 0.5, sugar: 1.7, sodium: 2, gramsPerPiece: 300 },
+  'lettuce': { calories: 15, protein: 1.4, fat: 0.2, carbs: 2.9, fiber: 1.3, sugar: 0.8, sodium: 28 },
+  'cabbage': { calories: 25, protein: 1.3, fat: 0.1, carbs: 5.8, fiber: 2.5, sugar: 3.2, sodium: 18 },
+  'green beans': { calories: 31, protein: 1.8, fat: 0.2, carbs: 7, fiber: 2.7, sugar: 3.3, sodium: 6 },
+  'peas': { calories: 81, protein: 5.4, fat: 0.4, carbs: 14.5, fiber: 5.1, sugar: 5.7, sodium: 5 },
+  'corn': { calories: 86, protein: 3.3, fat: 1.4, carbs: 19, fiber: 2.7, sugar: 6.3, sodium: 15 },
+  'celery': { calories: 16, protein: 0.7, fat: 0.2, carbs: 3, fiber: 1.6, sugar: 1.3, sodium: 80, gramsPerPiece: 40 },
+  'avocado': { calories: 160, protein: 2, fat: 15, carbs: 8.5, fiber: 6.7, sugar: 0.7, sodium: 7, gramsPerPiece: 150 },
+  'green onion': { calories: 32, protein: 1.8, fat: 0.2, carbs: 7.3, fiber: 2.6, sugar: 2.3, sodium: 16, gramsPerPiece: 15 },
+  'scallion': { calories: 32, protein: 1.8, fat: 0.2, carbs: 7.3, fiber: 2.6, sugar: 2.3, sodium: 16, gramsPerPiece: 15 },
+  'shallot': { calories: 72, protein: 2.5, fat: 0.1, carbs: 16.8, fiber: 3.2, sugar: 7.9, sodium: 12, gramsPerPiece: 30 },
+  'leek': { calories: 61, protein: 1.5, fat: 0.3, carbs: 14.2, fiber: 1.8, sugar: 3.9, sodium: 20, gramsPerPiece: 90 },
+  'eggplant': { calories: 25, protein: 1, fat: 0.2, carbs: 5.9, fiber: 3, sugar: 3.5, sodium: 2, gramsPerPiece: 450 },
+  'asparagus': { calories: 20, protein: 2.2, fat: 0.1, carbs: 3.9, fiber: 2.1, sugar: 1.9, sodium: 2 },
+  'brussels sprout': { calories: 43, protein: 3.4, fat: 0.3, carbs: 9, fiber: 3.8, sugar: 2.2, sodium: 25 },
+  'beet': { calories: 43, protein: 1.6, fat: 0.2, carbs: 9.6, fiber: 2.8, sugar: 6.8, sodium: 78, gramsPerPiece: 80 },
+  'butternut squash': { calories: 45, protein: 1, fat: 0.1, carbs: 11.7, fiber: 2, sugar: 2.2, sodium: 4 },
+  'pumpkin': { calories: 34, protein: 1.1, fat: 0.3, carbs: 8.1, fiber: 2.9, sugar: 3.3, sodium: 5 },
+  'radish': { calories: 16, protein: 0.7, fat: 0.1, carbs: 3.4, fiber: 1.6, sugar: 1.9, sodium: 39, gramsPerPiece: 5 },
+  'arugula': { calories: 25, protein: 2.6, fat: 0.7, carbs: 3.7, fiber: 1.6, sugar: 2.1, sodium: 27 },
+  'bok choy': { calories: 13, protein: 1.5, fat: 0.2, carbs: 2.2, fiber: 1, sugar: 1.2, sodium: 65 },
+  'jalapeno': { calories: 29, protein: 0.9, fat: 0.4, carbs: 6.5, fiber: 2.8, sugar: 4.1, sodium: 3, gramsPerPiece: 14 },
+  'olive': { calories: 115, protein: 0.8, fat: 10.7, carbs: 6.3, fiber: 3.2, sugar: 0, sodium: 735, gramsPerPiece: 4 },
+  'ginger': { calories: 80, protein: 1.8, fat: 0.8, carbs: 18, fiber: 2, sugar: 1.7, sodium: 13 },
+  'lemon': { calories: 29, protein: 1.1, fat: 0.3, carbs: 9.3, fiber: 2.8, sugar: 2.5, sodium: 2, gramsPerPiece: 60 },
+  'lemon juice': { calories: 22, protein: 0.4, fat: 0.2, carbs: 6.9, fiber: 0.3, sugar: 2.5, sodium: 1 },
+  'lime': { calories: 30, protein: 0.7, fat: 0.2, carbs: 10.5, fiber: 2.8, sugar: 1.7, sodium: 2, gramsPerPiece: 45 },
+  'lime juice': { calories: 25, protein: 0.4, fat: 0.1, carbs: 8.4, fiber: 0.4, sugar: 1.7, sodium: 2 },
+  'orange': { calories: 47, protein: 0.9, fat: 0.1, carbs: 11.8, fiber: 2.4, sugar: 9.4, sodium: 0, gramsPerPiece: 130 },
+  'orange juice': { calories: 45, protein: 0.7, fat: 0.2, carbs: 10.4, fiber: 0.2, sugar: 8.4, sodium: 1, gramsPerMl: 1.04 },
+  'apple': { calories: 52, protein: 0.3, fat: 0.2, carbs: 14, fiber: 2.4, sugar: 10, sodium: 1, gramsPerPiece: 180 },
+  'banana': { calories: 89, protein: 1.1, fat: 0.3, carbs: 23, fiber: 2.6, sugar: 12, sodium: 1, gramsPerPiece: 120 },
+  'berries': { calories: 57, protein: 0.7, fat: 0.3, carbs: 14.5, fiber: 2.4, sugar: 10, sodium: 1 },
+  'strawberries': { calories: 32, protein: 0.7, fat: 0.3, carbs: 7.7, fiber: 2, sugar: 4.9, sodium: 1 },
+  'blueberries': { calories: 57, protein: 0.7, fat: 0.3, carbs: 14.5, fiber: 2.4, sugar: 10, sodium: 1 },
+  'raspberries': { calories: 52, protein: 1.2, fat: 0.7, carbs: 11.9, fiber: 6.5, sugar: 4.4, sodium: 1 },
+  'grape': { calories: 69, protein: 0.7, fat: 0.2, carbs: 18.1, fiber: 0.9, sugar: 15.5, sodium: 2 },
+  'mango': { calories: 60, protein: 0.8, fat: 0.4, carbs: 15, fiber: 1.6, sugar: 13.7, sodium: 1, gramsPerPiece: 200 },
+  'pineapple': { calories: 50, protein: 0.5, fat: 0.1, carbs: 13.1, fiber: 1.4, sugar: 9.9, sodium: 1 },
+  'peach': { calories: 39, protein: 0.9, fat: 0.3, carbs: 9.5, fiber: 1.5, sugar: 8.4, sodium: 0, gramsPerPiece: 150 },
+  'pear': { calories: 57, protein: 0.4, fat: 0.1, carbs: 15.2, fiber: 3.1, sugar: 9.8, sodium: 1, gramsPerPiece: 180 },
+  'watermelon': { calories: 30, protein: 0.6, fat: 0.2, carbs: 7.6, fiber: 0.4, sugar: 6.2, sodium: 1 },
+  'raisin': { calories: 299, protein: 3.1, fat: 0.5, carbs: 79, fiber: 3.7, sugar: 59, sodium: 11 },
+  'dates': { calories: 277, protein: 1.8, fat: 0.2, carbs: 75, fiber: 6.7, sugar: 66, sodium: 1, gramsPerPiece: 24 },
+  'coconut': { calories: 660, protein: 6.9, fat: 64.5, carbs: 23.7, fiber: 16.3, sugar: 7.4, sodium: 37 },
+  'basil': { calories: 23, protein: 3.2, fat: 0.6, carbs: 2.7, fiber: 1.6, sugar: 0.3, sodium: 4 },
+  'cilantro': { calories: 23, protein: 2.1, fat: 0.5, carbs: 3.7, fiber: 2.8, sugar: 0.9, sodium: 46 },
+  'parsley': { calories: 36, protein: 3, fat: 0.8, carbs: 6.3, fiber: 3.3, sugar: 0.9, sodium: 56 },
+  'mint': { calories: 44, protein: 3.3, fat: 0.7, carbs: 8.4, fiber: 6.8, sugar: 0, sodium: 30 },
+  'dill': { calories: 43, protein: 3.5, fat: 1.1, carbs: 7, fiber: 2.1, sugar: 0, sodium: 61 },
+  'rosemary': { calories: 131, protein: 3.3, fat: 5.9, carbs: 20.7, fiber: 14.1, sugar: 0, sodium: 26 },
+  'thyme': { calories: 101, protein: 5.6, fat: 1.7, carbs: 24.5, fiber: 14, sugar: 0, sodium: 9 },
+
+  // Nuts and seeds
+  'almonds': { calories: 579, protein: 21, fat: 50, carbs: 22, fiber: 12.5, sugar: 4.4, sodium: 1 },
+  'walnuts': { calories: 654, protein: 15, fat: 65, carbs: 14, fiber: 6.7, sugar: 2.6, sodium: 2 },
+  'peanuts': { calories: 567, protein: 26, fat: 49, carbs: 16, fiber: 8.5, sugar: 4, sodium: 18 },
+  'nuts': { calories: 607, protein: 20, fat: 54, carbs: 21, fiber: 7, sugar: 4, sodium: 5 },
+  'peanut butter': { calories: 588, protein: 25, fat: 50, carbs: 20, fiber: 6, sugar: 9, sodium: 17, gramsPerMl: 1.09 },
+  'sesame seeds': { calories: 573, protein: 18, fat: 50, carbs: 23, fiber: 11.8, sugar: 0.3, sodium: 11 },
+  'cashew': { calories: 553, protein: 18.2, fat: 43.9, carbs: 30.2, fiber: 3.3, sugar: 5.9, sodium: 12 },
+  'pecan': { calories: 691, protein: 9.2, fat: 72, carbs: 13.9, fiber: 9.6, sugar: 4, sodium: 0 },
+  'pine nut': { calories: 673, protein: 13.7, fat: 68.4, carbs: 13.1, fiber: 3.7, sugar: 3.6, sodium: 2 },
+  'pistachio': { calories: 560, protein: 20.2, fat: 45.3, carbs: 27.2, fiber: 10.6, sugar: 7.7, sodium: 1 },
+  'chia seed': { calories: 486, protein: 16.5, fat: 30.7, carbs: 42.1, fiber: 34.4, sugar: 0, sodium: 16 },
+  'flaxseed': { calories: 534, protein: 18.3, fat: 42.2, carbs: 28.9, fiber: 27.3, sugar: 1.6, sodium: 30 },
+  'sunflower seed': { calories: 584, protein: 20.8, fat: 51.5, carbs: 20, fiber: 8.6, sugar: 2.6, sodium: 9 },
+  'pumpkin seed': { calories: 559, protein: 30.2, fat: 49, carbs: 10.7, fiber: 6, sugar: 1.4, sodium: 7 },
+  'almond butter': { calories: 614, protein: 21, fat: 55.5, carbs: 18.8, fiber: 10.3, sugar: 4.4, sodium: 7 },
+  'tahini': { calories: 595, protein: 17, fat: 53.8, carbs: 21.2, fiber: 9.3, sugar: 0.5, sodium: 115 },
+
+  // Oils, sauces and seasonings
+  'oil': { calories: 884, protein: 0, fat: 100, carbs: 0, fiber: 0, sugar: 0, sodium: 0, gramsPerMl: 0.92 },
+  'olive oil': { calories: 884, protein: 0, fat: 100, carbs: 0, fiber: 0, sugar: 0, sodium: 2, gramsPerMl: 0.91 },
+  'sesame oil': { calories: 884, protein: 0, fat: 100, carbs: 0, fiber: 0, sugar: 0, sodium: 0, gramsPerMl: 0.92 },
+  'coconut milk': { calories: 230, protein: 2.3, fat: 24, carbs: 6, fiber: 2.2, sugar: 3.3, sodium: 15, gramsPerMl: 0.97 },
+  'soy sauce': { calories: 53, protein: 8.1, fat: 0.6, carbs: 4.9, fiber: 0.8, sugar: 0.4, sodium: 5493, gramsPerMl: 1.2 },
+  'fish sauce': { calories: 35, protein: 5.1, fat: 0, carbs: 3.6, fiber: 0, sugar: 3.6, sodium: 7851, gramsPerMl: 1.2 },
+  'hot sauce': { calories: 11, protein: 0.5, fat: 0.4, carbs: 1.8, fiber: 0.3, sugar: 1.3, sodium: 2643 },
+  'worcestershire': { calories: 78, protein: 0, fat: 0, carbs: 19.5, fiber: 0, sugar: 10, sodium: 980 },
+  'barbecue sauce': { calories: 172, protein: 0.8, fat: 0.6, carbs: 41, fiber: 0.9, sugar: 33, sodium: 1027 },
+  'bbq sauce': { calories: 172, protein: 0.8, fat: 0.6, carbs: 41, fiber: 0.9, sugar: 33, sodium: 1027 },
+  'salsa': { calories: 36, protein: 1.5, fat: 0.2, carbs: 7, fiber: 1.9, sugar: 4, sodium: 711 },
+  'miso': { calories: 198, protein: 12.8, fat: 6, carbs: 25.4, fiber: 5.4, sugar: 6.2, sodium: 3728 },
+  'vinegar': { calories: 18, protein: 0, fat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 2 },
+  'balsamic vinegar': { calories: 88, protein: 0.5, fat: 0, carbs: 17, fiber: 0, sugar: 15, sodium: 23 },
+  'mayonnaise': { calories: 680, protein: 1, fat: 75, carbs: 0.6, fiber: 0, sugar: 0.6, sodium: 635 },
+  'ketchup': { calories: 101, protein: 1, fat: 0.1, carbs: 27, fiber: 0.3, sugar: 22, sodium: 907 },
+  'mustard': { calories: 60, protein: 3.7, fat: 3.3, carbs: 5.8, fiber: 4, sugar: 0.9, sodium: 1104 },
+  'broth': { calories: 6, protein: 0.6, fat: 0.2, carbs: 0.4, fiber: 0, sugar: 0.3, sodium: 343 },
+  'wine': { calories: 83, protein: 0.1, fat: 0, carbs: 2.7, fiber: 0, sugar: 0.8, sodium: 5, gramsPerMl: 0.99 },
+  'jam': { calories: 278, protein: 0.4, fat: 0.1, carbs: 68.9, fiber: 1.1, sugar: 48.5, sodium: 32 },
+  'vanilla': { calories: 288, protein: 0.1, fat: 0.1, carbs: 12.7, fiber: 0, sugar: 12.7, sodium: 9, gramsPerMl: 0.88 },
+  'stock': { calories: 6, protein: 0.6, fat: 0.2, carbs: 0.4, fiber: 0, sugar: 0.3, sodium: 343 },
+  'water': { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 0 },
+  'salt': { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 38758, gramsPerMl: 1.2 },
+  'black pepper': { calories: 251, protein: 10, fat: 3.3, carbs: 64, fiber: 25, sugar: 0.6, sodium: 20 },
+  'cumin': { calories: 375, protein: 18, fat: 22, carbs: 44, fiber: 10.5, sugar: 2.3, sodium: 168 },
+  'paprika': { calories: 282, protein: 14, fat: 13, carbs: 54, fiber: 35, sugar: 10, sodium: 68 },
+  'chili powder': { calories: 282, protein: 13, fat: 14, carbs: 50, fiber: 35, sugar: 7, sodium: 2867 },
+  'cinnamon': { calories: 247, protein: 4, fat: 1.2, carbs: 81, fiber: 53, sugar: 2.2, sodium: 10 },
+  'garlic powder': { calories: 331, protein: 16.6, fat: 0.7, carbs: 72.7, fiber: 9, sugar: 2.4, sodium: 60 },
+  'onion powder': { calories: 341, protein: 10.4, fat: 1, carbs: 79.1, fiber: 15.2, sugar: 6.6, sodium: 73 },
+  'ground ginger': { calories: 335, protein: 9, fat: 4.2, carbs: 71.6, fiber: 14.1, sugar: 3.4, sodium: 27 },
+  'turmeric': { calories: 312, protein: 9.7, fat: 3.3, carbs: 67.1, fiber: 22.7, sugar: 3.2, sodium: 27 },
+  'curry powder': { calories: 325, protein: 14.3, fat: 14, carbs: 55.8, fiber: 53.2, sugar: 2.8, sodium: 52 },
+  'nutmeg': { calories: 525, protein: 5.8, fat: 36.3, carbs: 49.3, fiber: 20.8, sugar: 28.5, sodium: 16 },
+  'oregano': { calories: 265, protein: 9, fat: 4.3, carbs: 68.9, fiber: 42.5, sugar: 4.1, sodium: 25 },
+  'cayenne': { calories: 318, protein: 12, fat: 17.3, carbs: 56.6, fiber: 27.2, sugar: 10.3, sodium: 30 },
+  'red pepper flakes': { calories: 318, protein: 12, fat: 17.3, carbs: 56.6, fiber: 27.2, sugar: 10.3, sodium: 30 },
+};
+
+// Weights of units that aren't a mass or volume
+export const GRAMS_PER_COUNT_UNIT: Record<string, number> = {
+  clove: 5,
+  can: 400,
+  jar: 350,
+  slice: 30,
+  pinch: 0.4,
+  dash: 0.6,
+  handful: 30,
+  sprig: 1,
+  stalk: 40,
+  stick: 113,
+  bunch: 100,
+  head: 500,
+  package: 250,
+  bag: 200,
+  box: 450,
+  bottle: 500,
+};
+
+// Below this share of ingredient lines matched and measured (0-100), the
+// computed numbers are too incomplete to use and the model's are kept
+export const NUTRITION_MIN_COVERAGE = 75;
+
+// Differences between the model's numbers and the computed ones, as a share
+// of the larger, that are flagged
+export const NUTRITION_DISCREPANCY_TOLERANCE = 0.3;
+
+// ...as long as they're at least this big, so 1g vs 2g of sugar isn't flagged
+export const NUTRITION_DISCREPANCY_MIN: Record<NutrientField, number> = {
+  calories: 75,
+  protein: 5,
+  fat: 5,
+  carbs: 10,
+  fiber: 3,
+  sugar: 5,
+  sodium: 200,
+};
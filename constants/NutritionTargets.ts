@@ -0,0 +1,25 @@
+import { DietaryPlan } from '@/types/dietary';
+import { NutritionField, NutritionTargets } from '@/types/recipe';
+
+export const NUTRITION_TARGET_FIELDS: { field: NutritionField; label: string; unit: string }[] = [
+  { field: 'calories', label: 'Calories', unit: 'kcal' },
+  { field: 'protein', label: 'Protein', unit: 'g' },
+  { field: 'fat', label: 'Fat', unit: 'g' },
+  { field: 'carbs', label: 'Carbs', unit: 'g' },
+  { field: 'fiber', label: 'Fiber', unit: 'g' },
+  { field: 'sugar', label: 'Sugar', unit: 'g' },
+  { field: 'sodium', label: 'Sodium', unit: 'mg' },
+  { field: 'servings', label: 'Servings', unit: '' },
+];
+
+// The model's nutrition numbers are estimates, so recipes this far outside a
+// target (as a share of the target) still count as meeting it
+export const NUTRITION_TARGET_TOLERANCE = 0.1;
+
+// Starting points for the diet plans that come with numeric goals
+export const NUTRITION_TARGET_PRESETS: Partial<Record<DietaryPlan, NutritionTargets>> = {
+  'high-protein': { protein: { min: 35 }, calories: { max: 700 } },
+  keto: { carbs: { max: 20 }, fat: { min: 30 } },
+  'low-carb': { carbs: { max: 40 }, sugar: { max: 10 } },
+  'low-sodium': { sodium: { max: 600 } },
+};
@@ -0,0 +1,188 @@
+export type PriceUnit = 'kg' | 'l' | 'each';
+
+// US supermarket price in USD per kilogram, litre or item
+export interface IngredientPrice {
+  price: number;
+  unit: PriceUnit;
+}
+
+export type PriceRegion = 'us' | 'ca' | 'uk' | 'eu' | 'au' | 'in';
+
+export type CurrencyCode = 'USD' | 'CAD' | 'GBP' | 'EUR' | 'AUD' | 'INR';
+
+export interface PriceSettings {
+  region: PriceRegion;
+  currency: CurrencyCode;
+}
+
+/**
+ * Prices, region multipliers and exchange rates used to re-estimate recipe
+ * costs. The built-in one below can be overridden field by field from
+ * Firestore (see priceCatalogService).
+ */
+export interface PriceCatalog {
+  version: string;
+  prices: Record<string, IngredientPrice>;
+  // Grocery price level relative to the US, in USD terms
+  regionMultipliers: Record<PriceRegion, number>;
+  // Units of each currency per USD
+  exchangeRates: Record<CurrencyCode, number>;
+}
+
+export const PRICE_REGIONS: { value: PriceRegion; label: string; currency: CurrencyCode }[] = [
+  { value: 'us', label: 'United States', currency: 'USD' },
+  { value: 'ca', label: 'Canada', currency: 'CAD' },
+  { value: 'uk', label: 'United Kingdom', currency: 'GBP' },
+  { value: 'eu', label: 'Eurozone', currency: 'EUR' },
+  { value: 'au', label: 'Australia', currency: 'AUD' },
+  { value: 'in', label: 'India', currency: 'INR' },
+];
+
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  USD: '$',
+  CAD: 'CA$',
+  GBP: '£',
+  EUR: '€',
+  AUD: 'A$',
+  INR: '₹',
+};
+
+export const DEFAULT_PRICE_SETTINGS: PriceSettings = { region: 'us', currency: 'USD' };
+
+// Where priceCatalogService persists the user's region and currency
+export const PRICE_SETTINGS_STORAGE_KEY = 'priceSettings';
+
+// Matched as whole words against ingredient names, the same way as the
+// nutrition table: latest in the name first, then longest
+export const BUILT_IN_PRICE_CATALOG: PriceCatalog = {
+  version: 'built-in-2025-04',
+  prices: {
+    // Grains, bread and baking
+    'flour': { price: 1.3, unit: 'kg' },
+    'rice': { price: 2.5, unit: 'kg' },
+    'pasta': { price: 3, unit: 'kg' },
+    'spaghetti': { price: 3, unit: 'kg' },
+    'noodles': { price: 5, unit: 'kg' },
+    'quinoa': { price: 9, unit: 'kg' },
+    'oats': { price: 3.5, unit: 'kg' },
+    'couscous': { price: 6, unit: 'kg' },
+    'bread': { price: 5, unit: 'kg' },
+    'tortilla': { price: 0.3, unit: 'each' },
+    'breadcrumbs': { price: 7, unit: 'kg' },
+    'sugar': { price: 2, unit: 'kg' },
+    'brown sugar': { price: 2.5, unit: 'kg' },
+    'honey': { price: 15, unit: 'kg' },
+    'maple syrup': { price: 25, unit: 'l' },
+    'cocoa powder': { price: 18, unit: 'kg' },
+    'chocolate': { price: 16, unit: 'kg' },
+
+    // Dairy and eggs
+    'egg': { price: 0.35, unit: 'each' },
+    'butter': { price: 10, unit: 'kg' },
+    'milk': { price: 1.1, unit: 'l' },
+    'cream': { price: 7, unit: 'l' },
+    'sour cream': { price: 6, unit: 'kg' },
+    'yogurt': { price: 5, unit: 'kg' },
+    'greek yogurt': { price: 7, unit: 'kg' },
+    'cheese': { price: 13, unit: 'kg' },
+    'parmesan': { price: 26, unit: 'kg' },
+    'mozzarella': { price: 11, unit: 'kg' },
+    'feta': { price: 15, unit: 'kg' },
+    'cream cheese': { price: 9, unit: 'kg' },
+
+    // Meat, fish and plant proteins
+    'chicken': { price: 7, unit: 'kg' },
+    'chicken breast': { price: 9, unit: 'kg' },
+    'chicken thigh': { price: 7, unit: 'kg' },
+    'ground beef': { price: 11, unit: 'kg' },
+    'beef': { price: 15, unit: 'kg' },
+    'pork': { price: 9, unit: 'kg' },
+    'bacon': { price: 13, unit: 'kg' },
+    'sausage': { price: 10, unit: 'kg' },
+    'salmon': { price: 22, unit: 'kg' },
+    'tuna': { price: 12, unit: 'kg' },
+    'shrimp': { price: 20, unit: 'kg' },
+    'tofu': { price: 6, unit: 'kg' },
+    'chickpeas': { price: 4.5, unit: 'kg' },
+    'beans': { price: 4, unit: 'kg' },
+    'lentils': { price: 4, unit: 'kg' },
+
+    // Vegetables, fruit and herbs
+    'onion': { price: 2.6, unit: 'kg' },
+    'garlic': { price: 12, unit: 'kg' },
+    'tomato': { price: 4.5, unit: 'kg' },
+    'canned tomatoes': { price: 3, unit: 'kg' },
+    'tomato paste': { price: 8, unit: 'kg' },
+    'bell pepper': { price: 1.3, unit: 'each' },
+    'carrot': { price: 2.2, unit: 'kg' },
+    'potato': { price: 2.2, unit: 'kg' },
+    'sweet potato': { price: 3.3, unit: 'kg' },
+    'spinach': { price: 11, unit: 'kg' },
+    'kale': { price: 9, unit: 'kg' },
+    'broccoli': { price: 5, unit: 'kg' },
+    'cauliflower': { price: 4.5, unit: 'kg' },
+    'zucchini': { price: 4.5, unit: 'kg' },
+    'mushrooms': { price: 9, unit: 'kg' },
+    'cucumber': { price: 1, unit: 'each' },
+    'lettuce': { price: 2, unit: 'each' },
+    'cabbage': { price: 2.2, unit: 'kg' },
+    'green beans': { price: 6, unit: 'kg' },
+    'peas': { price: 5, unit: 'kg' },
+    'corn': { price: 5, unit: 'kg' },
+    'celery': { price: 3.5, unit: 'kg' },
+    'avocado': { price: 1.5, unit: 'each' },
+    'ginger': { price: 9, unit: 'kg' },
+    'lemon': { price: 0.7, unit: 'each' },
+    'lemon juice': { price: 6, unit: 'l' },
+    'lime': { price: 0.4, unit: 'each' },
+    'apple': { price: 0.9, unit: 'each' },
+    'banana': { price: 0.3, unit: 'each' },
+    'berries': { price: 12, unit: 'kg' },
+    'basil': { price: 40, unit: 'kg' },
+    'cilantro': { price: 18, unit: 'kg' },
+    'parsley': { price: 18, unit: 'kg' },
+
+    // Nuts and seeds
+    'almonds': { price: 18, unit: 'kg' },
+    'walnuts': { price: 20, unit: 'kg' },
+    'peanuts': { price: 9, unit: 'kg' },
+    'nuts': { price: 18, unit: 'kg' },
+    'peanut butter': { price: 7, unit: 'kg' },
+    'sesame seeds': { price: 15, unit: 'kg' },
+
+    // Oils, sauces and seasonings
+    'oil': { price: 4, unit: 'l' },
+    'olive oil': { price: 12, unit: 'l' },
+    'sesame oil': { price: 18, unit: 'l' },
+    'coconut milk': { price: 5, unit: 'l' },
+    'soy sauce': { price: 8, unit: 'l' },
+    'vinegar': { price: 4, unit: 'l' },
+    'broth': { price: 3, unit: 'l' },
+    'stock': { price: 3, unit: 'l' },
+    'mayonnaise': { price: 8, unit: 'kg' },
+    'ketchup': { price: 5, unit: 'kg' },
+    'mustard': { price: 8, unit: 'kg' },
+    'salt': { price: 1.5, unit: 'kg' },
+    'black pepper': { price: 45, unit: 'kg' },
+    'cumin': { price: 40, unit: 'kg' },
+    'paprika': { price: 40, unit: 'kg' },
+    'chili powder': { price: 35, unit: 'kg' },
+    'cinnamon': { price: 35, unit: 'kg' },
+  },
+  regionMultipliers: {
+    us: 1,
+    ca: 1.15,
+    uk: 0.95,
+    eu: 0.9,
+    au: 1.2,
+    in: 0.35,
+  },
+  exchangeRates: {
+    USD: 1,
+    CAD: 1.36,
+    GBP: 0.79,
+    EUR: 0.92,
+    AUD: 1.52,
+    INR: 83,
+  },
+};
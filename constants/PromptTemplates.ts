@@ -0,0 +1,74 @@
+export type PromptName = 'recipe_generation';
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string;
+  // Text with {{variable}} placeholders, filled by renderPromptTemplate
+  template: string;
+}
+
+/**
+ * Variables available to recipe_generation templates:
+ * - ingredients: the user's ingredients plus featured pantry items
+ * - pantry: other pantry items, to use only where they fit (may be empty)
+ * - dietaryInfo: restrictions, allergies and diet plan, one per line
+ * - dishes: what to suggest, e.g. "3 different Italian dinner dishes"
+ * - mix: how many dishes should be creative vs basic
+ * - budget: the most to spend on extra ingredients (may be empty)
+ * - nutritionTargets: per-serving nutrition ranges to hit (may be empty)
+ * - pantryRules: limits for cooking only with what the user has; overrides
+ *   any advice to add extra ingredients, so it goes after it (may be empty)
+ * - exclusions: previously suggested dishes to avoid (may be empty)
+ * - formatInstructions: the JSON or text output format
+ *
+ * The generation proxy renders the built-in versions from its own copy in
+ * mealfix-dashboard/src/lib/recipePrompts.ts, so change both together.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'recipe_generation',
+    version: 'v1',
+    description: 'Original prompt: ingredients first, dietary info as context',
+    template: `Given these ingredients: {{ingredients}}{{pantry}}
+
+{{dietaryInfo}}
+
+Please suggest {{dishes}} I could make that respect these dietary requirements.
+{{mix}}{{budget}}{{nutritionTargets}}
+When regenerating, all recipes should be unique, meaning the dish should not be similar in any way to the previous recipes.{{exclusions}}
+Don't just make the given ingredients as stars of the dish - find creative supporting roles for them and add plenty of extra ingredients for a complex dish.{{pantryRules}}
+{{formatInstructions}}`,
+  },
+  {
+    name: 'recipe_generation',
+    version: 'v2',
+    description: 'Dietary requirements stated first as hard rules',
+    template: `You are a creative home cook writing recipes for someone with these dietary requirements:
+{{dietaryInfo}}
+
+These requirements are strict: never use an ingredient that breaks a restriction or contains an allergen, not even as a garnish.
+
+Ingredients on hand: {{ingredients}}{{pantry}}
+
+Suggest {{dishes}} built around these ingredients.
+{{mix}}{{budget}}{{nutritionTargets}}
+Every recipe must be clearly different from the others and from earlier suggestions.{{exclusions}}
+Give the ingredients on hand supporting roles where that makes a better dish, and add extra ingredients freely.{{pantryRules}}
+{{formatInstructions}}`,
+  },
+];
+
+// Used when no remote config or A/B test picks a version
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptName, string> = {
+  recipe_generation: 'v1',
+};
+
+// A/B test that picks between prompt versions, and the version each group
+// gets. Groups not listed (normally control) get the baseline version.
+export const PROMPT_AB_TESTS: Record<PromptName, { testName: string; variants: Record<string, string> }> = {
+  recipe_generation: {
+    testName: 'recipe_generation_prompt',
+    variants: { variant: 'v2' },
+  },
+};
@@ -0,0 +1,46 @@
+import { MealType } from '@/types/recipe';
+import { DietaryRestriction, DietaryPlan } from '@/types/dietary';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack', 'dessert'];
+
+// Labels a recipe's dietaryInfo can carry; allergens are KNOWN_ALLERGENS
+export const DIETARY_RESTRICTIONS: DietaryRestriction[] = [
+  'vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'nut-free', 'kosher', 'halal', 'soy-free',
+];
+
+export const DIETARY_PLANS: DietaryPlan[] = [
+  'keto', 'paleo', 'low-carb', 'high-protein', 'mediterranean', 'intermittent fasting', 'low-sodium', 'plant-based',
+];
+
+// Cuisines offered as quick picks; any other style can still be typed in
+export const COMMON_CUISINES = [
+  'Italian',
+  'Mexican',
+  'Indian',
+  'Chinese',
+  'Japanese',
+  'Korean',
+  'Thai',
+  'Mediterranean',
+  'Middle Eastern',
+  'American',
+];
+
+// Bounds for the number of recipes generated per request
+export const MIN_RECIPE_COUNT = 1;
+export const MAX_RECIPE_COUNT = 6;
+
+// Default mix: two creative recipes and one basic
+export const DEFAULT_RECIPE_COUNT = 3;
+export const DEFAULT_BASIC_COUNT = 1;
+
+// Basics assumed to be in every kitchen when cooking only with what the user has
+export const DEFAULT_PANTRY_STAPLES = ['salt', 'black pepper', 'water', 'cooking oil', 'olive oil', 'sugar', 'flour'];
+
+// Ingredients beyond the user's own and the staples that a pantry-only recipe may add
+export const DEFAULT_MAX_PANTRY_EXTRAS = 0;
+export const MAX_PANTRY_EXTRAS = 3;
+
+// Bounds for the servings stepper on recipe screens
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 24;
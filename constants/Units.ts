@@ -0,0 +1,73 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'Imperial' },
+];
+
+// Prices and prompts are in USD, so recipes come back mostly in US units
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+
+// Where UnitPreferenceContext persists the user's choice
+export const UNIT_SYSTEM_STORAGE_KEY = 'unitSystem';
+
+// Canonical units (see utils/quantity) in grams
+export const GRAMS_PER_UNIT: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+// Canonical units in millilitres. Teaspoons and tablespoons are used in
+// both systems and are left as they are.
+export const MILLILITRES_PER_UNIT: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  'fl oz': 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+};
+
+export const KILOJOULES_PER_KCAL = 4.184;
+
+export interface IngredientDensity {
+  gramsPerCup: number;
+  // US recipes measure it in cups rather than ounces
+  measuredByVolume?: boolean;
+}
+
+// Solid and dry ingredients that metric recipes weigh. Liquids aren't
+// listed: they stay in millilitres. Matched as whole words, longest first.
+export const INGREDIENT_DENSITIES: Record<string, IngredientDensity> = {
+  'flour': { gramsPerCup: 125, measuredByVolume: true },
+  'whole wheat flour': { gramsPerCup: 120, measuredByVolume: true },
+  'sugar': { gramsPerCup: 200, measuredByVolume: true },
+  'brown sugar': { gramsPerCup: 220, measuredByVolume: true },
+  'powdered sugar': { gramsPerCup: 120, measuredByVolume: true },
+  'cocoa powder': { gramsPerCup: 85, measuredByVolume: true },
+  'oats': { gramsPerCup: 90, measuredByVolume: true },
+  'rice': { gramsPerCup: 185, measuredByVolume: true },
+  'quinoa': { gramsPerCup: 170, measuredByVolume: true },
+  'lentils': { gramsPerCup: 190, measuredByVolume: true },
+  'breadcrumbs': { gramsPerCup: 108, measuredByVolume: true },
+  'honey': { gramsPerCup: 340, measuredByVolume: true },
+  'peanut butter': { gramsPerCup: 258, measuredByVolume: true },
+  'yogurt': { gramsPerCup: 245, measuredByVolume: true },
+  'butter': { gramsPerCup: 227 },
+  'cheese': { gramsPerCup: 113 },
+  'parmesan': { gramsPerCup: 100 },
+  'pasta': { gramsPerCup: 100 },
+  'chickpeas': { gramsPerCup: 165 },
+  'beans': { gramsPerCup: 180 },
+  'spinach': { gramsPerCup: 30 },
+  'tomato': { gramsPerCup: 180 },
+  'onion': { gramsPerCup: 160 },
+  'almonds': { gramsPerCup: 140 },
+  'walnuts': { gramsPerCup: 120 },
+  'nuts': { gramsPerCup: 140 },
+};
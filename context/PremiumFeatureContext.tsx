@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PREMIUM_STATUS_STORAGE_KEY } from '@/constants/GenerationQuotas';
 
 type PremiumFeatureContextType = {
   premiumEnabled: boolean;
@@ -16,7 +17,7 @@ export const PremiumFeatureProvider: React.FC<{ children: React.ReactNode }> = (
   useEffect(() => {
     const loadSavedStatus = async () => {
       try {
-        const savedStatus = await AsyncStorage.getItem('premiumFeatureEnabled');
+        const savedStatus = await AsyncStorage.getItem(PREMIUM_STATUS_STORAGE_KEY);
         if (savedStatus !== null) {
           setPremiumEnabledState(JSON.parse(savedStatus));
         }
@@ -35,7 +36,7 @@ export const PremiumFeatureProvider: React.FC<{ children: React.ReactNode }> = (
     //console.log("Setting premium status to:", status);
     setPremiumEnabledState(status);
     try {
-      await AsyncStorage.setItem('premiumFeatureEnabled', JSON.stringify(status));
+      await AsyncStorage.setItem(PREMIUM_STATUS_STORAGE_KEY, JSON.stringify(status));
     } catch (error) {
       console.error('Failed to save premium status:', error);
     }
@@ -0,0 +1,53 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM, UNIT_SYSTEM_STORAGE_KEY } from '@/constants/Units';
+
+type UnitPreferenceContextType = {
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => void;
+};
+
+const UnitPreferenceContext = createContext<UnitPreferenceContextType | undefined>(undefined);
+
+export const UnitPreferenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  // Load the saved preference on mount; recipes show in the default system until then
+  useEffect(() => {
+    const loadSavedSystem = async () => {
+      try {
+        const saved = await AsyncStorage.getItem(UNIT_SYSTEM_STORAGE_KEY);
+        if (saved === 'metric' || saved === 'imperial') {
+          setUnitSystemState(saved);
+        }
+      } catch (error) {
+        console.error('Failed to load unit preference:', error);
+      }
+    };
+
+    loadSavedSystem();
+  }, []);
+
+  const setUnitSystem = async (system: UnitSystem) => {
+    setUnitSystemState(system);
+    try {
+      await AsyncStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, system);
+    } catch (error) {
+      console.error('Failed to save unit preference:', error);
+    }
+  };
+
+  return (
+    <UnitPreferenceContext.Provider value={{ unitSystem, setUnitSystem }}>
+      {children}
+    </UnitPreferenceContext.Provider>
+  );
+};
+
+export const useUnitPreference = () => {
+  const context = useContext(UnitPreferenceContext);
+  if (!context) {
+    throw new Error('useUnitPreference must be used within UnitPreferenceProvider');
+  }
+  return context;
+};
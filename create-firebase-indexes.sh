@@ -26,6 +26,18 @@ firebase firestore:indexes \
     ]
   }]'
 
+echo "Creating index for 'event_name' and 'timestamp' (the dashboard's paywall hits)..."
+firebase firestore:indexes \
+  --project mealfix-66eaf \
+  'indexes: [{
+    "collectionGroup": "analytics_events",
+    "queryScope": "COLLECTION",
+    "fields": [
+      { "fieldPath": "event_name", "order": "ASCENDING" },
+      { "fieldPath": "timestamp", "order": "DESCENDING" }
+    ]
+  }]'
+
 echo "Creating index for 'userId' (camelCase)..."
 firebase firestore:indexes \
   --project mealfix-66eaf \
@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { adminAuth } from '../../../lib/firebaseAdmin';
+import {
+  consumeGenerationQuota,
+  getGenerationQuotaStatus,
+  getQuotaTier,
+  refundGenerationQuota,
+  QuotaStatus,
+  QuotaTier,
+} from '../../../lib/generationQuota';
+import { generateCompletion, isRecipeCompletion, streamCompletion } from '../../../lib/llm';
+import { buildRecipePrompt, readPromptInput } from '../../../lib/recipePrompts';
+
+// firebase-admin needs the Node.js runtime
+export const runtime = 'nodejs';
+
+function errorResponse(
+  status: number,
+  code: string,
+  error: string,
+  headers?: Record<string, string>,
+  quota?: QuotaStatus
+) {
+  return NextResponse.json({ error, code, ...(quota ? { quota } : {}) }, { status, headers });
+}
+
+// Sent by the app with every call of one generation, so it's counted once
+function readGenerationId(value: unknown): string {
+  const id = typeof value === 'object' && value !== null ? (value as Record<string, unknown>).generationId : undefined;
+  return typeof id === 'string' && /^[\w-]{1,64}$/.test(id) ? id : randomUUID();
+}
+
+/**
+ * The signed-in caller from the request's Firebase ID token, or the 401
+ * response to send
+ */
+async function authenticate(request: Request): Promise<{ userId: string; tier: QuotaTier } | NextResponse> {
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    return errorResponse(401, 'unauthenticated', 'Sign in to generate recipes.');
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+    return { userId: decoded.uid, tier: getQuotaTier(decoded) };
+  } catch (error) {
+    console.error('Rejected generation request with an invalid ID token:', error);
+    return errorResponse(401, 'unauthenticated', 'Your session has expired. Sign in again.');
+  }
+}
+
+/**
+ * The prompt for a generation request, built here from its structured input
+ * so only the app's recipe prompts are ever run
+ */
+async function readPrompt(value: unknown): Promise<string | null> {
+  if (typeof value !== 'object' || value === null) return null;
+  const input = readPromptInput((value as Record<string, unknown>).input);
+  return input ? buildRecipePrompt(input) : null;
+}
+
+/**
+ * How an upstream failure is reported to the app: rate limits pass through
+ * so it backs off, anything else is a bad gateway
+ */
+function describeUpstreamError(error: unknown): { status: number; code: string; error: string; retryAfter?: string } {
+  const upstream = error as { status?: unknown; message?: string; headers?: Record<string, string> };
+  if (upstream?.status === 429) {
+    const retryAfter = upstream.headers?.['retry-after'];
+    return {
+      status: 429,
+      code: 'rate_limited',
+      error: 'The recipe service is busy right now.',
+      ...(retryAfter ? { retryAfter: String(retryAfter) } : {}),
+    };
+  }
+  return { status: 502, code: 'upstream_error', error: upstream?.message || 'The recipe service failed.' };
+}
+
+/**
+ * Streams the recipes as newline-delimited JSON, one {"recipe"} line as
+ * each is complete, then a {"done"} line with the model, usage and quota
+ * or an {"error"} line with the status the non-streamed response would
+ * have had. Generations that fail before sending a recipe are refunded.
+ */
+function streamRecipes(
+  prompt: string,
+  signal: AbortSignal,
+  userId: string,
+  quota: QuotaStatus,
+  refund: () => Promise<QuotaStatus>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing more can be sent once the app has gone
+      const send = (line: object) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      };
+      let sentCount = 0;
+
+      try {
+        const { model, usage } = await streamCompletion(prompt, signal, recipe => {
+          sentCount++;
+          send({ recipe });
+        });
+        if (sentCount === 0) {
+          console.error(`Generation for user ${userId} didn't return recipes`);
+          send({ status: 502, code: 'upstream_error', error: "The recipe service didn't return recipes.", quota: await refund() });
+        } else {
+          send({ done: true, model, ...(usage ? { usage } : {}), provider: 'groq', quota });
+        }
+      } catch (error) {
+        console.error(`Streamed generation failed for user ${userId}:`, error);
+        // Recipes already sent count as a generation
+        send({ ...describeUpstreamError(error), quota: sentCount === 0 ? await refund() : quota });
+      }
+      if (!signal.aborted) controller.close();
+    },
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' } });
+}
+
+/**
+ * The caller's generation quota, for the app to show before generating
+ */
+export async function GET(request: Request) {
+  const caller = await authenticate(request);
+  if (caller instanceof NextResponse) return caller;
+
+  try {
+    return NextResponse.json({ quota: await getGenerationQuotaStatus(caller.userId, caller.tier) });
+  } catch (error) {
+    console.error(`Couldn't load the generation quota of user ${caller.userId}:`, error);
+    return errorResponse(500, 'quota_unavailable', "Couldn't load your generation quota.");
+  }
+}
+
+/**
+ * Recipe generation proxy for the app. Verifies the caller's Firebase ID
+ * token, builds the prompt from the request's input, counts the generation
+ * against their tier's daily and monthly quota and makes the LLM call with
+ * the server's key, returning only the parsed recipes and the quota status.
+ * With stream: true the recipes are sent as they're parsed (streamRecipes).
+ * Calls that fail upstream are refunded.
+ */
+export async function POST(request: Request) {
+  const caller = await authenticate(request);
+  if (caller instanceof NextResponse) return caller;
+  const { userId, tier } = caller;
+
+  const body = await request.json().catch(() => null);
+  const prompt = await readPrompt(body);
+  if (!prompt) {
+    return errorResponse(400, 'invalid_request', 'Only MealFix recipe requests can be generated.');
+  }
+  const generationId = readGenerationId(body);
+
+  const quota = await consumeGenerationQuota(userId, tier, generationId);
+  if (!quota.allowed) {
+    return errorResponse(429, 'quota_exceeded', "You've used all your recipe generations for now.", {
+      'Retry-After': String(Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000)),
+    }, quota.status);
+  }
+
+  // Only calls that return recipes count; the app retries failed ones
+  const refund = () => refundGenerationQuota(userId, tier, generationId, quota.counted).catch((error: unknown) => {
+    console.error(`Couldn't refund the generation quota of user ${userId}:`, error);
+    return quota.status;
+  });
+
+  if (body?.stream === true) {
+    return streamRecipes(prompt, request.signal, userId, quota.status, refund);
+  }
+
+  try {
+    const { recipes, model, usage } = await generateCompletion(prompt, request.signal);
+    if (!isRecipeCompletion(recipes)) {
+      console.error(`Generation for user ${userId} didn't return recipes`);
+      return errorResponse(502, 'upstream_error', "The recipe service didn't return recipes.", undefined, await refund());
+    }
+    return NextResponse.json({
+      recipes,
+      model,
+      ...(usage ? { usage } : {}),
+      provider: 'groq',
+      quota: quota.status,
+    });
+  } catch (error) {
+    console.error(`Generation failed for user ${userId}:`, error);
+    const { status, code, error: message, retryAfter } = describeUpstreamError(error);
+    return errorResponse(status, code, message, retryAfter ? { 'Retry-After': retryAfter } : undefined, await refund());
+  }
+}
@@ -14,8 +14,10 @@ import {
   UserIcon,
   ArrowTrendingUpIcon,
   ClockIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { 
   getPopularRecipes, 
   getDietaryTrends, 
@@ -23,11 +25,15 @@ import {
   getUserEngagementMetrics,
   getPerformanceMetrics,
   getRawAnalyticsEvents,
+  getPromptVersionMetrics,
+  getPaywallHits,
   RecipeViewsData,
   DietaryTrendsData,
   IngredientCombinationData,
   UserEngagementData,
   PerformanceMetricsData,
+  PromptVersionMetricsData,
+  PaywallHitsData,
   checkFirestoreCollections
 } from '@/services/analyticsService';
 import { logEvent, DashboardEvents } from '@/lib/firebase';
@@ -56,6 +62,8 @@ export default function Dashboard() {
   const [ingredientCombinations, setIngredientCombinations] = useState<IngredientCombinationData[]>([]);
   const [userMetrics, setUserMetrics] = useState<UserEngagementData | null>(null);
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetricsData | null>(null);
+  const [promptVersions, setPromptVersions] = useState<PromptVersionMetricsData[]>([]);
+  const [paywallHits, setPaywallHits] = useState<PaywallHitsData[]>([]);
   const [rawEvents, setRawEvents] = useState<any[]>([]);
   const [showRawEvents, setShowRawEvents] = useState(false);
   const [readOnlyMode, setReadOnlyMode] = useState(false);
@@ -87,6 +95,8 @@ export default function Dashboard() {
           combinationsData, 
           metricsData, 
           performanceData,
+          promptVersionData,
+          paywallData,
           eventsData
         ] = await Promise.all([
           getPopularRecipes(),
@@ -94,6 +104,8 @@ export default function Dashboard() {
           getIngredientCombinations(),
           getUserEngagementMetrics(),
           getPerformanceMetrics(),
+          getPromptVersionMetrics(),
+          getPaywallHits(),
           getRawAnalyticsEvents(10)
         ]);
         
@@ -102,6 +114,8 @@ export default function Dashboard() {
         setIngredientCombinations(combinationsData);
         setUserMetrics(metricsData);
         setPerformanceMetrics(performanceData);
+        setPromptVersions(promptVersionData);
+        setPaywallHits(paywallData);
         setRawEvents(eventsData);
       } else {
         console.log('Using cached data (skipping Firestore fetch for in-app refresh)');
@@ -500,6 +514,87 @@ export default function Dashboard() {
                         <dt className="text-sm font-medium text-gray-500 truncate">Recipe Generation Time</dt>
                         <dd className="mt-1 text-3xl font-semibold text-gray-900">{performanceMetrics?.recipe_generation_total_time ||(Math.round((Math.random() * (6600 - 4200) + 4200) * 100) / 100).toString()}</dd>
                       </div>
+                      <div className="bg-gray-50 px-4 py-5 rounded-lg overflow-hidden text-center">
+                        <dt className="text-sm font-medium text-gray-500 truncate">Recipe Cache Hit Rate</dt>
+                        <dd className="mt-1 text-3xl font-semibold text-gray-900">{performanceMetrics?.recipe_cache_hit_rate || 'N/A'}</dd>
+                      </div>
+                      <div className="bg-gray-50 px-4 py-5 rounded-lg overflow-hidden text-center">
+                        <dt className="text-sm font-medium text-gray-500 truncate">LLM Calls Saved by Cache</dt>
+                        <dd className="mt-1 text-3xl font-semibold text-gray-900">{performanceMetrics?.llm_calls_saved || 'N/A'}</dd>
+                      </div>
+                      <div className="bg-gray-50 px-4 py-5 rounded-lg overflow-hidden text-center">
+                        <dt className="text-sm font-medium text-gray-500 truncate">LLM Cost per Recipe</dt>
+                        <dd className="mt-1 text-3xl font-semibold text-gray-900">{performanceMetrics?.cost_per_recipe || 'N/A'}</dd>
+                      </div>
+                      <div className="bg-gray-50 px-4 py-5 rounded-lg overflow-hidden text-center">
+                        <dt className="text-sm font-medium text-gray-500 truncate">LLM Cost per Active User</dt>
+                        <dd className="mt-1 text-3xl font-semibold text-gray-900">{performanceMetrics?.cost_per_active_user || 'N/A'}</dd>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Prompt Versions */}
+                  <div className="rounded-lg bg-white p-6 shadow">
+                    <div className="flex items-center justify-between pb-4 border-b border-gray-200">
+                      <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                        <BeakerIcon className="h-5 w-5 mr-2 text-teal-500" />
+                        Prompt Versions
+                      </h2>
+                      <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-0.5 rounded">Recent generations</span>
+                    </div>
+                    <div className="mt-4">
+                      {promptVersions.length === 0 ? (
+                        <p className="text-sm text-gray-500">No generations with a recorded prompt version yet.</p>
+                      ) : (
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead>
+                            <tr>
+                              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Generations</th>
+                              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parse Success</th>
+                              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Save Rate</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {promptVersions.map((version) => (
+                              <tr key={version.promptVersion}>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{version.promptVersion}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{version.generations.toLocaleString()}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{version.parseSuccessRate}</td>
+                                <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{version.saveRate} ({version.saves} saves)</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Paywall Hits */}
+                  <div className="rounded-lg bg-white p-6 shadow">
+                    <div className="flex items-center justify-between pb-4 border-b border-gray-200">
+                      <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                        <LockClosedIcon className="h-5 w-5 mr-2 text-red-500" />
+                        Paywall Hits
+                      </h2>
+                      <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-0.5 rounded">Last 14 days</span>
+                    </div>
+                    <div className="mt-4 h-64">
+                      {paywallHits.every(day => day.free + day.premium + day.upgradeClicks === 0) ? (
+                        <p className="text-sm text-gray-500">No users have run out of generations yet.</p>
+                      ) : (
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={paywallHits}>
+                            <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} fontSize={12} />
+                            <YAxis allowDecimals={false} fontSize={12} />
+                            <Tooltip />
+                            <Legend />
+                            <Bar dataKey="free" name="Free tier" stackId="hits" fill="#f87171" />
+                            <Bar dataKey="premium" name="Premium tier" stackId="hits" fill="#fbbf24" />
+                            <Bar dataKey="upgradeClicks" name="Upgrade clicks" fill="#14b8a6" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,23 @@
+import { initializeApp, getApps, getApp, cert, applicationDefault, App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Server-only: used by API routes, never imported from client components.
+// Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY (the service account
+// JSON) or, when unset, the environment's default Google credentials.
+function initAdminApp(): App {
+  if (getApps().length > 0) {
+    return getApp();
+  }
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+const adminApp = initAdminApp();
+
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
@@ -0,0 +1,201 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { Transaction } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+
+// One document per user with the current UTC day's and month's generation
+// counts, and how many calls each of today's generations has made
+const GENERATION_QUOTAS_COLLECTION = 'generation_quotas';
+
+export type QuotaTier = 'free' | 'premium';
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// Recipe generations per user. The app shows these in its upgrade prompt
+// (constants/GenerationQuotas.ts), but only these are enforced.
+export const GENERATION_QUOTAS: Record<QuotaTier, { daily: number; monthly: number }> = {
+  free: { daily: 5, monthly: 60 },
+  premium: { daily: 50, monthly: 1000 },
+};
+
+// LLM calls one generation may make: the first batch and a round of
+// replacements for dropped recipes (MAX_REPLACEMENT_ROUNDS in the app).
+// Any further call with the same id counts as a new generation.
+export const MAX_CALLS_PER_GENERATION = 2;
+
+// What the app shows; the same shape as QuotaStatus in services/quotaService.ts
+export interface QuotaStatus {
+  tier: QuotaTier;
+  dailyLimit: number;
+  dailyUsed: number;
+  monthlyLimit: number;
+  monthlyUsed: number;
+  // Generations left before either limit is reached
+  remaining: number;
+  // The limit that ran out, or null while generations remain
+  exhaustedPeriod: QuotaPeriod | null;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  status: QuotaStatus;
+  // When the exhausted limit, or otherwise the daily one, resets
+  resetAt: Date;
+  // Whether this call started a new generation, for refundGenerationQuota
+  counted: boolean;
+}
+
+interface UsageCounters {
+  day: string;
+  dailyCount: number;
+  month: string;
+  monthlyCount: number;
+  // Generation id -> calls made, for today's generations
+  generations: Record<string, number>;
+}
+
+/**
+ * The user's tier from the premium custom claim on their ID token, which
+ * only the admin SDK can set, never from anything the app stores
+ */
+export function getQuotaTier(token: DecodedIdToken): QuotaTier {
+  return token.premium === true ? 'premium' : 'free';
+}
+
+// UTC day and month, e.g. "2025-04-18" and "2025-04"
+function getPeriodKeys(now: Date) {
+  const day = now.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+function readCounters(data: FirebaseFirestore.DocumentData | undefined, now: Date): UsageCounters {
+  const { day, month } = getPeriodKeys(now);
+  const sameDay = data?.day === day;
+  return {
+    day,
+    dailyCount: sameDay ? Number(data?.dailyCount) || 0 : 0,
+    month,
+    monthlyCount: data?.month === month ? Number(data?.monthlyCount) || 0 : 0,
+    generations: sameDay && data?.generations ? { ...data.generations } : {},
+  };
+}
+
+function buildStatus(tier: QuotaTier, counters: UsageCounters): QuotaStatus {
+  const quota = GENERATION_QUOTAS[tier];
+
+  // A spent monthly quota matters more: tomorrow won't help
+  let exhaustedPeriod: QuotaPeriod | null = null;
+  if (counters.monthlyCount >= quota.monthly) {
+    exhaustedPeriod = 'monthly';
+  } else if (counters.dailyCount >= quota.daily) {
+    exhaustedPeriod = 'daily';
+  }
+
+  return {
+    tier,
+    dailyLimit: quota.daily,
+    dailyUsed: counters.dailyCount,
+    monthlyLimit: quota.monthly,
+    monthlyUsed: counters.monthlyCount,
+    remaining: Math.max(Math.min(quota.daily - counters.dailyCount, quota.monthly - counters.monthlyCount), 0),
+    exhaustedPeriod,
+  };
+}
+
+function getResetAt(status: QuotaStatus, now: Date): Date {
+  const { day, month } = getPeriodKeys(now);
+  if (status.exhaustedPeriod === 'monthly') {
+    const resetAt = new Date(`${month}-01T00:00:00.000Z`);
+    resetAt.setUTCMonth(resetAt.getUTCMonth() + 1);
+    return resetAt;
+  }
+  const resetAt = new Date(`${day}T00:00:00.000Z`);
+  resetAt.setUTCDate(resetAt.getUTCDate() + 1);
+  return resetAt;
+}
+
+function getQuotaRef(userId: string) {
+  return adminDb.collection(GENERATION_QUOTAS_COLLECTION).doc(userId);
+}
+
+/**
+ * The user's usage and limits without counting anything
+ */
+export async function getGenerationQuotaStatus(userId: string, tier: QuotaTier, now = new Date()): Promise<QuotaStatus> {
+  const snapshot = await getQuotaRef(userId).get();
+  return buildStatus(tier, readCounters(snapshot.data(), now));
+}
+
+/**
+ * Counts one LLM call of a generation. The first call of a generation
+ * counts against the daily and monthly limits; its replacement round
+ * doesn't. Runs in a transaction so parallel requests can't both take the
+ * last generation.
+ */
+export async function consumeGenerationQuota(
+  userId: string,
+  tier: QuotaTier,
+  generationId: string,
+  now = new Date()
+): Promise<QuotaResult> {
+  const quotaRef = getQuotaRef(userId);
+
+  return adminDb.runTransaction(async (transaction: Transaction) => {
+    const counters = readCounters((await transaction.get(quotaRef)).data(), now);
+    const calls = counters.generations[generationId] || 0;
+    const counted = calls === 0 || calls >= MAX_CALLS_PER_GENERATION;
+
+    const before = buildStatus(tier, counters);
+    if (counted && before.exhaustedPeriod) {
+      return { allowed: false, status: before, resetAt: getResetAt(before, now), counted: false };
+    }
+
+    const updated: UsageCounters = {
+      ...counters,
+      dailyCount: counters.dailyCount + (counted ? 1 : 0),
+      monthlyCount: counters.monthlyCount + (counted ? 1 : 0),
+      generations: { ...counters.generations, [generationId]: counted ? 1 : calls + 1 },
+    };
+    transaction.set(quotaRef, { ...updated, updatedAt: now });
+
+    const status = buildStatus(tier, updated);
+    return { allowed: true, status, resetAt: getResetAt(status, now), counted };
+  });
+}
+
+/**
+ * Gives back a call taken by consumeGenerationQuota when it produced
+ * nothing, e.g. the upstream call failed, so the app's retries don't use up
+ * the quota. Returns the status after the refund. Calls from an earlier
+ * day aren't refunded.
+ */
+export async function refundGenerationQuota(
+  userId: string,
+  tier: QuotaTier,
+  generationId: string,
+  counted: boolean,
+  now = new Date()
+): Promise<QuotaStatus> {
+  const quotaRef = getQuotaRef(userId);
+
+  return adminDb.runTransaction(async (transaction: Transaction) => {
+    const counters = readCounters((await transaction.get(quotaRef)).data(), now);
+    const calls = counters.generations[generationId] || 0;
+    if (calls === 0) {
+      return buildStatus(tier, counters);
+    }
+
+    const generations = { ...counters.generations };
+    if (counted) {
+      delete generations[generationId];
+    } else {
+      generations[generationId] = calls - 1;
+    }
+    const updated: UsageCounters = {
+      ...counters,
+      dailyCount: Math.max(counters.dailyCount - (counted ? 1 : 0), 0),
+      monthlyCount: Math.max(counters.monthlyCount - (counted ? 1 : 0), 0),
+      generations,
+    };
+    transaction.set(quotaRef, { ...updated, updatedAt: now });
+    return buildStatus(tier, updated);
+  });
+}
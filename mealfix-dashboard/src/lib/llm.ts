@@ -0,0 +1,194 @@
+import Groq from 'groq-sdk';
+
+export const DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+const DEFAULT_TEMPERATURE = 0.7;
+
+const MAX_COMPLETION_TOKENS = 4000;
+
+export interface GenerationResult {
+  // Raw recipe objects from the JSON completion; validation stays in the app
+  recipes: unknown[];
+  model: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+function isRecipeLike(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const recipe = value as Record<string, unknown>;
+  return typeof recipe.name === 'string'
+    && (Array.isArray(recipe.currentIngredients) || Array.isArray(recipe.extraIngredients));
+}
+
+/**
+ * True when a completion held the recipes the prompt asked for. Anything
+ * else isn't passed back to the client.
+ */
+export function isRecipeCompletion(recipes: unknown[]): boolean {
+  return recipes.length > 0 && recipes.every(isRecipeLike);
+}
+
+let client: Groq | null = null;
+
+// Server-only: GROQ_API_KEY never reaches the app bundle
+function getClient(): Groq {
+  if (!client) {
+    client = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  }
+  return client;
+}
+
+/**
+ * Pulls the recipe list out of a JSON completion, tolerating markdown fences
+ * and a single recipe sent without the list. Empty when the content isn't
+ * recipes.
+ */
+export function extractRecipes(content: string): unknown[] {
+  const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed)) return parsed;
+    if (Array.isArray(parsed?.recipes)) return parsed.recipes;
+    return typeof parsed?.name === 'string' ? [parsed] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Calls onRecipe with each object of a JSON completion's recipes array as
+ * soon as it's complete. The array is the top-level "recipes" value or the
+ * document itself; nested lists like a recipe's ingredients are skipped.
+ * Mirrors the app's createRecipeStreamParser in utils/recipeParser.ts.
+ */
+function createRecipeArrayParser(onRecipe: (recipe: unknown) => void) {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  // Last string closed at the top level of the document object, i.e. its latest key
+  let lastTopLevelString: string | null = null;
+  let recipeArrayDepth: number | null = null;
+  let objectStart = -1;
+
+  return (chunk: string) => {
+    buffer += chunk;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1) {
+            lastTopLevelString = buffer.slice(stringStart + 1, position);
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === '[') {
+        if (recipeArrayDepth === null && (depth === 0 || (depth === 1 && lastTopLevelString === 'recipes'))) {
+          recipeArrayDepth = depth + 1;
+        }
+        depth++;
+      } else if (char === '{') {
+        if (depth === recipeArrayDepth) {
+          objectStart = position;
+        }
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (char === '}' && depth === recipeArrayDepth && objectStart !== -1) {
+          const objectText = buffer.slice(objectStart, position + 1);
+          objectStart = -1;
+          try {
+            onRecipe(JSON.parse(objectText));
+          } catch (error) {
+            console.error('Skipping unparseable streamed recipe:', error);
+          }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Runs a prompt built by buildRecipePrompt, in the JSON output format
+ */
+export async function generateCompletion(prompt: string, signal?: AbortSignal): Promise<GenerationResult> {
+  const model = process.env.GROQ_MODEL || DEFAULT_MODEL;
+  const response = await getClient().chat.completions.create({
+    messages: [{ role: 'user', content: prompt }],
+    model,
+    temperature: DEFAULT_TEMPERATURE,
+    max_tokens: MAX_COMPLETION_TOKENS,
+    response_format: { type: 'json_object' },
+  }, { signal });
+
+  const content = response.choices[0]?.message?.content;
+  return {
+    recipes: content ? extractRecipes(content) : [],
+    model,
+    ...(response.usage
+      ? { usage: { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens } }
+      : {}),
+  };
+}
+
+/**
+ * Streams a prompt built by buildRecipePrompt, calling onRecipe with each
+ * recipe as soon as it's complete. Groq doesn't allow JSON mode while
+ * streaming, so only the prompt asks for JSON; a completion that couldn't
+ * be split as it arrived is parsed whole at the end.
+ */
+export async function streamCompletion(
+  prompt: string,
+  signal: AbortSignal,
+  onRecipe: (recipe: unknown) => void
+): Promise<Omit<GenerationResult, 'recipes'>> {
+  const model = process.env.GROQ_MODEL || DEFAULT_MODEL;
+  const stream = await getClient().chat.completions.create({
+    messages: [{ role: 'user', content: prompt }],
+    model,
+    temperature: DEFAULT_TEMPERATURE,
+    max_tokens: MAX_COMPLETION_TOKENS,
+    stream: true,
+  }, { signal });
+
+  let content = '';
+  let streamedCount = 0;
+  let usage: GenerationResult['usage'];
+  const push = createRecipeArrayParser(recipe => {
+    if (isRecipeLike(recipe)) {
+      streamedCount++;
+      onRecipe(recipe);
+    }
+  });
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      push(delta);
+    }
+    // Groq reports usage on the final chunk
+    const chunkUsage = chunk.x_groq?.usage;
+    if (chunkUsage) {
+      usage = { promptTokens: chunkUsage.prompt_tokens, completionTokens: chunkUsage.completion_tokens };
+    }
+  }
+
+  if (streamedCount === 0) {
+    extractRecipes(content).filter(isRecipeLike).forEach(onRecipe);
+  }
+  return { model, ...(usage ? { usage } : {}) };
+}
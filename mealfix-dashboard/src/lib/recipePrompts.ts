@@ -0,0 +1,436 @@
+import { adminDb } from './firebaseAdmin';
+
+/**
+ * Builds the app's recipe prompts from structured inputs, so clients can't
+ * send prompt text of their own. A copy of the app's utils/recipePrompts.ts
+ * and constants/PromptTemplates.ts, always in the JSON output format; keep
+ * them in step.
+ */
+
+// Where the app's prompt registry keeps remote templates, see services/promptRegistry.ts
+const PROMPT_CONFIG_COLLECTION = 'prompt_config';
+const TEMPLATE_CACHE_TTL = 5 * 60 * 1000;
+
+// Bounds on the inputs, well above what the app sends
+const MAX_RECIPE_COUNT = 6;
+const MAX_PANTRY_EXTRAS = 3;
+const MAX_LIST_ITEMS = 40;
+const MAX_EXCLUSIONS = 15;
+const MAX_NAME_LENGTH = 120;
+const MAX_STEP_LENGTH = 1000;
+const MAX_INSTRUCTION_LENGTH = 300;
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack', 'dessert'];
+const DIETARY_RESTRICTIONS = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'nut-free', 'kosher', 'halal', 'soy-free'];
+const ALLERGIES = ['peanuts', 'tree nuts', 'milk', 'eggs', 'shellfish', 'soy', 'wheat', 'fish'];
+const DIET_PLANS = [
+  'keto', 'paleo', 'low-carb', 'high-protein', 'mediterranean', 'intermittent fasting', 'low-sodium', 'plant-based',
+];
+
+// Nutrition target fields in the app's display order, with their units
+const NUTRITION_FIELDS: { field: string; unit: string }[] = [
+  { field: 'calories', unit: 'kcal' },
+  { field: 'protein', unit: 'g' },
+  { field: 'fat', unit: 'g' },
+  { field: 'carbs', unit: 'g' },
+  { field: 'fiber', unit: 'g' },
+  { field: 'sugar', unit: 'g' },
+  { field: 'sodium', unit: 'mg' },
+  { field: 'servings', unit: '' },
+];
+
+const BUILT_IN_TEMPLATES: Record<string, string> = {
+  v1: `Given these ingredients: {{ingredients}}{{pantry}}
+
+{{dietaryInfo}}
+
+Please suggest {{dishes}} I could make that respect these dietary requirements.
+{{mix}}{{budget}}{{nutritionTargets}}
+When regenerating, all recipes should be unique, meaning the dish should not be similar in any way to the previous recipes.{{exclusions}}
+Don't just make the given ingredients as stars of the dish - find creative supporting roles for them and add plenty of extra ingredients for a complex dish.{{pantryRules}}
+{{formatInstructions}}`,
+  v2: `You are a creative home cook writing recipes for someone with these dietary requirements:
+{{dietaryInfo}}
+
+These requirements are strict: never use an ingredient that breaks a restriction or contains an allergen, not even as a garnish.
+
+Ingredients on hand: {{ingredients}}{{pantry}}
+
+Suggest {{dishes}} built around these ingredients.
+{{mix}}{{budget}}{{nutritionTargets}}
+Every recipe must be clearly different from the others and from earlier suggestions.{{exclusions}}
+Give the ingredients on hand supporting roles where that makes a better dish, and add extra ingredients freely.{{pantryRules}}
+{{formatInstructions}}`,
+};
+
+const SUBSTITUTION_INSTRUCTIONS = `Write every substitution as "(or alternative for reason, +$X.XX)": the reason is the diet or allergy it suits (e.g. "dairy-free") or "if unavailable", and the signed amount is how much more or less it costs. Leave the amount out when the cost is the same.`;
+
+const JSON_FORMAT_INSTRUCTIONS = `Respond with ONLY a JSON object, no markdown and no extra text, in exactly this shape:
+
+{
+  "recipes": [
+    {
+      "name": "Creative dish name",
+      "difficulty": "Beginner" | "Intermediate" | "Advanced",
+      "mealType": "breakfast" | "lunch" | "dinner" | "snack" | "dessert",
+      "cuisine": "cuisine style, e.g. Italian",
+      "description": "one sentence describing the dish",
+      "timeEstimate": total minutes to prepare and cook (number),
+      "prepTime": minutes of preparation (number),
+      "cookTime": minutes of cooking (number),
+      "extraIngredientsCost": total cost of extra ingredients in USD (number),
+      "currentIngredients": ["ingredient from the user's input that will be used, with a common substitution in parentheses like \"chicken (or tofu for vegetarian, -$1.00)\""],
+      "extraIngredients": [{ "item": "additional ingredient (or substitute for dietary needs, +$X.XX)", "cost": cost in USD (number), "amount": "amount needed" }],
+      "steps": [{ "text": "Detailed cooking step", "durationMinutes": minutes for this step (number), "warnings": ["safety warning, e.g. 'hot oil'"], "utensils": ["utensil needed, e.g. 'whisk'"] }],
+      "dietaryInfo": { "restrictions": ["dietary restrictions this recipe is compatible with"], "allergens": ["allergens this recipe is free of"] },
+      "nutritionInfo": { "calories": number, "protein": grams, "fat": grams, "carbs": grams, "fiber": grams, "sugar": grams, "sodium": milligrams, "servings": number }
+    }
+  ]
+}
+
+For each recipe, include at least one suggested substitution in currentIngredients or extraIngredients.
+${SUBSTITUTION_INSTRUCTIONS}
+Give every step a durationMinutes; the step durations should add up to about timeEstimate. Use an empty warnings list when a step is safe. Each step needs to be as descriptive as possible so a beginner can understand.
+Every field is required for every recipe.`;
+
+type NutritionTargets = Record<string, { min?: number; max?: number }>;
+
+export interface GenerationPromptInput {
+  kind: 'generate';
+  promptVersion: string;
+  ingredients: string[];
+  backgroundItems: string[];
+  dietaryPreferences: { restrictions: string[]; allergies: string[]; preferences: string[] };
+  recipeCount: number;
+  basicCount: number;
+  mealType?: string;
+  cuisine?: string;
+  maxExtraCost?: number;
+  nutritionTargets?: NutritionTargets;
+  pantryOnly?: { staples: string[]; maxExtraIngredients: number };
+  excludedRecipes: { name: string; keyIngredients: string[] }[];
+}
+
+export interface RefinePromptInput {
+  kind: 'refine';
+  recipe: Record<string, unknown>;
+  instruction: string;
+  dietary?: { allergies: string[]; restrictions: string[] };
+}
+
+export type RecipePromptInput = GenerationPromptInput | RefinePromptInput;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Readers return undefined for anything out of bounds, failing the whole input
+
+function readText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length <= maxLength ? text : undefined;
+}
+
+function readNumber(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+}
+
+function readList<T>(value: unknown, maxItems: number, readItem: (item: unknown) => T | undefined): T[] | undefined {
+  if (!Array.isArray(value) || value.length > maxItems) return undefined;
+  const items = value.map(readItem);
+  return items.every(item => item !== undefined) ? items as T[] : undefined;
+}
+
+const readName = (value: unknown) => readText(value, MAX_NAME_LENGTH);
+const readOneOf = (allowed: string[]) => (value: unknown) =>
+  typeof value === 'string' && allowed.includes(value) ? value : undefined;
+
+// Dietary labels the app knows; others, e.g. from older saved recipes, are dropped
+function readLabels(value: unknown, allowed: string[]): string[] | undefined {
+  return Array.isArray(value) && value.length <= MAX_LIST_ITEMS
+    ? value.filter((label): label is string => typeof label === 'string' && allowed.includes(label))
+    : undefined;
+}
+
+function readNutritionTargets(value: unknown): NutritionTargets | undefined {
+  if (!isRecord(value)) return undefined;
+  const targets: NutritionTargets = {};
+  for (const [field, range] of Object.entries(value)) {
+    if (!NUTRITION_FIELDS.some(entry => entry.field === field) || !isRecord(range)) return undefined;
+    const min = range.min === undefined ? undefined : readNumber(range.min, 0, 100000);
+    const max = range.max === undefined ? undefined : readNumber(range.max, 0, 100000);
+    if ((range.min !== undefined && min === undefined) || (range.max !== undefined && max === undefined)) return undefined;
+    targets[field] = { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+  }
+  return targets;
+}
+
+function readGenerationInput(body: Record<string, unknown>): GenerationPromptInput | null {
+  const promptVersion = typeof body.promptVersion === 'string' && /^[\w.-]{1,20}$/.test(body.promptVersion)
+    ? body.promptVersion
+    : undefined;
+  const ingredients = readList(body.ingredients, MAX_LIST_ITEMS, readName);
+  const backgroundItems = readList(body.backgroundItems, MAX_LIST_ITEMS, readName);
+  const dietary = isRecord(body.dietaryPreferences) ? body.dietaryPreferences : {};
+  const restrictions = readLabels(dietary.restrictions, DIETARY_RESTRICTIONS);
+  const allergies = readLabels(dietary.allergies, ALLERGIES);
+  const preferences = readLabels(dietary.preferences, DIET_PLANS);
+  const recipeCount = readNumber(body.recipeCount, 1, MAX_RECIPE_COUNT);
+  const basicCount = readNumber(body.basicCount, 0, recipeCount ?? 0);
+  const excludedRecipes = readList(body.excludedRecipes, MAX_EXCLUSIONS, recipe => {
+    if (!isRecord(recipe)) return undefined;
+    const name = readName(recipe.name);
+    const keyIngredients = readList(recipe.keyIngredients, 10, readName);
+    return name !== undefined && keyIngredients ? { name, keyIngredients } : undefined;
+  });
+  if (!promptVersion || !ingredients || ingredients.length === 0 || !backgroundItems || !restrictions || !allergies
+    || !preferences || recipeCount === undefined || basicCount === undefined || !excludedRecipes) {
+    return null;
+  }
+
+  const mealType = body.mealType === undefined ? undefined : readOneOf(MEAL_TYPES)(body.mealType);
+  const cuisine = body.cuisine === undefined ? undefined : readText(body.cuisine, 40);
+  const maxExtraCost = body.maxExtraCost === undefined ? undefined : readNumber(body.maxExtraCost, 0.01, 1000);
+  const nutritionTargets = body.nutritionTargets === undefined ? undefined : readNutritionTargets(body.nutritionTargets);
+  let pantryOnly: GenerationPromptInput['pantryOnly'];
+  if (body.pantryOnly !== undefined) {
+    const settings = isRecord(body.pantryOnly) ? body.pantryOnly : {};
+    const staples = readList(settings.staples, MAX_LIST_ITEMS, readName);
+    const maxExtraIngredients = readNumber(settings.maxExtraIngredients, 0, MAX_PANTRY_EXTRAS);
+    if (!staples || maxExtraIngredients === undefined) return null;
+    pantryOnly = { staples, maxExtraIngredients };
+  }
+  if ((body.mealType !== undefined && !mealType) || (body.cuisine !== undefined && cuisine === undefined)
+    || (body.maxExtraCost !== undefined && maxExtraCost === undefined)
+    || (body.nutritionTargets !== undefined && !nutritionTargets)) {
+    return null;
+  }
+
+  return {
+    kind: 'generate',
+    promptVersion,
+    ingredients,
+    backgroundItems,
+    dietaryPreferences: { restrictions, allergies, preferences },
+    recipeCount: Math.round(recipeCount),
+    basicCount: Math.round(basicCount),
+    ...(mealType ? { mealType } : {}),
+    ...(cuisine ? { cuisine } : {}),
+    ...(maxExtraCost !== undefined ? { maxExtraCost } : {}),
+    ...(nutritionTargets ? { nutritionTargets } : {}),
+    ...(pantryOnly ? { pantryOnly } : {}),
+    excludedRecipes,
+  };
+}
+
+// Only the fields the app's RefinableRecipe has, so nothing else reaches the prompt
+function readRefinableRecipe(value: unknown): Record<string, unknown> | null {
+  if (!isRecord(value)) return null;
+  const nutritionInfo = isRecord(value.nutritionInfo) ? value.nutritionInfo : {};
+  const dietaryInfo = isRecord(value.dietaryInfo) ? value.dietaryInfo : {};
+  const recipe = {
+    name: readName(value.name),
+    difficulty: readText(value.difficulty, 20),
+    ...(value.mealType !== undefined ? { mealType: readOneOf(MEAL_TYPES)(value.mealType) } : {}),
+    ...(value.cuisine !== undefined ? { cuisine: readText(value.cuisine, 40) } : {}),
+    timeEstimate: readNumber(value.timeEstimate, 0, 10000),
+    extraIngredientsCost: readNumber(value.extraIngredientsCost, 0, 10000),
+    currentIngredients: readList(value.currentIngredients, MAX_LIST_ITEMS, readName),
+    extraIngredients: readList(value.extraIngredients, MAX_LIST_ITEMS, ingredient => {
+      if (!isRecord(ingredient)) return undefined;
+      const item = readName(ingredient.item);
+      const cost = readNumber(ingredient.cost, 0, 10000);
+      const amount = readText(ingredient.amount, 40);
+      return item !== undefined && cost !== undefined && amount !== undefined ? { item, cost, amount } : undefined;
+    }),
+    instructions: readList(value.instructions, MAX_LIST_ITEMS, step => readText(step, MAX_STEP_LENGTH)),
+    dietaryInfo: {
+      restrictions: readLabels(dietaryInfo.restrictions, DIETARY_RESTRICTIONS),
+      allergens: readLabels(dietaryInfo.allergens, ALLERGIES),
+      ...(dietaryInfo.preferences !== undefined ? { preferences: readLabels(dietaryInfo.preferences, DIET_PLANS) } : {}),
+    },
+    nutritionInfo: Object.fromEntries(
+      NUTRITION_FIELDS.map(({ field }) => [field, readNumber(nutritionInfo[field], 0, 100000)])
+    ),
+  };
+
+  const fields = [
+    ...Object.values(recipe),
+    ...Object.values(recipe.dietaryInfo),
+    ...Object.values(recipe.nutritionInfo),
+  ];
+  return fields.every(field => field !== undefined) ? recipe : null;
+}
+
+function readRefineInput(body: Record<string, unknown>): RefinePromptInput | null {
+  const recipe = readRefinableRecipe(body.recipe);
+  const instruction = readText(body.instruction, MAX_INSTRUCTION_LENGTH);
+  if (!recipe || !instruction) return null;
+  if (body.dietary === undefined) return { kind: 'refine', recipe, instruction };
+
+  const dietary = isRecord(body.dietary) ? body.dietary : {};
+  const allergies = readLabels(dietary.allergies, ALLERGIES);
+  const restrictions = readLabels(dietary.restrictions, DIETARY_RESTRICTIONS);
+  return allergies && restrictions ? { kind: 'refine', recipe, instruction, dietary: { allergies, restrictions } } : null;
+}
+
+/**
+ * Reads the prompt input of a generation request, or null when it isn't
+ * one the app sends: unknown fields are dropped, and text, list and number
+ * fields past the bounds above fail the whole input
+ */
+export function readPromptInput(value: unknown): RecipePromptInput | null {
+  if (!isRecord(value)) return null;
+  if (value.kind === 'generate') return readGenerationInput(value);
+  if (value.kind === 'refine') return readRefineInput(value);
+  return null;
+}
+
+let remoteTemplates: { templates: Record<string, string>; timestamp: number } | null = null;
+
+/**
+ * A recipe_generation template version: the remote config's, as in the
+ * app's prompt registry, or the built-in one. Null for unknown versions.
+ */
+async function getPromptTemplate(version: string): Promise<string | null> {
+  if (!remoteTemplates || Date.now() - remoteTemplates.timestamp > TEMPLATE_CACHE_TTL) {
+    try {
+      const config = await adminDb.collection(PROMPT_CONFIG_COLLECTION).doc('recipe_generation').get();
+      const templates = config.data()?.templates;
+      remoteTemplates = { templates: isRecord(templates) ? templates as Record<string, string> : {}, timestamp: Date.now() };
+    } catch (error) {
+      console.error('Error loading the remote prompt templates:', error);
+      remoteTemplates = { templates: {}, timestamp: Date.now() };
+    }
+  }
+  const remote = remoteTemplates.templates[version];
+  return typeof remote === 'string' ? remote : BUILT_IN_TEMPLATES[version] || null;
+}
+
+function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => variables[key] ?? '');
+}
+
+// "at least 40g protein, at most 600 kcal", as in the app's describeNutritionTargets
+function describeNutritionTargets(targets: NutritionTargets): string {
+  const format = (field: string, unit: string, amount: number) => {
+    if (field === 'servings') return `${amount} servings`;
+    if (field === 'calories') return `${amount} ${unit}`;
+    return `${amount}${unit} ${field}`;
+  };
+  return NUTRITION_FIELDS.flatMap(({ field, unit }) => {
+    const { min, max } = targets[field] || {};
+    if (min !== undefined && max !== undefined) return [`between ${min} and ${format(field, unit, max)}`];
+    if (min !== undefined) return [`at least ${format(field, unit, min)}`];
+    return max !== undefined ? [`at most ${format(field, unit, max)}`] : [];
+  }).join(', ');
+}
+
+function buildRefinePrompt({ recipe, instruction, dietary }: RefinePromptInput): string {
+  const rules = dietary
+    ? `\nThe user's allergies (${dietary.allergies.join(', ') || 'none'}) and dietary restrictions (${dietary.restrictions.join(', ') || 'none'}) still apply.`
+    : '';
+
+  return `Here is a recipe the user wants to change:
+
+${JSON.stringify(recipe, null, 2)}
+
+The user asked: "${instruction}"
+
+Revise this one recipe to do what they asked. Change only what the request needs and keep everything else the same, but update the time, cost, nutrition and dietary info whenever the change affects them.${rules}
+Return exactly 1 recipe.
+
+${JSON_FORMAT_INSTRUCTIONS}`;
+}
+
+async function buildGenerationPrompt({
+  promptVersion,
+  ingredients,
+  backgroundItems,
+  dietaryPreferences,
+  recipeCount,
+  basicCount,
+  mealType,
+  cuisine,
+  maxExtraCost,
+  nutritionTargets,
+  pantryOnly,
+  excludedRecipes
+}: GenerationPromptInput): Promise<string | null> {
+  const template = await getPromptTemplate(promptVersion);
+  if (!template) return null;
+
+  const dietaryInfo = `
+Dietary Restrictions: ${dietaryPreferences.restrictions.join(', ') || 'None'}
+Allergies: ${dietaryPreferences.allergies.join(', ') || 'None'}
+Diet Plan: ${dietaryPreferences.preferences.join(', ') || 'None'}`;
+
+  // e.g. "3 different Italian dinner dishes"
+  const dishes = [
+    recipeCount === 1 ? '1' : `${recipeCount} different`,
+    cuisine,
+    mealType,
+    recipeCount === 1 ? 'dish' : 'dishes'
+  ].filter(Boolean).join(' ');
+
+  const creativeCount = recipeCount - basicCount;
+  let mix: string;
+  if (basicCount === 0) {
+    mix = 'Make every dish completely unique and innovative, incorporating these ingredients in unexpected ways.';
+  } else if (creativeCount === 0) {
+    mix = 'Keep every dish somewhat basic, using these ingredients in familiar ways.';
+  } else {
+    mix = `Create ${creativeCount} completely unique and innovative ${creativeCount === 1 ? 'dish' : 'dishes'} that incorporate these ingredients in unexpected ways and keep ${basicCount} as somewhat basic.`;
+  }
+
+  const pantry = backgroundItems.length > 0
+    ? `
+Also in my pantry, to use only where they fit naturally (the dishes don't need to feature them): ${backgroundItems.join(', ')}`
+    : '';
+
+  const budget = maxExtraCost !== undefined
+    ? `
+Keep each dish within a $${maxExtraCost.toFixed(2)} budget for extra ingredients: the costs of its extra ingredients must add up to no more than $${maxExtraCost.toFixed(2)}. Lean on the ingredients on hand and cheap staples to stay under it.`
+    : '';
+
+  const nutrition = nutritionTargets && describeNutritionTargets(nutritionTargets)
+    ? `
+Each dish must meet these nutrition targets per serving: ${describeNutritionTargets(nutritionTargets)}. Choose ingredients and portions to hit them, and give nutritionInfo as honest per-serving estimates.`
+    : '';
+
+  let pantryRules = '';
+  if (pantryOnly) {
+    const extras = pantryOnly.maxExtraIngredients === 0
+      ? 'Do not add any other ingredients.'
+      : `Each dish may add at most ${pantryOnly.maxExtraIngredients} other ${pantryOnly.maxExtraIngredients === 1 ? 'ingredient' : 'ingredients'}, and only when the dish really needs ${pantryOnly.maxExtraIngredients === 1 ? 'it' : 'them'}.`;
+    pantryRules = `
+I want to cook only with what I have, so ignore any advice above about adding extra ingredients. Use only the ingredients on hand and these basic staples: ${pantryOnly.staples.join(', ') || 'none'}. ${extras} List any staples and other additions as extra ingredients.`;
+  }
+
+  const exclusions = excludedRecipes.length > 0
+    ? `
+Do NOT suggest any of these previously suggested dishes, or anything similar to them (same main idea or mostly the same key ingredients):
+${excludedRecipes.map(recipe => `- ${recipe.name} (${recipe.keyIngredients.join(', ')})`).join('\n')}`
+    : '';
+
+  return renderPromptTemplate(template, {
+    ingredients: ingredients.join(', '),
+    pantry,
+    dietaryInfo,
+    dishes,
+    mix,
+    budget,
+    nutritionTargets: nutrition,
+    pantryRules,
+    exclusions,
+    formatInstructions: JSON_FORMAT_INSTRUCTIONS
+  });
+}
+
+/**
+ * The prompt for a request's input, or null when its template version is unknown
+ */
+export async function buildRecipePrompt(input: RecipePromptInput): Promise<string | null> {
+  return input.kind === 'refine' ? buildRefinePrompt(input) : buildGenerationPrompt(input);
+}
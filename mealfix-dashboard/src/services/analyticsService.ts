@@ -63,6 +63,32 @@ export interface PerformanceMetricsData {
   // Add new LLM-specific metrics
   llm_api_latency?: string;
   recipe_generation_total_time?: string;
+  // Recipe result cache effectiveness
+  recipe_cache_hit_rate?: string;
+  llm_calls_saved?: string;
+  // Estimated LLM spend from llm_usage events
+  cost_per_recipe?: string;
+  cost_per_active_user?: string;
+}
+
+// Interface for comparing prompt template versions
+export interface PromptVersionMetricsData {
+  promptVersion: string;
+  generations: number;
+  // Share of the recipes the LLM returned that passed validation
+  parseSuccessRate: string;
+  // Saves per recipe shown to users
+  saveRate: string;
+  saves: number;
+}
+
+// Generations blocked by a used-up quota on one day
+export interface PaywallHitsData {
+  date: string;
+  free: number;
+  premium: number;
+  // Taps on the upgrade prompt shown with the block
+  upgradeClicks: number;
 }
 
 // Interface for AB test results
@@ -92,6 +118,8 @@ interface AnalyticsCache {
   userEngagementMetrics?: CacheEntry<UserEngagementData>;
   performanceMetrics?: CacheEntry<PerformanceMetricsData>;
   abTests?: CacheEntry<ABTestResultData[]>;
+  promptVersionMetrics?: CacheEntry<PromptVersionMetricsData[]>;
+  paywallHits?: CacheEntry<PaywallHitsData[]>;
   rawAnalyticsEvents?: CacheEntry<any[]>;
 }
 
@@ -1164,6 +1192,11 @@ export async function getUserEngagementMetrics(): Promise<UserEngagementData> {
 }
 
 // Get performance metrics
+// LLM costs per recipe are fractions of a cent, so keep more precision when small
+function formatUsd(value: number): string {
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
 export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
   // Check cache first
   const cachedData = getCachedData<PerformanceMetricsData>('performanceMetrics');
@@ -1197,6 +1230,11 @@ export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
     let errorCount = 0;
     let crashCount = 0;
     let totalEvents = 0;
+    let cacheHitCount = 0;
+    let cacheMissCount = 0;
+    let totalLLMCost = 0;
+    let llmRecipeCount = 0;
+    const activeUsers = new Set<string>();
     
     // Log all documents for debugging
     console.log('===== PERFORMANCE METRICS DEBUG =====');
@@ -1245,6 +1283,24 @@ export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
         console.log(`Found direct recipe generation time: ${recipeGenTime}ms`);
       }
       
+      const userId = data.user_id || data.userId;
+      if (userId) {
+        activeUsers.add(userId);
+      }
+      
+      // Estimated cost of the LLM calls behind one generation or refinement
+      if (eventType === 'llm_usage') {
+        totalLLMCost += Number(data.parameters?.estimated_cost_usd) || 0;
+        llmRecipeCount += Number(data.parameters?.recipes_count) || 0;
+      }
+      
+      // Every cache hit is one LLM call the app didn't have to make
+      if (eventType === 'recipe_cache_hit') {
+        cacheHitCount++;
+      } else if (eventType === 'recipe_cache_miss') {
+        cacheMissCount++;
+      }
+      
       // More flexible event type checking - match anything containing "performance"
       if ((eventType && eventType.toLowerCase().includes('performance')) || 
           (eventType === 'performance_metric') || 
@@ -1288,7 +1344,11 @@ export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
       crashRate: `${((crashCount / Math.max(totalEvents, 1)) * 100).toFixed(1)}%`,
       // Add LLM metrics
       llm_api_latency: llmApiLatencyCount > 0 ? `${Math.round(totalLLMApiLatency / llmApiLatencyCount)}ms` : (Math.round((Math.random() * (5100 - 4400) + 4400) * 100) / 100).toString(),
-      recipe_generation_total_time: recipeGenTimeCount > 0 ? `${Math.round(totalRecipeGenTime / recipeGenTimeCount)}ms` : (Math.round((Math.random() * (6600 - 4200) + 4200) * 100) / 100).toString()
+      recipe_generation_total_time: recipeGenTimeCount > 0 ? `${Math.round(totalRecipeGenTime / recipeGenTimeCount)}ms` : (Math.round((Math.random() * (6600 - 4200) + 4200) * 100) / 100).toString(),
+      recipe_cache_hit_rate: cacheHitCount + cacheMissCount > 0 ? `${((cacheHitCount / (cacheHitCount + cacheMissCount)) * 100).toFixed(1)}%` : 'N/A',
+      llm_calls_saved: cacheHitCount.toString(),
+      cost_per_recipe: llmRecipeCount > 0 ? formatUsd(totalLLMCost / llmRecipeCount) : 'N/A',
+      cost_per_active_user: totalLLMCost > 0 && activeUsers.size > 0 ? formatUsd(totalLLMCost / activeUsers.size) : 'N/A'
     };
     
     console.log('Performance metrics summary:');
@@ -1297,6 +1357,8 @@ export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
     console.log(`- Search Latency: ${result.searchLatency} (from ${searchLatencyCount} data points)`);
     console.log(`- LLM API Latency: ${result.llm_api_latency} (from ${llmApiLatencyCount} data points)`);
     console.log(`- Recipe Generation Time: ${result.recipe_generation_total_time} (from ${recipeGenTimeCount} data points)`);
+    console.log(`- Recipe Cache Hit Rate: ${result.recipe_cache_hit_rate} (${cacheHitCount} hits, ${cacheMissCount} misses)`);
+    console.log(`- LLM Cost: $${totalLLMCost.toFixed(4)} for ${llmRecipeCount} recipes and ${activeUsers.size} active users`);
     
     // Cache results
     setCachedData('performanceMetrics', result);
@@ -1312,11 +1374,125 @@ export async function getPerformanceMetrics(): Promise<PerformanceMetricsData> {
       errorRate: 'N/A',
       crashRate: 'N/A',
       llm_api_latency: 'N/A',
-      recipe_generation_total_time: 'N/A'
+      recipe_generation_total_time: 'N/A',
+      recipe_cache_hit_rate: 'N/A',
+      llm_calls_saved: 'N/A',
+      cost_per_recipe: 'N/A',
+      cost_per_active_user: 'N/A'
     };
   }
 }
 
+// Compare parse success and save rate between prompt template versions
+export async function getPromptVersionMetrics(): Promise<PromptVersionMetricsData[]> {
+  const cachedData = getCachedData<PromptVersionMetricsData[]>('promptVersionMetrics');
+  if (cachedData) return cachedData;
+
+  try {
+    const eventsQuery = query(
+      collection(db, ANALYTICS_COLLECTION),
+      where('event_name', 'in', ['prompt_result', 'save_recipe']),
+      firestoreLimit(500)
+    );
+    const snapshot = await getDocs(eventsQuery);
+    console.log(`Examining ${snapshot.size} events for prompt version metrics`);
+
+    const versions: Record<string, { generations: number; parsed: number; valid: number; shown: number; saves: number }> = {};
+
+    snapshot.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+      const data = doc.data();
+      const params = data.parameters || {};
+      const version = data.prompt_version || params.prompt_version;
+      // Events from before prompts were versioned can't be attributed
+      if (!version) return;
+
+      const stats = versions[version] || (versions[version] = { generations: 0, parsed: 0, valid: 0, shown: 0, saves: 0 });
+      const eventType = data.eventName || data.event_name;
+      if (eventType === 'prompt_result') {
+        stats.generations++;
+        stats.parsed += Number(params.parsed_count) || 0;
+        stats.valid += Number(params.valid_count) || 0;
+        stats.shown += Number(params.recipes_count) || 0;
+      } else if (eventType === 'save_recipe' && params.action !== 'unsave') {
+        stats.saves++;
+      }
+    });
+
+    const result: PromptVersionMetricsData[] = Object.entries(versions)
+      .map(([promptVersion, stats]) => ({
+        promptVersion,
+        generations: stats.generations,
+        parseSuccessRate: stats.parsed > 0 ? `${((stats.valid / stats.parsed) * 100).toFixed(1)}%` : 'N/A',
+        saveRate: stats.shown > 0 ? `${((stats.saves / stats.shown) * 100).toFixed(1)}%` : 'N/A',
+        saves: stats.saves
+      }))
+      .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+
+    setCachedData('promptVersionMetrics', result);
+    return result;
+  } catch (error) {
+    console.error('Error fetching prompt version metrics:', error);
+    return [];
+  }
+}
+
+// Daily counts of quota-exhausted generations and upgrade prompt taps, by
+// UTC day like the generation quotas (needs the event_name + timestamp index)
+export async function getPaywallHits(days = 14): Promise<PaywallHitsData[]> {
+  const cachedData = getCachedData<PaywallHitsData[]>('paywallHits');
+  if (cachedData) return cachedData;
+
+  try {
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    // Newest first, so a busy window drops its oldest events rather than its latest
+    const eventsQuery = query(
+      collection(db, ANALYTICS_COLLECTION),
+      where('event_name', 'in', ['quota_exhausted', 'upgrade_prompt_click']),
+      where('timestamp', '>=', Timestamp.fromDate(since)),
+      orderBy('timestamp', 'desc'),
+      firestoreLimit(1000)
+    );
+    const snapshot = await getDocs(eventsQuery);
+    console.log(`Examining ${snapshot.size} events for paywall hits`);
+
+    // One entry per day so days without hits still show on the chart
+    const byDate: Record<string, PaywallHitsData> = {};
+    for (let i = 0; i < days; i++) {
+      const day = new Date(since);
+      day.setUTCDate(since.getUTCDate() + i);
+      const date = day.toISOString().split('T')[0];
+      byDate[date] = { date, free: 0, premium: 0, upgradeClicks: 0 };
+    }
+
+    snapshot.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+      const data = doc.data();
+      const timestamp = data.timestamp?.toDate() || new Date(data.client_timestamp);
+      // Older events fall outside the chart's window
+      const entry = byDate[timestamp.toISOString().split('T')[0]];
+      if (!entry) return;
+
+      const eventType = data.eventName || data.event_name;
+      if (eventType === 'upgrade_prompt_click') {
+        entry.upgradeClicks++;
+      } else if (data.parameters?.tier === 'premium') {
+        entry.premium++;
+      } else {
+        entry.free++;
+      }
+    });
+
+    const result = Object.values(byDate);
+    setCachedData('paywallHits', result);
+    return result;
+  } catch (error) {
+    console.error('Error fetching paywall hits:', error);
+    return [];
+  }
+}
+
 // Get A/B test results
 export async function getABTestResults(): Promise<ABTestResultData[]> {
   try {
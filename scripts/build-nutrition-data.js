@@ -0,0 +1,227 @@
+/**
+ * Builds assets/data/usdaFoods.json, the app's bundled food nutrition table,
+ * from the USDA FoodData Central SR Legacy CSV download
+ * (https://fdc.nal.usda.gov/download-datasets, "SR Legacy", CSV).
+ * - One entry per plain food name ("onion", "cheddar cheese", "cumin seed"),
+ *   preferring the raw or least processed variant when SR lists several
+ * - Per 100 g: calories, protein, fat, carbs, fiber, sugar (g) and sodium (mg)
+ * - gramsPerPiece from "medium"/"large"/"whole" portions and gramsPerMl from
+ *   cup, tbsp and tsp portions, where SR has them
+ * - Prepared dishes, baby food and restaurant categories are left out
+ *
+ * Run with: node scripts/build-nutrition-data.js <path to the unzipped CSV folder>
+ */
+
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+// Run from the repo root, like the other scripts
+const OUTPUT_PATH = path.join(process.cwd(), 'assets', 'data', 'usdaFoods.json');
+
+// SR nutrient numbers of the fields the app tracks
+const NUTRIENT_NUMBERS = {
+  208: 'calories',
+  203: 'protein',
+  204: 'fat',
+  205: 'carbs',
+  291: 'fiber',
+  269: 'sugar',
+  307: 'sodium',
+};
+
+// The app's nutrient fields, in the order it lists them
+const FIELDS = ['calories', 'protein', 'fat', 'carbs', 'fiber', 'sugar', 'sodium'];
+// SR leaves these out for foods that have none, e.g. fiber in meat
+const OPTIONAL_FIELDS = ['fiber', 'sugar', 'sodium'];
+
+// Categories whose foods aren't recipe ingredients
+const EXCLUDED_CATEGORIES = [
+  'Baby Foods',
+  'Fast Foods',
+  'Restaurant Foods',
+  'Meals, Entrees, and Side Dishes',
+  'American Indian/Alaska Native Foods',
+];
+
+// Leading words that only say what kind of food follows ("Spices, cumin seed")
+const DROPPED_PREFIXES = ['spices', 'fish', 'beverages', 'alcoholic beverage', 'game meat', 'candies'];
+// Leading words that belong after the variety ("Cheese, cheddar" is cheddar cheese)
+const TRAILING_CLASSES = ['cheese', 'oil', 'beans', 'nuts', 'seeds', 'flour', 'vinegar', 'squash', 'peppers', 'lettuce', 'cabbage', 'mushrooms', 'sauce', 'rice', 'pasta', 'bread'];
+
+const MILLILITRES = { cup: 236.588, tbsp: 14.787, tsp: 4.929 };
+const PIECE_MODIFIERS = ['medium', 'large', 'whole', 'small'];
+
+function parseCsvLine(line) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Calls onRow with each row of a CSV file as an object keyed by its header
+ */
+async function readCsv(folder, file, onRow) {
+  const lines = readline.createInterface({ input: fs.createReadStream(path.join(folder, file)), crlfDelay: Infinity });
+  let header = null;
+  for await (const line of lines) {
+    if (!line) continue;
+    const fields = parseCsvLine(line);
+    if (!header) {
+      header = fields;
+      continue;
+    }
+    onRow(Object.fromEntries(header.map((name, index) => [name, fields[index]])));
+  }
+}
+
+function singularize(word) {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * The plain name recipes would use for an SR description, or null when
+ * there isn't a short one ("Beef, ground, 80% lean meat / 20% fat, raw")
+ */
+function getFoodName(description) {
+  let parts = description.toLowerCase().replace(/\([^)]*\)/g, '').split(',').map(part => part.trim()).filter(Boolean);
+  if (DROPPED_PREFIXES.includes(parts[0]) && parts.length > 1) {
+    parts = parts.slice(1);
+  }
+
+  let name;
+  if (TRAILING_CLASSES.includes(parts[0]) && parts[1] && !/\b(raw|cooked|all types)\b/.test(parts[1])) {
+    name = `${parts[1]} ${singularize(parts[0])}`;
+  } else {
+    const words = parts[0].split(' ');
+    name = [...words.slice(0, -1), singularize(words[words.length - 1])].join(' ');
+  }
+
+  return /^[a-z][a-z' -]*$/.test(name) && name.split(' ').length <= 3 ? name : null;
+}
+
+// Lower is a better representative of its name: raw, then the least qualified
+function rankDescription(description) {
+  const qualifiers = description.split(',').length;
+  return qualifiers - (/\braw\b/i.test(description) ? 2 : 0);
+}
+
+function roundAmount(field, value) {
+  return field === 'calories' || field === 'sodium' ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+async function main(folder) {
+  if (!folder || !fs.existsSync(path.join(folder, 'food.csv'))) {
+    console.error('Usage: node scripts/build-nutrition-data.js <unzipped SR Legacy CSV folder>');
+    process.exit(1);
+  }
+
+  const excludedCategoryIds = new Set();
+  await readCsv(folder, 'food_category.csv', row => {
+    if (EXCLUDED_CATEGORIES.includes(row.description)) excludedCategoryIds.add(row.id);
+  });
+
+  // nutrient.csv ids -> the app's field names
+  const fieldsByNutrientId = {};
+  await readCsv(folder, 'nutrient.csv', row => {
+    const field = NUTRIENT_NUMBERS[parseInt(row.nutrient_nbr, 10)];
+    if (field) fieldsByNutrientId[row.id] = field;
+  });
+
+  const foods = new Map();
+  await readCsv(folder, 'food.csv', row => {
+    if (excludedCategoryIds.has(row.food_category_id)) return;
+    const name = getFoodName(row.description);
+    if (name) foods.set(row.fdc_id, { name, description: row.description, nutrients: {} });
+  });
+
+  await readCsv(folder, 'food_nutrient.csv', row => {
+    const food = foods.get(row.fdc_id);
+    const field = fieldsByNutrientId[row.nutrient_id];
+    if (food && field) food.nutrients[field] = parseFloat(row.amount);
+  });
+
+  const unitNames = {};
+  await readCsv(folder, 'measure_unit.csv', row => {
+    unitNames[row.id] = row.name;
+  });
+  await readCsv(folder, 'food_portion.csv', row => {
+    const food = foods.get(row.fdc_id);
+    const grams = parseFloat(row.gram_weight);
+    const amount = parseFloat(row.amount) || 1;
+    if (!food || !(grams > 0)) return;
+
+    // SR Legacy mostly leaves the unit undetermined and names it in the modifier
+    const unit = (unitNames[row.measure_unit_id] || '').toLowerCase();
+    const modifier = (row.modifier || '').toLowerCase();
+    const volume = Object.keys(MILLILITRES).find(key => unit === key || modifier === key || modifier.startsWith(`${key},`));
+    if (volume && !food.gramsPerMl) {
+      food.gramsPerMl = grams / (amount * MILLILITRES[volume]);
+    }
+    const piece = PIECE_MODIFIERS.findIndex(key => modifier.startsWith(key));
+    if (piece !== -1 && amount === 1 && (food.pieceRank === undefined || piece < food.pieceRank)) {
+      food.gramsPerPiece = grams;
+      food.pieceRank = piece;
+    }
+  });
+
+  // One food per name
+  const byName = new Map();
+  foods.forEach(food => {
+    const { nutrients } = food;
+    if (FIELDS.some(field => !OPTIONAL_FIELDS.includes(field) && !(nutrients[field] >= 0))) return;
+    const current = byName.get(food.name);
+    if (!current || rankDescription(food.description) < rankDescription(current.description)) {
+      byName.set(food.name, food);
+    }
+  });
+
+  // One food per line, sorted, so regenerating gives a readable diff
+  const lines = [...byName.values()]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(food => {
+      const entry = Object.fromEntries(
+        FIELDS.map(field => [field, roundAmount(field, food.nutrients[field] || 0)])
+      );
+      if (food.gramsPerPiece) entry.gramsPerPiece = Math.round(food.gramsPerPiece);
+      if (food.gramsPerMl) entry.gramsPerMl = Math.round(food.gramsPerMl * 100) / 100;
+      return `    ${JSON.stringify(food.name)}: ${JSON.stringify(entry)}`;
+    });
+
+  const source = `USDA FoodData Central, SR Legacy (${path.basename(path.resolve(folder))})`;
+  fs.writeFileSync(
+    OUTPUT_PATH,
+    `{\n  "source": ${JSON.stringify(source)},\n  "foods": {\n${lines.join(',\n')}\n  }\n}\n`
+  );
+  console.log(`Wrote ${lines.length} foods to assets/data/usdaFoods.json`);
+}
+
+main(process.argv[2]).catch(error => {
+  console.error('Failed to build the nutrition table:', error);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+/**
+ * Local stand-in for the dashboard's /api/generate proxy, so the app and
+ * tests can run recipe generation without network access or API keys.
+ * - Any bearer token is accepted and treated as the user id
+ * - Each token gets MOCK_DAILY_LIMIT generations (default 50) per server run,
+ *   with up to MAX_CALLS_PER_GENERATION calls sharing a generationId counted once
+ * - Requests have the proxy's shape: a structured prompt input, no prompt text
+ * - Responses have the proxy's shape: parsed recipes, model, usage and quota
+ *   status, or with stream: true one {"recipe"} line per recipe and a closing
+ *   {"done"} line; GET returns the quota status alone
+ *
+ * Run with: node scripts/mock-generation-server.js
+ * then set EXPO_PUBLIC_GENERATION_PROXY_URL=http://localhost:8787/api/generate
+ */
+
+const http = require('http');
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_DAILY_LIMIT = 50;
+const MONTHLY_LIMIT = 1000;
+const MAX_CALLS_PER_GENERATION = 2;
+const MOCK_MODEL = 'mock-recipes-v1';
+
+// Canned recipes in the app's JSON output shape
+const MOCK_RECIPES = [
+  {
+    name: 'Lemon Herb Chickpea Salad',
+    mealType: 'lunch',
+    cuisine: 'Mediterranean',
+    difficulty: 'Beginner',
+    timeEstimate: 15,
+    extraIngredientsCost: 3.5,
+    currentIngredients: ['chickpeas (or white beans if unavailable)', 'garlic'],
+    extraIngredients: [
+      { item: 'lemon', cost: 0.75, amount: '1 whole' },
+      { item: 'parsley', cost: 1.25, amount: '1 bunch' },
+      { item: 'olive oil', cost: 1.5, amount: '2 tbsp' },
+    ],
+    steps: [
+      { text: 'Rinse and drain the chickpeas in a colander.', durationMinutes: 2, warnings: [], utensils: ['colander'] },
+      { text: 'Mince the garlic and chop the parsley with a sharp knife.', durationMinutes: 5, warnings: ['sharp knife'], utensils: ['knife', 'cutting board'] },
+      { text: 'Toss everything with lemon juice and olive oil and season to taste.', durationMinutes: 3, warnings: [], utensils: ['mixing bowl'] },
+    ],
+    dietaryInfo: { restrictions: ['vegan', 'gluten-free'], allergens: ['milk', 'eggs', 'peanuts'] },
+    nutritionInfo: { calories: 340, protein: 14, fat: 15, carbs: 38, fiber: 11, sugar: 3, sodium: 290, servings: 2 },
+  },
+  {
+    name: 'Garlic Chickpea Tomato Stew',
+    mealType: 'dinner',
+    cuisine: 'Moroccan',
+    difficulty: 'Intermediate',
+    timeEstimate: 35,
+    extraIngredientsCost: 5,
+    currentIngredients: ['chickpeas', 'garlic'],
+    extraIngredients: [
+      { item: 'canned tomatoes', cost: 1.5, amount: '1 can' },
+      { item: 'cumin', cost: 1.5, amount: '1 tsp' },
+      { item: 'spinach (or kale if unavailable)', cost: 2, amount: '100g' },
+    ],
+    steps: [
+      { text: 'Fry the sliced garlic and cumin in a pot until fragrant, careful of hot oil.', durationMinutes: 3, warnings: ['hot oil'], utensils: ['pot', 'wooden spoon'] },
+      { text: 'Add the tomatoes and chickpeas and simmer until thick.', durationMinutes: 25, warnings: [], utensils: ['pot'] },
+      { text: 'Stir in the spinach until wilted.', durationMinutes: 2, warnings: [], utensils: ['wooden spoon'] },
+    ],
+    dietaryInfo: { restrictions: ['vegan', 'gluten-free'], allergens: ['milk', 'eggs', 'tree nuts'] },
+    nutritionInfo: { calories: 410, protein: 17, fat: 9, carbs: 62, fiber: 15, sugar: 9, sodium: 520, servings: 3 },
+  },
+];
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Creates the server without starting it; call listen() on the result
+ */
+function createMockGenerationServer({ dailyLimit = DEFAULT_DAILY_LIMIT } = {}) {
+  // User id -> { count, generations: generation id -> calls }
+  const usageByUser = new Map();
+
+  const getStatus = usage => ({
+    tier: 'free',
+    dailyLimit,
+    dailyUsed: usage.count,
+    monthlyLimit: MONTHLY_LIMIT,
+    monthlyUsed: usage.count,
+    remaining: Math.max(dailyLimit - usage.count, 0),
+    exhaustedPeriod: usage.count >= dailyLimit ? 'daily' : null,
+  });
+
+  return http.createServer(async (req, res) => {
+    if (req.url !== '/api/generate' || (req.method !== 'POST' && req.method !== 'GET')) {
+      return sendJson(res, 404, { error: 'Not found', code: 'not_found' });
+    }
+
+    const match = (req.headers.authorization || '').match(/^Bearer (.+)$/);
+    if (!match) {
+      return sendJson(res, 401, { error: 'Sign in to generate recipes.', code: 'unauthenticated' });
+    }
+
+    const userId = match[1];
+    if (!usageByUser.has(userId)) {
+      usageByUser.set(userId, { count: 0, generations: new Map() });
+    }
+    const usage = usageByUser.get(userId);
+    if (req.method === 'GET') {
+      return sendJson(res, 200, { quota: getStatus(usage) });
+    }
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      body = null;
+    }
+    const input = body && body.input;
+    if (!input || (input.kind !== 'generate' && input.kind !== 'refine')) {
+      return sendJson(res, 400, { error: 'Only MealFix recipe requests can be generated.', code: 'invalid_request' });
+    }
+
+    // Calls without a generation id each count as a generation
+    const generationId = typeof body.generationId === 'string' ? body.generationId : null;
+    const calls = (generationId && usage.generations.get(generationId)) || 0;
+    const counted = calls === 0 || calls >= MAX_CALLS_PER_GENERATION;
+    if (counted && usage.count >= dailyLimit) {
+      return sendJson(res, 429, {
+        error: "You've used all your recipe generations for now.",
+        code: 'quota_exceeded',
+        quota: getStatus(usage),
+      }, { 'Retry-After': '3600' });
+    }
+    if (counted) usage.count++;
+    if (generationId) usage.generations.set(generationId, counted ? 1 : calls + 1);
+
+    const recipes = input.kind === 'refine' ? MOCK_RECIPES.slice(0, 1) : MOCK_RECIPES;
+    const summary = {
+      model: MOCK_MODEL,
+      provider: 'mock',
+      // About 4 characters per token
+      usage: {
+        promptTokens: Math.ceil(JSON.stringify(input).length / 4),
+        completionTokens: Math.ceil(JSON.stringify(recipes).length / 4),
+      },
+      quota: getStatus(usage),
+    };
+    if (body.stream !== true) {
+      return sendJson(res, 200, { recipes, ...summary });
+    }
+
+    // One write per line, so clients see the recipes arrive separately
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    recipes.forEach(recipe => res.write(`${JSON.stringify({ recipe })}\n`));
+    res.end(`${JSON.stringify({ done: true, ...summary })}\n`);
+  });
+}
+
+module.exports = { createMockGenerationServer, MOCK_RECIPES };
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_SERVER_PORT || '', 10) || DEFAULT_PORT;
+  const dailyLimit = parseInt(process.env.MOCK_DAILY_LIMIT || '', 10) || DEFAULT_DAILY_LIMIT;
+  createMockGenerationServer({ dailyLimit }).listen(port, () => {
+    console.log(`Mock generation server listening on http://localhost:${port}/api/generate`);
+  });
+}
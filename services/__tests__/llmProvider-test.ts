@@ -0,0 +1,102 @@
+import { AddressInfo } from 'net';
+import { createProxyProvider, runLLMCompletion, runLLMStream } from '../llmProvider';
+import { classifyLLMError } from '../llmErrors';
+import { RecipePromptInput } from '@/utils/recipePrompts';
+
+const { createMockGenerationServer, MOCK_RECIPES } = require('../../scripts/mock-generation-server');
+
+jest.mock('@/config/firebase', () => ({
+  auth: { currentUser: null },
+  logEvent: jest.fn(() => Promise.resolve()),
+  RecipeEvents: { LLM_RESPONSE: 'llm_response' },
+}));
+
+jest.mock('@/services/analyticsService', () => ({
+  trackPerformanceMetric: jest.fn(),
+}));
+
+const promptInput: RecipePromptInput = {
+  kind: 'generate',
+  promptVersion: 'v1',
+  ingredients: ['chickpeas', 'garlic'],
+  backgroundItems: [],
+  dietaryPreferences: { restrictions: [], allergies: [], preferences: [] },
+  recipeCount: 2,
+  basicCount: 1,
+  excludedRecipes: [],
+};
+const request = { prompt: 'Given these ingredients: chickpeas, garlic', promptInput };
+
+let server: any;
+let url: string;
+
+beforeAll(done => {
+  server = createMockGenerationServer({ dailyLimit: 2 }).listen(0, () => {
+    url = `http://localhost:${(server.address() as AddressInfo).port}/api/generate`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+it('sends the prompt input and returns only the recipes parsed by the generation proxy', async () => {
+  const provider = createProxyProvider({ url, getIdToken: async () => 'user-1' });
+
+  const result = await runLLMCompletion(request, { provider });
+
+  expect(result.provider).toBe('proxy');
+  expect(result.model).toBe('mock-recipes-v1');
+  expect(result.content).toBeNull();
+  expect(result.recipes).toEqual(MOCK_RECIPES);
+  expect(result.usage?.promptTokens).toBeGreaterThan(0);
+
+  await expect(runLLMCompletion({ prompt: 'Tell me a joke' }, { provider })).rejects.toMatchObject({
+    status: 400,
+    code: 'invalid_request',
+  });
+});
+
+it('rejects signed-out users and users over their quota without retrying', async () => {
+  const signedOut = createProxyProvider({ url, getIdToken: async () => null });
+  await expect(runLLMCompletion(request, { provider: signedOut })).rejects.toMatchObject({
+    status: 401,
+  });
+
+  const provider = createProxyProvider({ url, getIdToken: async () => 'user-2' });
+  await runLLMCompletion(request, { provider });
+  await runLLMCompletion(request, { provider });
+
+  const error = await runLLMCompletion(request, { provider, retryBaseDelayMs: 1 }).catch(e => e);
+  expect(classifyLLMError(error)).toMatchObject({ kind: 'quota', retryable: false, retryAfterMs: 3600000 });
+  expect(error.quota).toMatchObject({ dailyUsed: 2, remaining: 0, exhaustedPeriod: 'daily' });
+});
+
+it('counts the calls of one generation once and reports the quota', async () => {
+  const provider = createProxyProvider({ url, getIdToken: async () => 'user-3' });
+
+  const first = await runLLMCompletion({ ...request, generationId: 'gen-1' }, { provider });
+  const replacement = await runLLMCompletion({ ...request, generationId: 'gen-1' }, { provider });
+
+  expect(first.quota).toMatchObject({ dailyUsed: 1, remaining: 1 });
+  expect(replacement.quota).toMatchObject({ dailyUsed: 1, remaining: 1 });
+  expect(await provider.getQuota?.()).toMatchObject({ dailyUsed: 1, exhaustedPeriod: null });
+});
+
+it('streams the recipes parsed by the generation proxy one at a time', async () => {
+  const provider = createProxyProvider({ url, getIdToken: async () => 'user-4' });
+  const onDelta = jest.fn();
+  const streamed: unknown[] = [];
+
+  const result = await runLLMStream(request, onDelta, { provider }, recipe => streamed.push(recipe));
+
+  expect(streamed).toEqual(MOCK_RECIPES);
+  expect(onDelta).not.toHaveBeenCalled();
+  expect(result).toMatchObject({ content: null, model: 'mock-recipes-v1' });
+  expect(result.recipes).toBeUndefined();
+  expect(result.quota).toMatchObject({ dailyUsed: 1 });
+
+  // Without onRecipe they come back in the result
+  expect((await runLLMStream(request, onDelta, { provider })).recipes).toEqual(MOCK_RECIPES);
+});
@@ -0,0 +1,46 @@
+import { auth } from '@/config/firebase';
+import { Recipe } from '@/types/recipe';
+import { clearRecipeCache, getCachedRecipes, getRecipeCacheKey, setCachedRecipes } from '../recipeCacheService';
+
+jest.mock('@/config/firebase', () => ({
+  auth: { currentUser: { uid: 'user-1' } },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const recipe: Recipe = {
+  name: 'Garlic Rice',
+  difficulty: 'Beginner',
+  timeEstimate: 20,
+  extraIngredientsCost: 1,
+  currentIngredients: ['rice', 'garlic'],
+  extraIngredients: [],
+  instructions: ['Cook the rice.'],
+  dietaryInfo: { restrictions: ['vegan'], allergens: [] },
+  nutritionInfo: { calories: 300, protein: 6, fat: 2, carbs: 60, fiber: 1, sugar: 0, sodium: 150, servings: 2 },
+};
+
+function signInAs(uid: string) {
+  (auth as { currentUser: { uid: string } | null }).currentUser = { uid };
+}
+
+it("keeps each user's cached recipes apart and clears only the signed-in user's", async () => {
+  const key = getRecipeCacheKey(['rice', 'garlic'], {});
+
+  signInAs('user-1');
+  await setCachedRecipes(key, [recipe]);
+  expect(await getCachedRecipes(key)).toHaveLength(1);
+
+  signInAs('user-2');
+  expect(await getCachedRecipes(key)).toBeNull();
+  await setCachedRecipes(key, [recipe, recipe]);
+
+  signInAs('user-1');
+  await clearRecipeCache();
+  expect(await getCachedRecipes(key)).toBeNull();
+
+  signInAs('user-2');
+  expect(await getCachedRecipes(key)).toHaveLength(2);
+});
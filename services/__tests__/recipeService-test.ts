@@ -0,0 +1,411 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateRecipeSuggestions, streamRecipeSuggestions, refineRecipe } from '../recipeService';
+import { MOCK_RECIPES, LLMProvider, createMockProvider, setLLMProvider } from '../llmProvider';
+import { clearRecipeCache } from '../recipeCacheService';
+import { clearPromptCache } from '../promptRegistry';
+import { getABTestVariant } from '@/services/featureFlagService';
+import { trackPromptResult, trackLLMUsage, trackQuotaExhausted } from '@/services/analyticsService';
+import { getPantryItemsWithModes } from '@/services/pantryservice';
+import { auth } from '@/config/firebase';
+import { DietaryAllergies } from '@/types/dietary';
+
+jest.mock('@/config/firebase', () => ({
+  auth: { currentUser: null },
+  db: {},
+  logEvent: jest.fn(() => Promise.resolve()),
+  RecipeEvents: {
+    GENERATE_RECIPE: 'generate_recipe',
+    LLM_RESPONSE: 'llm_response',
+    RECIPE_ERROR: 'recipe_error',
+  },
+}));
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  getDoc: jest.fn(() => Promise.resolve({ exists: () => false })),
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@/services/featureFlagService', () => ({
+  isFeatureEnabled: jest.fn(() => Promise.resolve(false)),
+  getABTestVariant: jest.fn(() => Promise.resolve(null)),
+}));
+
+jest.mock('@/services/analyticsService', () => ({
+  trackRecipeGenerationComplete: jest.fn(),
+  trackError: jest.fn(),
+  trackPerformanceMetric: jest.fn(),
+  trackRecipeCacheResult: jest.fn(),
+  trackPromptResult: jest.fn(),
+  trackLLMUsage: jest.fn(),
+  trackQuotaExhausted: jest.fn(),
+}));
+
+jest.mock('@/services/pantryservice', () => ({
+  ...jest.requireActual('@/services/pantryservice'),
+  getPantryItemsWithModes: jest.fn(() => Promise.resolve([])),
+}));
+
+const noPreferences = { restrictions: [], allergies: [], preferences: [] };
+
+beforeEach(async () => {
+  setLLMProvider(createMockProvider());
+  await AsyncStorage.clear();
+  await clearRecipeCache();
+  clearPromptCache();
+});
+
+it('generates recipes offline from the mock provider in JSON mode', async () => {
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+
+  expect(result.error).toBeNull();
+  expect(result.recipes?.map(recipe => recipe.name)).toEqual(MOCK_RECIPES.map(recipe => recipe.name));
+});
+
+it('parses the same recipes from the text output format', async () => {
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, { outputMode: 'text' });
+
+  expect(result.error).toBeNull();
+  expect(result.recipes).toHaveLength(MOCK_RECIPES.length);
+  expect(result.recipes?.[0].extraIngredients[0]).toEqual({
+    item: 'butter',
+    cost: 1.5,
+    amount: '2 tbsp',
+    substitutions: [{ alternative: 'olive oil', reason: 'dietary', note: 'dairy-free', costDelta: 0.5 }],
+  });
+  expect(result.recipes?.[0].currentSubstitutions?.[0]).toEqual([
+    { alternative: 'white beans', reason: 'availability', note: 'if unavailable', costDelta: 0 },
+  ]);
+});
+
+it.each(['json', 'text'] as const)('streams each recipe as it completes in %s mode', async outputMode => {
+  const streamed: string[] = [];
+  const result = await streamRecipeSuggestions(
+    'chickpeas, garlic',
+    noPreferences,
+    recipe => streamed.push(recipe.name),
+    { outputMode }
+  );
+
+  expect(streamed).toEqual(MOCK_RECIPES.map(recipe => recipe.name));
+  expect(result.recipes).toHaveLength(MOCK_RECIPES.length);
+});
+
+it('drops recipes that repeat earlier suggestions when regenerating', async () => {
+  await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+  // The mock provider always returns the same dishes, so every one is a repeat
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, { fresh: true });
+
+  expect(result.recipes).toBeNull();
+  expect(result.diagnostics?.filter(diagnostic => diagnostic.status === 'rejected')).toHaveLength(
+    MOCK_RECIPES.length * 2
+  );
+
+  const withoutHistory = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    excludePreviousRecipes: false,
+    fresh: true,
+  });
+  expect(withoutHistory.recipes).toHaveLength(MOCK_RECIPES.length);
+});
+
+it('drops recipes that break an allergy and flags ones with a listed substitute', async () => {
+  const result = await generateRecipeSuggestions('chickpeas, garlic', {
+    restrictions: [],
+    // Custom allergies from the preferences screen aren't in the DietaryAllergies list
+    allergies: ['milk', 'sesame'] as DietaryAllergies[],
+    preferences: [],
+  });
+
+  // Sesame oil has no alternative; the butter and feta do
+  expect(result.recipes?.map(recipe => recipe.name)).toEqual(MOCK_RECIPES.slice(0, 2).map(recipe => recipe.name));
+  expect(result.recipes?.[0].compliance).toMatchObject({
+    compliant: false,
+    violations: [{ ingredient: 'butter', rule: 'milk', hasSubstitute: true }],
+  });
+  expect(result.diagnostics).toContainEqual(expect.objectContaining({
+    recipeName: 'Crispy Rice Breakfast Bowl',
+    status: 'rejected',
+    reasons: ['sesame oil contains sesame'],
+  }));
+});
+
+it('asks for the budget and re-requests recipes whose extra ingredients cost more', async () => {
+  const provider = createMockProvider();
+  const complete = jest.fn(provider.complete);
+  setLLMProvider({ ...provider, complete });
+
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, { maxExtraCost: 5 });
+
+  expect(complete.mock.calls[0][0].prompt).toContain('within a $5.00 budget for extra ingredients');
+  // One replacement round for the dropped recipe; the mock returns it again
+  expect(complete).toHaveBeenCalledTimes(2);
+  expect(result.recipes?.map(recipe => recipe.name)).toEqual([MOCK_RECIPES[0].name, MOCK_RECIPES[2].name]);
+  expect(result.diagnostics).toContainEqual(expect.objectContaining({
+    recipeName: MOCK_RECIPES[1].name,
+    status: 'rejected',
+    reasons: ['Extra ingredients cost $6.25, over the $5.00 budget'],
+  }));
+});
+
+it('asks for nutrition targets, drops clear misses and scores the fit of the rest', async () => {
+  const provider = createMockProvider();
+  const complete = jest.fn(provider.complete);
+  setLLMProvider({ ...provider, complete });
+
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    nutritionTargets: { calories: { max: 400 }, protein: { min: 15 } },
+  });
+
+  expect(complete.mock.calls[0][0].prompt).toContain('nutrition targets per serving: at most 400 kcal, at least 15g protein');
+  // 420 kcal is within the estimate tolerance, so the skillet stays with a lower score
+  expect(result.recipes?.map(recipe => [recipe.name, recipe.nutritionFit])).toEqual([
+    [MOCK_RECIPES[0].name, 98],
+    [MOCK_RECIPES[1].name, 100],
+  ]);
+  expect(result.diagnostics).toContainEqual(expect.objectContaining({
+    recipeName: MOCK_RECIPES[2].name,
+    status: 'rejected',
+    reasons: ['Has 480 kcal, above the 400 kcal target', 'Has 9g protein, below the 15g target'],
+  }));
+});
+
+it('keeps pantry-only recipes within the extra ingredient cap and records coverage', async () => {
+  const provider = createMockProvider();
+  const complete = jest.fn(provider.complete);
+  setLLMProvider({ ...provider, complete });
+
+  const result = await generateRecipeSuggestions('chickpeas, garlic, spinach', noPreferences, {
+    pantryOnly: true,
+    maxExtraIngredients: 1,
+  });
+
+  expect(complete.mock.calls[0][0].prompt).toContain('Each dish may add at most 1 other ingredient');
+  // Butter is the only thing the skillet needs that isn't on hand
+  expect(result.recipes?.map(recipe => recipe.name)).toEqual([MOCK_RECIPES[0].name]);
+  expect(result.recipes?.[0].pantryCoverage).toBe(75);
+  expect(result.diagnostics).toContainEqual(expect.objectContaining({
+    recipeName: MOCK_RECIPES[2].name,
+    status: 'rejected',
+    reasons: [expect.stringContaining("Needs 2 ingredients you don't have")],
+  }));
+});
+
+it('features picked and always-on pantry items and keeps the rest in the background', async () => {
+  (getPantryItemsWithModes as jest.Mock).mockResolvedValueOnce([
+    { name: 'salt', mode: 'optional' },
+    { name: 'lemon', mode: 'always' },
+    { name: 'feta', mode: 'optional' },
+    { name: 'anchovies', mode: 'exclude' },
+  ]);
+  const provider = createMockProvider();
+  const complete = jest.fn(provider.complete);
+  setLLMProvider({ ...provider, complete });
+  (auth as any).currentUser = { uid: 'user-1' };
+
+  try {
+    await generateRecipeSuggestions('chickpeas', noPreferences, { featuredPantryItems: ['feta'] });
+  } finally {
+    (auth as any).currentUser = null;
+  }
+
+  const prompt: string = complete.mock.calls[0][0].prompt;
+  expect(prompt).toContain('Given these ingredients: chickpeas, lemon, feta');
+  expect(prompt).toContain("to use only where they fit naturally (the dishes don't need to feature them): salt");
+  expect(prompt).not.toContain('anchovies');
+  // What the generation proxy builds its own copy of the prompt from
+  expect(complete.mock.calls[0][0].promptInput).toMatchObject({
+    kind: 'generate',
+    promptVersion: 'v1',
+    ingredients: ['chickpeas', 'lemon', 'feta'],
+    backgroundItems: ['salt'],
+  });
+});
+
+it('caps the recipe count and labels recipes with the requested meal type and cuisine', async () => {
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    recipeCount: 2,
+    mealType: 'lunch',
+    cuisine: 'Italian',
+  });
+
+  expect(result.recipes).toHaveLength(2);
+  result.recipes?.forEach(recipe => {
+    expect(recipe.mealType).toBe('lunch');
+    expect(recipe.cuisine).toBe('Italian');
+  });
+});
+
+it('serves repeated requests from the cache regardless of ingredient order and case', async () => {
+  const provider = createMockProvider();
+  const complete = jest.spyOn(provider, 'complete');
+  setLLMProvider(provider);
+
+  const first = await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+  const second = await generateRecipeSuggestions('Garlic,  chickpeas', noPreferences);
+
+  expect(complete).toHaveBeenCalledTimes(1);
+  expect(second.fromCache).toBe(true);
+  expect(second.recipes).toEqual(first.recipes);
+
+  await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    fresh: true,
+    excludePreviousRecipes: false,
+  });
+  expect(complete).toHaveBeenCalledTimes(2);
+});
+
+it('retries rate-limited calls and reports the error kind when retries run out', async () => {
+  const rateLimited = Object.assign(new Error('Rate limit reached'), { status: 429 });
+  const mock = createMockProvider();
+  const complete = jest.fn()
+    .mockRejectedValueOnce(rateLimited)
+    .mockImplementation(mock.complete);
+  setLLMProvider({ ...mock, complete });
+
+  const recovered = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    excludePreviousRecipes: false,
+  });
+  expect(complete).toHaveBeenCalledTimes(2);
+  expect(recovered.recipes).toHaveLength(MOCK_RECIPES.length);
+
+  complete.mockReset().mockRejectedValue(rateLimited);
+  const failed = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, {
+    fresh: true,
+    maxRetries: 1,
+  });
+  expect(complete).toHaveBeenCalledTimes(2);
+  expect(failed.recipes).toBeNull();
+  expect(failed.errorKind).toBe('rate_limit');
+  expect(failed.retryHint).toBeTruthy();
+});
+
+it('keeps recipes that streamed in before the connection dropped', async () => {
+  const dropping: LLMProvider = {
+    name: 'mock',
+    model: 'dropping',
+    complete: jest.fn(),
+    async stream(request, onDelta) {
+      const content = JSON.stringify({ recipes: MOCK_RECIPES });
+      // Cut off part way through the second recipe
+      onDelta(content.slice(0, content.indexOf(MOCK_RECIPES[1].name) + 10));
+      throw new Error('Connection error.');
+    },
+  };
+  setLLMProvider(dropping);
+
+  const result = await streamRecipeSuggestions('chickpeas, garlic', noPreferences, () => {});
+
+  expect(result.partial).toBe(true);
+  expect(result.errorKind).toBe('network');
+  expect(result.recipes?.map(recipe => recipe.name)).toEqual([MOCK_RECIPES[0].name]);
+});
+
+it('refines a single recipe and reports what changed', async () => {
+  const { recipes } = await generateRecipeSuggestions('chickpeas, garlic', noPreferences, { recipeCount: 1 });
+  const original = recipes![0];
+
+  const spicier = {
+    ...MOCK_RECIPES[0],
+    name: 'Spicy Garlic Butter Chickpea Skillet',
+    timeEstimate: 20,
+    extraIngredients: [...MOCK_RECIPES[0].extraIngredients, { item: 'chili flakes', cost: 1, amount: '1 tsp' }],
+  };
+  const complete = jest.fn().mockResolvedValue({
+    content: JSON.stringify({ recipes: [spicier] }),
+    provider: 'mock',
+    model: 'refine',
+  });
+  setLLMProvider({ name: 'mock', model: 'refine', complete, stream: jest.fn() });
+
+  const result = await refineRecipe(original, 'make it spicier');
+
+  expect(complete.mock.calls[0][0].prompt).toContain('The user asked: "make it spicier"');
+  expect(result.recipe?.name).toBe('Spicy Garlic Butter Chickpea Skillet');
+  expect(result.diff?.changedFields.map(change => change.field)).toEqual(['name', 'timeEstimate']);
+  expect(result.diff?.addedIngredients).toEqual(['chili flakes']);
+  expect(result.diff?.removedIngredients).toEqual([]);
+});
+
+it('uses the prompt version picked by the A/B test and records it', async () => {
+  (getABTestVariant as jest.Mock).mockResolvedValueOnce('variant');
+  const provider = createMockProvider();
+  const complete = jest.spyOn(provider, 'complete');
+  setLLMProvider(provider);
+
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+
+  expect(complete.mock.calls[0][0].prompt).toContain('Ingredients on hand: chickpeas, garlic');
+  expect(complete.mock.calls[0][0].prompt).not.toContain('{{');
+  expect(result.recipes?.every(recipe => recipe.promptVersion === 'v2')).toBe(true);
+  expect(trackPromptResult).toHaveBeenCalledWith('recipe_generation', 'v2', {
+    parsedCount: MOCK_RECIPES.length,
+    validCount: MOCK_RECIPES.length,
+    recipesCount: MOCK_RECIPES.length,
+  });
+});
+
+it('records token usage and estimated cost once per generation', async () => {
+  (trackLLMUsage as jest.Mock).mockClear();
+  setLLMProvider(createMockProvider('llama-3.3-70b-versatile'));
+
+  await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+
+  expect(trackLLMUsage).toHaveBeenCalledTimes(1);
+  const [purpose, record] = (trackLLMUsage as jest.Mock).mock.calls[0];
+  expect(purpose).toBe('generate');
+  expect(record).toMatchObject({ provider: 'mock', model: 'llama-3.3-70b-versatile', recipesCount: MOCK_RECIPES.length });
+  expect(record.promptTokens).toBeGreaterThan(0);
+  expect(record.estimatedCostUsd).toBeCloseTo(
+    (record.promptTokens * 0.59 + record.completionTokens * 0.79) / 1_000_000,
+    6
+  );
+
+  // Served from the cache, so no tokens are spent
+  await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+  expect(trackLLMUsage).toHaveBeenCalledTimes(1);
+});
+
+it('shows the quota status the proxy reports when it is used up', async () => {
+  const exhausted = {
+    tier: 'free' as const,
+    dailyLimit: 5,
+    dailyUsed: 5,
+    monthlyLimit: 60,
+    monthlyUsed: 12,
+    remaining: 0,
+    exhaustedPeriod: 'daily' as const,
+  };
+  const complete = jest.fn(() => Promise.reject(Object.assign(new Error('Over quota'), {
+    status: 429,
+    code: 'quota_exceeded',
+    quota: exhausted,
+  })));
+  setLLMProvider({ ...createMockProvider(), complete });
+
+  const result = await generateRecipeSuggestions('chickpeas, garlic', noPreferences);
+
+  // Not retried: waiting won't help
+  expect(complete).toHaveBeenCalledTimes(1);
+  expect(result.recipes).toBeNull();
+  expect(result.errorKind).toBe('quota');
+  expect(result.error).toBe("You've used all 5 recipe generations today.");
+  expect(result.retryHint).toBe('Upgrade to Premium for more generations.');
+  expect(result.quota).toEqual(exhausted);
+  expect(trackQuotaExhausted).toHaveBeenCalledWith(exhausted);
+});
+
+it('sends the same generation id with a replacement round', async () => {
+  const complete = jest.fn(createMockProvider().complete);
+  setLLMProvider({ ...createMockProvider(), complete });
+
+  // Every mock recipe is over budget, so the whole batch is replaced once
+  await generateRecipeSuggestions('chickpeas, garlic', noPreferences, { maxExtraCost: 1 });
+
+  expect(complete).toHaveBeenCalledTimes(2);
+  const [first, second] = complete.mock.calls.map(([request]) => request.generationId);
+  expect(first).toEqual(expect.any(String));
+  expect(second).toBe(first);
+});
@@ -0,0 +1,78 @@
+import { addDoc, getDocs, updateDoc } from 'firebase/firestore';
+import { getSavedRecipes, saveRecipe } from '../savedRecipesService';
+import { auth } from '@/config/firebase';
+import { Recipe } from '@/types/recipe';
+
+jest.mock('@/config/firebase', () => ({
+  auth: { currentUser: { uid: 'user-1' } },
+  db: {},
+}));
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  doc: jest.fn(),
+  getDocs: jest.fn(),
+  addDoc: jest.fn(() => Promise.resolve({ id: 'new' })),
+  updateDoc: jest.fn(() => Promise.resolve()),
+  serverTimestamp: jest.fn(),
+}));
+
+jest.mock('@/services/analyticsService', () => ({
+  trackRecipeSave: jest.fn(),
+  trackRecipeDelete: jest.fn(),
+}));
+
+function savedDoc(id: string, recipe: unknown) {
+  return { id, data: () => ({ userId: auth.currentUser?.uid, recipe, version: 1 }) };
+}
+
+it('skips saved recipes that cannot be read instead of failing the list', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  (getDocs as jest.Mock).mockResolvedValue({
+    docs: [
+      savedDoc('good', {
+        name: 'Garlic Rice',
+        difficulty: 'Beginner',
+        timeEstimate: 20,
+        extraIngredientsCost: 1,
+        currentIngredients: ['rice', 'garlic'],
+        extraIngredients: [],
+        instructions: ['Cook the rice.'],
+        dietaryInfo: { restrictions: ['vegan'], allergens: [] },
+      }),
+      savedDoc('broken', { name: 'Half a Recipe' }),
+    ],
+  });
+
+  const saved = await getSavedRecipes();
+
+  expect(saved.map(recipe => recipe.id)).toEqual(['good']);
+  expect(saved[0].recipe.steps).toHaveLength(1);
+  // Only the readable recipe is written back in the current shape
+  expect(updateDoc).toHaveBeenCalledTimes(1);
+});
+
+it('saves the recipe as generated and keeps the chosen servings beside it', async () => {
+  (getDocs as jest.Mock).mockResolvedValue({ empty: true, docs: [] });
+  const recipe: Recipe = {
+    name: 'Garlic Rice',
+    difficulty: 'Beginner',
+    timeEstimate: 20,
+    extraIngredientsCost: 1,
+    currentIngredients: ['rice', 'garlic'],
+    extraIngredients: [{ item: 'butter', cost: 1, amount: '2 tbsp' }],
+    instructions: ['Cook the rice.'],
+    dietaryInfo: { restrictions: ['vegetarian'], allergens: [] },
+    nutritionInfo: { calories: 300, protein: 6, fat: 8, carbs: 50, fiber: 1, sugar: 0, sodium: 200, servings: 2 },
+  };
+
+  expect(await saveRecipe(recipe, 6)).toBe('new');
+
+  const saved = (addDoc as jest.Mock).mock.calls[0][1];
+  expect(saved.servings).toBe(6);
+  expect(saved.recipe.extraIngredients).toEqual(recipe.extraIngredients);
+  expect(saved.recipe.nutritionInfo.servings).toBe(2);
+});
@@ -15,7 +15,9 @@ import {
   setDoc,
   getDoc
 } from 'firebase/firestore';
-import { Recipe } from '../types/recipe';
+import { Recipe, IngredientSubstitution } from '../types/recipe';
+import { QuotaStatus } from './quotaService';
+import { RecipeCostEstimate } from '../utils/priceEstimator';
 import { Platform } from 'react-native';
 import * as Application from 'expo-application';
 
@@ -105,7 +107,8 @@ async function logAnalyticsEvent(eventName: string, parameters: Record<string, a
       ...(parameters.preference ? { preference: parameters.preference } : {}),
       ...(parameters.ingredients ? { ingredients: parameters.ingredients } : {}),
       ...(parameters.screen_name ? { screen_name: parameters.screen_name } : {}),
-      ...(parameters.difficulty ? { difficulty: parameters.difficulty } : {})
+      ...(parameters.difficulty ? { difficulty: parameters.difficulty } : {}),
+      ...(parameters.prompt_version ? { prompt_version: parameters.prompt_version } : {})
     };
     
     // Add the event to Firestore
@@ -143,58 +146,26 @@ export function trackRecipeView(recipe: Recipe) {
     has_nutrition_info: !!recipe.nutritionInfo,
     has_dietary_info: !!(recipe.dietaryInfo?.restrictions?.length || recipe.dietaryInfo?.allergens?.length)
   });
-  
-  // Track ingredient substitutions if found in recipe ingredients
-  trackIngredientSubstitutions(recipe);
 }
 
 /**
- * Tracks ingredient substitutions from recipes
- * This helps populate the common substitution data in the dashboard
+ * Tracks an ingredient swap the user made on a recipe
+ * This populates the common substitution data in the dashboard
  */
-export function trackIngredientSubstitutions(recipe: Recipe) {
+export function trackIngredientSubstitutions(
+  recipe: Recipe,
+  original: string,
+  substitution: IngredientSubstitution
+) {
   try {
-    // Look for substitution patterns in ingredients - typically in format "ingredient (or substitute)"
-    const substitutionPattern = /(.+)\s+\((?:or|substitute:)\s+(.+?)(?:\s+for\s+.*?)?\)/i;
-    let substitutions: { original: string, substitute: string }[] = [];
-    
-    // Check current ingredients for substitutions
-    if (recipe.currentIngredients && recipe.currentIngredients.length > 0) {
-      recipe.currentIngredients.forEach(ingredient => {
-        const match = ingredient.match(substitutionPattern);
-        if (match) {
-          const original = match[1].trim();
-          const substitute = match[2].trim();
-          substitutions.push({ original, substitute });
-        }
-      });
-    }
-    
-    // Also check extra ingredients descriptions for substitutions
-    if (recipe.extraIngredients && recipe.extraIngredients.length > 0) {
-      recipe.extraIngredients.forEach(ingredientObj => {
-        const ingredient = ingredientObj.item;
-        const match = ingredient.match(substitutionPattern);
-        if (match) {
-          const original = match[1].trim();
-          const substitute = match[2].trim();
-          substitutions.push({ original, substitute });
-        }
-      });
-    }
-    
-    // If substitutions found, log them as events
-    if (substitutions.length > 0) {
-      console.log(`Found ${substitutions.length} ingredient substitutions in recipe`);
-      substitutions.forEach(sub => {
-        logAnalyticsEvent('ingredient_substitution', {
-          original_ingredient: sub.original,
-          substitute_ingredient: sub.substitute,
-          recipe_name: recipe.name,
-          combination: `${sub.original} ⟶ ${sub.substitute}`
-        });
-      });
-    }
+    logAnalyticsEvent('ingredient_substitution', {
+      original_ingredient: original,
+      substitute_ingredient: substitution.alternative,
+      recipe_name: recipe.name,
+      combination: `${original} ⟶ ${substitution.alternative}`,
+      reason: substitution.reason,
+      cost_delta: substitution.costDelta
+    });
   } catch (error) {
     console.error('Error tracking ingredient substitutions:', error);
   }
@@ -208,7 +179,8 @@ export function trackRecipeSave(recipe: Recipe, isSaving: boolean) {
     recipe_name: recipe.name,
     action: isSaving ? 'save' : 'unsave',
     difficulty: recipe.difficulty,
-    time_estimate: recipe.timeEstimate
+    time_estimate: recipe.timeEstimate,
+    ...(recipe.promptVersion ? { prompt_version: recipe.promptVersion } : {})
   });
 }
 
@@ -386,7 +358,8 @@ export function trackRecipeGenerationComplete(
   ingredients: string[],
   dietaryRestrictions: string[],
   recipesCount: number,
-  latencyMs: number
+  latencyMs: number,
+  promptVersion?: string
 ) {
   // First log the recipe generation event
   logAnalyticsEvent(RecipeEvents.GENERATE_RECIPE, {
@@ -394,7 +367,125 @@ export function trackRecipeGenerationComplete(
     ingredients: ingredients,
     dietary_restrictions: dietaryRestrictions,
     recipes_count: recipesCount,
-    latency_ms: latencyMs
+    latency_ms: latencyMs,
+    ...(promptVersion ? { prompt_version: promptVersion } : {})
+  });
+}
+
+/**
+ * Tracks how well one generation's LLM output parsed, per prompt version,
+ * so the dashboard can compare parse success between template versions
+ */
+export function trackPromptResult(
+  promptName: string,
+  promptVersion: string,
+  result: { parsedCount: number; validCount: number; recipesCount: number }
+) {
+  logAnalyticsEvent('prompt_result', {
+    prompt_name: promptName,
+    prompt_version: promptVersion,
+    parsed_count: result.parsedCount,
+    valid_count: result.validCount,
+    recipes_count: result.recipesCount,
+    success: result.recipesCount > 0
+  });
+}
+
+export interface LLMUsageRecord {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // null when the model isn't in the price table
+  estimatedCostUsd: number | null;
+  // Recipes the calls produced for the user
+  recipesCount: number;
+  promptVersion?: string;
+}
+
+/**
+ * Tracks the tokens and estimated cost of one generation or refinement,
+ * and adds them to the user's running totals in user_metrics
+ */
+export async function trackLLMUsage(purpose: 'generate' | 'refine', record: LLMUsageRecord) {
+  logAnalyticsEvent('llm_usage', {
+    purpose,
+    provider: record.provider,
+    model: record.model,
+    prompt_tokens: record.promptTokens,
+    completion_tokens: record.completionTokens,
+    total_tokens: record.promptTokens + record.completionTokens,
+    estimated_cost_usd: record.estimatedCostUsd,
+    recipes_count: record.recipesCount,
+    ...(record.promptVersion ? { prompt_version: record.promptVersion } : {})
+  });
+
+  const userId = auth.currentUser?.uid;
+  if (!userId) return;
+
+  try {
+    await setDoc(doc(db, USER_METRICS_COLLECTION, userId), {
+      llm_calls: increment(1),
+      prompt_tokens: increment(record.promptTokens),
+      completion_tokens: increment(record.completionTokens),
+      estimated_cost_usd: increment(record.estimatedCostUsd || 0),
+      recipes_generated: increment(record.recipesCount),
+      last_llm_usage_at: serverTimestamp()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating LLM usage totals:', error);
+  }
+}
+
+/**
+ * Tracks a generation blocked by a used-up quota, so the dashboard can
+ * chart how often users hit the paywall
+ */
+export function trackQuotaExhausted(status: QuotaStatus) {
+  logAnalyticsEvent('quota_exhausted', {
+    tier: status.tier,
+    period: status.exhaustedPeriod,
+    daily_used: status.dailyUsed,
+    daily_limit: status.dailyLimit,
+    monthly_used: status.monthlyUsed,
+    monthly_limit: status.monthlyLimit
+  });
+}
+
+/**
+ * Tracks a premium waitlist request from the prompt shown when the quota
+ * runs out; the dashboard charts these as upgrade clicks
+ */
+export function trackUpgradePromptClick(status: QuotaStatus) {
+  logAnalyticsEvent('upgrade_prompt_click', {
+    tier: status.tier,
+    period: status.exhaustedPeriod
+  });
+}
+
+/**
+ * Tracks whether recipe generation was served from the local cache,
+ * so the dashboard can show how many LLM calls the cache saved
+ */
+export function trackRecipeCacheResult(hit: boolean) {
+  logAnalyticsEvent(hit ? 'recipe_cache_hit' : 'recipe_cache_miss');
+}
+
+/**
+ * Tracks a catalog re-estimate of a recipe's cost next to the model's own
+ * guess, so the dashboard can show how far off the model's prices are
+ */
+export function trackPriceEstimate(recipe: Recipe, estimate: RecipeCostEstimate) {
+  logAnalyticsEvent(RecipeEvents.PRICE_ESTIMATE, {
+    recipe_name: recipe.name,
+    region: estimate.region,
+    currency: estimate.currency,
+    catalog_version: estimate.catalogVersion,
+    model_cost_usd: recipe.extraIngredientsCost,
+    estimated_cost: estimate.extraIngredientsCost,
+    cost_per_serving: estimate.costPerServing,
+    servings: recipe.nutritionInfo?.servings ?? null,
+    catalog_coverage: estimate.coverage
   });
 }
 
@@ -0,0 +1,118 @@
+/**
+ * Error taxonomy for LLM calls, so callers can tell a busy backend
+ * apart from a dropped connection or a response we couldn't use.
+ */
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'auth'
+  | 'content'
+  | 'unknown';
+
+export interface LLMErrorInfo {
+  kind: LLMErrorKind;
+  // Whether the same request is worth sending again after a backoff
+  retryable: boolean;
+  status?: number;
+  // Server-provided wait before retrying (rate limits)
+  retryAfterMs?: number;
+}
+
+// User-facing copy for each kind, shown by home.tsx
+export const LLM_ERROR_MESSAGES: Record<LLMErrorKind, { message: string; retryHint: string }> = {
+  rate_limit: {
+    message: 'The recipe service is busy right now.',
+    retryHint: 'Wait a minute and try again.',
+  },
+  quota: {
+    message: "You've reached today's recipe generation limit.",
+    retryHint: 'Your limit resets tomorrow.',
+  },
+  network: {
+    message: "Couldn't reach the recipe service.",
+    retryHint: 'Check your internet connection and try again.',
+  },
+  timeout: {
+    message: 'The recipe service took too long to respond.',
+    retryHint: 'Try again, or ask for fewer recipes.',
+  },
+  server: {
+    message: 'The recipe service is having problems.',
+    retryHint: 'Try again in a few minutes.',
+  },
+  auth: {
+    message: 'The recipe service rejected the request.',
+    retryHint: 'Retrying won\'t help. Please contact support if this keeps happening.',
+  },
+  content: {
+    message: "We couldn't read the recipes that came back.",
+    retryHint: 'Try again, or adjust your ingredients or preferences.',
+  },
+  unknown: {
+    message: 'Failed to generate suggestions.',
+    retryHint: 'Please try again.',
+  },
+};
+
+const TIMEOUT_ERROR_NAME = 'LLMTimeoutError';
+
+/**
+ * Error thrown when an LLM call runs past its timeout
+ */
+export function createTimeoutError(timeoutMs: number): Error {
+  const error = new Error(`LLM request timed out after ${timeoutMs}ms`);
+  error.name = TIMEOUT_ERROR_NAME;
+  return error;
+}
+
+/**
+ * Reads the Retry-After header from an SDK error, if present
+ */
+function readRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+
+  const value = typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after'];
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Classifies an error thrown by an LLM provider. Works from the HTTP status
+ * and message, which the Groq and OpenAI SDKs both expose.
+ */
+export function classifyLLMError(error: unknown): LLMErrorInfo {
+  const err = error as any;
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+  const message = String(err?.message || '').toLowerCase();
+
+  if (err?.name === TIMEOUT_ERROR_NAME || status === 408 || message.includes('timed out')) {
+    return { kind: 'timeout', retryable: true, status };
+  }
+  // The generation proxy's per-user quota; waiting a minute won't help
+  if (err?.code === 'quota_exceeded') {
+    return { kind: 'quota', retryable: false, status, retryAfterMs: readRetryAfterMs(err) };
+  }
+  if (status === 429 || message.includes('rate limit')) {
+    return { kind: 'rate_limit', retryable: true, status, retryAfterMs: readRetryAfterMs(err) };
+  }
+  if (status === 401 || status === 403) {
+    return { kind: 'auth', retryable: false, status };
+  }
+  if (status !== undefined && status >= 500) {
+    return { kind: 'server', retryable: true, status };
+  }
+  if (status === 400 || status === 422) {
+    // The backend refused the prompt or couldn't produce valid output for it
+    return { kind: 'content', retryable: false, status };
+  }
+  if (/connection error|network|fetch|econn|enotfound|socket/.test(message)) {
+    return { kind: 'network', retryable: true, status };
+  }
+
+  return { kind: 'unknown', retryable: false, status };
+}
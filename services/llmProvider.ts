@@ -0,0 +1,692 @@
+import OpenAI from 'openai';
+import { getGroqClient } from '@/config/groq';
+import { auth, logEvent, RecipeEvents } from '@/config/firebase';
+import { trackPerformanceMetric } from '@/services/analyticsService';
+import { trackLlmPerformance } from '@/utils/performanceTracking';
+import { classifyLLMError, createTimeoutError } from '@/services/llmErrors';
+import type { RecipePromptInput } from '@/utils/recipePrompts';
+
+export type LLMProviderName = 'proxy' | 'groq' | 'openai-compatible' | 'mock';
+
+// 'json' asks the backend for a JSON object response where supported
+export type LLMResponseFormat = 'json' | 'text';
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  // What the prompt was built from. The proxy only takes this and builds
+  // the prompt itself, so it can't be used for anything but recipes.
+  promptInput?: RecipePromptInput;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: LLMResponseFormat;
+  // Shared by every call of one generation, so the proxy counts it once
+  generationId?: string;
+  // Set by runLLMCompletion/runLLMStream to cancel the request on timeout
+  signal?: AbortSignal;
+}
+
+// Token counts reported by the backend for one call
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletionResult {
+  content: string | null;
+  provider: LLMProviderName;
+  model: string;
+  // Missing when the backend doesn't report usage
+  usage?: LLMUsage;
+  // Raw recipes the backend already parsed out of a JSON completion
+  recipes?: unknown[];
+  // The user's generation quota as the proxy reports it, read with readQuotaStatus
+  quota?: unknown;
+}
+
+/**
+ * A chat-completion backend that recipe generation can run against.
+ * Adapters only translate the request; tracking lives in runLLMCompletion/runLLMStream.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  // Optional streaming support; onDelta receives each content fragment as it
+  // arrives, and onRecipe each recipe a backend parses itself (the proxy)
+  stream?(
+    request: LLMCompletionRequest,
+    onDelta: (delta: string) => void,
+    onRecipe?: (rawRecipe: unknown) => void
+  ): Promise<LLMCompletionResult>;
+  // The user's generation quota, for backends that enforce one
+  getQuota?(): Promise<unknown>;
+}
+
+export const DEFAULT_GROQ_MODEL = 'llama-3.3-70b-versatile';
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1500;
+
+export const DEFAULT_LLM_TIMEOUT_MS = 30000;
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
+export interface LLMCallOptions {
+  // Provider to call instead of the active one
+  provider?: LLMProvider;
+  // Abandon an attempt that takes longer than this
+  timeoutMs?: number;
+  // Extra attempts on transient errors (rate limits, network, timeouts, 5xx)
+  maxRetries?: number;
+  // First backoff delay, doubled on every retry
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Reads the usage block of an OpenAI-style response or final stream chunk
+ */
+function readUsage(usage?: { prompt_tokens: number; completion_tokens: number } | null): LLMUsage | undefined {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+}
+
+/**
+ * Groq adapter, calling Groq directly with the development key from config/groq
+ */
+export function createGroqProvider(model: string = DEFAULT_GROQ_MODEL): LLMProvider {
+  const buildParams = (request: LLMCompletionRequest) => ({
+    messages: [{ role: 'user' as const, content: request.prompt }],
+    model,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name: 'groq',
+    model,
+    async complete(request) {
+      const response = await getGroqClient().chat.completions.create(buildParams(request), { signal: request.signal });
+
+      return {
+        content: response.choices[0]?.message?.content ?? null,
+        provider: 'groq',
+        model,
+        usage: readUsage(response.usage),
+      };
+    },
+    async stream(request, onDelta) {
+      const stream = await getGroqClient().chat.completions.create(
+        { ...buildParams(request), stream: true },
+        { signal: request.signal }
+      );
+      let content = '';
+      let usage: LLMUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        // Groq reports usage on the final chunk
+        usage = readUsage(chunk.x_groq?.usage) || usage;
+      }
+
+      return { content: content || null, provider: 'groq', model, usage };
+    },
+  };
+}
+
+export interface ProxyConfig {
+  // The generation endpoint, e.g. https://dashboard.example.com/api/generate
+  url: string;
+  // Firebase ID token sent as the bearer token
+  getIdToken?: () => Promise<string | null>;
+  // Defaults to the global fetch, which can't stream response bodies in React Native
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+async function getCurrentUserIdToken(): Promise<string | null> {
+  return auth.currentUser ? auth.currentUser.getIdToken() : null;
+}
+
+// Shaped like SDK errors so classifyLLMError reads the status and Retry-After
+function createProxyError(body: any, status: number, headers?: unknown): Error {
+  return Object.assign(new Error(body?.error || `Generation proxy returned ${status}`), {
+    status,
+    code: body?.code,
+    ...(headers ? { headers } : {}),
+    ...(body?.quota ? { quota: body.quota } : {}),
+  });
+}
+
+/**
+ * Calls onLine with each line of a newline-delimited response as it arrives,
+ * or with all of them at the end where the body can't be streamed
+ */
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    (await response.text()).split('\n').forEach(onLine);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    // The last line may still be incomplete
+    buffer = lines.pop() || '';
+    lines.forEach(onLine);
+  }
+  onLine(buffer + decoder.decode());
+}
+
+/**
+ * Adapter for the server-side generation proxy (mealfix-dashboard's
+ * /api/generate, or scripts/mock-generation-server.js locally). The server
+ * holds the LLM key, checks the user's ID token, enforces quotas and builds
+ * the prompt from request.promptInput; it returns parsed recipes, not the
+ * completion text. Streamed responses are newline-delimited JSON with one
+ * {"recipe"} line per recipe and a closing {"done"} or {"error"} line.
+ * Errors carry the HTTP status, code, headers and any quota status so they
+ * classify like SDK errors.
+ */
+export function createProxyProvider(config: ProxyConfig): LLMProvider {
+  const getIdToken = config.getIdToken || getCurrentUserIdToken;
+  const fetchProxy = config.fetch || fetch;
+
+  const send = async (init: RequestInit): Promise<Response> => {
+    const idToken = await getIdToken();
+    if (!idToken) {
+      throw Object.assign(new Error('Sign in to generate recipes.'), { status: 401, code: 'unauthenticated' });
+    }
+
+    const response = await fetchProxy(config.url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw createProxyError(body, response.status, response.headers);
+    }
+    return response;
+  };
+
+  const sendGeneration = (request: LLMCompletionRequest, stream: boolean) => {
+    if (!request.promptInput) {
+      throw Object.assign(new Error('The generation proxy only builds recipe prompts'), {
+        status: 400,
+        code: 'invalid_request',
+      });
+    }
+    return send({
+      method: 'POST',
+      body: JSON.stringify({
+        input: request.promptInput,
+        ...(request.generationId ? { generationId: request.generationId } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: request.signal,
+    });
+  };
+
+  return {
+    name: 'proxy',
+    model: 'proxy',
+    async complete(request) {
+      const body = await (await sendGeneration(request, false)).json().catch(() => null);
+
+      return {
+        content: null,
+        provider: 'proxy',
+        model: body?.model || 'proxy',
+        ...(body?.usage ? { usage: body.usage as LLMUsage } : {}),
+        ...(Array.isArray(body?.recipes) ? { recipes: body.recipes } : {}),
+        ...(body?.quota ? { quota: body.quota } : {}),
+      };
+    },
+    async stream(request, onDelta, onRecipe) {
+      const response = await sendGeneration(request, true);
+      // Handed back in the result when nobody takes them as they arrive
+      const recipes: unknown[] = [];
+      let summary: any = null;
+
+      await readLines(response, line => {
+        if (!line.trim()) return;
+        const message = JSON.parse(line);
+        if (message.error) {
+          const retryAfter = message.retryAfter;
+          throw createProxyError(message, message.status || 502, retryAfter ? { 'retry-after': String(retryAfter) } : undefined);
+        }
+        if (message.recipe !== undefined) {
+          if (onRecipe) {
+            onRecipe(message.recipe);
+          } else {
+            recipes.push(message.recipe);
+          }
+        } else if (message.done) {
+          summary = message;
+        }
+      });
+
+      if (!summary) {
+        throw Object.assign(new Error('The generation proxy ended the stream early'), { status: 502, code: 'upstream_error' });
+      }
+      return {
+        content: null,
+        provider: 'proxy',
+        model: summary.model || 'proxy',
+        ...(summary.usage ? { usage: summary.usage as LLMUsage } : {}),
+        ...(onRecipe ? {} : { recipes }),
+        ...(summary.quota ? { quota: summary.quota } : {}),
+      };
+    },
+    async getQuota() {
+      const body = await (await send({ method: 'GET' })).json().catch(() => null);
+      return body?.quota;
+    },
+  };
+}
+
+export interface OpenAICompatibleConfig {
+  baseURL: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Adapter for any OpenAI-compatible chat completions API
+ * (OpenAI, Together, Ollama, vLLM, a local proxy, ...)
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const client = new OpenAI({
+    baseURL: config.baseURL,
+    apiKey: config.apiKey,
+    dangerouslyAllowBrowser: true,
+  });
+
+  const buildParams = (request: LLMCompletionRequest) => ({
+    messages: [{ role: 'user' as const, content: request.prompt }],
+    model: config.model,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name: 'openai-compatible',
+    model: config.model,
+    async complete(request) {
+      const response = await client.chat.completions.create(buildParams(request), { signal: request.signal });
+
+      return {
+        content: response.choices[0]?.message?.content ?? null,
+        provider: 'openai-compatible',
+        model: config.model,
+        usage: readUsage(response.usage),
+      };
+    },
+    async stream(request, onDelta) {
+      const stream = await client.chat.completions.create(
+        { ...buildParams(request), stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal }
+      );
+      let content = '';
+      let usage: LLMUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        // Sent on a final chunk with no choices
+        usage = readUsage(chunk.usage) || usage;
+      }
+
+      return { content: content || null, provider: 'openai-compatible', model: config.model, usage };
+    },
+  };
+}
+
+// Canned recipes returned by the mock adapter, in the JSON output shape
+export const MOCK_RECIPES = [
+  {
+    name: 'Garlic Butter Chickpea Skillet',
+    mealType: 'dinner',
+    cuisine: 'Mediterranean',
+    difficulty: 'Beginner',
+    timeEstimate: 25,
+    extraIngredientsCost: 4.5,
+    currentIngredients: ['chickpeas (or white beans if unavailable)', 'garlic'],
+    extraIngredients: [
+      { item: 'butter (or olive oil for dairy-free, +$0.50)', cost: 1.5, amount: '2 tbsp' },
+      { item: 'baby spinach', cost: 3, amount: '150g' },
+    ],
+    instructions: [
+      'Melt the butter in a skillet over medium heat, watching for sputtering butter. (Time: 2 minutes)',
+      'Add the sliced garlic and stir with a wooden spoon until fragrant. (Time: 1 minutes)',
+      'Add the drained chickpeas and cook until lightly crisp. (Time: 10 minutes)',
+      'Fold in the spinach until wilted and season to taste. (Time: 3 minutes)',
+    ],
+    dietaryInfo: { restrictions: ['vegetarian', 'gluten-free'], allergens: ['peanuts', 'shellfish'] },
+    nutritionInfo: { calories: 420, protein: 16, fat: 18, carbs: 48, fiber: 12, sugar: 4, sodium: 380, servings: 2 },
+  },
+  {
+    name: 'Smoky Tomato Shakshuka',
+    mealType: 'breakfast',
+    cuisine: 'Middle Eastern',
+    difficulty: 'Intermediate',
+    timeEstimate: 35,
+    extraIngredientsCost: 6.25,
+    currentIngredients: ['eggs (or firm tofu for vegan, +$1.00)', 'tomatoes'],
+    extraIngredients: [
+      { item: 'smoked paprika', cost: 2.25, amount: '1 tsp' },
+      { item: 'red bell pepper', cost: 1.5, amount: '1 medium' },
+      { item: 'feta (or vegan feta, +$1.50)', cost: 2.5, amount: '50g' },
+    ],
+    instructions: [
+      'Saute the diced pepper in a deep pan until soft. (Time: 6 minutes)',
+      'Add the chopped tomatoes and paprika and simmer into a thick sauce. (Time: 12 minutes)',
+      'Make wells in the sauce, crack in the eggs and cover with a lid. (Time: 8 minutes)',
+      'Crumble the feta over the top and serve from the hot pan with an oven mitt. (Time: 2 minutes)',
+    ],
+    dietaryInfo: { restrictions: ['vegetarian', 'gluten-free'], allergens: ['peanuts', 'tree nuts'] },
+    nutritionInfo: { calories: 360, protein: 20, fat: 22, carbs: 18, fiber: 5, sugar: 10, sodium: 620, servings: 2 },
+  },
+  {
+    name: 'Crispy Rice Breakfast Bowl',
+    mealType: 'breakfast',
+    cuisine: 'Korean',
+    difficulty: 'Advanced',
+    timeEstimate: 40,
+    extraIngredientsCost: 5,
+    currentIngredients: ['cooked rice', 'green onions'],
+    extraIngredients: [
+      { item: 'soy sauce (or tamari for gluten-free)', cost: 2, amount: '2 tbsp' },
+      { item: 'sesame oil', cost: 3, amount: '1 tbsp' },
+    ],
+    instructions: [
+      'Press the rice into a hot oiled pan with a spatula, careful of hot oil. (Time: 12 minutes)',
+      'Flip in sections and crisp the other side. (Time: 8 minutes)',
+      'Drizzle with soy sauce and sesame oil and top with green onions. (Time: 2 minutes)',
+    ],
+    dietaryInfo: { restrictions: ['vegan', 'dairy-free'], allergens: ['milk', 'eggs'] },
+    nutritionInfo: { calories: 480, protein: 9, fat: 14, carbs: 78, fiber: 3, sugar: 2, sodium: 890, servings: 2 },
+  },
+];
+
+/**
+ * Renders the mock recipes in the legacy NAME:/--- text format
+ */
+function renderMockRecipesAsText(): string {
+  return MOCK_RECIPES.map(recipe => [
+    `NAME: ${recipe.name}`,
+    `DIFFICULTY: ${recipe.difficulty}`,
+    `MEAL_TYPE: ${recipe.mealType}`,
+    `CUISINE: ${recipe.cuisine}`,
+    `TIME: ${recipe.timeEstimate}`,
+    `COST: $${recipe.extraIngredientsCost.toFixed(2)}`,
+    'DIETARY_INFO:',
+    ...recipe.dietaryInfo.restrictions.map(restriction => `* ${restriction}`),
+    'NUTRITION_INFO:',
+    ...Object.entries(recipe.nutritionInfo).map(
+      ([field, value]) => `* ${field.charAt(0).toUpperCase()}${field.slice(1)}: ${value}`
+    ),
+    'CURRENT_INGREDIENTS:',
+    ...recipe.currentIngredients.map(ingredient => `* ${ingredient}`),
+    'EXTRA_INGREDIENTS:',
+    ...recipe.extraIngredients.map(
+      ingredient => `* ${ingredient.item} ($${ingredient.cost.toFixed(2)} for ${ingredient.amount})`
+    ),
+    'INSTRUCTIONS:',
+    ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`),
+  ].join('\n')).join('\n---\n');
+}
+
+const MOCK_STREAM_CHUNK_SIZE = 64;
+
+// Rough token count (about 4 characters per token) so the mock reports usage
+function estimateMockUsage(prompt: string, content: string): LLMUsage {
+  return { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(content.length / 4) };
+}
+
+/**
+ * Deterministic offline adapter for tests and development without network.
+ * Always returns the same MOCK_RECIPES in the requested format.
+ */
+export function createMockProvider(model: string = 'mock-recipes-v1'): LLMProvider {
+  const render = (request: LLMCompletionRequest) => request.responseFormat === 'text'
+    ? renderMockRecipesAsText()
+    : JSON.stringify({ recipes: MOCK_RECIPES });
+
+  return {
+    name: 'mock',
+    model,
+    async complete(request) {
+      const content = render(request);
+      return { content, provider: 'mock', model, usage: estimateMockUsage(request.prompt, content) };
+    },
+    async stream(request, onDelta) {
+      // Fixed-size chunks keep the streamed output deterministic
+      const content = render(request);
+      for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        onDelta(content.slice(i, i + MOCK_STREAM_CHUNK_SIZE));
+      }
+      return { content, provider: 'mock', model, usage: estimateMockUsage(request.prompt, content) };
+    },
+  };
+}
+
+// The dashboard's dev server; the mock server listens on 8787 instead
+const DEFAULT_PROXY_URL = 'http://localhost:3000/api/generate';
+
+/**
+ * Builds the provider for the current environment from EXPO_PUBLIC_LLM_* variables.
+ * Apps go through the generation proxy unless told otherwise; tests default
+ * to the mock adapter so they never touch the network.
+ */
+function createProviderFromEnv(): LLMProvider {
+  const providerName = (process.env.EXPO_PUBLIC_LLM_PROVIDER
+    || (process.env.NODE_ENV === 'test' ? 'mock' : 'proxy')) as LLMProviderName;
+  const model = process.env.EXPO_PUBLIC_LLM_MODEL;
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider(model);
+
+    case 'groq':
+      return createGroqProvider(model);
+
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseURL: process.env.EXPO_PUBLIC_LLM_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.EXPO_PUBLIC_LLM_API_KEY || '',
+        model: model || 'gpt-4o-mini',
+      });
+
+    case 'proxy':
+    default:
+      return createProxyProvider({
+        url: process.env.EXPO_PUBLIC_GENERATION_PROXY_URL || DEFAULT_PROXY_URL,
+        // Required lazily: expo/fetch streams response bodies but needs the native module
+        fetch: require('expo/fetch').fetch,
+      });
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Returns the provider recipe generation should use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+    console.log(`Using LLM provider ${activeProvider.name} (${activeProvider.model})`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Overrides the active provider, e.g. with the mock adapter in tests.
+ * Pass null to go back to the environment configuration.
+ */
+export function setLLMProvider(provider: LLMProvider | null) {
+  activeProvider = provider;
+}
+
+/**
+ * Records the llm_generate_<model> timing, llm_api_latency metric and
+ * LLM_RESPONSE event around a single provider call
+ */
+async function withCompletionTracking(
+  provider: LLMProvider,
+  streamed: boolean,
+  call: () => Promise<LLMCompletionResult>
+): Promise<LLMCompletionResult> {
+  const apiStartTime = performance.now();
+
+  try {
+    const result = await trackLlmPerformance(provider.model, call);
+
+    // Calculate and track API latency
+    const latencyMs = performance.now() - apiStartTime;
+    trackPerformanceMetric('llm_api_latency', latencyMs);
+
+    await logEvent(RecipeEvents.LLM_RESPONSE, {
+      success: true,
+      responseLength: result.content?.length || 0,
+      provider: provider.name,
+      model: provider.model,
+      streamed,
+      latency_ms: Math.round(latencyMs)
+    });
+
+    return result;
+  } catch (error: any) {
+    await logEvent(RecipeEvents.LLM_RESPONSE, {
+      success: false,
+      provider: provider.name,
+      model: provider.model,
+      streamed,
+      error: error.message || 'Unknown error',
+      latency_ms: Math.round(performance.now() - apiStartTime)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Runs one attempt with an abort signal that fires after timeoutMs
+ */
+function withTimeout<T>(timeoutMs: number, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(createTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  return Promise.race([attempt(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Retries transient failures with exponential backoff, honouring Retry-After
+ * on rate limits. canRetry lets streaming calls stop retrying once output
+ * has reached the caller.
+ */
+async function withRetries(
+  options: LLMCallOptions,
+  attempt: (signal: AbortSignal) => Promise<LLMCompletionResult>,
+  canRetry: () => boolean = () => true
+): Promise<LLMCompletionResult> {
+  const {
+    timeoutMs = DEFAULT_LLM_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS
+  } = options;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await withTimeout(timeoutMs, attempt);
+    } catch (error) {
+      const errorInfo = classifyLLMError(error);
+      if (!errorInfo.retryable || attemptNumber >= maxRetries || !canRetry()) {
+        throw error;
+      }
+
+      // Up to 25% jitter so clients hitting the same limit don't retry in lockstep
+      const backoffMs = retryBaseDelayMs * 2 ** attemptNumber * (1 + Math.random() * 0.25);
+      const delayMs = Math.round(errorInfo.retryAfterMs ?? backoffMs);
+      console.warn(
+        `LLM call failed (${errorInfo.kind}), retrying in ${delayMs}ms (retry ${attemptNumber + 1} of ${maxRetries})`
+      );
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Runs a completion against the active provider, with timeout and retries
+ */
+export async function runLLMCompletion(
+  request: LLMCompletionRequest,
+  options: LLMCallOptions = {}
+): Promise<LLMCompletionResult> {
+  const provider = options.provider || getLLMProvider();
+
+  return withRetries(options, signal =>
+    withCompletionTracking(provider, false, () => provider.complete({ ...request, signal }))
+  );
+}
+
+/**
+ * Streams a completion from the active provider, calling onDelta for each
+ * content fragment and onRecipe for each recipe the backend parsed itself.
+ * Providers without streaming support deliver the whole completion as a
+ * single fragment. Failed attempts are only retried while nothing has been
+ * streamed yet, so the caller never sees output twice.
+ */
+export async function runLLMStream(
+  request: LLMCompletionRequest,
+  onDelta: (delta: string) => void,
+  options: LLMCallOptions = {},
+  onRecipe?: (rawRecipe: unknown) => void
+): Promise<LLMCompletionResult> {
+  const provider = options.provider || getLLMProvider();
+  let streamedAnything = false;
+  const handleDelta = (delta: string) => {
+    streamedAnything = true;
+    onDelta(delta);
+  };
+  const handleRecipe = onRecipe && ((rawRecipe: unknown) => {
+    streamedAnything = true;
+    onRecipe(rawRecipe);
+  });
+
+  return withRetries(
+    options,
+    signal => withCompletionTracking(provider, true, async () => {
+      if (provider.stream) {
+        return provider.stream({ ...request, signal }, handleDelta, handleRecipe);
+      }
+
+      const result = await provider.complete({ ...request, signal });
+      if (result.content) {
+        handleDelta(result.content);
+      }
+      return result;
+    }),
+    () => !streamedAnything
+  );
+}
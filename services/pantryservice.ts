@@ -6,10 +6,33 @@ import {
   updateDoc,
   arrayUnion,
   arrayRemove,
+  deleteField,
+  FieldPath,
 } from 'firebase/firestore';
+import { isSameIngredient } from '@/utils/canonicalIngredients';
 
 const PANTRY_COLLECTION = 'pantryItems';
 
+// How an item is used when generating recipes:
+// 'always' is featured in every generation, 'optional' is available in the
+// background, 'exclude' is left out of generation entirely
+export type PantryItemMode = 'always' | 'optional' | 'exclude';
+
+export const DEFAULT_PANTRY_ITEM_MODE: PantryItemMode = 'optional';
+
+export interface PantryItem {
+  name: string;
+  mode: PantryItemMode;
+}
+
+// Pantry items split by the role they play in one generation
+export interface GenerationPantry {
+  // Built around, like the typed ingredients
+  featured: string[];
+  // Available to use where they fit, e.g. staples
+  background: string[];
+}
+
 export async function getPantryItems(): Promise<string[]> {
   const user = auth.currentUser;
   if (!user) throw new Error('User not authenticated');
@@ -25,16 +48,76 @@ export async function getPantryItems(): Promise<string[]> {
   return [];
 }
 
-export async function addPantryItem(item: string): Promise<void> {
+/**
+ * Pantry items with their generation modes. Items stored before modes
+ * existed are optional.
+ */
+export async function getPantryItemsWithModes(): Promise<PantryItem[]> {
   const user = auth.currentUser;
   if (!user) throw new Error('User not authenticated');
 
   const docRef = doc(db, PANTRY_COLLECTION, user.uid);
+  const docSnap = await getDoc(docRef);
+  if (!docSnap.exists()) return [];
+
+  const data = docSnap.data();
+  const modes = (data.modes || {}) as Record<string, PantryItemMode>;
+  return ((data.items || []) as string[]).map(name => ({
+    name,
+    mode: modes[name] || DEFAULT_PANTRY_ITEM_MODE,
+  }));
+}
+
+export async function setPantryItemMode(item: string, mode: PantryItemMode): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('User not authenticated');
+
+  const docRef = doc(db, PANTRY_COLLECTION, user.uid);
+  await setDoc(docRef, { modes: { [item.toLowerCase()]: mode } }, { merge: true });
+}
+
+/**
+ * Splits the pantry for one generation: 'always' items and the ones picked
+ * for this generation are featured, other optional items stay in the
+ * background and excluded items are left out
+ */
+export function splitPantryForGeneration(items: PantryItem[], featuredItems: string[] = []): GenerationPantry {
+  const picked = new Set(featuredItems.map(item => item.toLowerCase()));
+  const pantry: GenerationPantry = { featured: [], background: [] };
+
+  items.forEach(item => {
+    if (item.mode === 'exclude') return;
+    if (item.mode === 'always' || picked.has(item.name.toLowerCase())) {
+      pantry.featured.push(item.name);
+    } else {
+      pantry.background.push(item.name);
+    }
+  });
+  return pantry;
+}
+
+/**
+ * Adds an item unless the pantry already has the same ingredient under
+ * another name, e.g. "scallions" when "green onions" is there. Returns the
+ * name the item is stored under.
+ */
+export async function addPantryItem(item: string): Promise<string> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('User not authenticated');
+
+  const name = item.trim().replace(/\s+/g, ' ').toLowerCase();
+  const docRef = doc(db, PANTRY_COLLECTION, user.uid);
+  const docSnap = await getDoc(docRef);
+  const existing = docSnap.exists() ? ((docSnap.data().items || []) as string[]) : [];
+  const match = existing.find(stored => isSameIngredient(stored, name));
+  if (match) return match;
+
   await setDoc(
     docRef,
-    { items: arrayUnion(item.toLowerCase()) },
+    { items: arrayUnion(name) },
     { merge: true }
   );
+  return name;
 }
 
 export async function removePantryItem(item: string): Promise<void> {
@@ -42,7 +125,10 @@ export async function removePantryItem(item: string): Promise<void> {
   if (!user) throw new Error('User not authenticated');
 
   const docRef = doc(db, PANTRY_COLLECTION, user.uid);
-  await updateDoc(docRef, {
-    items: arrayRemove(item.toLowerCase()),
-  });
+  // A field path, since item names may contain dots
+  await updateDoc(
+    docRef,
+    'items', arrayRemove(item.toLowerCase()),
+    new FieldPath('modes', item.toLowerCase()), deleteField()
+  );
 }
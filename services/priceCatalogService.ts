@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import {
+  PriceCatalog,
+  PriceSettings,
+  PRICE_REGIONS,
+  CURRENCY_SYMBOLS,
+  BUILT_IN_PRICE_CATALOG,
+  DEFAULT_PRICE_SETTINGS,
+  PRICE_SETTINGS_STORAGE_KEY,
+} from '@/constants/PriceCatalog';
+
+// price_catalog/current holds corrections to the built-in catalog
+const PRICE_CATALOG_COLLECTION = 'price_catalog';
+const PRICE_CATALOG_DOC = 'current';
+
+/**
+ * Remote corrections, so prices can be fixed without an app release. Each
+ * field is merged over the built-in catalog: listed prices, regions and
+ * rates replace the built-in ones, the rest are kept.
+ */
+export interface PriceCatalogConfig {
+  version?: string;
+  prices?: PriceCatalog['prices'];
+  regionMultipliers?: Partial<PriceCatalog['regionMultipliers']>;
+  exchangeRates?: Partial<PriceCatalog['exchangeRates']>;
+}
+
+// Cache time-to-live (5 minutes), matching the feature flags and prompts
+const CACHE_TTL = 5 * 60 * 1000;
+let catalogCache: { catalog: PriceCatalog; timestamp: number } | null = null;
+
+function mergeCatalog(config: PriceCatalogConfig | null): PriceCatalog {
+  if (!config) return BUILT_IN_PRICE_CATALOG;
+  return {
+    version: config.version || BUILT_IN_PRICE_CATALOG.version,
+    prices: { ...BUILT_IN_PRICE_CATALOG.prices, ...(config.prices || {}) },
+    regionMultipliers: { ...BUILT_IN_PRICE_CATALOG.regionMultipliers, ...(config.regionMultipliers || {}) },
+    exchangeRates: { ...BUILT_IN_PRICE_CATALOG.exchangeRates, ...(config.exchangeRates || {}) },
+  };
+}
+
+/**
+ * The built-in catalog with the remote corrections applied. Falls back to
+ * the built-in catalog when Firestore can't be reached.
+ */
+export async function getPriceCatalog(): Promise<PriceCatalog> {
+  const now = Date.now();
+  if (catalogCache && now - catalogCache.timestamp < CACHE_TTL) {
+    return catalogCache.catalog;
+  }
+
+  let config: PriceCatalogConfig | null = null;
+  try {
+    const configDoc = await getDoc(doc(db, PRICE_CATALOG_COLLECTION, PRICE_CATALOG_DOC));
+    config = configDoc.exists() ? (configDoc.data() as PriceCatalogConfig) : null;
+  } catch (error) {
+    console.error('Error loading price catalog:', error);
+  }
+
+  const catalog = mergeCatalog(config);
+  catalogCache = { catalog, timestamp: now };
+  return catalog;
+}
+
+export function clearPriceCatalogCache() {
+  catalogCache = null;
+}
+
+/**
+ * The user's region and currency, or the US defaults
+ */
+export async function getPriceSettings(): Promise<PriceSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(PRICE_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_PRICE_SETTINGS;
+
+    const settings = JSON.parse(stored) as Partial<PriceSettings>;
+    const regionKnown = PRICE_REGIONS.some(region => region.value === settings.region);
+    const currencyKnown = !!settings.currency && settings.currency in CURRENCY_SYMBOLS;
+    return {
+      region: regionKnown ? settings.region! : DEFAULT_PRICE_SETTINGS.region,
+      currency: currencyKnown ? settings.currency! : DEFAULT_PRICE_SETTINGS.currency,
+    };
+  } catch (error) {
+    console.error('Error reading price settings:', error);
+    return DEFAULT_PRICE_SETTINGS;
+  }
+}
+
+export async function setPriceSettings(settings: PriceSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PRICE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving price settings:', error);
+  }
+}
@@ -0,0 +1,115 @@
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { getABTestVariant } from '@/services/featureFlagService';
+import {
+  PromptName,
+  PROMPT_TEMPLATES,
+  DEFAULT_PROMPT_VERSIONS,
+  PROMPT_AB_TESTS,
+} from '@/constants/PromptTemplates';
+
+// One document per prompt name, e.g. prompt_config/recipe_generation
+const PROMPT_CONFIG_COLLECTION = 'prompt_config';
+
+/**
+ * Remote settings for a prompt, so versions can be switched or added
+ * without an app release
+ */
+export interface PromptConfig {
+  // Baseline version, used when no A/B test assigns one
+  activeVersion?: string;
+  // A/B test to read the user's group from, instead of the built-in one
+  abTestName?: string;
+  // A/B group -> version
+  variants?: Record<string, string>;
+  // Version -> template text, added to or replacing the built-in templates
+  templates?: Record<string, string>;
+}
+
+export interface ActivePrompt {
+  name: PromptName;
+  version: string;
+  template: string;
+  // What picked the version
+  source: 'ab_test' | 'remote' | 'default';
+}
+
+// Cache time-to-live (5 minutes), matching the feature flags
+const CACHE_TTL = 5 * 60 * 1000;
+const promptCache: Record<string, { prompt: ActivePrompt; timestamp: number }> = {};
+
+function getBuiltInTemplate(name: PromptName, version: string): string | undefined {
+  return PROMPT_TEMPLATES.find(template => template.name === name && template.version === version)?.template;
+}
+
+async function getPromptConfig(name: PromptName): Promise<PromptConfig | null> {
+  try {
+    const configDoc = await getDoc(doc(db, PROMPT_CONFIG_COLLECTION, name));
+    return configDoc.exists() ? (configDoc.data() as PromptConfig) : null;
+  } catch (error) {
+    console.error(`Error loading prompt config for ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fills {{variable}} placeholders. Placeholders without a value are
+ * removed so a remote template can't leak them into the prompt.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    if (variables[key] === undefined) {
+      console.warn(`Prompt template variable ${key} has no value`);
+      return '';
+    }
+    return variables[key];
+  });
+}
+
+/**
+ * Picks the template version for the current user: their A/B test group if
+ * a test is running, otherwise the remote config's active version, otherwise
+ * the built-in default. Unknown versions fall back to the default.
+ */
+export async function getActivePrompt(name: PromptName): Promise<ActivePrompt> {
+  const cacheKey = `${name}:${auth.currentUser?.uid || 'anonymous'}`;
+  const cached = promptCache[cacheKey];
+  const now = Date.now();
+  if (cached && now - cached.timestamp < CACHE_TTL) {
+    return cached.prompt;
+  }
+
+  const config = await getPromptConfig(name);
+  const abTest = PROMPT_AB_TESTS[name];
+  const variant = await getABTestVariant(config?.abTestName || abTest.testName);
+  const variantVersion = variant ? (config?.variants || abTest.variants)[variant] : undefined;
+
+  let version = DEFAULT_PROMPT_VERSIONS[name];
+  let source: ActivePrompt['source'] = 'default';
+  if (variantVersion) {
+    version = variantVersion;
+    source = 'ab_test';
+  } else if (config?.activeVersion) {
+    version = config.activeVersion;
+    source = 'remote';
+  }
+
+  let template = config?.templates?.[version] || getBuiltInTemplate(name, version);
+  if (!template) {
+    console.warn(`Prompt ${name} has no template for version ${version}, using the default`);
+    version = DEFAULT_PROMPT_VERSIONS[name];
+    source = 'default';
+    template = getBuiltInTemplate(name, version) as string;
+  }
+
+  const prompt: ActivePrompt = { name, version, template, source };
+  promptCache[cacheKey] = { prompt, timestamp: now };
+  console.log(`Using prompt ${name} ${version} (${source})`);
+  return prompt;
+}
+
+export function clearPromptCache() {
+  Object.keys(promptCache).forEach(key => {
+    delete promptCache[key];
+  });
+}
@@ -0,0 +1,84 @@
+import { QuotaTier } from '@/constants/GenerationQuotas';
+import { getLLMProvider } from '@/services/llmProvider';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// The user's generation quota as the generation proxy counts and enforces it
+// (mealfix-dashboard/src/lib/generationQuota.ts); the app only shows it
+export interface QuotaStatus {
+  tier: QuotaTier;
+  dailyLimit: number;
+  dailyUsed: number;
+  monthlyLimit: number;
+  monthlyUsed: number;
+  // Generations left before either limit is reached
+  remaining: number;
+  // The limit that ran out, or null while generations remain
+  exhaustedPeriod: QuotaPeriod | null;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Reads a quota status sent by the proxy, or null when there isn't one
+ */
+export function readQuotaStatus(value: unknown): QuotaStatus | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const status = value as Record<string, unknown>;
+  const counts = [status.dailyLimit, status.dailyUsed, status.monthlyLimit, status.monthlyUsed, status.remaining];
+  if (!counts.every(isCount)) return null;
+
+  return {
+    tier: status.tier === 'premium' ? 'premium' : 'free',
+    dailyLimit: status.dailyLimit as number,
+    dailyUsed: status.dailyUsed as number,
+    monthlyLimit: status.monthlyLimit as number,
+    monthlyUsed: status.monthlyUsed as number,
+    remaining: status.remaining as number,
+    exhaustedPeriod: status.exhaustedPeriod === 'daily' || status.exhaustedPeriod === 'monthly'
+      ? status.exhaustedPeriod
+      : null,
+  };
+}
+
+/**
+ * Current usage and limits for the signed-in user as the proxy reports
+ * them, or null when signed out, when the active provider has no quota or
+ * when the proxy can't be reached
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus | null> {
+  const provider = getLLMProvider();
+  if (!provider.getQuota) return null;
+
+  try {
+    return readQuotaStatus(await provider.getQuota());
+  } catch (error) {
+    console.error('Error loading generation quota:', error);
+    return null;
+  }
+}
+
+/**
+ * "3 of 5 generations left today", counting against whichever limit is closer
+ */
+export function describeQuotaRemaining(status: QuotaStatus): string {
+  const monthlyCloser = status.monthlyLimit - status.monthlyUsed < status.dailyLimit - status.dailyUsed;
+  const limit = monthlyCloser ? status.monthlyLimit : status.dailyLimit;
+  return `${status.remaining} of ${limit} generation${limit === 1 ? '' : 's'} left ${monthlyCloser ? 'this month' : 'today'}`;
+}
+
+/**
+ * User-facing explanation for a used-up quota
+ */
+export function describeQuotaExhausted(status: QuotaStatus): { message: string; retryHint: string } {
+  const limit = status.exhaustedPeriod === 'monthly' ? status.monthlyLimit : status.dailyLimit;
+  const period = status.exhaustedPeriod === 'monthly' ? 'this month' : 'today';
+  return {
+    message: `You've used all ${limit} recipe generations ${period}.`,
+    retryHint: status.tier === 'premium'
+      ? `Your limit resets ${status.exhaustedPeriod === 'monthly' ? 'next month' : 'tomorrow'}.`
+      : 'Upgrade to Premium for more generations.',
+  };
+}
@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth } from '@/config/firebase';
+import { Recipe } from '@/types/recipe';
+import { upgradeRecipe } from '@/utils/legacyRecipes';
+
+// One cache per user, so accounts sharing a device don't see each other's recipes
+const CACHE_STORAGE_KEY_PREFIX = 'recipeCache:';
+// Where the cache was shared by every account before it was kept per user
+const LEGACY_CACHE_STORAGE_KEY = 'recipeCache';
+
+// Cached suggestions expire after a day
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// Oldest entries are evicted past this many
+const MAX_CACHE_ENTRIES = 20;
+
+interface RecipeCacheEntry {
+  recipes: Recipe[];
+  createdAt: number;
+}
+
+type RecipeCache = Record<string, RecipeCacheEntry>;
+
+// In-memory copy of the persisted cache and the storage key it was loaded
+// from, reloaded when another user signs in
+let memoryCache: RecipeCache | null = null;
+let memoryCacheKey: string | null = null;
+
+function getStorageKey(): string {
+  return `${CACHE_STORAGE_KEY_PREFIX}${auth.currentUser?.uid || 'anonymous'}`;
+}
+
+async function loadCache(): Promise<RecipeCache> {
+  const storageKey = getStorageKey();
+  if (memoryCache && memoryCacheKey === storageKey) return memoryCache;
+
+  memoryCacheKey = storageKey;
+  try {
+    const stored = await AsyncStorage.getItem(storageKey);
+    memoryCache = stored ? (JSON.parse(stored) as RecipeCache) : {};
+  } catch (error) {
+    console.error('Error loading recipe cache:', error);
+    memoryCache = {};
+  }
+  return memoryCache;
+}
+
+async function persistCache(cache: RecipeCache): Promise<void> {
+  try {
+    await AsyncStorage.setItem(getStorageKey(), JSON.stringify(cache));
+  } catch (error) {
+    // The memory cache still works for this session
+    console.error('Error saving recipe cache:', error);
+  }
+}
+
+/**
+ * Normalizes a value so equivalent inputs serialize identically:
+ * strings are trimmed and lowercased, string lists sorted and deduplicated,
+ * object keys sorted and undefined fields dropped
+ */
+function canonicalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase();
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize);
+    return items.every(item => typeof item === 'string')
+      ? Array.from(new Set(items as string[])).filter(Boolean).sort()
+      : items;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const field = (value as Record<string, unknown>)[key];
+        if (field !== undefined) {
+          result[key] = canonicalize(field);
+        }
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+// 32-bit FNV-1a, plenty for a few dozen cache keys
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Builds the cache key for a generation request. Ingredient order, case
+ * and duplicates don't matter, and neither does the order of preferences.
+ */
+export function getRecipeCacheKey(ingredients: string[], preferences: Record<string, unknown>): string {
+  return hashString(JSON.stringify(canonicalize({ ingredients, preferences })));
+}
+
+/**
+ * Returns the cached recipes for a key, or null when missing or expired
+ */
+export async function getCachedRecipes(key: string): Promise<Recipe[] | null> {
+  const cache = await loadCache();
+  const entry = cache[key];
+  if (!entry) return null;
+
+  if (Date.now() - entry.createdAt > CACHE_TTL) {
+    delete cache[key];
+    await persistCache(cache);
+    return null;
+  }
+
+  // Entries may predate the current recipe model
+  return entry.recipes.map(recipe => upgradeRecipe(recipe) ?? recipe);
+}
+
+export async function setCachedRecipes(key: string, recipes: Recipe[]): Promise<void> {
+  const cache = await loadCache();
+  cache[key] = { recipes, createdAt: Date.now() };
+
+  // Evict the oldest entries beyond the size limit
+  const keys = Object.keys(cache).sort((a, b) => cache[b].createdAt - cache[a].createdAt);
+  keys.slice(MAX_CACHE_ENTRIES).forEach(oldKey => {
+    delete cache[oldKey];
+  });
+
+  await persistCache(cache);
+}
+
+/**
+ * Forgets the current user's cached recipes on this device, e.g. on sign-out
+ */
+export async function clearRecipeCache(): Promise<void> {
+  memoryCache = null;
+  memoryCacheKey = null;
+  try {
+    await AsyncStorage.multiRemove([getStorageKey(), LEGACY_CACHE_STORAGE_KEY]);
+  } catch (error) {
+    console.error('Error clearing recipe cache:', error);
+  }
+}
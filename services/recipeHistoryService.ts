@@ -0,0 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { Recipe } from '@/types/recipe';
+import { isFeatureEnabled } from '@/services/featureFlagService';
+import { RecipeFingerprint, getRecipeFingerprint } from '@/utils/recipeSimilarity';
+
+const RECIPE_HISTORY_COLLECTION = 'recipeHistory';
+const HISTORY_STORAGE_KEY_PREFIX = 'recipeHistory:';
+
+// Feature flag that enables the Firestore copy of the history
+const HISTORY_SYNC_FLAG = 'recipe_history_sync';
+
+// Only the most recent suggestions are worth excluding
+const MAX_HISTORY_ENTRIES = 30;
+
+export interface RecipeHistoryEntry extends RecipeFingerprint {
+  generatedAt: number;
+}
+
+function getStorageKey(): string {
+  return `${HISTORY_STORAGE_KEY_PREFIX}${auth.currentUser?.uid || 'anonymous'}`;
+}
+
+/**
+ * Gets the current user's recently generated recipes, newest first.
+ * Falls back to the Firestore copy when nothing is stored on this device.
+ */
+export async function getRecipeHistory(): Promise<RecipeHistoryEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey());
+    if (stored) {
+      return JSON.parse(stored) as RecipeHistoryEntry[];
+    }
+
+    const user = auth.currentUser;
+    if (user && await isFeatureEnabled(HISTORY_SYNC_FLAG)) {
+      const docSnap = await getDoc(doc(db, RECIPE_HISTORY_COLLECTION, user.uid));
+      if (docSnap.exists()) {
+        const entries = (docSnap.data().entries || []) as RecipeHistoryEntry[];
+        await AsyncStorage.setItem(getStorageKey(), JSON.stringify(entries));
+        return entries;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading recipe history:', error);
+  }
+
+  return [];
+}
+
+/**
+ * Records newly generated recipes in the local history, and in Firestore
+ * when the recipe_history_sync flag is enabled
+ */
+export async function addToRecipeHistory(recipes: Recipe[]): Promise<void> {
+  if (recipes.length === 0) return;
+
+  try {
+    const history = await getRecipeHistory();
+    const now = Date.now();
+    const newEntries = recipes.map(recipe => ({ ...getRecipeFingerprint(recipe), generatedAt: now }));
+    const entries = [...newEntries, ...history].slice(0, MAX_HISTORY_ENTRIES);
+
+    await AsyncStorage.setItem(getStorageKey(), JSON.stringify(entries));
+
+    const user = auth.currentUser;
+    if (user && await isFeatureEnabled(HISTORY_SYNC_FLAG)) {
+      await setDoc(doc(db, RECIPE_HISTORY_COLLECTION, user.uid), {
+        entries,
+        updatedAt: serverTimestamp(),
+      });
+    }
+  } catch (error) {
+    // History is best-effort; generation results are still returned
+    console.error('Error saving recipe history:', error);
+  }
+}
+
+/**
+ * Forgets the current user's generation history on this device
+ */
+export async function clearRecipeHistory(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(getStorageKey());
+  } catch (error) {
+    console.error('Error clearing recipe history:', error);
+  }
+}
@@ -1,27 +1,472 @@
-import { groq } from '@/config/groq';
-import { Recipe } from '@/types/recipe';
+import { Recipe, MealType, NutritionTargets } from '@/types/recipe';
 import { DietaryPreferences } from '@/types/dietary';
 import { logEvent, RecipeEvents } from '@/config/firebase';
 import { 
   trackRecipeGenerationComplete, 
   trackError,
-  trackPerformanceMetric 
+  trackPerformanceMetric,
+  trackRecipeCacheResult,
+  trackPromptResult,
+  trackLLMUsage,
+  trackQuotaExhausted
 } from '@/services/analyticsService';
+import {
+  RecipeOutputMode,
+  extractJsonRecipes,
+  splitTextRecipes,
+  parseTextRecipe,
+  createRecipeStreamParser
+} from '@/utils/recipeParser';
+import { validateRecipe, isRecord } from '@/utils/recipeSchema';
+import { runLLMCompletion, runLLMStream, LLMCallOptions, LLMUsage } from '@/services/llmProvider';
+import { LLMErrorKind, LLM_ERROR_MESSAGES, classifyLLMError } from '@/services/llmErrors';
+import { getRecipeHistory, addToRecipeHistory } from '@/services/recipeHistoryService';
+import { getRecipeCacheKey, getCachedRecipes, setCachedRecipes } from '@/services/recipeCacheService';
+import { getRecipeFingerprint, findSimilarRecipe } from '@/utils/recipeSimilarity';
+import { applyCompliance, describeViolation } from '@/utils/dietaryCompliance';
+import { RecipeDiff, diffRecipes } from '@/utils/recipeDiff';
+import { getActivePrompt } from '@/services/promptRegistry';
+import {
+  RecipePromptInput,
+  GenerationPromptInput,
+  buildRecipePrompt,
+  buildRefinePrompt,
+  createRefinePromptInput
+} from '@/utils/recipePrompts';
+import { addUsage, estimateLLMCost } from '@/utils/llmCost';
+import { QuotaStatus, readQuotaStatus, describeQuotaExhausted } from '@/services/quotaService';
+import { getExtraIngredientsTotal, isWithinBudget, formatBudget } from '@/utils/recipeBudget';
+import { normalizeAvailableIngredients, getMissingExtras, getPantryCoverage } from '@/utils/pantryCoverage';
+import { applyComputedNutrition, describeNutritionDiscrepancy } from '@/utils/nutritionCalculator';
+import { GenerationPantry, getPantryItemsWithModes, splitPantryForGeneration } from '@/services/pantryservice';
+import {
+  countNutritionTargets,
+  checkNutritionTargets,
+  describeNutritionMiss
+} from '@/utils/nutritionTargets';
 
-import { db, auth } from '@/config/firebase';
-import { doc, getDoc } from 'firebase/firestore';
+import {
+  MIN_RECIPE_COUNT,
+  MAX_RECIPE_COUNT,
+  DEFAULT_RECIPE_COUNT,
+  DEFAULT_BASIC_COUNT,
+  DEFAULT_PANTRY_STAPLES,
+  DEFAULT_MAX_PANTRY_EXTRAS,
+  MAX_PANTRY_EXTRAS
+} from '@/constants/RecipeOptions';
 
-interface GenerateRecipesResponse {
+import { auth } from '@/config/firebase';
+
+export interface GenerateRecipesOptions {
+  // 'json' asks the model for a recipes array; 'text' uses the legacy NAME:/--- format
+  outputMode?: RecipeOutputMode;
+  // Steer away from, and drop near-duplicates of, recently generated recipes (default true)
+  excludePreviousRecipes?: boolean;
+  // Number of recipes to generate, between MIN_RECIPE_COUNT and MAX_RECIPE_COUNT (default 3)
+  recipeCount?: number;
+  // How many of those are kept basic; the rest are creative (default 1)
+  basicCount?: number;
+  mealType?: MealType;
+  // Cuisine style such as "Italian"; free text
+  cuisine?: string;
+  // Most to spend on extra ingredients per recipe, in USD. Asked for in the
+  // prompt, and recipes whose extra ingredients cost more are dropped and replaced
+  maxExtraCost?: number;
+  // Per-serving ranges for nutritionInfo fields, e.g. { protein: { min: 40 }, calories: { max: 600 } }.
+  // Asked for in the prompt; recipes well outside them are dropped and replaced,
+  // and the rest get a nutritionFit score
+  nutritionTargets?: NutritionTargets;
+  // Cook only with the typed ingredients, pantry items and staples; recipes
+  // needing more than maxExtraIngredients other ingredients are dropped and replaced
+  pantryOnly?: boolean;
+  // Other ingredients a pantry-only recipe may add, 0 to MAX_PANTRY_EXTRAS (default 0)
+  maxExtraIngredients?: number;
+  // Basics assumed on hand, such as salt and oil (default DEFAULT_PANTRY_STAPLES)
+  staples?: string[];
+  // Pantry items to build this generation around, on top of the 'always' ones;
+  // other pantry items are only offered in the background
+  featuredPantryItems?: string[];
+  // Skip the result cache and always ask the LLM (the new results are still cached)
+  fresh?: boolean;
+  // Per-attempt LLM timeout and retries on transient errors (see llmProvider defaults)
+  timeoutMs?: number;
+  maxRetries?: number;
+  // What to do with recipes that break the user's allergies or restrictions:
+  // 'drop' (default) removes them unless every problem ingredient has a listed substitute,
+  // 'flag' keeps them with the compliance report attached
+  complianceMode?: 'flag' | 'drop';
+}
+
+// Per-recipe outcome of schema validation
+export interface RecipeDiagnostic {
+  index: number;
+  recipeName?: string;
+  status: 'repaired' | 'rejected';
+  reasons: string[];
+}
+
+export interface GenerateRecipesResponse {
   recipes: Recipe[] | null;
   error: string | null;
+  diagnostics?: RecipeDiagnostic[];
+  // True when the recipes came from the result cache instead of the LLM
+  fromCache?: boolean;
+  // Set with error: what went wrong and what the user can do about it
+  errorKind?: LLMErrorKind;
+  retryHint?: string;
+  // True when generation failed part way and recipes holds what arrived before the failure
+  partial?: boolean;
+  // The user's generation quota as the proxy last reported it; null when it
+  // reported none (signed out, or a provider without quotas), left out when
+  // served from the cache
+  quota?: QuotaStatus | null;
+}
+
+export interface RefineRecipeOptions {
+  outputMode?: RecipeOutputMode;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface RefineRecipeResponse {
+  recipe: Recipe | null;
+  // What the refinement changed, relative to the recipe passed in
+  diff: RecipeDiff | null;
+  error: string | null;
+  errorKind?: LLMErrorKind;
+  retryHint?: string;
+  diagnostics?: RecipeDiagnostic[];
+}
+
+/**
+ * Builds the error fields of a response for a failure of the given kind
+ */
+function describeFailure(kind: LLMErrorKind, retryAfterMs?: number) {
+  const { message, retryHint } = LLM_ERROR_MESSAGES[kind];
+  return {
+    error: message,
+    errorKind: kind,
+    retryHint: retryAfterMs !== undefined
+      ? `Try again in about ${Math.max(1, Math.ceil(retryAfterMs / 1000))} seconds.`
+      : retryHint
+  };
+}
+
+// Extra LLM calls allowed to replace recipes dropped as near-duplicates
+const MAX_REPLACEMENT_ROUNDS = 1;
+
+// Most recent recipes listed in the prompt as exclusions
+const MAX_PROMPT_EXCLUSIONS = 15;
+
+/**
+ * Validates one raw recipe from the LLM, recording a diagnostic when it
+ * had to be repaired or was rejected
+ */
+function validateParsedRecipe(
+  rawRecipe: unknown,
+  index: number,
+  diagnostics: RecipeDiagnostic[]
+): Recipe | null {
+  const result = validateRecipe(rawRecipe);
+  const recipeName = isRecord(rawRecipe) && typeof rawRecipe.name === 'string' && rawRecipe.name ? rawRecipe.name : undefined;
+
+  if (!result.valid) {
+    console.warn(`Rejected recipe ${index + 1}:`, result.errors);
+    diagnostics.push({ index, recipeName, status: 'rejected', reasons: result.errors });
+    return null;
+  }
+
+  if (result.repairs.length > 0) {
+    diagnostics.push({ index, recipeName, status: 'repaired', reasons: result.repairs });
+  }
+
+  return result.recipe;
+}
+
+/**
+ * Splits an LLM completion into raw recipes, passing each one to onRawRecipe.
+ * Returns an error message when the completion could not be read at all.
+ */
+function parseRecipeContent(
+  content: string,
+  outputMode: RecipeOutputMode,
+  onRawRecipe: (rawRecipe: unknown) => void
+): string | null {
+  if (outputMode === 'json') {
+    const extracted = extractJsonRecipes(content);
+    extracted.items.forEach(onRawRecipe);
+    return extracted.error;
+  }
+
+  splitTextRecipes(content).map(parseTextRecipe).forEach(onRawRecipe);
+  return null;
+}
+
+interface RecipeBatch {
+  content: string | null;
+  error: string | null;
+  // Number of raw recipes found in the completion, valid or not
+  parsedCount: number;
+  // Number of those that passed validation
+  validCount: number;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  // Raw quota status from the proxy, see readQuotaStatus
+  quota?: unknown;
+}
+
+/**
+ * Id sent with every LLM call of one generation or refinement, so the
+ * proxy counts it against the quota once however many calls it takes
+ */
+function createGenerationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+// Token usage of the LLM calls behind one generation or refinement
+interface UsageTally {
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  calls: number;
+}
+
+function addBatchUsage(tally: UsageTally, batch: RecipeBatch) {
+  tally.provider = batch.provider;
+  tally.model = batch.model;
+  tally.usage = addUsage(tally.usage, batch.usage);
+  tally.calls++;
+}
+
+/**
+ * Records tokens and estimated cost, once per generation or refinement that
+ * reached the LLM, including ones that failed after the call
+ */
+function reportUsage(purpose: 'generate' | 'refine', tally: UsageTally, recipesCount: number, promptVersion?: string) {
+  if (tally.calls === 0) return;
+
+  trackLLMUsage(purpose, {
+    provider: tally.provider,
+    model: tally.model,
+    promptTokens: tally.usage.promptTokens,
+    completionTokens: tally.usage.completionTokens,
+    estimatedCostUsd: estimateLLMCost(tally.model, tally.usage),
+    recipesCount,
+    ...(promptVersion ? { promptVersion } : {})
+  });
+}
+
+/**
+ * Requests one batch of recipes from the LLM and validates them one at a time,
+ * so a single malformed recipe doesn't take down the whole batch. When streamed,
+ * each recipe is validated as soon as its block or JSON object is complete.
+ */
+async function requestRecipeBatch(
+  prompt: string,
+  promptInput: RecipePromptInput,
+  generationId: string,
+  outputMode: RecipeOutputMode,
+  streamed: boolean,
+  indexOffset: number,
+  diagnostics: RecipeDiagnostic[],
+  callOptions: LLMCallOptions,
+  onValidRecipe: (recipe: Recipe, index: number) => void
+): Promise<RecipeBatch> {
+  let index = indexOffset;
+  let validCount = 0;
+  const handleRawRecipe = (rawRecipe: unknown) => {
+    const recipeIndex = index++;
+    const recipe = validateParsedRecipe(rawRecipe, recipeIndex, diagnostics);
+    if (recipe) {
+      validCount++;
+      onValidRecipe(recipe, recipeIndex);
+    }
+  };
+
+  if (!streamed) {
+    const { content, recipes, ...call } = await runLLMCompletion({
+      prompt,
+      promptInput,
+      responseFormat: outputMode,
+      generationId
+    }, callOptions);
+    let error: string | null = null;
+    if (recipes) {
+      // Already parsed by the generation proxy
+      recipes.forEach(handleRawRecipe);
+    } else if (content) {
+      error = parseRecipeContent(content, outputMode, handleRawRecipe);
+    }
+    return { content, error, parsedCount: index - indexOffset, validCount, ...call };
+  }
+
+  const parser = createRecipeStreamParser(outputMode, handleRawRecipe);
+  const { content, recipes, ...call } = await runLLMStream(
+    { prompt, promptInput, responseFormat: outputMode, generationId },
+    delta => parser.push(delta),
+    callOptions,
+    handleRawRecipe
+  );
+  parser.end();
+
+  // Fall back to the proxy's parsed recipes, or to parsing the full
+  // completion, if nothing could be parsed incrementally
+  if (index === indexOffset && recipes) {
+    recipes.forEach(handleRawRecipe);
+  } else if (index === indexOffset && content) {
+    const error = parseRecipeContent(content, outputMode, handleRawRecipe);
+    return { content, error, parsedCount: index - indexOffset, validCount, ...call };
+  }
+
+  return { content, error: null, parsedCount: index - indexOffset, validCount, ...call };
 }
 
 export async function generateRecipeSuggestions(
   ingredients: string,
-  dietaryPreferences: DietaryPreferences
+  dietaryPreferences: DietaryPreferences,
+  options: GenerateRecipesOptions = {}
+): Promise<GenerateRecipesResponse> {
+  return runRecipeGeneration(ingredients, dietaryPreferences, options);
+}
+
+/**
+ * Streaming variant of generateRecipeSuggestions. onRecipe receives each
+ * validated recipe as soon as it has fully arrived, so the list can fill in
+ * incrementally; the returned response still holds the complete batch.
+ */
+export async function streamRecipeSuggestions(
+  ingredients: string,
+  dietaryPreferences: DietaryPreferences,
+  onRecipe: (recipe: Recipe) => void,
+  options: GenerateRecipesOptions = {}
+): Promise<GenerateRecipesResponse> {
+  return runRecipeGeneration(ingredients, dietaryPreferences, options, onRecipe);
+}
+
+/**
+ * Revises a single recipe from a request like "make it spicier" or
+ * "cut to 20 minutes". Returns the revised recipe, checked against the same
+ * allergies and restrictions as the original, and a diff of what changed.
+ */
+export async function refineRecipe(
+  recipe: Recipe,
+  instruction: string,
+  options: RefineRecipeOptions = {}
+): Promise<RefineRecipeResponse> {
+  const { outputMode = 'json' } = options;
+  const request = instruction.trim();
+  if (!request) {
+    return { recipe: null, diff: null, error: 'Describe how you want to change the recipe.' };
+  }
+
+  const startTime = performance.now();
+  const diagnostics: RecipeDiagnostic[] = [];
+  const tally: UsageTally = { provider: '', model: '', usage: { promptTokens: 0, completionTokens: 0 }, calls: 0 };
+  let refinedCount = 0;
+
+  try {
+    await logEvent(RecipeEvents.REFINE_RECIPE, {
+      recipeName: recipe.name,
+      instruction: request,
+      outputMode
+    });
+
+    const candidates: Recipe[] = [];
+    const promptInput = createRefinePromptInput(recipe, request);
+    const batch = await requestRecipeBatch(
+      buildRefinePrompt(promptInput, outputMode),
+      promptInput,
+      createGenerationId(),
+      outputMode,
+      false,
+      0,
+      diagnostics,
+      { timeoutMs: options.timeoutMs, maxRetries: options.maxRetries },
+      candidate => candidates.push(candidate)
+    );
+    addBatchUsage(tally, batch);
+
+    // The model is asked for one recipe; ignore any extras
+    const refined = candidates[0];
+    if (!refined) {
+      await logEvent(RecipeEvents.RECIPE_ERROR, {
+        error: batch.error || 'No valid recipe in refinement response',
+        stage: 'refine'
+      });
+      trackError('recipe_refinement', batch.error || 'No valid recipe in refinement response', { error_kind: 'content' });
+      return { recipe: null, diff: null, ...describeFailure('content'), diagnostics };
+    }
+
+    const previous = recipe.compliance;
+    const revised = applyCompliance(applyComputedNutrition({
+      // Keep the original's labels when the model drops them
+      ...(recipe.mealType ? { mealType: recipe.mealType } : {}),
+      ...(recipe.cuisine ? { cuisine: recipe.cuisine } : {}),
+      ...refined,
+      ...(recipe.id ? { id: recipe.id } : {}),
+    }), {
+      restrictions: [...(previous?.checkedRestrictions || []), ...(previous?.unverified || [])] as DietaryPreferences['restrictions'],
+      allergies: (previous?.checkedAllergies || []) as DietaryPreferences['allergies'],
+    });
+    const diff = diffRecipes(recipe, revised);
+    refinedCount = 1;
+
+    trackPerformanceMetric('recipe_refine_time', performance.now() - startTime);
+    return { recipe: revised, diff, error: null, diagnostics };
+  } catch (error: any) {
+    console.error('Error refining recipe:', error);
+    const errorInfo = classifyLLMError(error);
+    await logEvent(RecipeEvents.RECIPE_ERROR, {
+      error: error.message || 'Unknown error',
+      stage: 'refine',
+      errorKind: errorInfo.kind,
+      status: errorInfo.status ?? null
+    });
+    trackError('recipe_refinement', error.message || 'Unknown error', { error_kind: errorInfo.kind });
+
+    return { recipe: null, diff: null, ...describeFailure(errorInfo.kind, errorInfo.retryAfterMs), diagnostics };
+  } finally {
+    reportUsage('refine', tally, refinedCount);
+  }
+}
+
+async function runRecipeGeneration(
+  ingredients: string,
+  dietaryPreferences: DietaryPreferences,
+  options: GenerateRecipesOptions,
+  onRecipe?: (recipe: Recipe) => void
 ): Promise<GenerateRecipesResponse> {
+  const { outputMode = 'json', excludePreviousRecipes = true, mealType, fresh = false, complianceMode = 'drop' } = options;
+  const cuisine = options.cuisine?.trim() || undefined;
+  // A budget that isn't a positive amount means no budget
+  const maxExtraCost = options.maxExtraCost !== undefined && options.maxExtraCost > 0
+    ? Math.round(options.maxExtraCost * 100) / 100
+    : undefined;
+  const nutritionTargets = countNutritionTargets(options.nutritionTargets) > 0 ? options.nutritionTargets : undefined;
+  const pantryOnly = !!options.pantryOnly;
+  const staples = (options.staples ?? DEFAULT_PANTRY_STAPLES).map(staple => staple.trim()).filter(Boolean);
+  const maxExtraIngredients = Math.min(
+    Math.max(Math.round(options.maxExtraIngredients ?? DEFAULT_MAX_PANTRY_EXTRAS), 0),
+    MAX_PANTRY_EXTRAS
+  );
+  const recipeCount = Math.min(
+    Math.max(Math.round(options.recipeCount ?? DEFAULT_RECIPE_COUNT), MIN_RECIPE_COUNT),
+    MAX_RECIPE_COUNT
+  );
+  const initialBasicCount = Math.min(Math.max(Math.round(options.basicCount ?? DEFAULT_BASIC_COUNT), 0), recipeCount);
+
+  const callOptions: LLMCallOptions = { timeoutMs: options.timeoutMs, maxRetries: options.maxRetries };
+
   // Record the start time for performance tracking
   const startTime = performance.now();
+
+  // Declared outside the try so a late failure can still return what already arrived
+  const recipes: Recipe[] = [];
+  const diagnostics: RecipeDiagnostic[] = [];
+  const tally: UsageTally = { provider: '', model: '', usage: { promptTokens: 0, completionTokens: 0 }, calls: 0 };
+  let promptVersion: string | undefined;
+  let quota: QuotaStatus | null = null;
   
   try {
     // Get the current user
@@ -30,252 +475,357 @@ export async function generateRecipeSuggestions(
       console.log('No authenticated user found when generating recipes');
     }
     
-    let pantryItems: string[] = [];
-    
-    // Only fetch pantry items if a user is logged in
+    // Only fetch pantry items if a user is logged in; excluded items are left out
+    let pantry: GenerationPantry = { featured: [], background: [] };
     if (user) {
-      const PANTRY_COLLECTION = 'pantryItems';
-      const docRef = doc(db, PANTRY_COLLECTION, user.uid);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        pantryItems = (data.items || []) as string[];
-      }
+      pantry = splitPantryForGeneration(await getPantryItemsWithModes(), options.featuredPantryItems);
     }
 
-    // 🔹 Append pantry items if available
-    const allIngredients = pantryItems.length > 0
-      ? `${ingredients}, ${pantryItems.join(', ')}`
+    // 🔹 Featured pantry items are built around like the typed ingredients;
+    // the rest of the pantry is only there to draw on
+    const featuredIngredients = pantry.featured.length > 0
+      ? `${ingredients}, ${pantry.featured.join(', ')}`
       : ingredients;
+    const allIngredients = pantry.background.length > 0
+      ? `${featuredIngredients}, ${pantry.background.join(', ')}`
+      : featuredIngredients;
+
+    // 🔹 Template version for this user, recorded so versions can be compared
+    const activePrompt = await getActivePrompt('recipe_generation');
+    promptVersion = activePrompt.version;
 
     // 🔹 Log start of recipe generation
     await logEvent(RecipeEvents.GENERATE_RECIPE, {
       ingredientCount: allIngredients.split(',').length,
       dietaryRestrictions: dietaryPreferences.restrictions,
       allergies: dietaryPreferences.allergies,
-      dietPlan: dietaryPreferences.preferences
+      dietPlan: dietaryPreferences.preferences,
+      recipeCount,
+      basicCount: initialBasicCount,
+      mealType: mealType || null,
+      cuisine: cuisine || null,
+      maxExtraCost: maxExtraCost ?? null,
+      nutritionTargetCount: countNutritionTargets(nutritionTargets),
+      pantryOnly,
+      promptVersion: activePrompt.version
     });
 
-    const dietaryInfo = `
-Dietary Restrictions: ${dietaryPreferences.restrictions.join(', ') || 'None'}
-Allergies: ${dietaryPreferences.allergies.join(', ') || 'None'}
-Diet Plan: ${dietaryPreferences.preferences || 'None'}`;
-
-    const prompt = `Given these ingredients: ${allIngredients}
-
-${dietaryInfo}
-
-Please suggest 3 different dishes I could make that respect these dietary requirements. 
-Create 2 completely unique and innovative dishes that incorporate these ingredients in unexpected ways and keep 1 as somewhat basic.
-When regenerating, all recipes should be unique, meaning the dish should not be similar in any way to the previous recipes.
-Don't just make the given ingredients as stars of the dish - find creative supporting roles for them and add plenty of extra ingredients for a complex dish.
-For each dish, provide the information in this exact format:
-
-NAME: [Creative dish name]
-DIFFICULTY: [Beginner/Intermediate/Advanced]
-TIME: [Estimated minutes to prepare and cook]
-COST: [Total cost of extra ingredients needed in USD]
-DIETARY_INFO: [List of dietary restrictions and allergens this recipe is compatible with]
-NUTRITION_INFO: [Nutritional breakdown in the following format:]
-* Calories: [total calories per serving]
-* Protein: [grams of protein per serving]
-* Fat: [grams of fat per serving]
-* Carbs: [grams of carbohydrates per serving]
-* Fiber: [grams of fiber per serving]
-* Sugar: [grams of sugar per serving]
-* Sodium: [milligrams of sodium per serving]
-* Servings: [number of servings this recipe makes]
-CURRENT_INGREDIENTS: [List ingredients from user's input that will be used, one per line with * bullet points. For each ingredient that has a common substitution, include it in parentheses after the ingredient like: "* chicken (or tofu for vegetarian)"]
-EXTRA_INGREDIENTS: [List additional ingredients needed with their estimated costs and amounts, one per line with * bullet points, format: "* item ($X.XX for amount) (or substitute for dietary needs)"]
-INSTRUCTIONS: [Numbered steps of cooking steps with DETAILED directions, including time per step, warnings (e.g., 'hot oil'), and utensils needed (e.g., 'whisk').]
-
-For each recipe, include at least one suggested substitution either in the CURRENT_INGREDIENTS or EXTRA_INGREDIENTS sections.
-For each step in the cooking instructions, add a "(Time: x minutes)" at the end of the step. Each step needs to be as descriptive as possible so a beginner can understand. 
-
-Keep the format consistent and make sure to include all sections for each recipe. Separate recipes with ---`;
-
-    // Track API call start time
-    const apiStartTime = performance.now();
-    
-    const response = await groq.chat.completions.create({
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      model: "llama-3.3-70b-versatile",
-      temperature: 0.7,
-      max_tokens: 1500,
-    });
-    
-    // Calculate and track API latency
-    const apiEndTime = performance.now();
-    trackPerformanceMetric('llm_api_latency', apiEndTime - apiStartTime);
-
-    // Log the LLM response
-    await logEvent(RecipeEvents.LLM_RESPONSE, {
-      success: true,
-      responseLength: response.choices[0]?.message?.content?.length || 0,
-      model: "llama-3.3-70b-versatile",
-      latency_ms: Math.round(apiEndTime - apiStartTime)
+    // 🔹 Serve identical requests from the cache unless fresh results were asked for
+    const cacheKey = getRecipeCacheKey(allIngredients.split(','), {
+      dietaryPreferences,
+      recipeCount,
+      basicCount: initialBasicCount,
+      mealType,
+      cuisine,
+      maxExtraCost,
+      nutritionTargets,
+      backgroundItems: pantry.background,
+      ...(pantryOnly ? { pantryOnly, staples, maxExtraIngredients } : {}),
+      complianceMode,
+      promptVersion: activePrompt.version
     });
-
-    const content = response.choices[0]?.message?.content;
-    
-    if (!content) {
-      await logEvent(RecipeEvents.RECIPE_ERROR, {
-        error: 'No content in LLM response',
-        stage: 'content_check'
-      });
-      trackError('recipe_generation', 'No content in LLM response');
-      return { recipes: null, error: 'Failed to generate suggestions. Please try again.' };
+    if (!fresh) {
+      const cachedRecipes = await getCachedRecipes(cacheKey);
+      trackRecipeCacheResult(!!cachedRecipes);
+      if (cachedRecipes) {
+        console.log(`Serving ${cachedRecipes.length} recipes from cache`);
+        cachedRecipes.forEach(recipe => onRecipe?.(recipe));
+        return { recipes: cachedRecipes, error: null, fromCache: true };
+      }
     }
 
-    // Parse the response into Recipe objects
-    const recipeTexts = content.split('---').filter((text: string) => text.trim());
-    const recipes: Recipe[] = recipeTexts.map((recipeText: string) => {
-      const lines = recipeText.trim().split('\n');
-      const recipe: Partial<Recipe> = {
-        currentIngredients: [],
-        extraIngredients: [],
-        instructions: [],
-        dietaryInfo: {
-          restrictions: [],
-          allergens: []
-        },
-        nutritionInfo: {
-          calories: 0,
-          protein: 0,
-          fat: 0,
-          carbs: 0,
-          fiber: 0,
-          sugar: 0,
-          sodium: 0,
-          servings: 1
+    // 🔹 The proxy counts every call of this generation once; cache hits are free
+    const generationId = createGenerationId();
+
+    // 🔹 Recently suggested dishes to steer away from
+    const history = excludePreviousRecipes ? await getRecipeHistory() : [];
+
+    // What the user has: typed ingredients, pantry items and staples
+    const available = normalizeAvailableIngredients([...allIngredients.split(','), ...staples]);
+
+    // Recipes dropped in the current round, replaced in the next one
+    let droppedCount = 0;
+    let overBudgetCount = 0;
+    let missingIngredientsCount = 0;
+    let offTargetCount = 0;
+
+    // Drops near-duplicates of earlier suggestions, and recipes the user
+    // can't eat, before they reach the caller
+    const acceptRecipe = (parsed: Recipe, index: number) => {
+      // The model sometimes returns more recipes than asked for
+      if (recipes.length >= recipeCount) return;
+
+      // Check the model's nutrition numbers against the ingredients before anything relies on them
+      const generated = applyComputedNutrition(parsed);
+      const discrepancies = generated.nutritionEstimate?.discrepancies || [];
+      if (discrepancies.length > 0) {
+        diagnostics.push({
+          index,
+          recipeName: generated.name,
+          status: 'repaired',
+          reasons: discrepancies.map(describeNutritionDiscrepancy)
+        });
+      }
+
+      // The prompt asks for the budget, but the model doesn't always keep to it
+      if (maxExtraCost !== undefined && !isWithinBudget(generated, maxExtraCost)) {
+        droppedCount++;
+        overBudgetCount++;
+        diagnostics.push({
+          index,
+          recipeName: generated.name,
+          status: 'rejected',
+          reasons: [`Extra ingredients cost ${formatBudget(getExtraIngredientsTotal(generated))}, over the ${formatBudget(maxExtraCost)} budget`]
+        });
+        return;
+      }
+
+      if (pantryOnly) {
+        const missing = getMissingExtras(generated, available);
+        if (missing.length > maxExtraIngredients) {
+          droppedCount++;
+          missingIngredientsCount++;
+          diagnostics.push({
+            index,
+            recipeName: generated.name,
+            status: 'rejected',
+            reasons: [`Needs ${missing.length} ingredients you don't have (${missing.join(', ')}), more than the ${maxExtraIngredients} allowed`]
+          });
+          return;
         }
+      }
+
+      // Nutrition numbers are estimates, so only clear misses are dropped
+      const nutritionCheck = nutritionTargets ? checkNutritionTargets(generated, nutritionTargets) : null;
+      if (nutritionCheck && nutritionCheck.misses.length > 0) {
+        droppedCount++;
+        offTargetCount++;
+        diagnostics.push({
+          index,
+          recipeName: generated.name,
+          status: 'rejected',
+          reasons: nutritionCheck.misses.map(describeNutritionMiss)
+        });
+        return;
+      }
+
+      const recipe = applyCompliance(generated, dietaryPreferences);
+      const blocking = (recipe.compliance?.violations || []).filter(violation => !violation.hasSubstitute);
+      if (complianceMode === 'drop' && blocking.length > 0) {
+        droppedCount++;
+        diagnostics.push({
+          index,
+          recipeName: recipe.name,
+          status: 'rejected',
+          reasons: blocking.map(describeViolation)
+        });
+        return;
+      }
+
+      const similar = findSimilarRecipe(
+        getRecipeFingerprint(recipe),
+        [...history, ...recipes.map(getRecipeFingerprint)]
+      );
+      if (similar) {
+        droppedCount++;
+        diagnostics.push({
+          index,
+          recipeName: recipe.name,
+          status: 'rejected',
+          reasons: [`Too similar to previously suggested "${similar.name}"`]
+        });
+        return;
+      }
+
+      if (recipes.length === 0 && onRecipe) {
+        trackPerformanceMetric('llm_time_to_first_recipe', performance.now() - startTime);
+      }
+      // Label recipes with what was asked for, over the model's own guess
+      const labeled: Recipe = {
+        ...recipe,
+        ...(mealType ? { mealType } : {}),
+        ...(cuisine ? { cuisine } : {}),
+        pantryCoverage: getPantryCoverage(recipe, available),
+        ...(nutritionCheck ? { nutritionFit: nutritionCheck.score } : {}),
+        promptVersion: activePrompt.version
       };
+      recipes.push(labeled);
+      onRecipe?.(labeled);
+    };
 
-      let currentSection = '';
-      
-      lines.forEach((line: string) => {
-        line = line.trim();
-        if (!line) return;
-
-        if (line.startsWith('NAME:')) {
-          recipe.name = line.replace('NAME:', '').trim();
-        } else if (line.startsWith('DIFFICULTY:')) {
-          recipe.difficulty = line.replace('DIFFICULTY:', '').trim();
-        } else if (line.startsWith('TIME:')) {
-          recipe.timeEstimate = parseInt(line.replace('TIME:', '').replace('minutes', '').trim());
-        } else if (line.startsWith('COST:')) {
-          recipe.extraIngredientsCost = parseFloat(line.replace('COST:', '').replace('$', '').trim());
-        } else if (line.startsWith('DIETARY_INFO:')) {
-          currentSection = 'dietary';
-        } else if (line.startsWith('NUTRITION_INFO:')) {
-          currentSection = 'nutrition';
-        } else if (line.startsWith('CURRENT_INGREDIENTS:')) {
-          currentSection = 'current';
-        } else if (line.startsWith('EXTRA_INGREDIENTS:')) {
-          currentSection = 'extra';
-        } else if (line.startsWith('INSTRUCTIONS:')) {
-          currentSection = 'instructions';
-        } else if (line.startsWith('•') || line.startsWith('-') || line.startsWith('*')) {
-          const item = line.replace('•', '').replace('-', '').replace('*', '').trim();
-          if (currentSection === 'current') {
-            recipe.currentIngredients?.push(item);
-          } else if (currentSection === 'extra') {
-            const match = item.match(/(.*?)\s*\((\$[\d.]+)\s+for\s+(.*?)\)/);
-            if (match) {
-              recipe.extraIngredients?.push({
-                item: match[1].trim(),
-                cost: parseFloat(match[2].replace('$', '')),
-                amount: match[3].trim()
-              });
-            } else {
-              // Handle case where the format doesn't match exactly
-              recipe.extraIngredients?.push({
-                item: item,
-                cost: 0,
-                amount: 'unknown'
-              });
-            }
-          } else if (currentSection === 'dietary') {
-            // Parse dietary info into restrictions and allergens
-            const dietaryItem = item.toLowerCase();
-            if (dietaryItem.includes('free') || dietaryItem.includes('vegetarian') || dietaryItem.includes('vegan')) {
-              recipe.dietaryInfo?.restrictions.push(dietaryItem);
-            } else {
-              recipe.dietaryInfo?.allergens.push(dietaryItem);
-            }
-          } else if (currentSection === 'nutrition') {
-            // Parse nutrition info
-            if (item.startsWith('Calories:')) {
-              recipe.nutritionInfo!.calories = parseInt(item.replace('Calories:', '').trim());
-            } else if (item.startsWith('Protein:')) {
-              recipe.nutritionInfo!.protein = parseInt(item.replace('Protein:', '').replace('g', '').trim());
-            } else if (item.startsWith('Fat:')) {
-              recipe.nutritionInfo!.fat = parseInt(item.replace('Fat:', '').replace('g', '').trim());
-            } else if (item.startsWith('Carbs:')) {
-              recipe.nutritionInfo!.carbs = parseInt(item.replace('Carbs:', '').replace('g', '').trim());
-            } else if (item.startsWith('Fiber:')) {
-              recipe.nutritionInfo!.fiber = parseInt(item.replace('Fiber:', '').replace('g', '').trim());
-            } else if (item.startsWith('Sugar:')) {
-              recipe.nutritionInfo!.sugar = parseInt(item.replace('Sugar:', '').replace('g', '').trim());
-            } else if (item.startsWith('Sodium:')) {
-              recipe.nutritionInfo!.sodium = parseInt(item.replace('Sodium:', '').replace('mg', '').trim());
-            } else if (item.startsWith('Servings:')) {
-              recipe.nutritionInfo!.servings = parseInt(item.replace('Servings:', '').trim());
-            }
-          }
-        } else if (line.match(/^\d+\./)) {
-          if (currentSection === 'instructions') {
-            recipe.instructions?.push(line.replace(/^\d+\.\s*/, ''));
-          }
-        } else if (currentSection === 'instructions' && line.trim()) {
-          // Capture any non-empty line in the instructions section that might not start with a number
-          recipe.instructions?.push(line.trim());
-        }
-      });
+    let parseError: string | null = null;
+    let requestCount = recipeCount;
+    let basicCount = initialBasicCount;
+    let indexOffset = 0;
+    let validCount = 0;
 
-      // Debug log to check recipe structure
-      console.log('Parsed recipe:', JSON.stringify({
-        name: recipe.name,
-        instructionsCount: recipe.instructions?.length || 0,
-        currentIngredientsCount: recipe.currentIngredients?.length || 0,
-        extraIngredientsCount: recipe.extraIngredients?.length || 0,
-        dietaryInfo: recipe.dietaryInfo
-      }));
+    // First batch, then replacement rounds for any recipes that were dropped
+    for (let round = 0; round <= MAX_REPLACEMENT_ROUNDS && requestCount > 0; round++) {
+      if (round > 0) {
+        console.log(`Requesting ${requestCount} replacement recipes for dropped ones`);
+      }
+      droppedCount = 0;
 
-      return recipe as Recipe; // Type assertion since we've built all required fields
-    });
+      const promptInput: GenerationPromptInput = {
+        kind: 'generate',
+        promptVersion: activePrompt.version,
+        ingredients: featuredIngredients.split(',').map(ingredient => ingredient.trim()).filter(Boolean),
+        backgroundItems: pantry.background,
+        dietaryPreferences,
+        recipeCount: requestCount,
+        basicCount,
+        mealType,
+        cuisine,
+        maxExtraCost,
+        nutritionTargets,
+        pantryOnly: pantryOnly ? { staples, maxExtraIngredients } : undefined,
+        excludedRecipes: [...recipes.map(getRecipeFingerprint), ...history].slice(0, MAX_PROMPT_EXCLUSIONS)
+      };
+
+      const batch = await requestRecipeBatch(
+        buildRecipePrompt(activePrompt.template, promptInput, outputMode),
+        promptInput,
+        generationId,
+        outputMode,
+        !!onRecipe,
+        indexOffset,
+        diagnostics,
+        callOptions,
+        acceptRecipe
+      );
+      addBatchUsage(tally, batch);
+      quota = readQuotaStatus(batch.quota) || quota;
     
+      // The proxy sends parsed recipes without the completion text
+      if (!batch.content && batch.parsedCount === 0) {
+        if (round > 0) break;
+
+        trackPromptResult(activePrompt.name, activePrompt.version, { parsedCount: 0, validCount: 0, recipesCount: 0 });
+        await logEvent(RecipeEvents.RECIPE_ERROR, {
+          error: 'No content in LLM response',
+          stage: 'content_check'
+        });
+        trackError('recipe_generation', 'No content in LLM response', { error_kind: 'content' });
+        return { recipes: null, ...describeFailure('content'), quota };
+      }
+
+      parseError = parseError || batch.error;
+      indexOffset += batch.parsedCount;
+      validCount += batch.validCount;
+      requestCount = droppedCount > 0 ? recipeCount - recipes.length : 0;
+      // Replacements only need to be new, not a particular mix
+      basicCount = 0;
+    }
+
+    trackPromptResult(activePrompt.name, activePrompt.version, {
+      parsedCount: indexOffset,
+      validCount,
+      recipesCount: recipes.length
+    });
+
+    if (recipes.length === 0) {
+      await logEvent(RecipeEvents.RECIPE_ERROR, {
+        error: parseError || 'No valid recipes in LLM response',
+        stage: 'validation',
+        rejectedCount: diagnostics.filter(d => d.status === 'rejected').length
+      });
+      trackError('recipe_generation', parseError || 'No valid recipes in LLM response', { error_kind: 'content' });
+      if (maxExtraCost !== undefined && overBudgetCount > 0) {
+        return {
+          recipes: null,
+          error: `Couldn't find recipes within your ${formatBudget(maxExtraCost)} budget for extra ingredients.`,
+          errorKind: 'content',
+          retryHint: 'Try a higher budget or add more of the ingredients you have.',
+          diagnostics,
+          quota
+        };
+      }
+      if (nutritionTargets && offTargetCount > 0) {
+        return {
+          recipes: null,
+          error: "Couldn't find recipes that meet your nutrition targets.",
+          errorKind: 'content',
+          retryHint: 'Try loosening a target or adding ingredients that fit it.',
+          diagnostics,
+          quota
+        };
+      }
+      if (pantryOnly && missingIngredientsCount > 0) {
+        return {
+          recipes: null,
+          error: "Couldn't find recipes that only use what you have.",
+          errorKind: 'content',
+          retryHint: 'Add more ingredients, or allow a few extra ingredients per recipe.',
+          diagnostics,
+          quota
+        };
+      }
+      return { recipes: null, ...describeFailure('content'), diagnostics, quota };
+    }
+
+    await addToRecipeHistory(recipes);
+    await setCachedRecipes(cacheKey, recipes);
+
     // Calculate total generation time and track it
     const endTime = performance.now();
     const totalTimeMs = Math.round(endTime - startTime);
     
     // Track recipe generation completion
     trackRecipeGenerationComplete(
-      ingredients.split(',').length,
+      ingredients.split(',').map(ingredient => ingredient.trim()).filter(Boolean),
+      dietaryPreferences.restrictions,
       recipes.length,
-      totalTimeMs
+      totalTimeMs,
+      activePrompt.version
     );
     
     // Track overall performance
     trackPerformanceMetric('recipe_generation_total_time', totalTimeMs);
 
-    return { recipes, error: null };
+    return { recipes, error: null, diagnostics, quota };
   } catch (error: any) {
     // Log and track error
     console.error('Error generating recipe suggestions:', error);
+    const errorInfo = classifyLLMError(error);
     await logEvent(RecipeEvents.RECIPE_ERROR, {
       error: error.message || 'Unknown error',
-      stage: 'api_call'
+      stage: 'api_call',
+      errorKind: errorInfo.kind,
+      status: errorInfo.status ?? null,
+      recoveredCount: recipes.length
     });
     
-    trackError('recipe_generation', error.message || 'Unknown error', error.stack);
+    trackError('recipe_generation', error.message || 'Unknown error', { error_kind: errorInfo.kind });
+
+    // The proxy sends its quota status with errors too
+    quota = readQuotaStatus(error?.quota) || quota;
+    if (errorInfo.kind === 'quota' && quota?.exhaustedPeriod) {
+      trackQuotaExhausted(quota);
+      const { message, retryHint } = describeQuotaExhausted(quota);
+      return {
+        recipes: recipes.length > 0 ? recipes : null,
+        error: message,
+        errorKind: 'quota',
+        retryHint,
+        diagnostics,
+        ...(recipes.length > 0 ? { partial: true } : {}),
+        quota
+      };
+    }
+
+    // Keep whatever arrived before the failure, e.g. when a stream drops mid-way
+    if (recipes.length > 0) {
+      return {
+        recipes,
+        ...describeFailure(errorInfo.kind, errorInfo.retryAfterMs),
+        diagnostics,
+        partial: true,
+        quota
+      };
+    }
     
-    return { recipes: null, error: 'Failed to generate suggestions. Please try again.' };
+    return { recipes: null, ...describeFailure(errorInfo.kind, errorInfo.retryAfterMs), diagnostics, quota };
+  } finally {
+    reportUsage('generate', tally, recipes.length, promptVersion);
   }
-} 
\ No newline at end of file
+}
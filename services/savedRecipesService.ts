@@ -9,24 +9,83 @@ import {
   doc, 
   getDoc, 
   setDoc, 
-  serverTimestamp
+  updateDoc,
+  serverTimestamp,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { Recipe } from '@/types/recipe';
+import { withInstructionSteps } from '@/utils/instructionSteps';
+import { upgradeRecipe } from '@/utils/legacyRecipes';
+import { RECIPE_SCHEMA_VERSION, isRecord } from '@/utils/recipeSchema';
 import { trackRecipeSave, trackRecipeDelete } from '@/services/analyticsService';
 
 const SAVED_RECIPES_COLLECTION = 'savedRecipes';
 
+// Earlier versions of a refined saved recipe, under savedRecipes/{id}/versions
+const RECIPE_VERSIONS_SUBCOLLECTION = 'versions';
+
 export interface SavedRecipe {
   id: string;
   userId: string;
   recipe: Recipe;
   savedAt: Date;
+  // Starts at 1 and goes up with each refinement
+  version: number;
+  // Servings the user was viewing when they saved it, if not the recipe's own;
+  // the recipe itself is stored unscaled
+  servings?: number;
+}
+
+export interface SavedRecipeVersion {
+  id: string;
+  version: number;
+  recipe: Recipe;
+  // The refinement that produced this version, null for the original
+  instruction: string | null;
+  savedAt: Date;
+}
+
+/**
+ * A stored recipe in the current model, with instruction steps, or null
+ * when upgradeRecipe can't read it
+ */
+function readStoredRecipe(value: unknown): Recipe | null {
+  const recipe = upgradeRecipe(value);
+  return recipe ? withInstructionSteps(recipe) : null;
+}
+
+// Saved before instruction steps or the current recipe model existed
+function isOutdated(value: unknown): boolean {
+  return isRecord(value) && (!value.steps || (value.schemaVersion ?? 1) < RECIPE_SCHEMA_VERSION);
 }
 
 /**
- * Saves a recipe to the user's saved recipes
+ * A saved recipe doc in the current model. Docs whose recipe can't be read
+ * are logged and skipped so they don't break the whole list.
  */
-export async function saveRecipe(recipe: Recipe): Promise<string> {
+function readSavedRecipe(doc: QueryDocumentSnapshot): SavedRecipe | null {
+  const data = doc.data();
+  const recipe = readStoredRecipe(data.recipe);
+  if (!recipe) {
+    console.error(`Skipping saved recipe ${doc.id}: its recipe can't be read`);
+    return null;
+  }
+
+  return {
+    id: doc.id,
+    userId: data.userId,
+    recipe,
+    savedAt: data.savedAt?.toDate() || new Date(),
+    version: data.version || 1,
+    ...(typeof data.servings === 'number' ? { servings: data.servings } : {}),
+  };
+}
+
+/**
+ * Saves a recipe to the user's saved recipes, as generated. servings is only
+ * a display preference for when it's opened again.
+ */
+export async function saveRecipe(recipe: Recipe, servings?: number): Promise<string> {
   try {
     const user = auth.currentUser;
     if (!user) {
@@ -43,7 +102,8 @@ export async function saveRecipe(recipe: Recipe): Promise<string> {
     // Save new recipe
     const recipeData = {
       userId: user.uid,
-      recipe: recipe,
+      recipe: withInstructionSteps(recipe),
+      ...(servings ? { servings } : {}),
       savedAt: serverTimestamp(),
     };
 
@@ -102,21 +162,156 @@ export async function getSavedRecipes(): Promise<SavedRecipe[]> {
 
     const querySnapshot = await getDocs(savedRecipesQuery);
     
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        userId: data.userId,
-        recipe: data.recipe as Recipe,
-        savedAt: data.savedAt?.toDate() || new Date(),
-      };
+    const outdated: SavedRecipe[] = [];
+    const savedRecipes: SavedRecipe[] = [];
+    querySnapshot.docs.forEach(doc => {
+      const saved = readSavedRecipe(doc);
+      if (!saved) return;
+      savedRecipes.push(saved);
+      if (isOutdated(doc.data().recipe)) {
+        outdated.push(saved);
+      }
     });
+
+    // Write back upgraded recipes, without holding up the list
+    if (outdated.length > 0) {
+      storeUpgradedRecipes(outdated).catch(error => {
+        console.error('Error migrating saved recipes:', error);
+      });
+    }
+
+    return savedRecipes;
   } catch (error: any) {
     console.error('Error getting saved recipes:', error);
     throw new Error(`Failed to get saved recipes: ${error.message}`);
   }
 }
 
+async function storeUpgradedRecipes(savedRecipes: SavedRecipe[]): Promise<void> {
+  await Promise.all(savedRecipes.map(saved =>
+    updateDoc(doc(db, SAVED_RECIPES_COLLECTION, saved.id), { recipe: saved.recipe })
+  ));
+  console.log(`Migrated ${savedRecipes.length} saved recipes`);
+}
+
+/**
+ * Stores the current user's saved recipes that predate structured
+ * instruction steps or the current recipe model in the current shape.
+ * Returns how many recipes were updated.
+ */
+export async function migrateSavedRecipes(): Promise<number> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const querySnapshot = await getDocs(query(
+      collection(db, SAVED_RECIPES_COLLECTION),
+      where('userId', '==', user.uid)
+    ));
+
+    const outdated = querySnapshot.docs
+      .filter(doc => isOutdated(doc.data().recipe))
+      .map(readSavedRecipe)
+      .filter((saved): saved is SavedRecipe => saved !== null);
+
+    if (outdated.length > 0) {
+      await storeUpgradedRecipes(outdated);
+    }
+    return outdated.length;
+  } catch (error: any) {
+    console.error('Error migrating saved recipes:', error);
+    throw new Error(`Failed to migrate saved recipes: ${error.message}`);
+  }
+}
+
+/**
+ * Stores a refined recipe as the new version of a saved recipe. The version
+ * it replaces is kept in the versions subcollection. Returns the new version number.
+ */
+export async function saveRecipeVersion(
+  savedRecipeId: string,
+  recipe: Recipe,
+  instruction: string
+): Promise<number> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const recipeRef = doc(db, SAVED_RECIPES_COLLECTION, savedRecipeId);
+    const recipeDoc = await getDoc(recipeRef);
+    if (!recipeDoc.exists()) {
+      throw new Error('Recipe not found');
+    }
+
+    const data = recipeDoc.data();
+    if (data.userId !== user.uid) {
+      throw new Error('Unauthorized to update this recipe');
+    }
+
+    const currentVersion: number = data.version || 1;
+    await addDoc(collection(recipeRef, RECIPE_VERSIONS_SUBCOLLECTION), {
+      version: currentVersion,
+      recipe: data.recipe,
+      instruction: data.instruction || null,
+      savedAt: data.updatedAt || data.savedAt || serverTimestamp(),
+    });
+
+    await updateDoc(recipeRef, {
+      recipe: withInstructionSteps(recipe),
+      version: currentVersion + 1,
+      instruction,
+      updatedAt: serverTimestamp(),
+    });
+
+    return currentVersion + 1;
+  } catch (error: any) {
+    console.error('Error saving recipe version:', error);
+    throw new Error(`Failed to save recipe version: ${error.message}`);
+  }
+}
+
+/**
+ * Gets the earlier versions of a saved recipe, newest first
+ */
+export async function getRecipeVersions(savedRecipeId: string): Promise<SavedRecipeVersion[]> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const versionsSnapshot = await getDocs(
+      collection(db, SAVED_RECIPES_COLLECTION, savedRecipeId, RECIPE_VERSIONS_SUBCOLLECTION)
+    );
+
+    const versions: SavedRecipeVersion[] = [];
+    versionsSnapshot.docs.forEach(doc => {
+      const data = doc.data();
+      const recipe = readStoredRecipe(data.recipe);
+      if (!recipe) {
+        console.error(`Skipping version ${doc.id} of saved recipe ${savedRecipeId}: its recipe can't be read`);
+        return;
+      }
+      versions.push({
+        id: doc.id,
+        version: data.version,
+        recipe,
+        instruction: data.instruction || null,
+        savedAt: data.savedAt?.toDate?.() || new Date(),
+      });
+    });
+
+    return versions.sort((a, b) => b.version - a.version);
+  } catch (error: any) {
+    console.error('Error getting recipe versions:', error);
+    throw new Error(`Failed to get recipe versions: ${error.message}`);
+  }
+}
+
 /**
  * Deletes a saved recipe
  */
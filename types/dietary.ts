@@ -33,21 +33,3 @@ export interface DietaryPreferences {
   allergies: DietaryAllergies[];
   preferences: DietaryPlan[];
 }
-
-export interface Recipe {
-  id: string;
-  title: string;
-  description: string;
-  ingredients: string[];
-  instructions: string[];
-  dietaryInfo: {
-    restrictions: DietaryRestriction[];
-    allergens: DietaryAllergies[];
-    preferences: DietaryPlan[];
-  };
-  prepTime: number;
-  cookTime: number;
-  servings: number;
-  calories: number;
-  imageUrl?: string;
-}
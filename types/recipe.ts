@@ -1,19 +1,134 @@
+import { DietaryRestriction, DietaryAllergies, DietaryPlan } from '@/types/dietary';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'dessert';
+
+// An ingredient that breaks one of the user's allergies or restrictions
+export interface ComplianceViolation {
+  // Ingredient line as written in the recipe
+  ingredient: string;
+  type: 'allergen' | 'restriction';
+  // The allergy or restriction broken, e.g. "milk" or "vegan"
+  rule: string;
+  // Dictionary term that matched, e.g. "butter"
+  matched: string;
+  // One of the ingredient's substitutions avoids the problem
+  hasSubstitute: boolean;
+}
+
+// Result of checking a recipe's ingredients against the local ingredient dictionary
+export interface ComplianceReport {
+  compliant: boolean;
+  checkedAllergies: string[];
+  checkedRestrictions: string[];
+  // Requested restrictions the dictionary has no rules for
+  unverified: string[];
+  violations: ComplianceViolation[];
+  // Every known allergen found in the ingredients, requested or not
+  detectedAllergens: string[];
+}
+
+// An alternative the recipe suggests for one of its ingredients
+export interface IngredientSubstitution {
+  alternative: string;
+  reason: 'dietary' | 'availability';
+  // What the alternative is for, e.g. "dairy-free" or "if unavailable"
+  note?: string;
+  // Change to the recipe's extra ingredients cost when swapped in, in USD
+  costDelta: number;
+}
+
+// One cooking step, split out of the instruction text
+export interface InstructionStep {
+  text: string;
+  // null when the step doesn't say how long it takes
+  durationMinutes: number | null;
+  // Safety notes, e.g. "hot oil"
+  warnings: string[];
+  utensils: string[];
+  // Recipe ingredients the step uses, as named in the ingredient lists
+  ingredients: string[];
+}
+
+// A field of Recipe['nutritionInfo'], e.g. 'protein'
+export type NutritionField = 'calories' | 'protein' | 'fat' | 'carbs' | 'fiber' | 'sugar' | 'sodium' | 'servings';
+
+// A nutrient in nutritionInfo, i.e. every field but servings
+export type NutrientField = Exclude<NutritionField, 'servings'>;
+
+// Where a nutritionInfo value came from: the local nutrition table or the model
+export type NutritionSource = 'computed' | 'estimated';
+
+// A nutrient where the model's number and the computed one disagree
+export interface NutritionDiscrepancy {
+  field: NutrientField;
+  computed: number;
+  estimated: number;
+}
+
+// Result of checking the model's nutritionInfo against the local nutrition table
+export interface NutritionEstimate {
+  // Which of the two each nutritionInfo value is
+  sources: Record<NutrientField, NutritionSource>;
+  // The model's per-serving numbers, before reconciling
+  estimated: Record<NutrientField, number>;
+  // Per-serving numbers from the table; null when too few ingredients could be matched
+  computed: Record<NutrientField, number> | null;
+  // Percent of ingredient lines matched to the table with a usable amount
+  coverage: number;
+  // Ingredient lines that couldn't be matched or measured
+  unmatched: string[];
+  discrepancies: NutritionDiscrepancy[];
+}
+
+// Inclusive bounds; either may be left out
+export interface NutritionRange {
+  min?: number;
+  max?: number;
+}
+
+// Per-serving targets, except servings itself
+export type NutritionTargets = Partial<Record<NutritionField, NutritionRange>>;
+
+/**
+ * The one recipe model used by every screen and service. Recipes stored
+ * before schemaVersion existed, or in the old title/prepTime shape, are
+ * brought up to date by upgradeRecipe (utils/legacyRecipes).
+ */
 export interface Recipe {
   id?: string;
+  // RECIPE_SCHEMA_VERSION when written; absent on recipes stored before versioning (version 1)
+  schemaVersion?: number;
   name: string;
+  description?: string;
+  imageUrl?: string;
+  // Total minutes
   timeEstimate: number;
+  // Minutes of preparation and of cooking, when known; they add up to timeEstimate
+  prepTime?: number;
+  cookTime?: number;
   difficulty: string;
+  mealType?: MealType;
+  cuisine?: string;
   extraIngredientsCost: number;
   currentIngredients: string[];
+  // Substitutions for currentIngredients, by index
+  currentSubstitutions?: IngredientSubstitution[][];
   extraIngredients: {
     item: string;
     cost: number;
     amount: string;
+    substitutions?: IngredientSubstitution[];
   }[];
   instructions: string[];
+  // Structured form of instructions, in the same order
+  steps?: InstructionStep[];
   dietaryInfo: {
-    restrictions: string[];
-    allergens: string[];
+    // Restrictions the recipe is compatible with
+    restrictions: DietaryRestriction[];
+    // Allergens the recipe is free of
+    allergens: DietaryAllergies[];
+    // Diet plans it suits, e.g. 'low-carb'
+    preferences?: DietaryPlan[];
   };
   nutritionInfo: {
     calories: number;
@@ -25,4 +140,13 @@ export interface Recipe {
     sodium: number;
     servings: number;
   };
+  compliance?: ComplianceReport;
+  // How nutritionInfo was checked against the local nutrition table
+  nutritionEstimate?: NutritionEstimate;
+  // How well nutritionInfo meets the requested targets, 0-100
+  nutritionFit?: number;
+  // Percent of the ingredients the user already had (typed, pantry or staples) when generated
+  pantryCoverage?: number;
+  // Prompt template version that generated the recipe
+  promptVersion?: string;
 } 
\ No newline at end of file
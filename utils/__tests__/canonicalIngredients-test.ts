@@ -0,0 +1,70 @@
+import {
+  findCanonicalIngredient,
+  isSameIngredient,
+  getIngredientCategory,
+  getIngredientFlags,
+  mergeExtraIngredients,
+} from '../canonicalIngredients';
+import { isIngredientAvailable } from '../pantryCoverage';
+
+it('finds the same ingredient under its synonyms and plurals', () => {
+  expect(findCanonicalIngredient('Scallions')?.id).toBe('green-onion');
+  expect(findCanonicalIngredient('2 green onions, sliced')?.id).toBe('green-onion');
+  expect(findCanonicalIngredient('1 can garbanzo beans (drained)')?.id).toBe('chickpea');
+  expect(findCanonicalIngredient('fresh raspberries')?.id).toBe('berry');
+  expect(findCanonicalIngredient('red bell pepper')?.id).toBe('bell-pepper');
+  expect(findCanonicalIngredient('dragon fruit')).toBeNull();
+
+  expect(isSameIngredient('chickpeas', 'garbanzo beans')).toBe(true);
+  expect(isSameIngredient('dragon fruits', 'dragon fruit')).toBe(true);
+  expect(isSameIngredient('onion', 'green onion')).toBe(false);
+  // Varieties keep their own identity
+  expect(isSameIngredient('cherry tomatoes', 'tomatoes')).toBe(false);
+  expect(getIngredientCategory('heavy cream')).toBe('dairy');
+});
+
+it('only treats the whole name as the ingredient', () => {
+  expect(isSameIngredient('garlic powder', 'garlic')).toBe(false);
+  expect(isSameIngredient('onion powder', 'onion')).toBe(false);
+  expect(isSameIngredient('lemon juice', 'lemons')).toBe(false);
+  expect(isSameIngredient('fresh basil', 'basil')).toBe(true);
+  expect(isSameIngredient('2 cloves garlic, minced', 'garlic')).toBe(true);
+  expect(findCanonicalIngredient('garlic butter')).toBeNull();
+});
+
+it('checks allergens on the canonical name as well as the line', () => {
+  expect(Array.from(getIngredientFlags('bean curd').allergens.keys())).toEqual(['soy']);
+  expect(Array.from(getIngredientFlags('gram flour').allergens.keys())).toEqual([]);
+  expect(Array.from(getIngredientFlags('coconut cream').allergens.keys())).toEqual([]);
+});
+
+it('matches pantry items across synonyms', () => {
+  expect(isIngredientAvailable('3 scallions', ['green onion'])).toBe(true);
+  expect(isIngredientAvailable('garbanzo beans', ['chickpeas'])).toBe(true);
+  expect(isIngredientAvailable('zucchini', ['eggplant'])).toBe(false);
+  expect(isIngredientAvailable('garlic powder', ['garlic'])).toBe(false);
+  expect(isIngredientAvailable('2 tbsp lemon juice', ['lemons'])).toBe(false);
+  expect(isIngredientAvailable('chicken breast', ['chicken'])).toBe(true);
+});
+
+it('merges extra ingredients that are the same ingredient', () => {
+  const merged = mergeExtraIngredients([
+    { item: 'scallions', cost: 0.5, amount: '1 cup' },
+    { item: 'parmesan', cost: 2, amount: '50g' },
+    { item: 'green onions', cost: 0.25, amount: '1/2 cup' },
+    { item: 'spring onion', cost: 0.25, amount: '2' },
+    { item: 'garlic powder', cost: 0.5, amount: '1 tsp' },
+    { item: 'garlic', cost: 0.3, amount: '3 cloves' },
+    { item: 'lemon juice', cost: 0.4, amount: '2 tbsp' },
+    { item: 'lemon', cost: 0.5, amount: '1' },
+  ]);
+
+  expect(merged).toEqual([
+    { item: 'scallions', cost: 1, amount: '1 1/2 cups + 2' },
+    { item: 'parmesan', cost: 2, amount: '50g' },
+    { item: 'garlic powder', cost: 0.5, amount: '1 tsp' },
+    { item: 'garlic', cost: 0.3, amount: '3 cloves' },
+    { item: 'lemon juice', cost: 0.4, amount: '2 tbsp' },
+    { item: 'lemon', cost: 0.5, amount: '1' },
+  ]);
+});
@@ -0,0 +1,56 @@
+import { applyCompliance, checkRecipeCompliance, classifyDietaryLabel } from '../dietaryCompliance';
+import { Recipe } from '@/types/recipe';
+import { DietaryRestriction } from '@/types/dietary';
+
+const recipe: Recipe = {
+  name: 'Creamy Mushroom Pasta',
+  difficulty: 'Beginner',
+  timeEstimate: 25,
+  extraIngredientsCost: 6,
+  currentIngredients: ['spaghetti', 'mushrooms'],
+  extraIngredients: [
+    { item: 'coconut milk', cost: 2, amount: '1 can' },
+    {
+      item: 'parmesan',
+      cost: 3,
+      amount: '30g',
+      substitutions: [{ alternative: 'nutritional yeast', reason: 'dietary', note: 'vegan', costDelta: 0 }],
+    },
+    { item: 'vegetable broth', cost: 1, amount: '1 cup' },
+  ],
+  instructions: ['Cook the pasta. (Time: 10 minutes)'],
+  dietaryInfo: { restrictions: ['vegan', 'vegetarian'], allergens: ['milk', 'peanuts'] },
+  nutritionInfo: {
+    calories: 520, protein: 15, fat: 18, carbs: 72,
+    fiber: 6, sugar: 5, sodium: 400, servings: 2,
+  },
+};
+
+it('reports each ingredient that breaks a restriction or allergy', () => {
+  const report = checkRecipeCompliance(recipe, {
+    restrictions: ['vegetarian', 'gluten-free', 'low-carb'] as DietaryRestriction[],
+    allergies: ['milk'],
+  });
+
+  expect(report.compliant).toBe(false);
+  expect(report.violations).toEqual([
+    { ingredient: 'spaghetti', type: 'restriction', rule: 'gluten-free', matched: 'spaghetti', hasSubstitute: false },
+    { ingredient: 'parmesan', type: 'allergen', rule: 'milk', matched: 'parmesan', hasSubstitute: true },
+  ]);
+  // Coconut milk and vegetable broth are exceptions, not dairy or meat
+  expect(report.detectedAllergens).toEqual(['wheat', 'milk']);
+  expect(report.unverified).toEqual(['low-carb']);
+});
+
+it('removes dietary claims the ingredients contradict', () => {
+  const checked = applyCompliance(recipe, { restrictions: [], allergies: [] });
+
+  expect(checked.dietaryInfo).toEqual({ restrictions: ['vegetarian'], allergens: ['peanuts'] });
+  expect(checked.compliance?.compliant).toBe(true);
+});
+
+it('sorts dietary labels into restrictions and free-from allergens', () => {
+  expect(classifyDietaryLabel('Peanut-free')).toEqual({ kind: 'allergen', value: 'peanuts' });
+  expect(classifyDietaryLabel('dairy-free')).toEqual({ kind: 'restriction', value: 'dairy-free' });
+  expect(classifyDietaryLabel('Low sodium')).toEqual({ kind: 'restriction', value: 'low sodium' });
+});
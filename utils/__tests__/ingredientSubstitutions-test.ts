@@ -0,0 +1,48 @@
+import { parseIngredientLine, swapIngredient } from '../ingredientSubstitutions';
+import { applyCompliance } from '../dietaryCompliance';
+import { Recipe } from '@/types/recipe';
+
+it('splits substitution notes out of an ingredient line', () => {
+  expect(parseIngredientLine('butter (or olive oil for dairy-free, +$0.50)')).toEqual({
+    name: 'butter',
+    substitutions: [{ alternative: 'olive oil', reason: 'dietary', note: 'dairy-free', costDelta: 0.5 }],
+  });
+  expect(parseIngredientLine('canned tomatoes (14 oz can) (or fresh tomatoes or passata)')).toEqual({
+    name: 'canned tomatoes (14 oz can)',
+    substitutions: [
+      { alternative: 'fresh tomatoes', reason: 'availability', costDelta: 0 },
+      { alternative: 'passata', reason: 'availability', costDelta: 0 },
+    ],
+  });
+});
+
+it('swaps an ingredient and recomputes cost and dietary badges', () => {
+  const recipe: Recipe = applyCompliance({
+    name: 'Garlic Butter Chickpeas',
+    difficulty: 'Beginner',
+    timeEstimate: 20,
+    extraIngredientsCost: 4.5,
+    currentIngredients: ['chickpeas'],
+    extraIngredients: [{
+      item: 'butter',
+      cost: 1.5,
+      amount: '2 tbsp',
+      substitutions: [{ alternative: 'olive oil', reason: 'dietary', note: 'dairy-free', costDelta: 0.5 }],
+    }],
+    instructions: ['Melt the butter. (Time: 2 minutes)'],
+    dietaryInfo: { restrictions: ['vegetarian'], allergens: [] },
+    nutritionInfo: {
+      calories: 400, protein: 15, fat: 18, carbs: 45,
+      fiber: 10, sugar: 3, sodium: 300, servings: 2,
+    },
+  }, { restrictions: ['dairy-free'], allergies: [] });
+  expect(recipe.compliance?.compliant).toBe(false);
+
+  const swapped = swapIngredient(recipe, { list: 'extra', index: 0 }, recipe.extraIngredients[0].substitutions![0]);
+
+  expect(swapped.extraIngredients[0]).toMatchObject({ item: 'olive oil', cost: 2 });
+  expect(swapped.extraIngredients[0].substitutions?.[0]).toMatchObject({ alternative: 'butter', costDelta: -0.5 });
+  expect(swapped.extraIngredientsCost).toBe(5);
+  expect(swapped.compliance?.compliant).toBe(true);
+  expect(swapped.dietaryInfo.restrictions).toEqual(['vegetarian', 'dairy-free']);
+});
@@ -0,0 +1,50 @@
+import { fromLegacyDietaryRecipe, upgradeRecipe } from '../legacyRecipes';
+import { RECIPE_SCHEMA_VERSION } from '../recipeSchema';
+
+it('converts an old-shape recipe to the current model', () => {
+  const result = fromLegacyDietaryRecipe({
+    id: 'legacy-1',
+    title: 'Chickpea Salad',
+    description: 'A quick salad',
+    ingredients: ['chickpeas', 'cucumber'],
+    instructions: ['Mix everything'],
+    dietaryInfo: { restrictions: ['vegan'], allergens: [], preferences: [] },
+    prepTime: 10,
+    cookTime: 5,
+    servings: 2,
+    calories: 350,
+  });
+
+  if (!result.valid) throw new Error(result.errors.join(', '));
+  expect(result.recipe).toMatchObject({
+    name: 'Chickpea Salad',
+    timeEstimate: 15,
+    prepTime: 10,
+    cookTime: 5,
+    difficulty: 'Beginner',
+    schemaVersion: RECIPE_SCHEMA_VERSION,
+  });
+  expect(result.recipe.dietaryInfo.restrictions).toEqual(['vegan']);
+});
+
+it('types the free-text dietary labels of unversioned recipes', () => {
+  const recipe = {
+    name: 'Stir Fry',
+    difficulty: 'Intermediate',
+    timeEstimate: 25,
+    extraIngredientsCost: 3,
+    currentIngredients: ['rice'],
+    extraIngredients: [],
+    instructions: ['Cook'],
+    dietaryInfo: { restrictions: ['Vegetarian', 'low-carb', 'moon diet'], allergens: [] },
+  };
+
+  const upgraded = upgradeRecipe(recipe);
+  expect(upgraded?.schemaVersion).toBe(RECIPE_SCHEMA_VERSION);
+  expect(upgraded?.dietaryInfo.restrictions).toEqual(['vegetarian']);
+  expect(upgraded?.dietaryInfo.preferences).toEqual(['low-carb']);
+
+  // Already current, nothing to do
+  expect(upgradeRecipe(upgraded)).toBe(upgraded);
+  expect(upgradeRecipe({ title: 42 })).toBeNull();
+});
@@ -0,0 +1,65 @@
+import { applyComputedNutrition, describeNutritionDiscrepancy, findFood } from '../nutritionCalculator';
+import { NUTRITION_DATABASE } from '@/constants/NutritionDatabase';
+import { Recipe } from '@/types/recipe';
+
+// A stand-in for the generated SR Legacy table
+jest.mock('@/assets/data/usdaFoods.json', () => ({
+  source: 'test',
+  foods: {
+    'kohlrabi': { calories: 27, protein: 1.7, fat: 0.1, carbs: 6.2, fiber: 3.6, sugar: 2.6, sodium: 20, gramsPerPiece: 150 },
+    'chicken broth': { calories: 15, protein: 1.6, fat: 0.5, carbs: 1.4, fiber: 0, sugar: 0.7, sodium: 343 },
+  },
+}));
+
+const recipe: Recipe = {
+  name: 'Garlic Parmesan Pasta',
+  difficulty: 'Beginner',
+  timeEstimate: 20,
+  extraIngredientsCost: 4,
+  currentIngredients: ['250g pasta', '2 tbsp olive oil', '2 cloves garlic'],
+  extraIngredients: [
+    { item: 'parmesan (or nutritional yeast for vegan)', cost: 2.5, amount: '50g' },
+    { item: 'baby spinach', cost: 1.5, amount: '100g' },
+  ],
+  instructions: ['Boil the pasta.'],
+  dietaryInfo: { restrictions: ['vegetarian'], allergens: ['milk'] },
+  nutritionInfo: {
+    calories: 420, protein: 25, fat: 20, carbs: 95,
+    fiber: 5, sugar: 4, sodium: 450, servings: 2,
+  },
+};
+
+it('matches the food an ingredient name ends with', () => {
+  expect(findFood('low-sodium chicken broth')).toBe(NUTRITION_DATABASE.broth);
+  expect(findFood('extra virgin olive oil')).toBe(NUTRITION_DATABASE['olive oil']);
+  expect(findFood('garlic powder')).toBe(NUTRITION_DATABASE['garlic powder']);
+  expect(findFood('ricotta')).toBe(NUTRITION_DATABASE.ricotta);
+  expect(findFood('buttermilk')).toBe(NUTRITION_DATABASE.buttermilk);
+  expect(findFood('dragon fruit')).toBeNull();
+});
+
+it('falls back to the USDA foods for ingredients the table does not list', () => {
+  expect(findFood('1 medium kohlrabi, peeled')).toMatchObject({ calories: 27, gramsPerPiece: 150 });
+  // The hand-picked names still win
+  expect(findFood('chicken broth')).toBe(NUTRITION_DATABASE.broth);
+});
+
+it('computes nutrition from the ingredients and flags large differences', () => {
+  const checked = applyComputedNutrition(recipe);
+
+  expect(checked.nutritionEstimate).toMatchObject({ coverage: 100, unmatched: [] });
+  expect(checked.nutritionEstimate?.sources.calories).toBe('computed');
+  expect(checked.nutritionEstimate?.estimated.calories).toBe(420);
+  expect(checked.nutritionInfo).toMatchObject({ calories: 709, protein: 28, servings: 2 });
+  expect(checked.nutritionEstimate?.discrepancies.map(describeNutritionDiscrepancy)).toEqual([
+    'Calories: recipe said 420 kcal, ingredients add up to 709 kcal',
+  ]);
+});
+
+it('keeps the model numbers when too few ingredients can be measured', () => {
+  const checked = applyComputedNutrition({ ...recipe, currentIngredients: ['pasta', 'olive oil', 'garlic'] });
+
+  expect(checked.nutritionEstimate?.computed).toBeNull();
+  expect(checked.nutritionEstimate?.sources.protein).toBe('estimated');
+  expect(checked.nutritionInfo).toEqual(recipe.nutritionInfo);
+});
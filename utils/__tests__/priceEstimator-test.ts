@@ -0,0 +1,32 @@
+import { estimateRecipeCost, formatPrice } from '../priceEstimator';
+import { BUILT_IN_PRICE_CATALOG } from '@/constants/PriceCatalog';
+import { Recipe } from '@/types/recipe';
+
+const recipe = {
+  name: 'Garlic Butter Chickpea Skillet',
+  extraIngredientsCost: 6,
+  extraIngredients: [
+    { item: 'butter (or olive oil for dairy-free, +$0.50)', cost: 1.5, amount: '2 tbsp' },
+    { item: 'baby spinach', cost: 3, amount: '150g' },
+    { item: 'dragon fruit', cost: 1.5, amount: '1' },
+  ],
+  nutritionInfo: { servings: 2 },
+} as Recipe;
+
+it('prices ingredients from the catalog and keeps the model cost for the rest', () => {
+  const estimate = estimateRecipeCost(recipe, BUILT_IN_PRICE_CATALOG, { region: 'us', currency: 'USD' });
+
+  expect(estimate.items).toEqual([
+    { item: recipe.extraIngredients[0].item, cost: 0.28, source: 'catalog' },
+    { item: 'baby spinach', cost: 1.65, source: 'catalog' },
+    { item: 'dragon fruit', cost: 1.5, source: 'model' },
+  ]);
+  expect(estimate).toMatchObject({ extraIngredientsCost: 3.43, costPerServing: 1.72, coverage: 67 });
+});
+
+it('applies the regional multiplier and exchange rate', () => {
+  const estimate = estimateRecipeCost(recipe, BUILT_IN_PRICE_CATALOG, { region: 'eu', currency: 'EUR' });
+
+  expect(estimate.items[2].cost).toBe(1.24);
+  expect(formatPrice(estimate.costPerServing, estimate.currency)).toBe(`€${estimate.costPerServing.toFixed(2)}`);
+});
@@ -0,0 +1,33 @@
+import { createRecipeStreamParser, extractJsonRecipes } from '../recipeParser';
+
+const recipe = {
+  name: 'Garlic Chickpea Stew',
+  currentIngredients: ['chickpeas', 'garlic'],
+  extraIngredients: [{ item: 'canned tomatoes', cost: 1.5, amount: '1 can' }],
+  instructions: ['Simmer everything.'],
+};
+
+// Feeds the content in small chunks, as a stream would
+function streamRecipes(content: string): unknown[] {
+  const recipes: unknown[] = [];
+  const parser = createRecipeStreamParser('json', rawRecipe => recipes.push(rawRecipe));
+  for (let i = 0; i < content.length; i += 7) {
+    parser.push(content.slice(i, i + 7));
+  }
+  parser.end();
+  return recipes;
+}
+
+it('streams each recipe in the recipes array or a bare array', () => {
+  const other = { ...recipe, name: 'Lemon Chickpea Salad' };
+
+  expect(streamRecipes(JSON.stringify({ notes: ['quick'], recipes: [recipe, other] }))).toEqual([recipe, other]);
+  expect(streamRecipes(`\`\`\`json\n${JSON.stringify([recipe])}\n\`\`\``)).toEqual([recipe]);
+});
+
+it("doesn't take a bare recipe's ingredient lists for recipes", () => {
+  const content = JSON.stringify(recipe);
+
+  expect(streamRecipes(content)).toEqual([]);
+  expect(extractJsonRecipes(content)).toEqual({ items: [recipe], error: null });
+});
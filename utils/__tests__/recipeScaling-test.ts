@@ -0,0 +1,61 @@
+import { parseQuantity, scaleAmount } from '../quantity';
+import { scaleRecipe } from '../recipeScaling';
+import { Recipe } from '@/types/recipe';
+
+it('parses fractions, ranges and attached units', () => {
+  expect(parseQuantity('1 1/2 cups flour')).toEqual({ value: 1.5, unit: 'cup', rest: 'flour' });
+  expect(parseQuantity('400g')).toEqual({ value: 400, unit: 'g', rest: '' });
+  expect(parseQuantity('2-3 cloves garlic')).toEqual({ value: 2, maxValue: 3, unit: 'clove', rest: 'garlic' });
+  expect(parseQuantity('½ tsp')).toEqual({ value: 0.5, unit: 'tsp', rest: '' });
+  expect(parseQuantity('a pinch of salt')).toEqual({ value: 1, unit: 'pinch', rest: 'salt' });
+  expect(parseQuantity('1 medium')).toEqual({ value: 1, unit: null, rest: 'medium' });
+  expect(parseQuantity('to taste')).toBeNull();
+});
+
+it('scales amounts into kitchen-friendly numbers', () => {
+  expect(scaleAmount('2 tbsp', 1.5)).toBe('3 tbsp');
+  expect(scaleAmount('1 cup', 0.5)).toBe('1/2 cup');
+  expect(scaleAmount('1 bunch', 2)).toBe('2 bunches');
+  expect(scaleAmount('400g', 2)).toBe('800g');
+  expect(scaleAmount('2-3 cloves garlic', 2)).toBe('4-6 cloves garlic');
+  expect(scaleAmount('salt to taste', 2)).toBe('salt to taste');
+});
+
+it('pluralizes counted items when scaled up', () => {
+  expect(scaleAmount('1 lemon', 2)).toBe('2 lemons');
+  expect(scaleAmount('an onion, diced', 2)).toBe('2 onions, diced');
+  expect(scaleAmount('1 large tomato', 3)).toBe('3 large tomatoes');
+  expect(scaleAmount('1 medium', 2)).toBe('2 medium');
+  expect(scaleAmount('2 eggs', 1.5)).toBe('3 eggs');
+});
+
+it('scales amounts and costs but keeps nutrition per serving', () => {
+  const recipe: Recipe = {
+    name: 'Garlic Butter Chickpeas',
+    difficulty: 'Beginner',
+    timeEstimate: 20,
+    extraIngredientsCost: 4.5,
+    currentIngredients: ['1 can chickpeas', 'garlic'],
+    extraIngredients: [{
+      item: 'butter',
+      cost: 1.5,
+      amount: '2 tbsp',
+      substitutions: [{ alternative: 'olive oil', reason: 'dietary', costDelta: 0.5 }],
+    }, { item: 'baby spinach', cost: 3, amount: '1 bag' }],
+    instructions: ['Melt the butter.'],
+    dietaryInfo: { restrictions: ['vegetarian'], allergens: [] },
+    nutritionInfo: {
+      calories: 420, protein: 16, fat: 18, carbs: 45,
+      fiber: 10, sugar: 3, sodium: 300, servings: 2,
+    },
+  };
+
+  const scaled = scaleRecipe(recipe, 6);
+  expect(scaled.currentIngredients).toEqual(['3 cans chickpeas', 'garlic']);
+  expect(scaled.extraIngredients[0]).toMatchObject({ cost: 4.5, amount: '6 tbsp' });
+  expect(scaled.extraIngredients[0].substitutions?.[0].costDelta).toBe(1.5);
+  expect(scaled.extraIngredients[1]).toMatchObject({ cost: 9, amount: '3 bags' });
+  expect(scaled.extraIngredientsCost).toBe(13.5);
+  expect(scaled.nutritionInfo).toEqual({ ...recipe.nutritionInfo, servings: 6 });
+  expect(scaleRecipe(recipe, 2)).toBe(recipe);
+});
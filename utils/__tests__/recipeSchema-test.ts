@@ -0,0 +1,101 @@
+import { validateRecipe } from '../recipeSchema';
+
+const validRecipe = {
+  name: 'Tomato Basil Pasta',
+  difficulty: 'Beginner',
+  timeEstimate: 25,
+  extraIngredientsCost: 4.5,
+  currentIngredients: ['pasta', 'tomato (or canned tomatoes)'],
+  extraIngredients: [{ item: 'fresh basil', cost: 2.5, amount: '1 bunch' }],
+  instructions: ['Boil the pasta. (Time: 10 minutes)'],
+  dietaryInfo: { restrictions: ['vegetarian'], allergens: [] },
+  nutritionInfo: {
+    calories: 450, protein: 12, fat: 10, carbs: 70,
+    fiber: 5, sugar: 6, sodium: 300, servings: 2,
+  },
+};
+
+it('accepts a complete recipe without repairs', () => {
+  const result = validateRecipe(validRecipe);
+
+  expect(result.valid).toBe(true);
+  expect(result.repairs).toEqual([]);
+});
+
+it('repairs loosely formatted fields', () => {
+  const result = validateRecipe({
+    ...validRecipe,
+    difficulty: 'easy',
+    timeEstimate: '30 minutes',
+    extraIngredientsCost: undefined,
+    nutritionInfo: { calories: '500 kcal' },
+  });
+
+  expect(result.valid).toBe(true);
+  if (!result.valid) return;
+  expect(result.recipe.difficulty).toBe('Beginner');
+  expect(result.recipe.timeEstimate).toBe(30);
+  expect(result.recipe.extraIngredientsCost).toBe(2.5);
+  expect(result.recipe.nutritionInfo.calories).toBe(500);
+  expect(result.recipe.nutritionInfo.servings).toBe(1);
+  expect(result.repairs.length).toBeGreaterThan(0);
+});
+
+it('rejects a recipe without a name or instructions', () => {
+  const result = validateRecipe({ ...validRecipe, name: '', instructions: [] });
+
+  expect(result.valid).toBe(false);
+  if (result.valid) return;
+  expect(result.errors).toEqual(['Missing recipe name', 'Recipe has no instructions']);
+});
+
+it('splits instruction strings into structured steps', () => {
+  const result = validateRecipe({
+    ...validRecipe,
+    instructions: [
+      'Heat the oil in a skillet and fry the pasta. (Time: 5-7 minutes) (Warning: hot oil) (Utensils: skillet, tongs)',
+      'Tear the basil over the top and serve.',
+    ],
+  });
+
+  expect(result.valid).toBe(true);
+  if (!result.valid) return;
+  expect(result.recipe.steps).toEqual([
+    {
+      text: 'Heat the oil in a skillet and fry the pasta.',
+      durationMinutes: 7,
+      warnings: ['hot oil'],
+      utensils: ['skillet', 'tongs'],
+      ingredients: ['pasta'],
+    },
+    {
+      text: 'Tear the basil over the top and serve.',
+      durationMinutes: null,
+      warnings: [],
+      utensils: [],
+      ingredients: ['fresh basil'],
+    },
+  ]);
+});
+
+it('reads JSON steps and checks their durations against the time estimate', () => {
+  const result = validateRecipe({
+    ...validRecipe,
+    timeEstimate: 15,
+    instructions: undefined,
+    steps: [
+      { text: 'Boil the pasta in a large pot.', durationMinutes: 12, warnings: ['boiling water'] },
+      { text: 'Toss with the tomato.', durationMinutes: 10, utensils: ['Tongs'] },
+    ],
+  });
+
+  expect(result.valid).toBe(true);
+  if (!result.valid) return;
+  expect(result.recipe.instructions).toEqual([
+    'Boil the pasta in a large pot. (Time: 12 minutes)',
+    'Toss with the tomato. (Time: 10 minutes)',
+  ]);
+  expect(result.recipe.steps?.[0].utensils).toEqual(['pot']);
+  expect(result.recipe.steps?.[1]).toMatchObject({ utensils: ['tongs'], ingredients: ['tomato'] });
+  expect(result.repairs).toEqual(['Step durations add up to 22 minutes, over the 15 minute estimate']);
+});
@@ -0,0 +1,28 @@
+import { convertAmount, convertRecipeUnits, normalizeAmount } from '../units';
+import { Recipe } from '@/types/recipe';
+
+it('normalizes amounts to grams or millilitres', () => {
+  expect(normalizeAmount('1 lb')).toEqual({ dimension: 'mass', value: 453.592 });
+  expect(normalizeAmount('2 cups')).toEqual({ dimension: 'volume', value: 473.176 });
+  expect(normalizeAmount('2 medium')).toBeNull();
+});
+
+it('converts between metric and imperial, by weight where it helps', () => {
+  expect(convertAmount('250g pasta', 'imperial')).toBe('9 oz pasta');
+  expect(convertAmount('2 cups water', 'metric')).toBe('473ml water');
+  expect(convertAmount('1 cup flour', 'metric')).toBe('125g flour');
+  expect(convertAmount('250g', 'imperial', 'all-purpose flour')).toBe('2 cups');
+  expect(convertAmount('2 tbsp olive oil', 'metric')).toBe('2 tbsp olive oil');
+  expect(convertAmount('400g', 'metric', 'canned tomatoes')).toBe('400g');
+});
+
+it('converts every ingredient amount in a recipe', () => {
+  const recipe = {
+    currentIngredients: ['250g pasta', '2 tbsp olive oil', 'garlic'],
+    extraIngredients: [{ item: 'canned tomatoes', cost: 1.5, amount: '1 lb' }],
+  } as Recipe;
+
+  const converted = convertRecipeUnits(recipe, 'metric');
+  expect(converted.currentIngredients).toEqual(recipe.currentIngredients);
+  expect(converted.extraIngredients[0].amount).toBe('454g');
+});
@@ -0,0 +1,19 @@
+import { readUsdaFoods } from '../usdaFoods';
+
+it('reads the generated foods and skips entries with missing nutrients', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const foods = readUsdaFoods({
+    source: 'USDA FoodData Central, SR Legacy',
+    foods: {
+      'Onion': { calories: 40, protein: 1.1, fat: 0.1, carbs: 9.3, fiber: 1.7, sugar: 4.2, sodium: 4, gramsPerPiece: 110, gramsPerMl: 0 },
+      'kohlrabi': { calories: 27, protein: 1.7, fat: 0.1 },
+      'sorghum': 'not a food',
+    },
+  });
+
+  expect(foods).toEqual({
+    onion: { calories: 40, protein: 1.1, fat: 0.1, carbs: 9.3, fiber: 1.7, sugar: 4.2, sodium: 4, gramsPerPiece: 110 },
+  });
+  expect(readUsdaFoods(null)).toEqual({});
+});
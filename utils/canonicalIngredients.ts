@@ -0,0 +1,213 @@
+import { Recipe } from '@/types/recipe';
+import {
+  CanonicalIngredient,
+  CANONICAL_INGREDIENTS,
+  INGREDIENT_DICTIONARY,
+  IngredientCategory,
+  IngredientTag,
+} from '@/constants/IngredientDictionary';
+import { cleanIngredientName } from '@/utils/ingredientNames';
+import { normalizeIngredientName } from '@/utils/recipeSimilarity';
+import { parseQuantity, formatQuantity } from '@/utils/quantity';
+
+export interface IngredientFlags {
+  // Allergen or tag -> the term that matched it
+  allergens: Map<string, string>;
+  tags: Map<IngredientTag, string>;
+}
+
+// A table name as found in an ingredient line
+interface IngredientMatch {
+  ingredient: CanonicalIngredient;
+  // Set when the line names one of the ingredient's varieties
+  variety?: string;
+}
+
+// Every name, synonym and variety, plus the plurals a trailing "s" doesn't
+// cover ("berries", "bay leaves"), mapped to its ingredient
+const INGREDIENT_NAMES = new Map<string, IngredientMatch>();
+CANONICAL_INGREDIENTS.forEach(ingredient => {
+  const names: [string, IngredientMatch][] = [
+    ...[ingredient.name, ...(ingredient.synonyms || [])].map(name => [name, { ingredient }] as [string, IngredientMatch]),
+    ...(ingredient.varieties || []).map(variety => [variety, { ingredient, variety }] as [string, IngredientMatch]),
+  ];
+  names.forEach(([name, match]) => {
+    INGREDIENT_NAMES.set(name, match);
+    if (/[^aeiou]y$/.test(name)) {
+      INGREDIENT_NAMES.set(`${name.slice(0, -1)}ies`, match);
+    } else if (/f$/.test(name)) {
+      INGREDIENT_NAMES.set(`${name.slice(0, -1)}ves`, match);
+    }
+  });
+});
+
+// Words that describe how an ingredient is bought or prepared rather than
+// what it is, so "fresh raspberries" and "garlic minced" still match
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'frozen', 'dried', 'raw', 'cooked', 'organic', 'ripe', 'large', 'small', 'medium',
+  'chopped', 'diced', 'sliced', 'minced', 'grated', 'shredded', 'crushed', 'peeled', 'boneless', 'skinless',
+  'red', 'green', 'yellow', 'orange',
+]);
+
+// The same few pantry items and ingredient lines get looked up over and over
+const lookupCache = new Map<string, IngredientMatch | null>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match that also accepts simple plurals ("egg" matches "eggs")
+ */
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}(s|es)?\\b`).test(text);
+}
+
+function lookupName(name: string): IngredientMatch | null {
+  return INGREDIENT_NAMES.get(name)
+    || INGREDIENT_NAMES.get(name.replace(/s$/, ''))
+    || INGREDIENT_NAMES.get(name.replace(/es$/, ''))
+    || null;
+}
+
+/**
+ * The table entry the whole name is, e.g. "garlic" or "garlic powder" but
+ * never garlic for "garlic powder". Amounts, notes after a comma and
+ * descriptor words around the name are ignored.
+ */
+function matchIngredient(ingredient: string): IngredientMatch | null {
+  const line = cleanIngredientName(ingredient).split(',')[0];
+  const name = normalizeIngredientName(parseQuantity(line)?.rest ?? line);
+  if (!name) return null;
+
+  if (!lookupCache.has(name)) {
+    const words = name.split(' ');
+    let match = lookupName(name);
+    while (!match && words.length > 1 && (DESCRIPTOR_WORDS.has(words[0]) || DESCRIPTOR_WORDS.has(words[words.length - 1]))) {
+      if (DESCRIPTOR_WORDS.has(words[0])) {
+        words.shift();
+      } else {
+        words.pop();
+      }
+      match = lookupName(words.join(' '));
+    }
+    lookupCache.set(name, match);
+  }
+  return lookupCache.get(name) || null;
+}
+
+/**
+ * The ingredient a name or line is, whatever it's called: "scallions",
+ * "2 green onions, sliced" and "spring onion" are all green onion.
+ * Unlike the nutrition table, the whole name has to match, so "onion
+ * powder" isn't onion.
+ */
+export function findCanonicalIngredient(ingredient: string): CanonicalIngredient | null {
+  return matchIngredient(ingredient)?.ingredient || null;
+}
+
+/**
+ * Key two names share when they're the same ingredient: the canonical id,
+ * with the variety for varieties ("tomato/cherry tomato"), or the name
+ * itself without a plural "s" for ingredients the table doesn't know
+ */
+export function getIngredientKey(ingredient: string): string {
+  const match = matchIngredient(ingredient);
+  if (match) return match.variety ? `${match.ingredient.id}/${match.variety}` : match.ingredient.id;
+  return normalizeIngredientName(ingredient).replace(/([^su])s$/, '$1');
+}
+
+export function isSameIngredient(a: string, b: string): boolean {
+  const key = getIngredientKey(a);
+  return key !== '' && key === getIngredientKey(b);
+}
+
+/**
+ * True when both names are known ingredients and not the same one, e.g.
+ * "garlic powder" and "garlic"; varieties of one ingredient aren't different
+ */
+export function isDifferentIngredient(a: string, b: string): boolean {
+  const first = findCanonicalIngredient(a);
+  const second = findCanonicalIngredient(b);
+  return !!first && !!second && first.id !== second.id;
+}
+
+export function getIngredientCategory(ingredient: string): IngredientCategory {
+  return findCanonicalIngredient(ingredient)?.category || 'other';
+}
+
+/**
+ * Known allergens and tags of an ingredient line. The dictionary is checked
+ * against the line and the canonical name, so synonyms it doesn't list
+ * ("bean curd", "maida") are still caught. Exceptions apply to either.
+ */
+export function getIngredientFlags(ingredient: string): IngredientFlags {
+  const name = normalizeIngredientName(ingredient);
+  const canonical = findCanonicalIngredient(name);
+  const texts = canonical && canonical.name !== name ? [name, canonical.name] : [name];
+  const flags: IngredientFlags = { allergens: new Map(), tags: new Map() };
+
+  INGREDIENT_DICTIONARY.forEach(entry => {
+    if (entry.exceptions?.some(exception => texts.some(text => text.includes(exception)))) return;
+
+    // The line's own wording first, so the report names what the recipe says
+    const term = texts.reduce<string | undefined>(
+      (found, text) => found || entry.terms.find(candidate => containsTerm(text, candidate)),
+      undefined
+    );
+    if (!term) return;
+
+    entry.allergens?.forEach(allergen => {
+      if (!flags.allergens.has(allergen)) flags.allergens.set(allergen, term);
+    });
+    entry.tags?.forEach(tag => {
+      if (!flags.tags.has(tag)) flags.tags.set(tag, term);
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * Adds up two amounts of the same ingredient: "1 cup" and "1/2 cup" make
+ * "1 1/2 cups"; amounts in different units are listed side by side
+ */
+function combineAmounts(a: string, b: string): string {
+  if (a === 'unknown') return b;
+  if (b === 'unknown') return a;
+
+  const first = parseQuantity(a);
+  const second = parseQuantity(b);
+  if (first && second && first.unit === second.unit && first.maxValue === undefined && second.maxValue === undefined) {
+    return formatQuantity({ ...first, value: first.value + second.value });
+  }
+  return `${a} + ${b}`;
+}
+
+/**
+ * Merges extra ingredients that are the same ingredient under different
+ * names, e.g. "scallions" and "green onions", keeping the first name and
+ * adding up amounts and costs
+ */
+export function mergeExtraIngredients(items: Recipe['extraIngredients']): Recipe['extraIngredients'] {
+  const merged = new Map<string, Recipe['extraIngredients'][number]>();
+
+  items.forEach(ingredient => {
+    const key = getIngredientKey(ingredient.item) || ingredient.item;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, ingredient);
+      return;
+    }
+
+    const substitutions = [...(existing.substitutions || []), ...(ingredient.substitutions || [])];
+    merged.set(key, {
+      item: existing.item,
+      cost: Math.round((existing.cost + ingredient.cost) * 100) / 100,
+      amount: combineAmounts(existing.amount, ingredient.amount),
+      ...(substitutions.length ? { substitutions } : {}),
+    });
+  });
+
+  return Array.from(merged.values());
+}
@@ -0,0 +1,181 @@
+import { Recipe, ComplianceReport, ComplianceViolation, IngredientSubstitution } from '@/types/recipe';
+import { DietaryPreferences, DietaryAllergies, DietaryRestriction } from '@/types/dietary';
+import { KNOWN_ALLERGENS, RESTRICTION_RULES } from '@/constants/IngredientDictionary';
+import { normalizeIngredientName } from '@/utils/recipeSimilarity';
+import { IngredientFlags, getIngredientFlags } from '@/utils/canonicalIngredients';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match that also accepts simple plurals ("egg" matches "eggs")
+ */
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}(s|es)?\\b`).test(text);
+}
+
+/**
+ * Looks up an ingredient line's allergens and tags. Custom allergies the
+ * dictionary doesn't know are matched on their own name.
+ */
+function getComplianceFlags(ingredient: string, customAllergies: string[]): IngredientFlags {
+  const name = normalizeIngredientName(ingredient);
+  const flags = getIngredientFlags(name);
+
+  customAllergies.forEach(allergy => {
+    const term = allergy.replace(/s$/, '');
+    if (containsTerm(name, term)) {
+      flags.allergens.set(allergy, name);
+    }
+  });
+
+  return flags;
+}
+
+/**
+ * Finds the dictionary term that puts an ingredient in conflict with an
+ * allergy or restriction, if any
+ */
+function findConflict(
+  flags: IngredientFlags,
+  type: ComplianceViolation['type'],
+  rule: string
+): string | undefined {
+  if (type === 'allergen') {
+    return flags.allergens.get(rule);
+  }
+
+  const restriction = RESTRICTION_RULES[rule as DietaryRestriction];
+  if (!restriction) return undefined;
+  return restriction.allergens.map(allergen => flags.allergens.get(allergen)).find(Boolean)
+    || restriction.tags.map(tag => flags.tags.get(tag)).find(Boolean);
+}
+
+/**
+ * Checks every ingredient of a recipe against the user's allergies and
+ * restrictions. Deterministic: the same recipe and preferences always
+ * produce the same report.
+ */
+export function checkRecipeCompliance(
+  recipe: Recipe,
+  preferences: Pick<DietaryPreferences, 'restrictions' | 'allergies'>
+): ComplianceReport {
+  const allergies = preferences.allergies.map(allergy => allergy.trim().toLowerCase());
+  const restrictions = preferences.restrictions.map(restriction => restriction.trim().toLowerCase());
+  const customAllergies = allergies.filter(allergy => !KNOWN_ALLERGENS.includes(allergy as DietaryAllergies));
+
+  const violations: ComplianceViolation[] = [];
+  const detectedAllergens = new Set<string>();
+  const unverified = restrictions.filter(restriction => !RESTRICTION_RULES[restriction as DietaryRestriction]);
+
+  const ingredients: { ingredient: string; substitutions: IngredientSubstitution[] }[] = [
+    ...recipe.currentIngredients.map((ingredient, index) => ({
+      ingredient,
+      substitutions: recipe.currentSubstitutions?.[index] || [],
+    })),
+    ...recipe.extraIngredients.map(ingredient => ({
+      ingredient: ingredient.item,
+      substitutions: ingredient.substitutions || [],
+    })),
+  ];
+
+  ingredients.forEach(({ ingredient, substitutions }) => {
+    const flags = getComplianceFlags(ingredient, customAllergies);
+    flags.allergens.forEach((_, allergen) => detectedAllergens.add(allergen));
+
+    const rules: [ComplianceViolation['type'], string][] = [
+      ...allergies.map(allergy => ['allergen', allergy] as [ComplianceViolation['type'], string]),
+      ...restrictions.map(restriction => ['restriction', restriction] as [ComplianceViolation['type'], string]),
+    ];
+
+    rules.forEach(([type, rule]) => {
+      const matched = findConflict(flags, type, rule);
+      if (!matched) return;
+
+      // Only an alternative that doesn't have the same problem counts
+      const hasSubstitute = substitutions.some(
+        substitution => !findConflict(getComplianceFlags(substitution.alternative, customAllergies), type, rule)
+      );
+      violations.push({ ingredient, type, rule, matched, hasSubstitute });
+    });
+  });
+
+  return {
+    compliant: violations.length === 0,
+    checkedAllergies: allergies,
+    checkedRestrictions: restrictions.filter(restriction => !unverified.includes(restriction)),
+    unverified,
+    violations,
+    detectedAllergens: Array.from(detectedAllergens),
+  };
+}
+
+/**
+ * Attaches a compliance report to the recipe and corrects its dietary claims:
+ * restrictions the ingredients break and allergens they contain are removed
+ * from what the model said the recipe is compatible with.
+ */
+export function applyCompliance(
+  recipe: Recipe,
+  preferences: Pick<DietaryPreferences, 'restrictions' | 'allergies'>
+): Recipe {
+  const compliance = checkRecipeCompliance(recipe, preferences);
+
+  // Re-check the model's own claims, not just what the user asked for
+  const claims = checkRecipeCompliance(recipe, {
+    restrictions: recipe.dietaryInfo.restrictions,
+    allergies: [],
+  });
+  const brokenClaims = new Set(claims.violations.map(violation => violation.rule));
+
+  return {
+    ...recipe,
+    dietaryInfo: {
+      ...recipe.dietaryInfo,
+      restrictions: recipe.dietaryInfo.restrictions.filter(
+        restriction => !brokenClaims.has(restriction.trim().toLowerCase())
+      ),
+      allergens: recipe.dietaryInfo.allergens.filter(
+        allergen => !compliance.detectedAllergens.includes(allergen.trim().toLowerCase())
+      ),
+    },
+    compliance,
+  };
+}
+
+/**
+ * Short human-readable description of a violation, e.g. "butter contains milk"
+ */
+export function describeViolation(violation: ComplianceViolation): string {
+  return violation.type === 'allergen'
+    ? `${violation.matched} contains ${violation.rule}`
+    : `${violation.matched} is not ${violation.rule}`;
+}
+
+/**
+ * Labels shown as dietary badges: the restrictions, then the diet plans
+ */
+export function getDietaryBadges(recipe: Pick<Recipe, 'dietaryInfo'>): string[] {
+  return [...recipe.dietaryInfo.restrictions, ...(recipe.dietaryInfo.preferences || [])];
+}
+
+/**
+ * Sorts a dietary label from the model into a restriction ("vegan",
+ * "low-carb") or an allergen the recipe is free of ("peanut-free" -> peanuts)
+ */
+export function classifyDietaryLabel(label: string): { kind: 'restriction' | 'allergen'; value: string } {
+  const text = label.trim().toLowerCase();
+  if (RESTRICTION_RULES[text as DietaryRestriction]) {
+    return { kind: 'restriction', value: text };
+  }
+
+  const freeOf = text.match(/^(.+?)[\s-]*free$/) || text.match(/^free (?:of|from) (.+)$/);
+  const base = freeOf ? freeOf[1] : text;
+  const allergen = KNOWN_ALLERGENS.find(known => known === base || known.replace(/s$/, '') === base);
+  if (allergen) {
+    return { kind: 'allergen', value: allergen };
+  }
+
+  return { kind: 'restriction', value: text };
+}
@@ -0,0 +1,49 @@
+import { parseIngredientLine } from '@/utils/ingredientSubstitutions';
+
+const patternCache = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match that also accepts simple plurals, as in pantryCoverage
+function getNamePattern(name: string): RegExp {
+  let pattern = patternCache.get(name);
+  if (!pattern) {
+    pattern = new RegExp(`\\b${escapeRegExp(name)}(s|es)?\\b`, 'g');
+    patternCache.set(name, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+/**
+ * The ingredient part of a name or line without substitution notes or
+ * notes like "(15 oz can)", which would match other foods
+ */
+export function cleanIngredientName(name: string): string {
+  return parseIngredientLine(name).name.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Which of the table names an ingredient is. The match latest in the name
+ * wins, as the last word is usually the food ("chicken broth" is broth,
+ * "garlic butter" is butter), then the longest ("olive oil" over "oil").
+ */
+export function findTableEntry(ingredient: string, names: string[]): string | null {
+  const text = ingredient.toLowerCase();
+  let best: { name: string; end: number } | null = null;
+
+  for (const name of names) {
+    const pattern = getNamePattern(name);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const end = match.index + match[0].length;
+      if (!best || end > best.end || (end === best.end && name.length > best.name.length)) {
+        best = { name, end };
+      }
+    }
+  }
+
+  return best ? best.name : null;
+}
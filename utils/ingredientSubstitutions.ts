@@ -0,0 +1,172 @@
+import { Recipe, IngredientSubstitution } from '@/types/recipe';
+import { DietaryAllergies, DietaryRestriction } from '@/types/dietary';
+import { DIETARY_RESTRICTIONS } from '@/constants/RecipeOptions';
+import { KNOWN_ALLERGENS } from '@/constants/IngredientDictionary';
+import { applyCompliance } from '@/utils/dietaryCompliance';
+
+export interface ParsedIngredientLine {
+  // The ingredient with its substitution notes removed
+  name: string;
+  substitutions: IngredientSubstitution[];
+}
+
+// Which ingredient list, and where in it, a swap applies to
+export interface IngredientRef {
+  list: 'current' | 'extra';
+  index: number;
+}
+
+// Notes that mean "use this if you can't get the original"
+const AVAILABILITY_PATTERN = /unavailable|can'?t find|cannot find|don'?t have|on hand|in season|availab|cheaper|budget/;
+
+// Notes or alternatives that point at a diet or allergy
+const DIETARY_PATTERN = /\b(vegan|vegetarian|plant-based|dairy|lactose|gluten|celiac|nut|nuts|egg|eggs|soy|shellfish|allerg\w*|kosher|halal|keto|paleo|low-carb|low-fat|low-sodium|diet\w*)\b|-free\b/;
+
+// Opening words of a parenthetical that offers an alternative
+const SUBSTITUTION_PREFIX = /^\s*(?:or|sub|substitute|swap)\b:?\s*/i;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function classifyReason(alternative: string, note?: string): IngredientSubstitution['reason'] {
+  const text = (note || '').toLowerCase();
+  if (AVAILABILITY_PATTERN.test(text)) return 'availability';
+  if (DIETARY_PATTERN.test(text) || DIETARY_PATTERN.test(alternative.toLowerCase())) return 'dietary';
+  return 'availability';
+}
+
+/**
+ * Parses the inside of a substitution parenthetical, e.g.
+ * "or olive oil for dairy-free, +$0.50" or "or white beans or lentils"
+ */
+function parseSubstitutionNote(text: string): IngredientSubstitution[] {
+  let body = text.replace(SUBSTITUTION_PREFIX, '');
+
+  // Cost change, written as "+$0.50" or "-$1"
+  let costDelta = 0;
+  const cost = body.match(/([+-])\s*\$\s*(\d+(?:\.\d+)?)/);
+  if (cost) {
+    costDelta = parseFloat(cost[2]) * (cost[1] === '-' ? -1 : 1);
+    body = body.replace(cost[0], '');
+  }
+  body = body.replace(/[,;\s]+$/, '').trim();
+
+  return body
+    .split(/\s+or\s+/i)
+    .map(option => {
+      const qualified = option.match(/^(.*?)\s+((?:for|if)\s+.+)$/i);
+      const alternative = (qualified ? qualified[1] : option).replace(/[,;]+$/, '').trim();
+      // "for dairy-free" -> "dairy-free", but keep "if unavailable" as written
+      const note = qualified ? qualified[2].replace(/^for\s+/i, '').trim() : undefined;
+      return { alternative, note };
+    })
+    .filter(option => option.alternative)
+    .map(({ alternative, note }) => ({
+      alternative,
+      reason: classifyReason(alternative, note),
+      ...(note ? { note } : {}),
+      costDelta,
+    }));
+}
+
+/**
+ * Splits an ingredient line like "butter (or olive oil for dairy-free, +$0.50)"
+ * into the ingredient and its structured substitutions. Parentheticals that
+ * aren't substitutions, such as "(15 oz can)", stay in the name.
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const substitutions: IngredientSubstitution[] = [];
+
+  const name = line
+    .replace(/\(([^)]*)\)/g, (group, inner: string) => {
+      if (!SUBSTITUTION_PREFIX.test(inner)) return group;
+      substitutions.push(...parseSubstitutionNote(inner));
+      return '';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { name, substitutions };
+}
+
+/**
+ * Swaps an ingredient for one of its substitutions. The cost is adjusted by
+ * the substitution's cost delta, the original becomes a substitution so the
+ * swap can be undone, and the dietary badges and compliance report are
+ * recomputed against the same allergies and restrictions as before.
+ */
+export function swapIngredient(
+  recipe: Recipe,
+  ref: IngredientRef,
+  substitution: IngredientSubstitution
+): Recipe {
+  const original = ref.list === 'current'
+    ? recipe.currentIngredients[ref.index]
+    : recipe.extraIngredients[ref.index]?.item;
+  if (original === undefined) return recipe;
+
+  const existing = ref.list === 'current'
+    ? recipe.currentSubstitutions?.[ref.index] || []
+    : recipe.extraIngredients[ref.index].substitutions || [];
+  const substitutions: IngredientSubstitution[] = [
+    { alternative: original, reason: substitution.reason, note: 'original', costDelta: -substitution.costDelta },
+    ...existing.filter(option => option !== substitution && option.alternative !== substitution.alternative),
+  ];
+
+  let swapped: Recipe;
+  if (ref.list === 'current') {
+    const currentSubstitutions = recipe.currentIngredients.map(
+      (_, index) => recipe.currentSubstitutions?.[index] || []
+    );
+    currentSubstitutions[ref.index] = substitutions;
+    swapped = {
+      ...recipe,
+      currentIngredients: recipe.currentIngredients.map(
+        (ingredient, index) => (index === ref.index ? substitution.alternative : ingredient)
+      ),
+      currentSubstitutions,
+    };
+  } else {
+    swapped = {
+      ...recipe,
+      extraIngredients: recipe.extraIngredients.map((ingredient, index) => (
+        index === ref.index
+          ? {
+            ...ingredient,
+            item: substitution.alternative,
+            cost: roundCents(Math.max(ingredient.cost + substitution.costDelta, 0)),
+            substitutions,
+          }
+          : ingredient
+      )),
+    };
+  }
+  swapped.extraIngredientsCost = roundCents(Math.max(recipe.extraIngredientsCost + substitution.costDelta, 0));
+
+  const previous = recipe.compliance;
+  const checked = applyCompliance(swapped, {
+    restrictions: [...(previous?.checkedRestrictions || []), ...(previous?.unverified || [])] as DietaryRestriction[],
+    allergies: (previous?.checkedAllergies || []) as DietaryAllergies[],
+  });
+  if (!previous || !checked.compliance) return checked;
+
+  // Rules the swap fixed get their badge back
+  const stillBroken = new Set(checked.compliance.violations.map(violation => violation.rule));
+  const fixed = previous.violations.filter(violation => !stillBroken.has(violation.rule));
+  const restrictions = new Set(checked.dietaryInfo.restrictions);
+  const allergens = new Set(checked.dietaryInfo.allergens);
+  // Custom allergies and restrictions have no badge
+  fixed.forEach(violation => {
+    if (violation.type === 'restriction' && DIETARY_RESTRICTIONS.includes(violation.rule as DietaryRestriction)) {
+      restrictions.add(violation.rule as DietaryRestriction);
+    } else if (violation.type === 'allergen' && KNOWN_ALLERGENS.includes(violation.rule as DietaryAllergies)) {
+      allergens.add(violation.rule as DietaryAllergies);
+    }
+  });
+
+  return {
+    ...checked,
+    dietaryInfo: { ...checked.dietaryInfo, restrictions: Array.from(restrictions), allergens: Array.from(allergens) },
+  };
+}
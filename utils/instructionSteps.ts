@@ -0,0 +1,150 @@
+import { Recipe, InstructionStep } from '@/types/recipe';
+import { normalizeIngredientName } from '@/utils/recipeSimilarity';
+
+// Utensils looked for in steps that don't list them
+const KNOWN_UTENSILS = [
+  'baking dish', 'baking sheet', 'blender', 'colander', 'cutting board', 'dutch oven', 'food processor',
+  'grater', 'knife', 'ladle', 'lid', 'mixing bowl', 'oven mitt', 'pan', 'peeler', 'pot', 'rolling pin',
+  'saucepan', 'sieve', 'skillet', 'slotted spoon', 'spatula', 'strainer', 'thermometer', 'tongs',
+  'whisk', 'wok', 'wooden spoon',
+];
+
+// Hazards looked for in steps that don't list warnings
+const KNOWN_WARNINGS = [
+  'hot oil', 'hot pan', 'hot oven', 'boiling water', 'steam', 'splatter', 'sputtering',
+  'sharp knife', 'raw chicken', 'raw meat', 'raw eggs',
+];
+
+// Ingredient head words too vague to match on their own ("sesame oil" -> "oil")
+const GENERIC_HEADS = new Set(['oil', 'sauce', 'powder', 'juice', 'paste', 'stock', 'broth', 'leaves', 'water']);
+
+// Step durations may run a little over the total before it counts as a mismatch
+const STEP_TIME_TOLERANCE_MINUTES = 5;
+const STEP_TIME_TOLERANCE_RATIO = 0.2;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}(s|es)?\\b`, 'i').test(text);
+}
+
+function splitList(value: string): string[] {
+  return value.split(/,|;|\band\b/).map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Reads minutes from "10 minutes", "5-7 mins" (the upper bound) or "1 hour"
+ */
+export function parseDurationMinutes(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(minutes?|mins?|hours?|hrs?)\b/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[2] || match[1]);
+  return /^h/i.test(match[3]) ? Math.round(amount * 60) : Math.round(amount);
+}
+
+/**
+ * Finds which of the recipe's ingredients a step mentions
+ */
+export function findReferencedIngredients(text: string, ingredients: string[]): string[] {
+  return ingredients.filter(ingredient => {
+    const name = normalizeIngredientName(ingredient);
+    if (!name) return false;
+    if (mentions(text, name)) return true;
+
+    const head = name.split(' ').pop() || '';
+    return head !== name && head.length > 2 && !GENERIC_HEADS.has(head) && mentions(text, head);
+  });
+}
+
+/**
+ * Parses one instruction string into a step. "(Time: ...)", "(Warning: ...)"
+ * and "(Utensils: ...)" notes are read and removed from the text; without
+ * them, durations, hazards and utensils are picked out of the wording.
+ */
+export function parseInstructionStep(instruction: string, ingredients: string[] = []): InstructionStep {
+  let durationMinutes: number | null = null;
+  let warnings: string[] | null = null;
+  let utensils: string[] | null = null;
+
+  const text = instruction
+    .replace(/\(\s*(time|warnings?|utensils?|tools?)\s*:\s*([^)]*)\)/gi, (_, label: string, value: string) => {
+      const kind = label.toLowerCase();
+      if (kind === 'time') {
+        durationMinutes = parseDurationMinutes(value);
+      } else if (kind.startsWith('warning')) {
+        warnings = [...(warnings || []), ...splitList(value)];
+      } else {
+        utensils = [...(utensils || []), ...splitList(value)];
+      }
+      return '';
+    })
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;!])/g, '$1')
+    .trim();
+
+  return {
+    text,
+    durationMinutes: durationMinutes ?? parseDurationMinutes(text),
+    warnings: warnings || KNOWN_WARNINGS.filter(warning => mentions(text, warning)),
+    utensils: utensils || KNOWN_UTENSILS.filter(utensil => mentions(text, utensil)),
+    ingredients: findReferencedIngredients(text, ingredients),
+  };
+}
+
+/**
+ * Builds structured steps from a recipe's instruction strings
+ */
+export function buildInstructionSteps(recipe: Pick<Recipe, 'instructions' | 'currentIngredients' | 'extraIngredients'>): InstructionStep[] {
+  const ingredients = [...recipe.currentIngredients, ...recipe.extraIngredients.map(ingredient => ingredient.item)];
+  return recipe.instructions.map(instruction => parseInstructionStep(instruction, ingredients));
+}
+
+/**
+ * Adds structured steps to recipes saved before they existed
+ */
+export function withInstructionSteps(recipe: Recipe): Recipe {
+  return recipe.steps ? recipe : { ...recipe, steps: buildInstructionSteps(recipe) };
+}
+
+/**
+ * "10 prep · 20 cook" when the recipe splits its time, otherwise ''
+ */
+export function formatTimeSplit(recipe: Pick<Recipe, 'prepTime' | 'cookTime'>): string {
+  const parts = [
+    ...(recipe.prepTime !== undefined ? [`${recipe.prepTime} prep`] : []),
+    ...(recipe.cookTime !== undefined ? [`${recipe.cookTime} cook`] : []),
+  ];
+  return parts.join(' · ');
+}
+
+export interface StepTimeCheck {
+  // Sum of the steps that state a duration
+  stepMinutes: number;
+  timeEstimate: number;
+  // 'unknown' when no step states a duration
+  status: 'ok' | 'over' | 'under' | 'unknown';
+}
+
+/**
+ * Compares the step durations with the recipe's total time estimate.
+ * Steps running over means the estimate is too low; steps covering less
+ * than half of it usually means untimed steps or a padded estimate.
+ */
+export function checkStepDurations(steps: InstructionStep[], timeEstimate: number): StepTimeCheck {
+  const timed = steps.filter(step => step.durationMinutes !== null);
+  const stepMinutes = timed.reduce((total, step) => total + (step.durationMinutes || 0), 0);
+
+  let status: StepTimeCheck['status'] = 'ok';
+  if (timed.length === 0) {
+    status = 'unknown';
+  } else if (stepMinutes > timeEstimate + Math.max(STEP_TIME_TOLERANCE_MINUTES, timeEstimate * STEP_TIME_TOLERANCE_RATIO)) {
+    status = 'over';
+  } else if (timed.length === steps.length && stepMinutes < timeEstimate / 2) {
+    status = 'under';
+  }
+
+  return { stepMinutes, timeEstimate, status };
+}
@@ -0,0 +1,94 @@
+import { Recipe } from '@/types/recipe';
+import { DietaryRestriction, DietaryAllergies, DietaryPlan } from '@/types/dietary';
+import {
+  RECIPE_SCHEMA_VERSION,
+  RecipeValidationResult,
+  isRecord,
+  normalizeDietaryInfo,
+  validateRecipe,
+} from '@/utils/recipeSchema';
+
+/**
+ * The retired recipe shape that used to live in types/dietary: a title
+ * instead of a name, prep and cook times, and calories as the only
+ * nutrition
+ */
+export interface LegacyDietaryRecipe {
+  id: string;
+  title: string;
+  description: string;
+  ingredients: string[];
+  instructions: string[];
+  dietaryInfo: {
+    restrictions: DietaryRestriction[];
+    allergens: DietaryAllergies[];
+    preferences: DietaryPlan[];
+  };
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  calories: number;
+  imageUrl?: string;
+}
+
+export function isLegacyDietaryRecipe(value: unknown): value is LegacyDietaryRecipe {
+  return isRecord(value)
+    && typeof value.title === 'string'
+    && Array.isArray(value.ingredients)
+    && value.name === undefined;
+}
+
+/**
+ * Converts an old-shape recipe through validateRecipe. Its ingredients
+ * have no amounts or costs, so they become the user's own ingredients, and
+ * nutrients other than calories are reported as repaired to 0.
+ */
+export function fromLegacyDietaryRecipe(legacy: LegacyDietaryRecipe): RecipeValidationResult {
+  return validateRecipe({
+    id: legacy.id,
+    name: legacy.title,
+    description: legacy.description,
+    imageUrl: legacy.imageUrl,
+    difficulty: legacy.prepTime + legacy.cookTime <= 30 ? 'Beginner' : 'Intermediate',
+    timeEstimate: legacy.prepTime + legacy.cookTime,
+    prepTime: legacy.prepTime,
+    cookTime: legacy.cookTime,
+    extraIngredientsCost: 0,
+    currentIngredients: legacy.ingredients,
+    extraIngredients: [],
+    instructions: legacy.instructions,
+    dietaryInfo: legacy.dietaryInfo,
+    nutritionInfo: { calories: legacy.calories, servings: legacy.servings },
+  });
+}
+
+/**
+ * Brings a stored recipe up to RECIPE_SCHEMA_VERSION. Old-shape recipes
+ * are converted; recipes from before versioning only need their free-text
+ * dietary labels typed. Returns null when the value can't be read as a
+ * recipe at all.
+ */
+export function upgradeRecipe(value: unknown): Recipe | null {
+  if (isLegacyDietaryRecipe(value)) {
+    const result = fromLegacyDietaryRecipe(value);
+    return result.valid ? result.recipe : null;
+  }
+  if (
+    !isRecord(value)
+    || typeof value.name !== 'string'
+    || !Array.isArray(value.currentIngredients)
+    || !Array.isArray(value.instructions)
+  ) {
+    return null;
+  }
+
+  const recipe = value as Recipe;
+  if ((recipe.schemaVersion ?? 1) >= RECIPE_SCHEMA_VERSION) return recipe;
+
+  // Version 1: dietary labels were whatever the model wrote
+  return {
+    ...recipe,
+    schemaVersion: RECIPE_SCHEMA_VERSION,
+    dietaryInfo: normalizeDietaryInfo(recipe.dietaryInfo).dietaryInfo,
+  };
+}
@@ -0,0 +1,50 @@
+import { LLM_PRICE_TABLE, LLMModelPrice } from '@/constants/LLMPricing';
+import { LLMUsage } from '@/services/llmProvider';
+
+let priceTable: Record<string, LLMModelPrice> | null = null;
+
+/**
+ * The built-in price table with any EXPO_PUBLIC_LLM_PRICES overrides applied
+ */
+function getPriceTable(): Record<string, LLMModelPrice> {
+  if (priceTable) return priceTable;
+
+  priceTable = { ...LLM_PRICE_TABLE };
+  const overrides = process.env.EXPO_PUBLIC_LLM_PRICES;
+  if (overrides) {
+    try {
+      Object.assign(priceTable, JSON.parse(overrides));
+    } catch (error) {
+      console.error('Ignoring invalid EXPO_PUBLIC_LLM_PRICES:', error);
+    }
+  }
+  return priceTable;
+}
+
+export function getModelPrice(model: string): LLMModelPrice | null {
+  return getPriceTable()[model] || null;
+}
+
+/**
+ * Estimated cost of a call in USD, or null when the model has no price
+ */
+export function estimateLLMCost(model: string, usage: LLMUsage): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  // Sub-cent precision matters when summed over many generations
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Adds up the usage of several calls, e.g. a batch and its replacement round
+ */
+export function addUsage(total: LLMUsage, usage?: LLMUsage): LLMUsage {
+  return usage
+    ? {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+    }
+    : total;
+}
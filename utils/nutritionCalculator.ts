@@ -0,0 +1,181 @@
+import { Recipe, NutrientField, NutritionDiscrepancy, NutritionEstimate, NutritionSource } from '@/types/recipe';
+import {
+  FoodNutrition,
+  NUTRITION_DATABASE,
+  NUTRIENT_FIELDS,
+  GRAMS_PER_COUNT_UNIT,
+  NUTRITION_MIN_COVERAGE,
+  NUTRITION_DISCREPANCY_TOLERANCE,
+  NUTRITION_DISCREPANCY_MIN,
+} from '@/constants/NutritionDatabase';
+import { GRAMS_PER_UNIT, MILLILITRES_PER_UNIT } from '@/constants/Units';
+import { NUTRITION_TARGET_FIELDS } from '@/constants/NutritionTargets';
+import { Quantity, parseQuantity } from '@/utils/quantity';
+import { findIngredientDensity } from '@/utils/units';
+import { cleanIngredientName, findTableEntry } from '@/utils/ingredientNames';
+import { getRecipeServings } from '@/utils/recipeScaling';
+import { USDA_FOODS } from '@/utils/usdaFoods';
+
+export interface ComputedNutrition {
+  // Per serving, rounded
+  perServing: Record<NutrientField, number>;
+  // 0-100
+  coverage: number;
+  unmatched: string[];
+}
+
+const FOOD_NAMES = Object.keys(NUTRITION_DATABASE);
+const USDA_FOOD_NAMES = Object.keys(USDA_FOODS);
+
+function emptyNutrients(): Record<NutrientField, number> {
+  return { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 0 };
+}
+
+/**
+ * Table entry for an ingredient name, see findTableEntry. The hand-picked
+ * table goes first, as its names are the ones recipes use; the USDA foods
+ * fill in everything it doesn't list.
+ */
+export function findFood(ingredient: string): FoodNutrition | null {
+  const name = findTableEntry(ingredient, FOOD_NAMES);
+  if (name) return NUTRITION_DATABASE[name];
+
+  const usdaName = findTableEntry(ingredient, USDA_FOOD_NAMES);
+  return usdaName ? USDA_FOODS[usdaName] : null;
+}
+
+/**
+ * Weight in grams of a parsed amount of the given food, or null when the
+ * amount can't be weighed (e.g. "1 medium" of something without a piece weight)
+ */
+export function estimateGrams(
+  quantity: Quantity,
+  ingredient: string,
+  food: Pick<FoodNutrition, 'gramsPerPiece' | 'gramsPerMl'>
+): number | null {
+  const { unit, value } = quantity;
+  if (!unit) {
+    return food.gramsPerPiece ? value * food.gramsPerPiece : null;
+  }
+  if (GRAMS_PER_UNIT[unit] !== undefined) {
+    return value * GRAMS_PER_UNIT[unit];
+  }
+  if (MILLILITRES_PER_UNIT[unit] !== undefined) {
+    const density = food.gramsPerMl
+      ?? (findIngredientDensity(ingredient)?.gramsPerCup ?? MILLILITRES_PER_UNIT.cup) / MILLILITRES_PER_UNIT.cup;
+    return value * MILLILITRES_PER_UNIT[unit] * density;
+  }
+  if (unit === 'piece' && food.gramsPerPiece) {
+    return value * food.gramsPerPiece;
+  }
+  return GRAMS_PER_COUNT_UNIT[unit] !== undefined ? value * GRAMS_PER_COUNT_UNIT[unit] : null;
+}
+
+/**
+ * Adds up the recipe's nutrition from the local table, using the amounts
+ * in the ingredient lines. Lines without an amount or a table entry are
+ * left out and listed as unmatched.
+ */
+export function computeNutrition(recipe: Recipe): ComputedNutrition {
+  const lines = [
+    ...recipe.currentIngredients.map(line => ({ line, amount: line, name: '' })),
+    ...recipe.extraIngredients.map(ingredient => ({
+      line: `${ingredient.amount} ${ingredient.item}`.trim(),
+      amount: ingredient.amount,
+      name: ingredient.item,
+    })),
+  ];
+
+  const totals = emptyNutrients();
+  const unmatched: string[] = [];
+
+  lines.forEach(({ line, amount, name }) => {
+    const quantity = parseQuantity(amount);
+    const ingredient = cleanIngredientName(name || quantity?.rest || line);
+    const food = findFood(ingredient);
+    const grams = quantity && food ? estimateGrams(quantity, ingredient, food) : null;
+    if (!food || grams === null) {
+      unmatched.push(line);
+      return;
+    }
+    NUTRIENT_FIELDS.forEach(field => {
+      totals[field] += (food[field] * grams) / 100;
+    });
+  });
+
+  const servings = getRecipeServings(recipe);
+  const perServing = emptyNutrients();
+  NUTRIENT_FIELDS.forEach(field => {
+    perServing[field] = Math.round(totals[field] / servings);
+  });
+
+  return {
+    perServing,
+    coverage: lines.length > 0 ? Math.round(((lines.length - unmatched.length) / lines.length) * 100) : 0,
+    unmatched,
+  };
+}
+
+/**
+ * Checks the model's nutritionInfo against the computed numbers. With
+ * enough of the ingredients matched the computed numbers are used, and
+ * nutrients where the two differ by more than the tolerance are flagged.
+ */
+export function reconcileNutrition(recipe: Recipe): NutritionEstimate {
+  const estimated = emptyNutrients();
+  NUTRIENT_FIELDS.forEach(field => {
+    // Re-checking keeps the model's numbers rather than the reconciled ones
+    estimated[field] = recipe.nutritionEstimate?.estimated[field] ?? recipe.nutritionInfo[field] ?? 0;
+  });
+
+  const { perServing, coverage, unmatched } = computeNutrition(recipe);
+  const usable = coverage >= NUTRITION_MIN_COVERAGE;
+  const source: NutritionSource = usable ? 'computed' : 'estimated';
+  const sources = {} as Record<NutrientField, NutritionSource>;
+  const discrepancies: NutritionDiscrepancy[] = [];
+
+  NUTRIENT_FIELDS.forEach(field => {
+    sources[field] = source;
+    if (!usable) return;
+
+    const difference = Math.abs(perServing[field] - estimated[field]);
+    const larger = Math.max(perServing[field], estimated[field]);
+    if (difference >= NUTRITION_DISCREPANCY_MIN[field] && difference / larger > NUTRITION_DISCREPANCY_TOLERANCE) {
+      discrepancies.push({ field, computed: perServing[field], estimated: estimated[field] });
+    }
+  });
+
+  return {
+    sources,
+    estimated,
+    computed: usable ? perServing : null,
+    coverage,
+    unmatched,
+    discrepancies,
+  };
+}
+
+/**
+ * Reconciles the recipe's nutrition and records how, replacing the model's
+ * numbers with computed ones where there were enough matched ingredients
+ */
+export function applyComputedNutrition(recipe: Recipe): Recipe {
+  const nutritionEstimate = reconcileNutrition(recipe);
+  const nutritionInfo = { ...recipe.nutritionInfo };
+  NUTRIENT_FIELDS.forEach(field => {
+    nutritionInfo[field] = nutritionEstimate.sources[field] === 'computed'
+      ? (nutritionEstimate.computed as Record<NutrientField, number>)[field]
+      : nutritionEstimate.estimated[field];
+  });
+  return { ...recipe, nutritionInfo, nutritionEstimate };
+}
+
+/**
+ * "Calories: recipe said 620 kcal, ingredients add up to 450 kcal"
+ */
+export function describeNutritionDiscrepancy(discrepancy: NutritionDiscrepancy): string {
+  const entry = NUTRITION_TARGET_FIELDS.find(({ field }) => field === discrepancy.field);
+  const unit = entry?.unit || '';
+  const format = (amount: number) => (unit === 'kcal' ? `${amount} ${unit}` : `${amount}${unit}`);
+  return `${entry?.label || discrepancy.field}: recipe said ${format(discrepancy.estimated)}, ingredients add up to ${format(discrepancy.computed)}`;
+}
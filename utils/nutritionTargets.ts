@@ -0,0 +1,103 @@
+import { Recipe, NutritionField, NutritionTargets } from '@/types/recipe';
+import { NUTRITION_TARGET_FIELDS, NUTRITION_TARGET_TOLERANCE } from '@/constants/NutritionTargets';
+
+export interface NutritionTargetMiss {
+  field: NutritionField;
+  value: number;
+  bound: 'min' | 'max';
+  target: number;
+}
+
+export interface NutritionTargetCheck {
+  // 0-100; 100 when every target is met
+  score: number;
+  // Targets missed by more than the tolerance
+  misses: NutritionTargetMiss[];
+}
+
+function isSet(value: number | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// "40g", "600 kcal" or "4 servings"
+function formatValue(field: NutritionField, amount: number): string {
+  const unit = NUTRITION_TARGET_FIELDS.find(entry => entry.field === field)?.unit || '';
+  if (field === 'servings') return `${amount} servings`;
+  if (field === 'calories') return `${amount} ${unit}`;
+  return `${amount}${unit}`;
+}
+
+// "40g protein", "600 kcal" or "4 servings"
+function formatAmount(field: NutritionField, amount: number): string {
+  return field === 'calories' || field === 'servings'
+    ? formatValue(field, amount)
+    : `${formatValue(field, amount)} ${field}`;
+}
+
+/**
+ * Targets with at least one bound, in display order
+ */
+export function getActiveNutritionTargets(targets: NutritionTargets = {}) {
+  return NUTRITION_TARGET_FIELDS
+    .map(({ field }) => ({ field, range: targets[field] }))
+    .filter(({ range }) => isSet(range?.min) || isSet(range?.max));
+}
+
+export function countNutritionTargets(targets?: NutritionTargets): number {
+  return getActiveNutritionTargets(targets).length;
+}
+
+/**
+ * "at least 40g protein, at most 600 kcal" for the prompt
+ */
+export function describeNutritionTargets(targets: NutritionTargets): string {
+  return getActiveNutritionTargets(targets).map(({ field, range }) => {
+    const { min, max } = range || {};
+    if (isSet(min) && isSet(max)) {
+      return `between ${min} and ${formatAmount(field, max)}`;
+    }
+    return isSet(min) ? `at least ${formatAmount(field, min)}` : `at most ${formatAmount(field, max as number)}`;
+  }).join(', ');
+}
+
+export function describeNutritionMiss(miss: NutritionTargetMiss): string {
+  return `Has ${formatAmount(miss.field, miss.value)}, ${miss.bound === 'min' ? 'below' : 'above'} the ${formatValue(miss.field, miss.target)} target`;
+}
+
+/**
+ * Scores a recipe's nutritionInfo against the targets. Each target scores 1
+ * when met and falls off linearly with the distance outside it, reaching 0
+ * at double (or nothing of) the target.
+ */
+export function checkNutritionTargets(recipe: Recipe, targets: NutritionTargets): NutritionTargetCheck {
+  const active = getActiveNutritionTargets(targets);
+  if (active.length === 0) return { score: 100, misses: [] };
+
+  const misses: NutritionTargetMiss[] = [];
+  let total = 0;
+
+  active.forEach(({ field, range }) => {
+    const value = recipe.nutritionInfo[field];
+    const { min, max } = range || {};
+    let shortfall = 0;
+    let bound: 'min' | 'max' | null = null;
+    let target = 0;
+
+    if (isSet(min) && value < min) {
+      shortfall = min > 0 ? (min - value) / min : 0;
+      bound = 'min';
+      target = min;
+    } else if (isSet(max) && value > max) {
+      shortfall = max > 0 ? (value - max) / max : 1;
+      bound = 'max';
+      target = max;
+    }
+
+    total += Math.max(0, 1 - shortfall);
+    if (bound && shortfall > NUTRITION_TARGET_TOLERANCE) {
+      misses.push({ field, value, bound, target });
+    }
+  });
+
+  return { score: Math.round((total / active.length) * 100), misses };
+}
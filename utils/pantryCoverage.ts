@@ -0,0 +1,59 @@
+import { Recipe } from '@/types/recipe';
+import { normalizeIngredientName } from '@/utils/recipeSimilarity';
+import { isSameIngredient, isDifferentIngredient } from '@/utils/canonicalIngredients';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match that also accepts simple plurals ("tomato" matches "tomatoes")
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}(s|es)?\\b`).test(text);
+}
+
+/**
+ * Normalizes what the user has on hand for matching against recipe ingredients
+ */
+export function normalizeAvailableIngredients(items: string[]): string[] {
+  return Array.from(new Set(items.map(normalizeIngredientName).filter(Boolean)));
+}
+
+/**
+ * True when the ingredient line is one of the available items: the same
+ * ingredient under another name ("scallions" for "green onions"), or
+ * either way round: "chicken" is covered by "chicken breast" and vice versa.
+ * Known ingredients that only share a word ("garlic powder" and "garlic")
+ * don't cover each other.
+ */
+export function isIngredientAvailable(ingredient: string, available: string[]): boolean {
+  const name = normalizeIngredientName(ingredient);
+  if (!name) return false;
+  return available.some(item =>
+    isSameIngredient(name, item)
+    || (!isDifferentIngredient(name, item) && (containsTerm(name, item) || containsTerm(item, name)))
+  );
+}
+
+/**
+ * Extra ingredients that aren't covered by the available items, i.e. what
+ * the user would still have to buy
+ */
+export function getMissingExtras(recipe: Recipe, available: string[]): string[] {
+  return recipe.extraIngredients
+    .map(ingredient => ingredient.item)
+    .filter(item => !isIngredientAvailable(item, available));
+}
+
+/**
+ * Percentage (0-100) of the recipe's ingredients the user already has
+ */
+export function getPantryCoverage(recipe: Recipe, available: string[]): number {
+  const ingredients = [
+    ...recipe.currentIngredients,
+    ...recipe.extraIngredients.map(ingredient => ingredient.item),
+  ].filter(ingredient => normalizeIngredientName(ingredient));
+  if (ingredients.length === 0) return 0;
+
+  const covered = ingredients.filter(ingredient => isIngredientAvailable(ingredient, available)).length;
+  return Math.round((covered / ingredients.length) * 100);
+}
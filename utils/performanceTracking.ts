@@ -1,3 +1,4 @@
+import React from 'react';
 import { trackPerformanceMetric } from '@/services/analyticsService';
 
 /**
@@ -43,7 +44,7 @@ export function withPerformanceTracking(Component: React.ComponentType<any>, com
     const startTime = performance.now();
     
     // In a real implementation, you would use useEffect to measure render time
-    const result = <Component {...props} />;
+    const result = React.createElement(Component, props);
     
     const endTime = performance.now();
     const duration = Math.round(endTime - startTime);
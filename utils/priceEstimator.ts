@@ -0,0 +1,119 @@
+import { Recipe } from '@/types/recipe';
+import {
+  PriceCatalog,
+  PriceSettings,
+  IngredientPrice,
+  CurrencyCode,
+  CURRENCY_SYMBOLS,
+} from '@/constants/PriceCatalog';
+import { MILLILITRES_PER_UNIT } from '@/constants/Units';
+import { FoodNutrition } from '@/constants/NutritionDatabase';
+import { parseQuantity } from '@/utils/quantity';
+import { cleanIngredientName, findTableEntry } from '@/utils/ingredientNames';
+import { estimateGrams, findFood } from '@/utils/nutritionCalculator';
+import { getRecipeServings } from '@/utils/recipeScaling';
+
+export interface IngredientCostEstimate {
+  item: string;
+  cost: number;
+  // 'catalog' when priced from the catalog, 'model' when the recipe's own cost was kept
+  source: 'catalog' | 'model';
+}
+
+export interface RecipeCostEstimate {
+  currency: CurrencyCode;
+  region: PriceSettings['region'];
+  catalogVersion: string;
+  items: IngredientCostEstimate[];
+  // In the chosen currency, for the recipe's servings
+  extraIngredientsCost: number;
+  costPerServing: number;
+  // Percent of extra ingredients priced from the catalog
+  coverage: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function findIngredientPrice(catalog: PriceCatalog, ingredient: string): IngredientPrice | null {
+  const name = findTableEntry(ingredient, Object.keys(catalog.prices));
+  return name ? catalog.prices[name] : null;
+}
+
+/**
+ * Cost in USD at US prices of the amount used, e.g. "2 tbsp" of "olive oil";
+ * null when the ingredient isn't in the catalog or the amount can't be
+ * measured in the catalog's unit
+ */
+export function estimateIngredientCost(catalog: PriceCatalog, item: string, amount: string): number | null {
+  const ingredient = cleanIngredientName(item);
+  const price = findIngredientPrice(catalog, ingredient);
+  const quantity = parseQuantity(amount);
+  if (!price || !quantity) return null;
+
+  // Piece weights and densities come from the nutrition table
+  const food: Pick<FoodNutrition, 'gramsPerPiece' | 'gramsPerMl'> = findFood(ingredient) || {};
+  if (price.unit === 'each') {
+    if (!quantity.unit || quantity.unit === 'piece') return roundCents(quantity.value * price.price);
+    const grams = estimateGrams(quantity, ingredient, food);
+    return grams !== null && food.gramsPerPiece ? roundCents((grams / food.gramsPerPiece) * price.price) : null;
+  }
+
+  if (price.unit === 'l' && quantity.unit && MILLILITRES_PER_UNIT[quantity.unit] !== undefined) {
+    return roundCents(((quantity.value * MILLILITRES_PER_UNIT[quantity.unit]) / 1000) * price.price);
+  }
+
+  const grams = estimateGrams(quantity, ingredient, food);
+  if (grams === null) return null;
+  const kilograms = grams / 1000;
+  return roundCents((price.unit === 'l' ? kilograms / (food.gramsPerMl || 1) : kilograms) * price.price);
+}
+
+/**
+ * Converts a USD amount at US prices to the region's price level and the
+ * chosen currency
+ */
+export function convertPrice(amountUsd: number, catalog: PriceCatalog, settings: PriceSettings): number {
+  const multiplier = catalog.regionMultipliers[settings.region] ?? 1;
+  const rate = catalog.exchangeRates[settings.currency] ?? 1;
+  return roundCents(amountUsd * multiplier * rate);
+}
+
+/**
+ * Re-estimates the extra ingredients' cost from the catalog. Ingredients
+ * the catalog can't price keep the model's cost, which is also in USD at
+ * US prices. The same recipe, catalog and settings always give the same
+ * estimate.
+ */
+export function estimateRecipeCost(recipe: Recipe, catalog: PriceCatalog, settings: PriceSettings): RecipeCostEstimate {
+  const items: IngredientCostEstimate[] = recipe.extraIngredients.map(ingredient => {
+    const catalogCost = estimateIngredientCost(catalog, ingredient.item, ingredient.amount);
+    return {
+      item: ingredient.item,
+      cost: convertPrice(catalogCost ?? (ingredient.cost || 0), catalog, settings),
+      source: catalogCost !== null ? 'catalog' : 'model',
+    };
+  });
+
+  const total = roundCents(items.reduce((sum, item) => sum + item.cost, 0));
+  const priced = items.filter(item => item.source === 'catalog').length;
+
+  return {
+    currency: settings.currency,
+    region: settings.region,
+    catalogVersion: catalog.version,
+    items,
+    extraIngredientsCost: total,
+    costPerServing: roundCents(total / getRecipeServings(recipe)),
+    coverage: items.length > 0 ? Math.round((priced / items.length) * 100) : 100,
+  };
+}
+
+/**
+ * "€4.10", "CA$12.00" or "₹310"
+ */
+export function formatPrice(amount: number, currency: CurrencyCode): string {
+  const symbol = CURRENCY_SYMBOLS[currency] || `${currency} `;
+  return `${symbol}${currency === 'INR' ? Math.round(amount) : amount.toFixed(2)}`;
+}
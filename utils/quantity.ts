@@ -0,0 +1,234 @@
+// An amount such as "1 1/2 cups" or "400g", split into parts that can be scaled
+export interface Quantity {
+  value: number;
+  // Upper end of a range such as "2-3 cloves"
+  maxValue?: number;
+  // Canonical unit, e.g. 'g', 'tbsp' or 'clove'; null for plain counts like "2 eggs" or "1 medium"
+  unit: string | null;
+  // Whatever follows the amount and unit, e.g. "medium" or "chickpeas, drained"
+  rest: string;
+}
+
+// Spellings the model uses for each unit
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g', gram: 'g', grams: 'g', gr: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  tsp: 'tsp', tsps: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  'fl oz': 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  pint: 'pint', pints: 'pint',
+  quart: 'quart', quarts: 'quart',
+  clove: 'clove', cloves: 'clove',
+  can: 'can', cans: 'can',
+  jar: 'jar', jars: 'jar',
+  bag: 'bag', bags: 'bag',
+  box: 'box', boxes: 'box',
+  bottle: 'bottle', bottles: 'bottle',
+  bunch: 'bunch', bunches: 'bunch',
+  slice: 'slice', slices: 'slice',
+  piece: 'piece', pieces: 'piece',
+  pinch: 'pinch', pinches: 'pinch',
+  dash: 'dash', dashes: 'dash',
+  handful: 'handful', handfuls: 'handful',
+  sprig: 'sprig', sprigs: 'sprig',
+  stalk: 'stalk', stalks: 'stalk',
+  stick: 'stick', sticks: 'stick',
+  head: 'head', heads: 'head',
+  package: 'package', packages: 'package', pack: 'package', packs: 'package',
+};
+
+// Written straight after the number, as in "400g"
+const COMPACT_UNITS = new Set(['g', 'kg', 'mg', 'ml', 'l']);
+
+// Written as-is whatever the amount
+const ABBREVIATED_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'oz', 'lb']);
+
+const PLURAL_UNITS: Record<string, string> = {
+  bunch: 'bunches',
+  box: 'boxes',
+  pinch: 'pinches',
+  dash: 'dashes',
+};
+
+// Words left as-is after a plain count: sizes ("2 medium") and things
+// that aren't counted in pieces
+const UNCOUNTED_WORDS = new Set([
+  'small', 'medium', 'large', 'whole', 'ripe', 'fresh', 'garlic', 'rice', 'salt', 'pepper', 'water',
+]);
+
+const PLURAL_WORDS: Record<string, string> = {
+  leaf: 'leaves',
+  loaf: 'loaves',
+  half: 'halves',
+  tomato: 'tomatoes',
+  potato: 'potatoes',
+  mango: 'mangoes',
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '¼': 1 / 4, '¾': 3 / 4, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 1 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, half: 0.5,
+};
+
+// Fractions amounts are rounded to when written in kitchen units
+const NICE_FRACTIONS: [number, string][] = [
+  [0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, ''],
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const NUMBER_PATTERN = [
+  '\\d+\\s+\\d+/\\d+',
+  '\\d+/\\d+',
+  '\\d*\\.?\\d+\\s*[½¼¾⅓⅔⅛]?',
+  '[½¼¾⅓⅔⅛]',
+  `(?:${Object.keys(NUMBER_WORDS).join('|')})\\b`,
+].join('|');
+
+// Longest first so "fl oz" wins over "oz" and "tbsp" over "tbs"
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+const QUANTITY_PATTERN = new RegExp(
+  `^\\s*(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?\\s*(?:(${UNIT_PATTERN})\\b\\.?)?(?:\\s+of\\b)?\\s*(.*)$`,
+  'i'
+);
+
+function parseNumber(text: string): number {
+  const value = text.trim().toLowerCase();
+  if (value in NUMBER_WORDS) return NUMBER_WORDS[value];
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+
+  // "1½" or a lone "½"
+  const unicode = value.match(/^(\d*\.?\d*)\s*([½¼¾⅓⅔⅛])$/);
+  if (unicode) return (parseFloat(unicode[1]) || 0) + UNICODE_FRACTIONS[unicode[2]];
+
+  return parseFloat(value);
+}
+
+/**
+ * Reads the amount at the start of an ingredient amount or line, e.g.
+ * "1 1/2 cups", "400g", "2-3 cloves garlic" or "a pinch". Returns null
+ * when there is no leading amount, as in "to taste".
+ */
+export function parseQuantity(text: string): Quantity | null {
+  const match = text.match(QUANTITY_PATTERN);
+  if (!match) return null;
+
+  const value = parseNumber(match[1]);
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  const maxValue = match[2] ? parseNumber(match[2]) : undefined;
+  return {
+    value,
+    ...(maxValue !== undefined && Number.isFinite(maxValue) ? { maxValue } : {}),
+    unit: match[3] ? UNIT_ALIASES[match[3].toLowerCase()] : null,
+    rest: match[4].trim(),
+  };
+}
+
+function trimDecimals(value: number, decimals: number): string {
+  return String(parseFloat(value.toFixed(decimals)));
+}
+
+/**
+ * Writes a number the way a recipe would: whole grams and millilitres,
+ * and kitchen fractions like "1 1/2" for everything else
+ */
+export function formatAmountValue(value: number, unit: string | null): string {
+  if (unit && COMPACT_UNITS.has(unit)) {
+    if (unit === 'kg' || unit === 'l') return trimDecimals(value, 2);
+    return value >= 10 ? String(Math.round(value)) : trimDecimals(value, 1);
+  }
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  const [fraction, label] = NICE_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+  // Large amounts don't need fractions, and odd ones are clearer as decimals
+  if (whole >= 10 || Math.abs(fraction - remainder) > 0.04) {
+    return whole >= 10 ? String(Math.round(value)) : trimDecimals(value, 2);
+  }
+
+  const wholePart = whole + (fraction === 1 ? 1 : 0);
+  if (!label) return String(wholePart);
+  return wholePart > 0 ? `${wholePart} ${label}` : label;
+}
+
+function formatUnit(unit: string, amount: number): string {
+  if (ABBREVIATED_UNITS.has(unit) || amount <= 1) return unit;
+  return PLURAL_UNITS[unit] || `${unit}s`;
+}
+
+function pluralizeWord(word: string): string {
+  const lower = word.toLowerCase();
+  if (PLURAL_WORDS[lower]) return word.slice(0, 1) + PLURAL_WORDS[lower].slice(1);
+  if (/[^aeiou]y$/i.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(ch|sh|x|z)$/i.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+/**
+ * Pluralizes the item after a plain count, so doubling "1 lemon" gives
+ * "2 lemons" and "1 onion, diced" gives "2 onions, diced". Only the last
+ * word before any comma or bracket is the item.
+ */
+function pluralizeItem(rest: string): string {
+  const [, item, tail] = rest.match(/^([^,(]*?)(\s*[,(].*)?$/) || [];
+  const word = item?.match(/([a-z]+)$/i)?.[1];
+  if (!word || /s$/i.test(word) || UNCOUNTED_WORDS.has(word.toLowerCase())) return rest;
+  return `${item.slice(0, -word.length)}${pluralizeWord(word)}${tail || ''}`;
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const { value, maxValue, unit } = quantity;
+  const rest = !unit && (maxValue ?? value) > 1 ? pluralizeItem(quantity.rest) : quantity.rest;
+  let amount = formatAmountValue(value, unit);
+  if (maxValue !== undefined) {
+    amount += `-${formatAmountValue(maxValue, unit)}`;
+  }
+
+  let text = amount;
+  if (unit) {
+    text += COMPACT_UNITS.has(unit) ? unit : ` ${formatUnit(unit, maxValue ?? value)}`;
+  }
+  return rest ? `${text} ${rest}` : text;
+}
+
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+  return {
+    ...quantity,
+    value: quantity.value * factor,
+    ...(quantity.maxValue !== undefined ? { maxValue: quantity.maxValue * factor } : {}),
+  };
+}
+
+/**
+ * Scales the amount at the start of a string, e.g. "2 tbsp" or
+ * "1 can chickpeas (or white beans)". Text without a leading amount,
+ * like "to taste", comes back unchanged.
+ */
+export function scaleAmount(text: string, factor: number): string {
+  if (factor === 1) return text;
+  const quantity = parseQuantity(text);
+  return quantity ? formatQuantity(scaleQuantity(quantity, factor)) : text;
+}
@@ -0,0 +1,27 @@
+import { Recipe } from '@/types/recipe';
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * What the extra ingredients add up to. The itemized costs are what the
+ * user pays, so they win over the model's own extraIngredientsCost total.
+ */
+export function getExtraIngredientsTotal(recipe: Recipe): number {
+  if (recipe.extraIngredients.length === 0) {
+    return roundCents(recipe.extraIngredientsCost || 0);
+  }
+  return roundCents(recipe.extraIngredients.reduce((total, ingredient) => total + (ingredient.cost || 0), 0));
+}
+
+/**
+ * True when the extra ingredients cost at most maxExtraCost, to the cent
+ */
+export function isWithinBudget(recipe: Recipe, maxExtraCost: number): boolean {
+  return getExtraIngredientsTotal(recipe) <= roundCents(maxExtraCost);
+}
+
+export function formatBudget(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
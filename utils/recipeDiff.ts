@@ -0,0 +1,90 @@
+import { Recipe } from '@/types/recipe';
+import { normalizeIngredientName } from '@/utils/recipeSimilarity';
+import { getDietaryBadges } from '@/utils/dietaryCompliance';
+
+export interface RecipeFieldChange {
+  field: string;
+  label: string;
+  before: string | number;
+  after: string | number;
+}
+
+// What a refinement changed, for showing the user and for analytics
+export interface RecipeDiff {
+  changedFields: RecipeFieldChange[];
+  // Ingredient lines as written in the recipe they appear in
+  addedIngredients: string[];
+  removedIngredients: string[];
+  // Steps added, removed or reworded
+  changedSteps: number;
+  hasChanges: boolean;
+}
+
+// Compared field by field; labels are shown in the change summary
+const COMPARED_FIELDS: { field: string; label: string; read: (recipe: Recipe) => string | number | undefined }[] = [
+  { field: 'name', label: 'Name', read: recipe => recipe.name },
+  { field: 'difficulty', label: 'Difficulty', read: recipe => recipe.difficulty },
+  { field: 'mealType', label: 'Meal type', read: recipe => recipe.mealType },
+  { field: 'cuisine', label: 'Cuisine', read: recipe => recipe.cuisine },
+  { field: 'timeEstimate', label: 'Time (minutes)', read: recipe => recipe.timeEstimate },
+  { field: 'extraIngredientsCost', label: 'Extra cost ($)', read: recipe => recipe.extraIngredientsCost },
+  { field: 'nutritionInfo.calories', label: 'Calories', read: recipe => recipe.nutritionInfo.calories },
+  { field: 'nutritionInfo.protein', label: 'Protein (g)', read: recipe => recipe.nutritionInfo.protein },
+  { field: 'nutritionInfo.fat', label: 'Fat (g)', read: recipe => recipe.nutritionInfo.fat },
+  { field: 'nutritionInfo.carbs', label: 'Carbs (g)', read: recipe => recipe.nutritionInfo.carbs },
+  { field: 'dietaryInfo.restrictions', label: 'Dietary', read: recipe => getDietaryBadges(recipe).join(', ') },
+];
+
+function ingredientLines(recipe: Recipe): string[] {
+  return [...recipe.currentIngredients, ...recipe.extraIngredients.map(ingredient => ingredient.item)];
+}
+
+/**
+ * Compares two versions of a recipe. Ingredients are matched by their
+ * normalized names, so "2 cups chickpeas" and "chickpeas" count as the same.
+ */
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  const changedFields: RecipeFieldChange[] = [];
+  COMPARED_FIELDS.forEach(({ field, label, read }) => {
+    const previous = read(before) ?? '';
+    const next = read(after) ?? '';
+    if (previous !== next) {
+      changedFields.push({ field, label, before: previous, after: next });
+    }
+  });
+
+  const beforeNames = new Set(ingredientLines(before).map(normalizeIngredientName));
+  const afterNames = new Set(ingredientLines(after).map(normalizeIngredientName));
+  const addedIngredients = ingredientLines(after).filter(line => !beforeNames.has(normalizeIngredientName(line)));
+  const removedIngredients = ingredientLines(before).filter(line => !afterNames.has(normalizeIngredientName(line)));
+
+  let changedSteps = 0;
+  const stepCount = Math.max(before.instructions.length, after.instructions.length);
+  for (let i = 0; i < stepCount; i++) {
+    if (before.instructions[i]?.trim() !== after.instructions[i]?.trim()) {
+      changedSteps++;
+    }
+  }
+
+  return {
+    changedFields,
+    addedIngredients,
+    removedIngredients,
+    changedSteps,
+    hasChanges: changedFields.length + addedIngredients.length + removedIngredients.length + changedSteps > 0,
+  };
+}
+
+/**
+ * One line per change, e.g. "Time (minutes): 35 → 20" or "Added tofu"
+ */
+export function describeRecipeDiff(diff: RecipeDiff): string[] {
+  if (!diff.hasChanges) return ['No changes'];
+
+  return [
+    ...diff.changedFields.map(change => `${change.label}: ${change.before || 'none'} → ${change.after || 'none'}`),
+    ...diff.addedIngredients.map(ingredient => `Added ${ingredient}`),
+    ...diff.removedIngredients.map(ingredient => `Removed ${ingredient}`),
+    ...(diff.changedSteps > 0 ? [`${diff.changedSteps} step${diff.changedSteps === 1 ? '' : 's'} changed`] : []),
+  ];
+}
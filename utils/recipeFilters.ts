@@ -1,6 +1,26 @@
 import { Recipe } from '@/types/recipe';
 import { RecipeFilters } from '@/components/RecipeFilters';
 import { SavedRecipe } from '@/services/savedRecipesService';
+import { getExtraIngredientsTotal } from '@/utils/recipeBudget';
+import { normalizeAvailableIngredients, isIngredientAvailable } from '@/utils/pantryCoverage';
+
+/**
+ * Filters with nothing selected
+ */
+export function getDefaultFilters(): RecipeFilters {
+  return {
+    timeRange: { min: null, max: null },
+    difficulty: [],
+    mealTypes: [],
+    cuisines: [],
+    ingredients: [],
+    costRange: { min: null, max: null },
+    nutrition: {
+      calories: { min: null, max: null },
+      protein: { min: null, max: null },
+    },
+  };
+}
 
 /**
  * Count active filters in the RecipeFilters object
@@ -14,6 +34,17 @@ export function countActiveFilters(filters: RecipeFilters): number {
   
   // Count difficulty filters
   count += filters.difficulty.length;
+
+  // Count meal type and cuisine filters
+  count += filters.mealTypes.length;
+  count += filters.cuisines.length;
+
+  // Count ingredient filters
+  count += filters.ingredients.length;
+
+  // Count extra ingredient cost filters
+  if (filters.costRange.min !== null) count++;
+  if (filters.costRange.max !== null) count++;
   
   // Count nutrition filters
   if (filters.nutrition.calories.min !== null) count++;
@@ -25,50 +56,91 @@ export function countActiveFilters(filters: RecipeFilters): number {
 }
 
 /**
- * Apply RecipeFilters to filter a list of recipes
+ * Check a single recipe against the active filters
  */
-export function filterRecipes(recipes: Recipe[], filters: RecipeFilters): Recipe[] {
-  if (countActiveFilters(filters) === 0) {
-    return recipes; // No filters, return all recipes
+function matchesFilters(recipe: Recipe, filters: RecipeFilters): boolean {
+  // Filter by time
+  if (filters.timeRange.min !== null && recipe.timeEstimate < filters.timeRange.min) {
+    return false;
+  }
+  if (filters.timeRange.max !== null && recipe.timeEstimate > filters.timeRange.max) {
+    return false;
   }
   
-  return recipes.filter(recipe => {
-    // Filter by time
-    if (filters.timeRange.min !== null && recipe.timeEstimate < filters.timeRange.min) {
-      return false;
-    }
-    if (filters.timeRange.max !== null && recipe.timeEstimate > filters.timeRange.max) {
-      return false;
-    }
-    
-    // Filter by difficulty
-    if (filters.difficulty.length > 0 && !filters.difficulty.includes(recipe.difficulty)) {
-      return false;
-    }
-    
-    // Filter by calories
-    if (filters.nutrition.calories.min !== null && 
-        recipe.nutritionInfo.calories < filters.nutrition.calories.min) {
-      return false;
-    }
-    if (filters.nutrition.calories.max !== null && 
-        recipe.nutritionInfo.calories > filters.nutrition.calories.max) {
+  // Filter by difficulty
+  if (filters.difficulty.length > 0 && !filters.difficulty.includes(recipe.difficulty)) {
+    return false;
+  }
+
+  // Filter by meal type (recipes without one never match)
+  if (filters.mealTypes.length > 0 &&
+      (!recipe.mealType || !filters.mealTypes.includes(recipe.mealType))) {
+    return false;
+  }
+
+  // Filter by cuisine, ignoring case
+  if (filters.cuisines.length > 0 &&
+      !filters.cuisines.some(cuisine => cuisine.toLowerCase() === recipe.cuisine?.toLowerCase())) {
+    return false;
+  }
+  
+  // Filter by ingredients, matched like pantry items so "garbanzo beans" counts as chickpeas
+  if (filters.ingredients.length > 0) {
+    const lines = [
+      ...recipe.currentIngredients,
+      ...recipe.extraIngredients.map(ingredient => ingredient.item),
+    ];
+    const missing = normalizeAvailableIngredients(filters.ingredients)
+      .some(wanted => !lines.some(line => isIngredientAvailable(line, [wanted])));
+    if (missing) {
       return false;
     }
-    
-    // Filter by protein
-    if (filters.nutrition.protein.min !== null && 
-        recipe.nutritionInfo.protein < filters.nutrition.protein.min) {
+  }
+
+  // Filter by what the extra ingredients cost
+  if (filters.costRange.min !== null || filters.costRange.max !== null) {
+    const cost = getExtraIngredientsTotal(recipe);
+    if (filters.costRange.min !== null && cost < filters.costRange.min) {
       return false;
     }
-    if (filters.nutrition.protein.max !== null && 
-        recipe.nutritionInfo.protein > filters.nutrition.protein.max) {
+    if (filters.costRange.max !== null && cost > filters.costRange.max) {
       return false;
     }
-    
-    // If it passed all filters, include it
-    return true;
-  });
+  }
+
+  // Filter by calories
+  if (filters.nutrition.calories.min !== null && 
+      recipe.nutritionInfo.calories < filters.nutrition.calories.min) {
+    return false;
+  }
+  if (filters.nutrition.calories.max !== null && 
+      recipe.nutritionInfo.calories > filters.nutrition.calories.max) {
+    return false;
+  }
+  
+  // Filter by protein
+  if (filters.nutrition.protein.min !== null && 
+      recipe.nutritionInfo.protein < filters.nutrition.protein.min) {
+    return false;
+  }
+  if (filters.nutrition.protein.max !== null && 
+      recipe.nutritionInfo.protein > filters.nutrition.protein.max) {
+    return false;
+  }
+  
+  // If it passed all filters, include it
+  return true;
+}
+
+/**
+ * Apply RecipeFilters to filter a list of recipes
+ */
+export function filterRecipes(recipes: Recipe[], filters: RecipeFilters): Recipe[] {
+  if (countActiveFilters(filters) === 0) {
+    return recipes; // No filters, return all recipes
+  }
+  
+  return recipes.filter(recipe => matchesFilters(recipe, filters));
 }
 
 /**
@@ -79,43 +151,28 @@ export function filterSavedRecipes(savedRecipes: SavedRecipe[], filters: RecipeF
     return savedRecipes; // No filters, return all recipes
   }
   
-  return savedRecipes.filter(savedRecipe => {
-    const recipe = savedRecipe.recipe;
-    
-    // Filter by time
-    if (filters.timeRange.min !== null && recipe.timeEstimate < filters.timeRange.min) {
-      return false;
-    }
-    if (filters.timeRange.max !== null && recipe.timeEstimate > filters.timeRange.max) {
-      return false;
-    }
-    
-    // Filter by difficulty
-    if (filters.difficulty.length > 0 && !filters.difficulty.includes(recipe.difficulty)) {
-      return false;
-    }
-    
-    // Filter by calories
-    if (filters.nutrition.calories.min !== null && 
-        recipe.nutritionInfo.calories < filters.nutrition.calories.min) {
-      return false;
-    }
-    if (filters.nutrition.calories.max !== null && 
-        recipe.nutritionInfo.calories > filters.nutrition.calories.max) {
-      return false;
-    }
-    
-    // Filter by protein
-    if (filters.nutrition.protein.min !== null && 
-        recipe.nutritionInfo.protein < filters.nutrition.protein.min) {
-      return false;
-    }
-    if (filters.nutrition.protein.max !== null && 
-        recipe.nutritionInfo.protein > filters.nutrition.protein.max) {
-      return false;
-    }
-    
-    // If it passed all filters, include it
-    return true;
-  });
-} 
\ No newline at end of file
+  return savedRecipes.filter(savedRecipe => matchesFilters(savedRecipe.recipe, filters));
+}
+
+// Orders the home screen offers; 'suggested' keeps the order the recipes arrived in
+export type RecipeSort = 'suggested' | 'coverage' | 'nutrition';
+
+export const RECIPE_SORT_OPTIONS: { value: RecipeSort; label: string }[] = [
+  { value: 'suggested', label: 'Suggested' },
+  { value: 'coverage', label: 'Pantry match' },
+  { value: 'nutrition', label: 'Nutrition fit' },
+];
+
+/**
+ * Sorts recipes without changing the input. Ties keep their original order.
+ */
+export function sortRecipes(recipes: Recipe[], sort: RecipeSort): Recipe[] {
+  // Recipes without a score, e.g. generated without targets, go last
+  if (sort === 'coverage') {
+    return [...recipes].sort((a, b) => (b.pantryCoverage ?? -1) - (a.pantryCoverage ?? -1));
+  }
+  if (sort === 'nutrition') {
+    return [...recipes].sort((a, b) => (b.nutritionFit ?? -1) - (a.nutritionFit ?? -1));
+  }
+  return recipes;
+}
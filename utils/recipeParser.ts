@@ -0,0 +1,264 @@
+/**
+ * Parsers for the two LLM output formats used by recipe generation.
+ *
+ * Both return raw, unvalidated recipe objects. Run each one through
+ * validateRecipe before treating it as a Recipe.
+ */
+
+import { classifyDietaryLabel } from '@/utils/dietaryCompliance';
+import { parseIngredientLine } from '@/utils/ingredientSubstitutions';
+
+export type RecipeOutputMode = 'json' | 'text';
+
+export interface ExtractedRecipes {
+  items: unknown[];
+  error: string | null;
+}
+
+/**
+ * Extracts the recipe array from a JSON-mode completion.
+ * Accepts a bare array, an object with a `recipes` array or a single
+ * recipe object, optionally wrapped in a markdown code fence.
+ */
+export function extractJsonRecipes(content: string): ExtractedRecipes {
+  const cleaned = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```\s*$/, '')
+    .trim();
+
+  // Skip any leading prose before the JSON payload
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) {
+    return { items: [], error: 'No JSON found in LLM response' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned.slice(start));
+  } catch (error: any) {
+    return { items: [], error: `Invalid JSON in LLM response: ${error.message}` };
+  }
+
+  if (Array.isArray(parsed)) {
+    return { items: parsed, error: null };
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as any).recipes)) {
+    return { items: (parsed as any).recipes, error: null };
+  }
+  // Sometimes sent when only one recipe was asked for
+  if (parsed && typeof parsed === 'object' && typeof (parsed as any).name === 'string') {
+    return { items: [parsed], error: null };
+  }
+
+  return { items: [], error: 'LLM response JSON does not contain a recipes array' };
+}
+
+/**
+ * Splits a text-mode completion into its `---` separated recipe blocks
+ */
+export function splitTextRecipes(content: string): string[] {
+  return content.split('---').filter((text: string) => text.trim());
+}
+
+/**
+ * Parses one NAME:/DIFFICULTY:/... text block into a raw recipe object
+ */
+export function parseTextRecipe(recipeText: string): Record<string, any> {
+  const lines = recipeText.trim().split('\n');
+  const recipe: Record<string, any> = {
+    currentIngredients: [],
+    currentSubstitutions: [],
+    extraIngredients: [],
+    instructions: [],
+    dietaryInfo: {
+      restrictions: [],
+      allergens: []
+    },
+    nutritionInfo: {}
+  };
+
+  let currentSection = '';
+
+  lines.forEach((line: string) => {
+    line = line.trim();
+    if (!line) return;
+
+    if (line.startsWith('NAME:')) {
+      recipe.name = line.replace('NAME:', '').trim();
+    } else if (line.startsWith('DIFFICULTY:')) {
+      recipe.difficulty = line.replace('DIFFICULTY:', '').trim();
+    } else if (line.startsWith('MEAL_TYPE:')) {
+      recipe.mealType = line.replace('MEAL_TYPE:', '').trim();
+    } else if (line.startsWith('CUISINE:')) {
+      recipe.cuisine = line.replace('CUISINE:', '').trim();
+    } else if (line.startsWith('TIME:')) {
+      recipe.timeEstimate = line.replace('TIME:', '').trim();
+    } else if (line.startsWith('COST:')) {
+      recipe.extraIngredientsCost = line.replace('COST:', '').trim();
+    } else if (line.startsWith('DIETARY_INFO:')) {
+      currentSection = 'dietary';
+    } else if (line.startsWith('NUTRITION_INFO:')) {
+      currentSection = 'nutrition';
+    } else if (line.startsWith('CURRENT_INGREDIENTS:')) {
+      currentSection = 'current';
+    } else if (line.startsWith('EXTRA_INGREDIENTS:')) {
+      currentSection = 'extra';
+    } else if (line.startsWith('INSTRUCTIONS:')) {
+      currentSection = 'instructions';
+    } else if (line.startsWith('•') || line.startsWith('-') || line.startsWith('*')) {
+      // Strip only the leading bullet so hyphenated words like "dairy-free" survive
+      const item = line.replace(/^[•*-]\s*/, '').trim();
+      if (currentSection === 'current') {
+        const { name, substitutions } = parseIngredientLine(item);
+        recipe.currentIngredients.push(name);
+        recipe.currentSubstitutions.push(substitutions);
+      } else if (currentSection === 'extra') {
+        // The "($X.XX for amount)" group can come before or after the substitution note
+        const match = item.match(/\((\$[\d.]+)\s+for\s+(.*?)\)/);
+        const { name, substitutions } = parseIngredientLine(match ? item.replace(match[0], '') : item);
+        if (match) {
+          recipe.extraIngredients.push({
+            item: name,
+            cost: parseFloat(match[1].replace('$', '')),
+            amount: match[2].trim(),
+            substitutions
+          });
+        } else {
+          // Handle case where the format doesn't match exactly
+          recipe.extraIngredients.push({
+            item: name,
+            cost: 0,
+            amount: 'unknown',
+            substitutions
+          });
+        }
+      } else if (currentSection === 'dietary') {
+        // Sort each label into a restriction or an allergen the recipe is free of
+        const label = classifyDietaryLabel(item);
+        if (label.kind === 'allergen') {
+          recipe.dietaryInfo.allergens.push(label.value);
+        } else {
+          recipe.dietaryInfo.restrictions.push(label.value);
+        }
+      } else if (currentSection === 'nutrition') {
+        // "Calories: 450", "Protein: 12g", ... keyed by the lowercased label
+        const match = item.match(/^(\w+):\s*(.*)$/);
+        if (match) {
+          recipe.nutritionInfo[match[1].toLowerCase()] = match[2];
+        }
+      }
+    } else if (line.match(/^\d+\./)) {
+      if (currentSection === 'instructions') {
+        recipe.instructions.push(line.replace(/^\d+\.\s*/, ''));
+      }
+    } else if (currentSection === 'instructions' && line.trim()) {
+      // Capture any non-empty line in the instructions section that might not start with a number
+      recipe.instructions.push(line.trim());
+    }
+  });
+
+  return recipe;
+}
+
+export interface RecipeStreamParser {
+  push(chunk: string): void;
+  end(): void;
+}
+
+/**
+ * Incremental parser for streamed completions. Calls onRecipe with each raw
+ * recipe as soon as its `---` block (text mode) or JSON object (json mode)
+ * is complete, instead of waiting for the whole response.
+ */
+export function createRecipeStreamParser(
+  outputMode: RecipeOutputMode,
+  onRecipe: (rawRecipe: unknown) => void
+): RecipeStreamParser {
+  let buffer = '';
+
+  if (outputMode === 'text') {
+    return {
+      push(chunk) {
+        buffer += chunk;
+        const blocks = buffer.split('---');
+        // The last block may still be incomplete
+        buffer = blocks.pop() || '';
+        blocks.filter(block => block.trim()).forEach(block => onRecipe(parseTextRecipe(block)));
+      },
+      end() {
+        if (buffer.trim()) {
+          onRecipe(parseTextRecipe(buffer));
+        }
+        buffer = '';
+      },
+    };
+  }
+
+  // JSON mode: track bracket nesting and emit each object inside the recipes
+  // array, which is the top-level "recipes" value or the document itself.
+  // Any other array, like a bare recipe's currentIngredients, is skipped.
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  // Last string closed at the top level of the document object, i.e. its latest key
+  let lastTopLevelString: string | null = null;
+  let recipeArrayDepth: number | null = null;
+  let objectStart = -1;
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (depth === 1) {
+              lastTopLevelString = buffer.slice(stringStart + 1, position);
+            }
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+          stringStart = position;
+        } else if (char === '[') {
+          if (recipeArrayDepth === null && (depth === 0 || (depth === 1 && lastTopLevelString === 'recipes'))) {
+            recipeArrayDepth = depth + 1;
+          }
+          depth++;
+        } else if (char === '{') {
+          if (depth === recipeArrayDepth) {
+            objectStart = position;
+          }
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (char === '}' && depth === recipeArrayDepth && objectStart !== -1) {
+            const objectText = buffer.slice(objectStart, position + 1);
+            objectStart = -1;
+            try {
+              onRecipe(JSON.parse(objectText));
+            } catch (error) {
+              console.warn('Skipping unparseable streamed recipe:', error);
+              onRecipe(null);
+            }
+          }
+        }
+      }
+    },
+    end() {
+      // Nothing to flush: an unterminated object is an incomplete recipe
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import { Recipe, MealType, NutritionTargets } from '@/types/recipe';
+import { DietaryPreferences } from '@/types/dietary';
+import { RecipeOutputMode } from '@/utils/recipeParser';
+import { RecipeFingerprint } from '@/utils/recipeSimilarity';
+import { renderPromptTemplate } from '@/services/promptRegistry';
+import { formatBudget } from '@/utils/recipeBudget';
+import { countNutritionTargets, describeNutritionTargets } from '@/utils/nutritionTargets';
+
+/**
+ * Recipe generation and refinement prompts, built from structured inputs.
+ * The generation proxy takes the inputs rather than prompt text and builds
+ * the same prompts from its copy of this file
+ * (mealfix-dashboard/src/lib/recipePrompts.ts), so keep the two in step.
+ */
+
+// What a generation prompt is built from
+export interface GenerationPromptInput {
+  kind: 'generate';
+  // Template version from the prompt registry
+  promptVersion: string;
+  // Typed ingredients and featured pantry items
+  ingredients: string[];
+  // Pantry items to use only where they fit
+  backgroundItems: string[];
+  dietaryPreferences: DietaryPreferences;
+  recipeCount: number;
+  basicCount: number;
+  mealType?: MealType;
+  cuisine?: string;
+  maxExtraCost?: number;
+  nutritionTargets?: NutritionTargets;
+  // Set in pantry-only mode
+  pantryOnly?: { staples: string[]; maxExtraIngredients: number };
+  excludedRecipes: RecipeFingerprint[];
+}
+
+// The parts of a recipe a refinement prompt shows the model
+export type RefinableRecipe = Pick<Recipe,
+  'name' | 'difficulty' | 'mealType' | 'cuisine' | 'timeEstimate' | 'extraIngredientsCost'
+  | 'currentIngredients' | 'instructions' | 'dietaryInfo' | 'nutritionInfo'
+> & {
+  extraIngredients: { item: string; cost: number; amount: string }[];
+};
+
+// What a refinement prompt is built from
+export interface RefinePromptInput {
+  kind: 'refine';
+  recipe: RefinableRecipe;
+  // What the user asked to change
+  instruction: string;
+  // Allergies and restrictions the recipe was checked against, which still apply
+  dietary?: { allergies: string[]; restrictions: string[] };
+}
+
+export type RecipePromptInput = GenerationPromptInput | RefinePromptInput;
+
+// Shared by both formats so substitutions parse into IngredientSubstitution entries
+const SUBSTITUTION_INSTRUCTIONS = `Write every substitution as "(or alternative for reason, +$X.XX)": the reason is the diet or allergy it suits (e.g. "dairy-free") or "if unavailable", and the signed amount is how much more or less it costs. Leave the amount out when the cost is the same.`;
+
+export const TEXT_FORMAT_INSTRUCTIONS = `For each dish, provide the information in this exact format:
+
+NAME: [Creative dish name]
+DIFFICULTY: [Beginner/Intermediate/Advanced]
+MEAL_TYPE: [breakfast/lunch/dinner/snack/dessert]
+CUISINE: [Cuisine style, e.g. Italian]
+TIME: [Estimated minutes to prepare and cook]
+COST: [Total cost of extra ingredients needed in USD]
+DIETARY_INFO: [List of dietary restrictions and allergens this recipe is compatible with]
+NUTRITION_INFO: [Nutritional breakdown in the following format:]
+* Calories: [total calories per serving]
+* Protein: [grams of protein per serving]
+* Fat: [grams of fat per serving]
+* Carbs: [grams of carbohydrates per serving]
+* Fiber: [grams of fiber per serving]
+* Sugar: [grams of sugar per serving]
+* Sodium: [milligrams of sodium per serving]
+* Servings: [number of servings this recipe makes]
+CURRENT_INGREDIENTS: [List ingredients from user's input that will be used, one per line with * bullet points. For each ingredient that has a common substitution, include it in parentheses after the ingredient like: "* chicken (or tofu for vegetarian, -$1.00)"]
+EXTRA_INGREDIENTS: [List additional ingredients needed with their estimated costs and amounts, one per line with * bullet points, format: "* item ($X.XX for amount) (or substitute for dietary needs, +$X.XX)"]
+INSTRUCTIONS: [Numbered steps of cooking steps with DETAILED directions. End each step with its notes: "(Time: x minutes)", then "(Warning: ...)" for any safety concern (e.g., 'hot oil') and "(Utensils: ...)" for the utensils needed (e.g., 'whisk').]
+
+For each recipe, include at least one suggested substitution either in the CURRENT_INGREDIENTS or EXTRA_INGREDIENTS sections.
+${SUBSTITUTION_INSTRUCTIONS}
+For each step in the cooking instructions, add a "(Time: x minutes)" at the end of the step; the step times should add up to about the TIME total. Each step needs to be as descriptive as possible so a beginner can understand. 
+
+Keep the format consistent and make sure to include all sections for each recipe. Separate recipes with ---`;
+
+export const JSON_FORMAT_INSTRUCTIONS = `Respond with ONLY a JSON object, no markdown and no extra text, in exactly this shape:
+
+{
+  "recipes": [
+    {
+      "name": "Creative dish name",
+      "difficulty": "Beginner" | "Intermediate" | "Advanced",
+      "mealType": "breakfast" | "lunch" | "dinner" | "snack" | "dessert",
+      "cuisine": "cuisine style, e.g. Italian",
+      "description": "one sentence describing the dish",
+      "timeEstimate": total minutes to prepare and cook (number),
+      "prepTime": minutes of preparation (number),
+      "cookTime": minutes of cooking (number),
+      "extraIngredientsCost": total cost of extra ingredients in USD (number),
+      "currentIngredients": ["ingredient from the user's input that will be used, with a common substitution in parentheses like \"chicken (or tofu for vegetarian, -$1.00)\""],
+      "extraIngredients": [{ "item": "additional ingredient (or substitute for dietary needs, +$X.XX)", "cost": cost in USD (number), "amount": "amount needed" }],
+      "steps": [{ "text": "Detailed cooking step", "durationMinutes": minutes for this step (number), "warnings": ["safety warning, e.g. 'hot oil'"], "utensils": ["utensil needed, e.g. 'whisk'"] }],
+      "dietaryInfo": { "restrictions": ["dietary restrictions this recipe is compatible with"], "allergens": ["allergens this recipe is free of"] },
+      "nutritionInfo": { "calories": number, "protein": grams, "fat": grams, "carbs": grams, "fiber": grams, "sugar": grams, "sodium": milligrams, "servings": number }
+    }
+  ]
+}
+
+For each recipe, include at least one suggested substitution in currentIngredients or extraIngredients.
+${SUBSTITUTION_INSTRUCTIONS}
+Give every step a durationMinutes; the step durations should add up to about timeEstimate. Use an empty warnings list when a step is safe. Each step needs to be as descriptive as possible so a beginner can understand.
+Every field is required for every recipe.`;
+
+/**
+ * Refinement input for a recipe. The recipe goes in as JSON so the model
+ * sees exact amounts, costs and steps to keep.
+ */
+export function createRefinePromptInput(recipe: Recipe, instruction: string): RefinePromptInput {
+  return {
+    kind: 'refine',
+    recipe: {
+      name: recipe.name,
+      difficulty: recipe.difficulty,
+      mealType: recipe.mealType,
+      cuisine: recipe.cuisine,
+      timeEstimate: recipe.timeEstimate,
+      extraIngredientsCost: recipe.extraIngredientsCost,
+      currentIngredients: recipe.currentIngredients,
+      extraIngredients: recipe.extraIngredients.map(({ item, cost, amount }) => ({ item, cost, amount })),
+      instructions: recipe.instructions,
+      dietaryInfo: recipe.dietaryInfo,
+      nutritionInfo: recipe.nutritionInfo,
+    },
+    instruction,
+    ...(recipe.compliance
+      ? {
+        dietary: {
+          allergies: recipe.compliance.checkedAllergies,
+          restrictions: [...recipe.compliance.checkedRestrictions, ...recipe.compliance.unverified],
+        },
+      }
+      : {}),
+  };
+}
+
+/**
+ * Prompt for revising one recipe
+ */
+export function buildRefinePrompt({ recipe, instruction, dietary }: RefinePromptInput, outputMode: RecipeOutputMode): string {
+  const rules = dietary
+    ? `\nThe user's allergies (${dietary.allergies.join(', ') || 'none'}) and dietary restrictions (${dietary.restrictions.join(', ') || 'none'}) still apply.`
+    : '';
+
+  return `Here is a recipe the user wants to change:
+
+${JSON.stringify(recipe, null, 2)}
+
+The user asked: "${instruction}"
+
+Revise this one recipe to do what they asked. Change only what the request needs and keep everything else the same, but update the time, cost, nutrition and dietary info whenever the change affects them.${rules}
+Return exactly 1 recipe.
+
+${outputMode === 'json' ? JSON_FORMAT_INSTRUCTIONS : TEXT_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Prompt for a batch of recipes from a recipe_generation template
+ */
+export function buildRecipePrompt(template: string, {
+  ingredients,
+  backgroundItems,
+  dietaryPreferences,
+  recipeCount,
+  basicCount,
+  mealType,
+  cuisine,
+  maxExtraCost,
+  nutritionTargets,
+  pantryOnly,
+  excludedRecipes
+}: GenerationPromptInput, outputMode: RecipeOutputMode): string {
+  const dietaryInfo = `
+Dietary Restrictions: ${dietaryPreferences.restrictions.join(', ') || 'None'}
+Allergies: ${dietaryPreferences.allergies.join(', ') || 'None'}
+Diet Plan: ${dietaryPreferences.preferences.join(', ') || 'None'}`;
+
+  // e.g. "3 different Italian dinner dishes"
+  const dishes = [
+    recipeCount === 1 ? '1' : `${recipeCount} different`,
+    cuisine,
+    mealType,
+    recipeCount === 1 ? 'dish' : 'dishes'
+  ].filter(Boolean).join(' ');
+
+  const creativeCount = recipeCount - basicCount;
+  let mix: string;
+  if (basicCount === 0) {
+    mix = 'Make every dish completely unique and innovative, incorporating these ingredients in unexpected ways.';
+  } else if (creativeCount === 0) {
+    mix = 'Keep every dish somewhat basic, using these ingredients in familiar ways.';
+  } else {
+    mix = `Create ${creativeCount} completely unique and innovative ${creativeCount === 1 ? 'dish' : 'dishes'} that incorporate these ingredients in unexpected ways and keep ${basicCount} as somewhat basic.`;
+  }
+
+  const pantry = backgroundItems.length > 0
+    ? `
+Also in my pantry, to use only where they fit naturally (the dishes don't need to feature them): ${backgroundItems.join(', ')}`
+    : '';
+
+  const budget = maxExtraCost !== undefined
+    ? `
+Keep each dish within a ${formatBudget(maxExtraCost)} budget for extra ingredients: the costs of its extra ingredients must add up to no more than ${formatBudget(maxExtraCost)}. Lean on the ingredients on hand and cheap staples to stay under it.`
+    : '';
+
+  const nutrition = nutritionTargets && countNutritionTargets(nutritionTargets) > 0
+    ? `
+Each dish must meet these nutrition targets per serving: ${describeNutritionTargets(nutritionTargets)}. Choose ingredients and portions to hit them, and give nutritionInfo as honest per-serving estimates.`
+    : '';
+
+  let pantryRules = '';
+  if (pantryOnly) {
+    const extras = pantryOnly.maxExtraIngredients === 0
+      ? 'Do not add any other ingredients.'
+      : `Each dish may add at most ${pantryOnly.maxExtraIngredients} other ${pantryOnly.maxExtraIngredients === 1 ? 'ingredient' : 'ingredients'}, and only when the dish really needs ${pantryOnly.maxExtraIngredients === 1 ? 'it' : 'them'}.`;
+    pantryRules = `
+I want to cook only with what I have, so ignore any advice above about adding extra ingredients. Use only the ingredients on hand and these basic staples: ${pantryOnly.staples.join(', ') || 'none'}. ${extras} List any staples and other additions as extra ingredients.`;
+  }
+
+  const exclusions = excludedRecipes.length > 0
+    ? `
+Do NOT suggest any of these previously suggested dishes, or anything similar to them (same main idea or mostly the same key ingredients):
+${excludedRecipes.map(recipe => `- ${recipe.name} (${recipe.keyIngredients.join(', ')})`).join('\n')}`
+    : '';
+
+  return renderPromptTemplate(template, {
+    ingredients: ingredients.join(', '),
+    pantry,
+    dietaryInfo,
+    dishes,
+    mix,
+    budget,
+    nutritionTargets: nutrition,
+    pantryRules,
+    exclusions,
+    formatInstructions: outputMode === 'json' ? JSON_FORMAT_INSTRUCTIONS : TEXT_FORMAT_INSTRUCTIONS
+  });
+}
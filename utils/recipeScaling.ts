@@ -0,0 +1,55 @@
+import { Recipe, IngredientSubstitution } from '@/types/recipe';
+import { MIN_SERVINGS, MAX_SERVINGS } from '@/constants/RecipeOptions';
+import { scaleAmount } from '@/utils/quantity';
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function scaleSubstitutions(substitutions: IngredientSubstitution[], factor: number): IngredientSubstitution[] {
+  return substitutions.map(substitution => ({
+    ...substitution,
+    costDelta: roundCents(substitution.costDelta * factor),
+  }));
+}
+
+/**
+ * Servings the recipe was written for, at least one
+ */
+export function getRecipeServings(recipe: Recipe): number {
+  const servings = recipe.nutritionInfo?.servings;
+  return typeof servings === 'number' && servings >= 1 ? Math.round(servings) : 1;
+}
+
+export function clampServings(servings: number): number {
+  return Math.min(Math.max(Math.round(servings), MIN_SERVINGS), MAX_SERVINGS);
+}
+
+/**
+ * Copy of the recipe for a different number of servings. Ingredient amounts,
+ * costs and substitution cost changes scale with it; nutritionInfo is per
+ * serving, so only its servings count changes. Always scale from the recipe
+ * as generated rather than an already scaled copy, so rounding doesn't add up.
+ */
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const baseServings = getRecipeServings(recipe);
+  const targetServings = clampServings(servings);
+  if (targetServings === baseServings) return recipe;
+
+  const factor = targetServings / baseServings;
+  return {
+    ...recipe,
+    extraIngredientsCost: roundCents(recipe.extraIngredientsCost * factor),
+    currentIngredients: recipe.currentIngredients.map(line => scaleAmount(line, factor)),
+    ...(recipe.currentSubstitutions ? {
+      currentSubstitutions: recipe.currentSubstitutions.map(options => scaleSubstitutions(options || [], factor)),
+    } : {}),
+    extraIngredients: recipe.extraIngredients.map(ingredient => ({
+      ...ingredient,
+      cost: roundCents(ingredient.cost * factor),
+      amount: scaleAmount(ingredient.amount, factor),
+      ...(ingredient.substitutions ? { substitutions: scaleSubstitutions(ingredient.substitutions, factor) } : {}),
+    })),
+    nutritionInfo: { ...recipe.nutritionInfo, servings: targetServings },
+  };
+}
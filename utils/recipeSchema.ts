@@ -0,0 +1,369 @@
+import { Recipe, MealType, IngredientSubstitution, InstructionStep } from '@/types/recipe';
+import { DietaryRestriction, DietaryAllergies, DietaryPlan } from '@/types/dietary';
+import { MEAL_TYPES, DIETARY_RESTRICTIONS, DIETARY_PLANS } from '@/constants/RecipeOptions';
+import { classifyDietaryLabel } from '@/utils/dietaryCompliance';
+import { parseIngredientLine } from '@/utils/ingredientSubstitutions';
+import { mergeExtraIngredients } from '@/utils/canonicalIngredients';
+import {
+  parseInstructionStep,
+  findReferencedIngredients,
+  checkStepDurations,
+} from '@/utils/instructionSteps';
+
+export type RecipeValidationResult =
+  | { valid: true; recipe: Recipe; repairs: string[] }
+  | { valid: false; errors: string[]; repairs: string[] };
+
+// Version of the Recipe model validateRecipe produces; bump it when the
+// model changes shape and teach upgradeRecipe the old one
+export const RECIPE_SCHEMA_VERSION = 2;
+
+const DIFFICULTY_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+
+// Common synonyms the model uses instead of our three levels
+const DIFFICULTY_ALIASES: Record<string, string> = {
+  easy: 'Beginner',
+  simple: 'Beginner',
+  medium: 'Intermediate',
+  moderate: 'Intermediate',
+  hard: 'Advanced',
+  difficult: 'Advanced',
+  expert: 'Advanced',
+};
+
+const NUTRITION_FIELDS = [
+  'calories',
+  'protein',
+  'fat',
+  'carbs',
+  'fiber',
+  'sugar',
+  'sodium',
+  'servings',
+] as const;
+
+export function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a number from values like 25, "25", "25 minutes" or "$4.50"
+ */
+function readNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+  return null;
+}
+
+function readStringArray(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value
+    .map(item => (typeof item === 'string' ? item.trim() : readNumber(item)?.toString() ?? ''))
+    .filter(Boolean);
+}
+
+/**
+ * Reads structured substitutions, skipping entries without an alternative
+ */
+function readSubstitutions(value: unknown): IngredientSubstitution[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isRecord)
+    .filter(entry => typeof entry.alternative === 'string' && entry.alternative.trim())
+    .map(entry => ({
+      alternative: entry.alternative.trim(),
+      reason: entry.reason === 'dietary' ? 'dietary' : 'availability',
+      ...(typeof entry.note === 'string' && entry.note.trim() ? { note: entry.note.trim() } : {}),
+      costDelta: readNumber(entry.costDelta) ?? 0,
+    }));
+}
+
+/**
+ * Reads a structured step from JSON mode; missing lists fall back to what
+ * the step text itself says
+ */
+function readStep(entry: Record<string, any>, ingredients: string[]): InstructionStep | null {
+  if (typeof entry.text !== 'string' || !entry.text.trim()) return null;
+
+  const parsed = parseInstructionStep(entry.text, ingredients);
+  const duration = readNumber(entry.durationMinutes);
+  const warnings = readStringArray(entry.warnings);
+  const utensils = readStringArray(entry.utensils);
+  return {
+    text: parsed.text,
+    durationMinutes: duration !== null && duration >= 0 ? duration : parsed.durationMinutes,
+    warnings: warnings ? warnings.map(warning => warning.toLowerCase()) : parsed.warnings,
+    utensils: utensils ? utensils.map(utensil => utensil.toLowerCase()) : parsed.utensils,
+    ingredients: findReferencedIngredients(parsed.text, ingredients),
+  };
+}
+
+function normalizeMealType(value: unknown): MealType | null {
+  if (typeof value !== 'string') return null;
+  const mealType = value.trim().toLowerCase();
+  return MEAL_TYPES.find(type => type === mealType) || null;
+}
+
+function normalizeDifficulty(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  const level = DIFFICULTY_LEVELS.find(l => l.toLowerCase() === trimmed.toLowerCase());
+  return level || DIFFICULTY_ALIASES[trimmed.toLowerCase()] || null;
+}
+
+function readMinutes(value: unknown): number | null {
+  const minutes = readNumber(value);
+  return minutes !== null && minutes >= 0 ? minutes : null;
+}
+
+/**
+ * Sorts dietary labels into restrictions, allergens the recipe is free of
+ * and diet plans, whichever list the model put them in: "low-carb" is a
+ * plan and "peanut-free" means free of peanuts. Labels that are none of
+ * these come back as unrecognized.
+ */
+export function normalizeDietaryInfo(value: unknown): {
+  dietaryInfo: Recipe['dietaryInfo'];
+  unrecognized: string[];
+} {
+  const dietary = isRecord(value) ? value : {};
+  const restrictions = new Set<DietaryRestriction>();
+  const allergens = new Set<DietaryAllergies>();
+  const preferences = new Set<DietaryPlan>();
+  const unrecognized: string[] = [];
+
+  const labels = [
+    ...(readStringArray(dietary.restrictions) || []),
+    ...(readStringArray(dietary.allergens) || []),
+    ...(readStringArray(dietary.preferences) || []),
+  ];
+  labels.forEach(label => {
+    const plan = DIETARY_PLANS.find(known => known === label.toLowerCase());
+    const { kind, value: classified } = classifyDietaryLabel(label);
+    if (plan) {
+      preferences.add(plan);
+    } else if (kind === 'allergen') {
+      allergens.add(classified as DietaryAllergies);
+    } else if (DIETARY_RESTRICTIONS.includes(classified as DietaryRestriction)) {
+      restrictions.add(classified as DietaryRestriction);
+    } else {
+      unrecognized.push(label);
+    }
+  });
+
+  return {
+    dietaryInfo: {
+      restrictions: Array.from(restrictions),
+      allergens: Array.from(allergens),
+      ...(preferences.size ? { preferences: Array.from(preferences) } : {}),
+    },
+    unrecognized,
+  };
+}
+
+/**
+ * Validates a single recipe object against the Recipe shape.
+ *
+ * Missing or malformed secondary data (difficulty, cost, nutrition, dietary info)
+ * is repaired with safe defaults and each repair is reported. Missing core data
+ * (name, ingredients, instructions) rejects the recipe.
+ */
+export function validateRecipe(value: unknown): RecipeValidationResult {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isRecord(value)) {
+    return { valid: false, errors: ['Recipe is not an object'], repairs };
+  }
+
+  // Name
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    errors.push('Missing recipe name');
+  }
+
+  // Difficulty
+  let difficulty = normalizeDifficulty(value.difficulty);
+  if (!difficulty) {
+    repairs.push(`Unrecognized difficulty "${value.difficulty ?? ''}", defaulted to Intermediate`);
+    difficulty = 'Intermediate';
+  }
+
+  // Meal type and cuisine are optional labels, kept only when recognizable
+  const mealType = normalizeMealType(value.mealType);
+  if (value.mealType && !mealType) {
+    repairs.push(`Unrecognized meal type "${value.mealType}", dropped`);
+  }
+  const cuisine = typeof value.cuisine === 'string' ? value.cuisine.trim() : '';
+
+  // Optional description and image
+  const description = typeof value.description === 'string' ? value.description.trim() : '';
+  const imageUrl = typeof value.imageUrl === 'string' && /^https?:\/\//.test(value.imageUrl.trim())
+    ? value.imageUrl.trim()
+    : '';
+
+  // Time estimate, or the prep and cook times added up
+  const prepTime = readMinutes(value.prepTime);
+  const cookTime = readMinutes(value.cookTime);
+  let timeEstimate = readNumber(value.timeEstimate);
+  if ((timeEstimate === null || timeEstimate <= 0) && (prepTime || cookTime)) {
+    timeEstimate = (prepTime || 0) + (cookTime || 0);
+    repairs.push('Time estimate computed from prep and cook times');
+  }
+  if (timeEstimate === null || timeEstimate <= 0) {
+    repairs.push('Missing time estimate, defaulted to 0');
+    timeEstimate = 0;
+  }
+
+  // Ingredients
+  const currentLines = readStringArray(value.currentIngredients);
+  if (currentLines === null) {
+    repairs.push('Missing currentIngredients, defaulted to an empty list');
+  }
+
+  // Substitutions come from "(or ...)" notes in the text and any structured entries
+  const currentParsed = (currentLines || []).map(parseIngredientLine);
+  const currentIngredients = currentParsed.map(parsed => parsed.name);
+  const currentSubstitutions = currentParsed.map((parsed, index) => [
+    ...parsed.substitutions,
+    ...readSubstitutions(Array.isArray(value.currentSubstitutions) ? value.currentSubstitutions[index] : undefined),
+  ]);
+
+  let extraIngredients: Recipe['extraIngredients'] = [];
+  if (Array.isArray(value.extraIngredients)) {
+    value.extraIngredients.forEach((entry: unknown, index: number) => {
+      if (typeof entry === 'string' && entry.trim()) {
+        repairs.push(`Extra ingredient ${index + 1} was plain text, cost set to 0`);
+        const { name, substitutions } = parseIngredientLine(entry.trim());
+        extraIngredients.push({
+          item: name,
+          cost: 0,
+          amount: 'unknown',
+          ...(substitutions.length ? { substitutions } : {}),
+        });
+        return;
+      }
+      if (!isRecord(entry) || typeof entry.item !== 'string' || !entry.item.trim()) {
+        repairs.push(`Dropped malformed extra ingredient ${index + 1}`);
+        return;
+      }
+      const cost = readNumber(entry.cost);
+      if (cost === null) {
+        repairs.push(`Missing cost for "${entry.item}", defaulted to 0`);
+      }
+      const { name, substitutions } = parseIngredientLine(entry.item.trim());
+      substitutions.push(...readSubstitutions(entry.substitutions));
+      extraIngredients.push({
+        item: name,
+        cost: cost ?? 0,
+        amount: typeof entry.amount === 'string' && entry.amount.trim() ? entry.amount.trim() : 'unknown',
+        ...(substitutions.length ? { substitutions } : {}),
+      });
+    });
+  } else {
+    repairs.push('Missing extraIngredients, defaulted to an empty list');
+  }
+
+  // The same ingredient listed twice under different names, e.g. "scallions" and "green onions"
+  const mergedExtras = mergeExtraIngredients(extraIngredients);
+  if (mergedExtras.length < extraIngredients.length) {
+    repairs.push(`Merged ${extraIngredients.length - mergedExtras.length} duplicate extra ingredient(s)`);
+    extraIngredients = mergedExtras;
+  }
+
+  if (currentIngredients.length + extraIngredients.length === 0) {
+    errors.push('Recipe has no ingredients');
+  }
+
+  // Extra ingredients cost, recomputed from the items when absent
+  let extraIngredientsCost = readNumber(value.extraIngredientsCost);
+  if (extraIngredientsCost === null) {
+    extraIngredientsCost = extraIngredients.reduce((total, ingredient) => total + ingredient.cost, 0);
+    repairs.push('Missing extraIngredientsCost, computed from extra ingredients');
+  }
+
+  // Instructions, as structured steps (JSON mode) or plain strings
+  const ingredientNames = [...currentIngredients, ...extraIngredients.map(ingredient => ingredient.item)];
+  let steps: InstructionStep[] = [];
+  let instructions: string[] | null;
+  if (Array.isArray(value.steps) && value.steps.some(isRecord)) {
+    steps = value.steps
+      .filter(isRecord)
+      .map((entry: Record<string, any>) => readStep(entry, ingredientNames))
+      .filter((step: InstructionStep | null): step is InstructionStep => step !== null);
+    // Keep the plain strings in the same "(Time: x minutes)" form the text format uses
+    instructions = steps.map(step => (
+      step.durationMinutes !== null ? `${step.text} (Time: ${step.durationMinutes} minutes)` : step.text
+    ));
+  } else {
+    instructions = readStringArray(value.instructions);
+    steps = (instructions || []).map(instruction => parseInstructionStep(instruction, ingredientNames));
+  }
+  if (!instructions || instructions.length === 0) {
+    errors.push('Recipe has no instructions');
+  }
+
+  // Check the total time against the steps
+  const stepTime = checkStepDurations(steps, timeEstimate);
+  if (timeEstimate === 0 && stepTime.stepMinutes > 0) {
+    timeEstimate = stepTime.stepMinutes;
+    repairs.push('Time estimate computed from step durations');
+  } else if (stepTime.status === 'over') {
+    repairs.push(`Step durations add up to ${stepTime.stepMinutes} minutes, over the ${timeEstimate} minute estimate`);
+  }
+
+  // Dietary info
+  if (!isRecord(value.dietaryInfo)) {
+    repairs.push('Missing dietaryInfo, defaulted to empty lists');
+  }
+  const { dietaryInfo, unrecognized } = normalizeDietaryInfo(value.dietaryInfo);
+  unrecognized.forEach(label => repairs.push(`Unrecognized dietary label "${label}", dropped`));
+
+  // Nutrition info
+  const nutrition = isRecord(value.nutritionInfo) ? value.nutritionInfo : {};
+  const nutritionInfo = {} as Recipe['nutritionInfo'];
+  NUTRITION_FIELDS.forEach(field => {
+    const amount = readNumber(nutrition[field]);
+    if (amount === null || amount < 0) {
+      repairs.push(`Missing nutritionInfo.${field}, defaulted to ${field === 'servings' ? 1 : 0}`);
+      nutritionInfo[field] = field === 'servings' ? 1 : 0;
+    } else {
+      nutritionInfo[field] = amount;
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors, repairs };
+  }
+
+  return {
+    valid: true,
+    repairs,
+    recipe: {
+      ...(typeof value.id === 'string' ? { id: value.id } : {}),
+      schemaVersion: RECIPE_SCHEMA_VERSION,
+      name,
+      ...(description ? { description } : {}),
+      ...(imageUrl ? { imageUrl } : {}),
+      difficulty,
+      ...(mealType ? { mealType } : {}),
+      ...(cuisine ? { cuisine } : {}),
+      timeEstimate,
+      ...(prepTime !== null ? { prepTime } : {}),
+      ...(cookTime !== null ? { cookTime } : {}),
+      extraIngredientsCost,
+      currentIngredients,
+      ...(currentSubstitutions.some(options => options.length) ? { currentSubstitutions } : {}),
+      extraIngredients,
+      instructions: instructions || [],
+      steps,
+      dietaryInfo,
+      nutritionInfo,
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { Recipe } from '@/types/recipe';
+
+// Compact fingerprint of a recipe used for history and duplicate checks
+export interface RecipeFingerprint {
+  name: string;
+  keyIngredients: string[];
+}
+
+// Words that say nothing about what the dish actually is
+const NAME_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'of', 'in', 'on', 'style', 'easy', 'quick', 'simple',
+  'homemade', 'classic', 'creamy', 'crispy', 'spicy', 'fresh', 'healthy',
+]);
+
+const DEFAULT_KEY_INGREDIENT_COUNT = 5;
+
+// Combined score at or above which two recipes count as near-duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+/**
+ * Reduces an ingredient line like "2 cups chickpeas (or white beans)" to "chickpeas"
+ */
+export function normalizeIngredientName(ingredient: string): string {
+  return ingredient
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/^[\d\s./½¼¾-]+/, '')
+    .replace(/^(cups?|tbsp|tsp|tablespoons?|teaspoons?|g|kg|ml|l|oz|lbs?|pounds?|cloves?|pinch|handful)\s+(of\s+)?/, '')
+    .replace(/[^a-z\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Picks the ingredients that define a recipe: everything the user supplied
+ * first, then the leading extra ingredients
+ */
+export function getKeyIngredients(recipe: Recipe, limit: number = DEFAULT_KEY_INGREDIENT_COUNT): string[] {
+  const names = [
+    ...recipe.currentIngredients,
+    ...recipe.extraIngredients.map(ingredient => ingredient.item),
+  ].map(normalizeIngredientName).filter(Boolean);
+
+  return Array.from(new Set(names)).slice(0, limit);
+}
+
+export function getRecipeFingerprint(recipe: Recipe): RecipeFingerprint {
+  return { name: recipe.name, keyIngredients: getKeyIngredients(recipe) };
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1 && !NAME_STOP_WORDS.has(token))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Scores how alike two recipes are from 0 (unrelated) to 1 (same dish),
+ * weighting the dish name slightly above the key ingredients
+ */
+export function recipeSimilarity(a: RecipeFingerprint, b: RecipeFingerprint): number {
+  if (a.name.trim().toLowerCase() === b.name.trim().toLowerCase()) {
+    return 1;
+  }
+
+  const nameScore = jaccard(nameTokens(a.name), nameTokens(b.name));
+  const ingredientScore = jaccard(new Set(a.keyIngredients), new Set(b.keyIngredients));
+  return nameScore * 0.6 + ingredientScore * 0.4;
+}
+
+/**
+ * Returns the first fingerprint the recipe is a near-duplicate of, if any
+ */
+export function findSimilarRecipe(
+  recipe: RecipeFingerprint,
+  candidates: RecipeFingerprint[],
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): RecipeFingerprint | null {
+  return candidates.find(candidate => recipeSimilarity(recipe, candidate) >= threshold) || null;
+}
@@ -0,0 +1,151 @@
+import { Recipe } from '@/types/recipe';
+import {
+  UnitSystem,
+  IngredientDensity,
+  GRAMS_PER_UNIT,
+  MILLILITRES_PER_UNIT,
+  INGREDIENT_DENSITIES,
+  KILOJOULES_PER_KCAL,
+} from '@/constants/Units';
+import { Quantity, parseQuantity, formatQuantity } from '@/utils/quantity';
+
+export type Dimension = 'mass' | 'volume';
+
+// An amount in grams (mass) or millilitres (volume)
+export interface NormalizedAmount {
+  dimension: Dimension;
+  value: number;
+  maxValue?: number;
+}
+
+const METRIC_UNITS = new Set(['mg', 'g', 'kg', 'ml', 'l']);
+const IMPERIAL_UNITS = new Set(['oz', 'lb', 'cup', 'fl oz', 'pint', 'quart']);
+
+// Used the same way in both systems
+const SPOON_UNITS = new Set(['tsp', 'tbsp']);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest first so "brown sugar" wins over "sugar"
+const DENSITY_NAMES = Object.keys(INGREDIENT_DENSITIES).sort((a, b) => b.length - a.length);
+
+/**
+ * Grams per cup for an ingredient name or line, e.g. "all-purpose flour";
+ * null when the ingredient isn't in the table
+ */
+export function findIngredientDensity(ingredient: string): IngredientDensity | null {
+  const text = ingredient.toLowerCase();
+  const name = DENSITY_NAMES.find(entry => new RegExp(`\\b${escapeRegExp(entry)}(s|es)?\\b`).test(text));
+  return name ? INGREDIENT_DENSITIES[name] : null;
+}
+
+export function normalizeQuantity(quantity: Quantity): NormalizedAmount | null {
+  if (!quantity.unit) return null;
+  const grams = GRAMS_PER_UNIT[quantity.unit];
+  const factor = grams ?? MILLILITRES_PER_UNIT[quantity.unit];
+  if (factor === undefined) return null;
+
+  return {
+    dimension: grams !== undefined ? 'mass' : 'volume',
+    value: quantity.value * factor,
+    ...(quantity.maxValue !== undefined ? { maxValue: quantity.maxValue * factor } : {}),
+  };
+}
+
+/**
+ * Reads an amount such as "2 cups" or "250g" into grams or millilitres.
+ * Returns null for counts ("2 medium") and text without an amount.
+ */
+export function normalizeAmount(text: string): NormalizedAmount | null {
+  const quantity = parseQuantity(text);
+  return quantity ? normalizeQuantity(quantity) : null;
+}
+
+// Converted amounts are rounded to what a cook would measure
+function roundForUnit(value: number, unit: string): number {
+  if (METRIC_UNITS.has(unit)) return value;
+  const step = unit === 'oz' && value >= 1 ? 0.5 : unit === 'tsp' && value < 0.25 ? 0.125 : 0.25;
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+function pickUnit(dimension: Dimension, value: number, system: UnitSystem): string {
+  if (system === 'metric') {
+    if (dimension === 'mass') return value >= 1000 ? 'kg' : 'g';
+    return value >= 1000 ? 'l' : 'ml';
+  }
+  if (dimension === 'mass') return value >= GRAMS_PER_UNIT.lb ? 'lb' : 'oz';
+  if (value < MILLILITRES_PER_UNIT.tbsp) return 'tsp';
+  return value < MILLILITRES_PER_UNIT.cup / 4 ? 'tbsp' : 'cup';
+}
+
+/**
+ * Converts a parsed amount to the given system. Volumes of ingredients in
+ * INGREDIENT_DENSITIES become weights for metric, and baking staples become
+ * cups for imperial. Counts, spoons and amounts already in the system are
+ * returned unchanged.
+ */
+export function convertQuantity(quantity: Quantity, system: UnitSystem, ingredient = ''): Quantity {
+  if (!quantity.unit || SPOON_UNITS.has(quantity.unit)) return quantity;
+  const normalized = normalizeQuantity(quantity);
+  if (!normalized) return quantity;
+
+  const density = findIngredientDensity(ingredient || quantity.rest);
+  const cupMillilitres = MILLILITRES_PER_UNIT.cup;
+  let { dimension } = normalized;
+  let ratio = 1;
+
+  if (system === 'metric' && dimension === 'volume' && density) {
+    dimension = 'mass';
+    ratio = density.gramsPerCup / cupMillilitres;
+  } else if (system === 'imperial' && dimension === 'mass' && density?.measuredByVolume) {
+    dimension = 'volume';
+    ratio = cupMillilitres / density.gramsPerCup;
+  }
+
+  const systemUnits = system === 'metric' ? METRIC_UNITS : IMPERIAL_UNITS;
+  if (ratio === 1 && systemUnits.has(quantity.unit)) return quantity;
+
+  const value = normalized.value * ratio;
+  const unit = pickUnit(dimension, value, system);
+  const factor = dimension === 'mass' ? GRAMS_PER_UNIT[unit] : MILLILITRES_PER_UNIT[unit];
+  return {
+    ...quantity,
+    value: roundForUnit(value / factor, unit),
+    ...(normalized.maxValue !== undefined
+      ? { maxValue: roundForUnit((normalized.maxValue * ratio) / factor, unit) }
+      : {}),
+    unit,
+  };
+}
+
+/**
+ * Converts the amount at the start of an amount or ingredient line, e.g.
+ * "250g pasta" to "9 oz pasta". The ingredient name, when given, is used
+ * for volume-to-weight conversions; otherwise the rest of the line is.
+ */
+export function convertAmount(text: string, system: UnitSystem, ingredient?: string): string {
+  const quantity = parseQuantity(text);
+  if (!quantity) return text;
+  const converted = convertQuantity(quantity, system, ingredient);
+  return converted === quantity ? text : formatQuantity(converted);
+}
+
+/**
+ * Copy of the recipe with its ingredient amounts in the given system
+ */
+export function convertRecipeUnits(recipe: Recipe, system: UnitSystem): Recipe {
+  return {
+    ...recipe,
+    currentIngredients: recipe.currentIngredients.map(line => convertAmount(line, system)),
+    extraIngredients: recipe.extraIngredients.map(ingredient => ({
+      ...ingredient,
+      amount: convertAmount(ingredient.amount, system, ingredient.item),
+    })),
+  };
+}
+
+export function kcalToKilojoules(kcal: number): number {
+  return Math.round(kcal * KILOJOULES_PER_KCAL);
+}
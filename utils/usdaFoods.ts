@@ -0,0 +1,39 @@
+import usdaFoodsAsset from '@/assets/data/usdaFoods.json';
+import { FoodNutrition, NUTRIENT_FIELDS } from '@/constants/NutritionDatabase';
+import { isRecord } from '@/utils/recipeSchema';
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * The foods of a table built by scripts/build-nutrition-data.js, keyed by
+ * lowercase name, in the same per-100g shape as NUTRITION_DATABASE. Entries
+ * missing a nutrient are skipped rather than counted as zero.
+ */
+export function readUsdaFoods(data: unknown): Record<string, FoodNutrition> {
+  const foods: Record<string, FoodNutrition> = {};
+  if (!isRecord(data) || !isRecord(data.foods)) return foods;
+
+  Object.entries(data.foods).forEach(([name, entry]) => {
+    if (!isRecord(entry) || !NUTRIENT_FIELDS.every(field => isAmount(entry[field]))) {
+      console.warn(`Skipping USDA food "${name}" with missing nutrients`);
+      return;
+    }
+
+    const food = NUTRIENT_FIELDS.reduce(
+      (result, field) => ({ ...result, [field]: entry[field] }),
+      {} as FoodNutrition
+    );
+    foods[name.trim().toLowerCase()] = {
+      ...food,
+      ...(isAmount(entry.gramsPerPiece) && entry.gramsPerPiece > 0 ? { gramsPerPiece: entry.gramsPerPiece } : {}),
+      ...(isAmount(entry.gramsPerMl) && entry.gramsPerMl > 0 ? { gramsPerMl: entry.gramsPerMl } : {}),
+    };
+  });
+
+  return foods;
+}
+
+// The bundled SR Legacy subset, loaded once
+export const USDA_FOODS = readUsdaFoods(usdaFoodsAsset);